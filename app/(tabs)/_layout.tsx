@@ -2,8 +2,13 @@ import { Tabs } from 'expo-router';
 import React from 'react';
 import { Platform, View } from 'react-native';
 import FloatingTabBar from '@/components/layout/FloatingTabBar';
+import { useAuth } from '@/contexts/AuthContext';
 
 export default function TabLayout() {
+  const { userType } = useAuth();
+  // Vendors get their sales dashboard where customers see accepted stores
+  const isVendor = userType === 'vendor';
+
   return (
     <Tabs
       tabBar={(props) => <FloatingTabBar {...props} />}
@@ -34,10 +39,18 @@ export default function TabLayout() {
           title: 'Pay',
         }}
       />
+      <Tabs.Screen
+        name="dashboard"
+        options={{
+          title: 'Dashboard',
+          href: isVendor ? undefined : null,
+        }}
+      />
       <Tabs.Screen
         name="vendors"
         options={{
           title: 'Accepted Stores',
+          href: isVendor ? null : undefined,
         }}
       />
       <Tabs.Screen
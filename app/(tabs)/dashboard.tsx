@@ -0,0 +1,237 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, RefreshControl, ActivityIndicator } from 'react-native';
+import { router } from 'expo-router';
+import { ClipboardList, Users } from 'lucide-react-native';
+import { ThemedView } from '@/components/core/ThemedView';
+import { RevenueChart } from '@/components/vendor/RevenueChart';
+import { TokenBreakdown } from '@/components/vendor/TokenBreakdown';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useBalance } from '@/contexts/BalanceContext';
+import { fetchTokenValuations } from '@/services/valuationService';
+import type { TokenValuation } from '@/services/valuationService';
+import { vendorSales } from '@/services/vendorSalesService';
+import type { VendorSales } from '@/services/vendorSalesService';
+import { computeVendorAnalytics } from '@/utils/vendorAnalytics';
+import type { RevenuePeriod } from '@/utils/vendorAnalytics';
+
+const PERIODS: { value: RevenuePeriod; label: string; current: string }[] = [
+  { value: 'daily', label: 'Daily', current: 'Today' },
+  { value: 'weekly', label: 'Weekly', current: 'This week' },
+  { value: 'monthly', label: 'Monthly', current: 'This month' },
+];
+
+const formatUSD = (value: number) => Intl.NumberFormat('en-US', {
+  style: 'currency',
+  currency: 'USD',
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+}).format(value);
+
+const formatUpdated = (at: number) => {
+  const minutes = Math.floor((Date.now() - at) / 60000);
+  if (minutes < 1) return 'Updated just now';
+  if (minutes < 60) return `Updated ${minutes}m ago`;
+  return `Updated ${new Date(at).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}`;
+};
+
+export default function DashboardScreen() {
+  const { colorScheme } = useTheme();
+  const isDark = colorScheme === 'dark';
+  const { walletAddress } = useAuth();
+  const { balances } = useBalance();
+  const [data, setData] = useState<VendorSales | null>(null);
+  const [valuations, setValuations] = useState<TokenValuation[]>([]);
+  const [period, setPeriod] = useState<RevenuePeriod>('daily');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!walletAddress) return;
+
+    setError(null);
+    try {
+      const [sales, tokenValuations] = await Promise.all([
+        vendorSales.refresh(walletAddress),
+        fetchTokenValuations(walletAddress).catch(() => [] as TokenValuation[]),
+      ]);
+      setData(sales);
+      setValuations(tokenValuations);
+    } catch (err) {
+      console.error('Failed to refresh sales:', err);
+      setError('Could not refresh sales');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [walletAddress]);
+
+  // Show the cached figures straight away, then bring them up to date
+  useEffect(() => {
+    if (!walletAddress) return;
+
+    setData(null);
+    setIsLoading(true);
+    vendorSales.getCached(walletAddress).then(cached => {
+      if (cached) {
+        setData(cached);
+        setIsLoading(false);
+      }
+    }).finally(refresh);
+  }, [walletAddress, refresh]);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await refresh();
+    setIsRefreshing(false);
+  };
+
+  // The vendor's USD value for one of each token: market price plus their adjustment
+  const vendorValuations = useMemo(() => {
+    const result: Record<string, number> = { USD: 1 };
+    for (const balance of balances) {
+      const market = parseFloat(balance.marketValuation || '0');
+      const valuation = valuations.find(item => (item.token_symbol || item.token_name.toUpperCase()) === balance.tokenSymbol);
+      result[balance.tokenSymbol] = market + (valuation?.current_valuation || 0);
+    }
+    return result;
+  }, [balances, valuations]);
+
+  const analytics = useMemo(
+    () => computeVendorAnalytics(data?.sales || [], vendorValuations),
+    [data, vendorValuations]
+  );
+
+  const buckets = analytics.revenue[period];
+  const current = buckets[buckets.length - 1];
+  const averageTicket = current && current.sales > 0 ? current.revenueUSD / current.sales : 0;
+  const selectedPeriod = PERIODS.find(option => option.value === period)!;
+
+  const cardStyle = {
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: isDark ? 0.3 : 0.08,
+    shadowRadius: 8,
+    elevation: 4,
+  };
+
+  return (
+    <ThemedView className="flex-1">
+      <View className="flex-row items-end justify-between pt-20 pb-5 px-5">
+        <View>
+          <Text className="text-3xl font-bold text-black dark:text-white">Dashboard</Text>
+          {data && (
+            <Text className="text-sm text-gray-500 mt-1">
+              {error ? `Offline • ${formatUpdated(data.lastUpdated)}` : formatUpdated(data.lastUpdated)}
+            </Text>
+          )}
+        </View>
+        <TouchableOpacity
+          onPress={() => router.push('/settlement')}
+          className="flex-row items-center px-3 py-2 rounded-xl bg-gray-100 dark:bg-gray-800"
+        >
+          <ClipboardList size={16} color={isDark ? '#FFFFFF' : '#000000'} />
+          <Text className="text-sm font-semibold text-black dark:text-white ml-1.5">End of day</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        className="flex-1"
+        contentContainerStyle={{ paddingBottom: 120 }}
+        refreshControl={
+          <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} tintColor="#E5E7EB" />
+        }
+      >
+        {isLoading && !data ? (
+          <ActivityIndicator className="my-16" color={isDark ? '#60A5FA' : '#3B82F6'} />
+        ) : !data ? (
+          <View className="items-center px-6 py-16">
+            <Text className="text-gray-500 text-center mb-4">{error}</Text>
+            <TouchableOpacity onPress={refresh} className="bg-blue-500 dark:bg-blue-600 px-6 py-3 rounded-xl">
+              <Text className="text-white font-semibold">Try Again</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <>
+            {/* Period selector */}
+            <View className="flex-row mx-4 mb-4 p-1 rounded-xl bg-gray-100 dark:bg-gray-800">
+              {PERIODS.map(option => (
+                <TouchableOpacity
+                  key={option.value}
+                  onPress={() => setPeriod(option.value)}
+                  className={`flex-1 py-2 rounded-lg items-center ${period === option.value ? 'bg-white dark:bg-gray-700' : ''}`}
+                >
+                  <Text className={`text-sm font-semibold ${period === option.value ? 'text-black dark:text-white' : 'text-gray-500'}`}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {/* Current period figures */}
+            <View className="flex-row mx-4 mb-4">
+              {[
+                { label: selectedPeriod.current, value: formatUSD(current?.revenueUSD || 0) },
+                { label: 'Sales', value: String(current?.sales || 0) },
+                { label: 'Avg ticket', value: formatUSD(averageTicket) },
+              ].map((stat, index) => (
+                <View
+                  key={stat.label}
+                  className={`flex-1 p-3 rounded-xl bg-white dark:bg-gray-800 ${index > 0 ? 'ml-3' : ''}`}
+                  style={cardStyle}
+                >
+                  <Text className="text-xs text-gray-500 mb-1">{stat.label}</Text>
+                  <Text className="text-base font-bold text-gray-900 dark:text-white" numberOfLines={1} adjustsFontSizeToFit>
+                    {stat.value}
+                  </Text>
+                </View>
+              ))}
+            </View>
+
+            {/* Revenue chart */}
+            <View className="mx-4 mb-4 p-4 rounded-xl bg-white dark:bg-gray-800" style={cardStyle}>
+              <Text className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Revenue</Text>
+              <RevenueChart buckets={buckets} />
+            </View>
+
+            {/* Tokens customers paid with */}
+            <View className="mx-4 mb-4 p-4 rounded-xl bg-white dark:bg-gray-800" style={cardStyle}>
+              <Text className="text-lg font-semibold text-gray-900 dark:text-white mb-1">Paid With</Text>
+              <Text className="text-xs text-gray-500 mb-4">
+                Compared with your valuations, across all recent sales
+              </Text>
+              <TokenBreakdown tokens={analytics.tokens} />
+            </View>
+
+            {/* Repeat customers */}
+            <View className="mx-4 mb-4 p-4 rounded-xl bg-white dark:bg-gray-800" style={cardStyle}>
+              <Text className="text-lg font-semibold text-gray-900 dark:text-white mb-2">Top Repeat Customers</Text>
+              {analytics.topCustomers.length === 0 ? (
+                <Text className="text-sm text-gray-500 text-center py-4">No repeat customers yet</Text>
+              ) : (
+                analytics.topCustomers.map(customer => (
+                  <View key={customer.address} className="flex-row items-center justify-between py-2">
+                    <View className="flex-row items-center flex-1">
+                      <View className="w-9 h-9 rounded-full bg-gray-100 dark:bg-gray-700 items-center justify-center mr-3">
+                        <Users size={16} color={isDark ? '#9CA3AF' : '#6B7280'} />
+                      </View>
+                      <View className="flex-1">
+                        <Text className="font-semibold text-gray-900 dark:text-white" numberOfLines={1}>
+                          {customer.name || `${customer.address.slice(0, 8)}...`}
+                        </Text>
+                        <Text className="text-xs text-gray-500">
+                          {customer.purchases} purchases • last {new Date(customer.lastPurchaseAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                        </Text>
+                      </View>
+                    </View>
+                    <Text className="font-semibold text-gray-900 dark:text-white">{formatUSD(customer.spentUSD)}</Text>
+                  </View>
+                ))
+              )}
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </ThemedView>
+  );
+}
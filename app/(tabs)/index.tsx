@@ -1,29 +1,18 @@
-import { StyleSheet, Alert, AppState } from 'react-native';
+import { StyleSheet, Alert } from 'react-native';
 import { WalletIndex } from '@/components/wallet/WalletIndex';
 import { ThemedView } from '@/components/core/ThemedView';
 import { useBalance } from '@/contexts/BalanceContext';
+import { formatTokenAmount, fromBaseUnits } from '@/utils/tokenAmount';
 import { useEffect, useState } from 'react';
 
 export default function HomeScreen() {
-  const { balances, totalValueUSD, refreshBalances } = useBalance();
+  const { balances, totalValueUSD, refreshBalances, lastUpdated, isOffline, valueHistory } = useBalance();
   const [refreshing, setRefreshing] = useState(false);
   const [showCheckmark, setShowCheckmark] = useState(false);
 
+  // BalanceProvider also refreshes whenever the app returns to the foreground
   useEffect(() => {
-    // Initial fetch
     refreshBalances();
-
-    // Set up AppState listener for background/foreground transitions
-    const subscription = AppState.addEventListener('change', (nextAppState) => {
-      if (nextAppState === 'active') {
-        refreshBalances();
-      }
-    });
-
-    // Cleanup subscription on unmount
-    return () => {
-      subscription.remove();
-    };
   }, []);
 
 
@@ -39,7 +28,7 @@ export default function HomeScreen() {
   const transformedTokens = balances.map(token => ({
     name: token.tokenName,
     symbol: token.tokenSymbol,
-    amount: token.amount.toString(),
+    amount: formatTokenAmount(fromBaseUnits(token.baseUnits, token.decimals)),
     value: token.valueUSD,
     iconUrl: token.logoUrl,
   }));
@@ -52,6 +41,9 @@ export default function HomeScreen() {
         showCopyCheckmark={showCheckmark}
         isRefreshing={refreshing}
         onRefresh={handleRefresh}
+        lastUpdated={lastUpdated}
+        isOffline={isOffline}
+        valueHistory={valueHistory}
       />
     </ThemedView>
   );
@@ -1,13 +1,18 @@
 import React, { useState } from 'react';
-import { View, Text, TouchableOpacity, ScrollView, Alert } from 'react-native';
+import { View, Text, TouchableOpacity, ScrollView, Alert, Switch, Platform } from 'react-native';
 import { useTheme } from '@/contexts/ThemeContext';
 import { ThemedView } from '@/components/core/ThemedView';
 import { useAuth } from '@/contexts/AuthContext';
+import { useAppLock, AUTO_LOCK_OPTIONS } from '@/contexts/AppLockContext';
 import SeedPhraseWarningModal from '@/components/modals/SeedPhraseWarningModal';
 import LoadWalletModal from '@/components/modals/LoadWalletModal';
 import LogoutModal from '@/components/modals/LogoutModal';
+import AccountSwitcherModal from '@/components/modals/AccountSwitcherModal';
 import { Wallet } from 'lucide-react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { storage } from '@/services/storageService';
+import { decryptData } from '@/services/encryptionService';
+import { AUTH_KEYS, getWalletKey } from '@/constants/storageKeys';
 import { IconSymbol, IconSymbolName } from '@/components/core/IconSymbol';
 
 // Define types for settings items
@@ -47,13 +52,26 @@ type SettingsSection = {
 
 export default function SettingsScreen() {
   const { colorScheme } = useTheme();
-  const { logout, seedPhrase } = useAuth();
+  const { logout, seedPhrase, activeWalletId, wallets } = useAuth();
+  const {
+    hasPin,
+    biometricsAvailable,
+    biometricsEnabled,
+    autoLockTimeout,
+    isLockEnabled,
+    requireAuthentication,
+    setupPin,
+    removePin,
+    setBiometricsEnabled,
+    setAutoLockTimeout,
+  } = useAppLock();
   const isDarkMode = colorScheme === 'dark';
   
   // These would be connected to actual functionality in a real implementation
   const [showSeedPhraseModal, setShowSeedPhraseModal] = useState(false);
   const [showLogoutModal, setShowLogoutModal] = useState(false);
   const [showLoadWalletModal, setShowLoadWalletModal] = useState(false);
+  const [showAccountSwitcher, setShowAccountSwitcher] = useState(false);
   const [loadedSeedPhrase, setLoadedSeedPhrase] = useState<string | null>(null);
   const [isLoadingSeedPhrase, setIsLoadingSeedPhrase] = useState(false);
   
@@ -73,6 +91,12 @@ export default function SettingsScreen() {
   const handleViewSeedPhrase = async () => {
     // console.log('handleViewSeedPhrase called, seedPhrase from context:', !!seedPhrase);
     
+    // Re-authenticate before revealing the recovery phrase
+    const authorized = await requireAuthentication('Verify it\'s you to view your seed phrase');
+    if (!authorized) {
+      return;
+    }
+    
     // If we have the seed phrase from context, use it
     if (seedPhrase) {
       setShowSeedPhraseModal(true);
@@ -82,21 +106,14 @@ export default function SettingsScreen() {
     // Set loading state
     setIsLoadingSeedPhrase(true);
     
-    // Otherwise, try to load it from storage (web fallback)
-    // console.log('Attempting to load seed phrase from storage...');
+    // Otherwise, try to load it from storage
     try {
-      // Try AsyncStorage directly (since SecureStore doesn't work on web)
-      const encryptedSeed = await AsyncStorage.getItem('encrypted-seed-phrase');
-      // console.log('Encrypted seed from storage:', encryptedSeed ? 'Found' : 'Not found');
+      const encryptedSeed = activeWalletId
+        ? await storage.getItem(getWalletKey(AUTH_KEYS.SEED_PHRASE, activeWalletId), 'secure')
+        : null;
       
       if (encryptedSeed) {
-        // Simple decryption - remove the "encrypted:" prefix
-        let decrypted = encryptedSeed;
-        if (encryptedSeed.startsWith('encrypted:')) {
-          decrypted = encryptedSeed.substring(10);
-        }
-        
-        // console.log('Decrypted seed phrase words:', decrypted ? decrypted.split(' ').length : 0);
+        const decrypted = await decryptData(encryptedSeed);
         
         if (decrypted && decrypted.split(' ').length >= 12) {
           setLoadedSeedPhrase(decrypted);
@@ -131,6 +148,76 @@ export default function SettingsScreen() {
     setShowLoadWalletModal(true);
   };
   
+  const handleSwitchWallet = () => {
+    setShowAccountSwitcher(true);
+  };
+  
+  const activeWallet = wallets.find(wallet => wallet.id === activeWalletId);
+  
+  const handleSetupPin = async () => {
+    const success = await setupPin();
+    if (success) {
+      Alert.alert('PIN Saved', 'Your PIN will be required to unlock the app and approve payments.');
+    }
+  };
+  
+  const handleRemovePin = async () => {
+    await removePin();
+  };
+  
+  const handleAutoLock = () => {
+    Alert.alert(
+      'Auto-Lock',
+      'Lock the app after it has been in the background for',
+      [
+        ...AUTO_LOCK_OPTIONS.map(option => ({
+          text: option.label,
+          onPress: () => { setAutoLockTimeout(option.value); },
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+  
+  const autoLockLabel = AUTO_LOCK_OPTIONS.find(option => option.value === autoLockTimeout)?.label || 'Custom';
+  
+  // Security settings, only showing what this device supports
+  const securityItems: SettingItem[] = [];
+  if (biometricsAvailable) {
+    securityItems.push({
+      title: 'Biometric Unlock',
+      description: 'Use Face ID or fingerprint to unlock and approve payments',
+      type: 'toggle',
+      value: biometricsEnabled,
+      onValueChange: (value: boolean) => { setBiometricsEnabled(value); },
+      icon: 'faceid',
+    });
+  }
+  securityItems.push({
+    title: hasPin ? 'Change PIN' : 'Set PIN',
+    description: hasPin ? 'Update your app unlock PIN' : 'Protect payments and your seed phrase with a PIN',
+    type: 'link',
+    onPress: handleSetupPin,
+    icon: 'lock.fill',
+  });
+  if (hasPin) {
+    securityItems.push({
+      title: 'Remove PIN',
+      description: 'Stop asking for a PIN',
+      type: 'link',
+      onPress: handleRemovePin,
+      icon: 'lock.fill',
+    });
+  }
+  securityItems.push({
+    title: 'Auto-Lock',
+    description: isLockEnabled ? autoLockLabel : 'Set a PIN or enable biometrics first',
+    type: 'link',
+    onPress: handleAutoLock,
+    icon: 'clock.arrow.circlepath',
+    disabled: !isLockEnabled,
+  });
+  
   // Setting sections
   const sections: SettingsSection[] = [
     {
@@ -144,6 +231,15 @@ export default function SettingsScreen() {
           icon: 'house.fill',
           customIcon: <Wallet size={24} color="#2563EB" />,
         },
+        {
+          title: 'Switch Wallet',
+          description: wallets.length > 1
+            ? `${activeWallet?.userName || 'Current wallet'} · ${wallets.length} wallets on this device`
+            : 'Add or switch between wallets',
+          type: 'link',
+          onPress: handleSwitchWallet,
+          icon: 'arrow.left.arrow.right',
+        },
         {
           title: isLoadingSeedPhrase ? 'Loading...' : 'View Seed Phrase',
           description: 'View your wallet recovery phrase',
@@ -154,13 +250,17 @@ export default function SettingsScreen() {
         },
         {
           title: 'Sign Out',
-          description: 'Sign out of your wallet',
+          description: wallets.length > 1 ? 'Remove this wallet from the device' : 'Sign out of your wallet',
           type: 'link',
           onPress: handleLogout,
           icon: 'arrow.right.square.fill',
         },
       ],
     },
+    {
+      title: 'Security',
+      items: securityItems,
+    },
     {
       title: 'About',
       items: [
@@ -229,7 +329,7 @@ export default function SettingsScreen() {
                       </View>
                     </View>
                     
-                    {/* {item.type === 'toggle' && (
+                    {item.type === 'toggle' && (
                       <Switch
                         value={(item as ToggleSettingItem).value}
                         onValueChange={(item as ToggleSettingItem).onValueChange}
@@ -237,7 +337,7 @@ export default function SettingsScreen() {
                         thumbColor={Platform.OS === 'ios' ? undefined : (item as ToggleSettingItem).value ? '#fff' : '#f4f3f4'}
                         ios_backgroundColor="#3e3e3e"
                       />
-                    )} */}
+                    )}
                     
                     {item.type === 'link' && (
                       <IconSymbol 
@@ -293,6 +393,11 @@ export default function SettingsScreen() {
         onClose={() => setShowLoadWalletModal(false)}
       />
       
+      <AccountSwitcherModal
+        visible={showAccountSwitcher}
+        onClose={() => setShowAccountSwitcher(false)}
+      />
+      
       <LogoutModal
         visible={showLogoutModal}
         onClose={() => setShowLogoutModal(false)}
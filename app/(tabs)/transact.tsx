@@ -1,9 +1,12 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { View, TouchableOpacity } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
 import { ThemedText } from '@/components/core/ThemedText';
 import Pay from '@/components/wallet/transaction/Pay';
 import Receive from '@/components/wallet/transaction/Receive';
-import { ActiveTransactionProvider } from '@/contexts/ActiveTransactionContext';
+import { TransactionProvider } from '@/contexts/TransactionContext';
+import { paymentLinkHints } from '@/utils/paymentLink';
+import type { PaymentLink } from '@/utils/paymentLink';
 
 // Toggle button component
 function ToggleButton({ 
@@ -31,6 +34,17 @@ function ToggleButton({
 function TransactContent() {
   const [transactionType, setTransactionType] = useState<'pay' | 'receive'>('pay');
   const [hideToggle, setHideToggle] = useState(false);
+  const [paymentLink, setPaymentLink] = useState<PaymentLink | null>(null);
+  const params = useLocalSearchParams<{ pay?: string; amount?: string; vendor?: string }>();
+
+  // Payment links land here, see app/pay/[id].tsx
+  useEffect(() => {
+    if (!params.pay) return;
+
+    setTransactionType('pay');
+    setPaymentLink({ paymentId: params.pay, ...paymentLinkHints(params) });
+    router.setParams({ pay: undefined, amount: undefined, vendor: undefined });
+  }, [params.pay]);
 
   const switchView = (type: 'pay' | 'receive') => {
     if (type !== transactionType) {
@@ -46,7 +60,11 @@ function TransactContent() {
   return (
     <View style={{ flex: 1 }}>
       {transactionType === 'pay' ? (
-        <Pay onSuccessStateChange={handleSuccessStateChange} />
+        <Pay
+          onSuccessStateChange={handleSuccessStateChange}
+          paymentLink={paymentLink}
+          onPaymentLinkHandled={() => setPaymentLink(null)}
+        />
       ) : (
         <Receive onSuccessStateChange={handleSuccessStateChange} />
       )}
@@ -76,8 +94,8 @@ function TransactContent() {
 
 export default function TransactScreen() {
   return (
-    <ActiveTransactionProvider>
+    <TransactionProvider>
       <TransactContent />
-    </ActiveTransactionProvider>
+    </TransactionProvider>
   );
 }
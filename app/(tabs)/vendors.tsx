@@ -4,15 +4,7 @@ import { ThemedView } from '@/components/core/ThemedView';
 import { useTheme } from '@/contexts/ThemeContext';
 import { ExternalLink, MapPin, Store } from 'lucide-react-native';
 import { VendorAPI } from '@/services/api';
-
-// Define vendor interface matching API response
-interface PartneredVendor {
-  _id: string;
-  name: string;
-  description: string;
-  google_maps_link?: string;
-  website_link?: string;
-}
+import type { PartneredVendor } from '@/types/api';
 
 
 export default function VendorsScreen() {
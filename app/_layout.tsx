@@ -12,9 +12,11 @@ import { GestureHandlerRootView } from 'react-native-gesture-handler';
 
 import { ThemeProvider } from '@/contexts/ThemeContext';
 import { AuthProvider, useAuth, AuthStatus, OnboardingStep } from '@/contexts/AuthContext';
+import { AppLockProvider } from '@/contexts/AppLockContext';
 import { BalanceProvider } from '@/contexts/BalanceContext';
 import { PendingTransactionManagerProvider } from '@/contexts/PendingTransactionManager';
 import { TransactionHistoryStoreProvider } from '@/contexts/TransactionHistoryStore';
+import { PaymentOutboxProvider } from '@/contexts/PaymentOutboxContext';
 import '../global.css';
 
 import WelcomeScreen from '../app/auth/welcome';
@@ -55,13 +57,17 @@ export default function RootLayout() {
     <GestureHandlerRootView style={{ flex: 1 }}>
       <ThemeProvider>
         <AuthProvider>
-          <BalanceProvider>
-            <PendingTransactionManagerProvider>
-              <TransactionHistoryStoreProvider>
-                <AppContent />
-              </TransactionHistoryStoreProvider>
-            </PendingTransactionManagerProvider>
-          </BalanceProvider>
+          <AppLockProvider>
+            <BalanceProvider>
+              <PendingTransactionManagerProvider>
+                <TransactionHistoryStoreProvider>
+                  <PaymentOutboxProvider>
+                    <AppContent />
+                  </PaymentOutboxProvider>
+                </TransactionHistoryStoreProvider>
+              </PendingTransactionManagerProvider>
+            </BalanceProvider>
+          </AppLockProvider>
         </AuthProvider>
       </ThemeProvider>
     </GestureHandlerRootView>
@@ -41,7 +41,7 @@ const GridBackground = ({ color }: { color: string }) => {
 };
 
 const WelcomeScreen = () => {
-  const { startOnboarding, setOnboardingStep } = useAuth();
+  const { startOnboarding, setOnboardingStep, wallets, cancelAddWallet } = useAuth();
   const { colorScheme } = useTheme();
   const isDark = colorScheme === 'dark';
   const bounceAnim = useRef(new Animated.Value(0)).current;
@@ -132,6 +132,21 @@ const WelcomeScreen = () => {
                 Import Existing Wallet
               </Text>
             </TouchableOpacity>
+
+            {/* Adding another wallet, offer a way back to the stored ones */}
+            {wallets.length > 0 && (
+              <TouchableOpacity 
+                className="py-2 items-center"
+                onPress={cancelAddWallet}
+              >
+                <Text 
+                  className="text-base text-gray-600 dark:text-gray-400"
+                  style={{ fontFamily: 'SF-Pro-Rounded-Medium' }}
+                >
+                  Back to My Wallets
+                </Text>
+              </TouchableOpacity>
+            )}
           </View>
         </View>
 
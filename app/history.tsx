@@ -1,14 +1,16 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { SafeAreaView, TouchableOpacity, View } from 'react-native';
 import { Stack, router } from 'expo-router';
 import { ThemedView } from '@/components/core/ThemedView';
 import { ThemedText } from '@/components/core/ThemedText';
 import { useTheme } from '@/contexts/ThemeContext';
 import TransactionHistory from '@/components/wallet/TransactionHistory';
-import { ArrowLeft } from 'lucide-react-native';
+import ExportActivityModal from '@/components/wallet/ExportActivityModal';
+import { ArrowLeft, Share } from 'lucide-react-native';
 
 export default function HistoryScreen() {
   const { colorScheme } = useTheme();
+  const [showExport, setShowExport] = useState(false);
   
   return (
     <>
@@ -31,6 +33,17 @@ export default function HistoryScreen() {
               />
             </TouchableOpacity>
           ),
+          headerRight: () => (
+            <TouchableOpacity
+              onPress={() => setShowExport(true)}
+              style={{ paddingRight: 16 }}
+            >
+              <Share 
+                size={22} 
+                color={colorScheme === 'dark' ? '#FFFFFF' : '#000000'} 
+              />
+            </TouchableOpacity>
+          ),
         }} 
       />
       
@@ -45,6 +58,11 @@ export default function HistoryScreen() {
           />
         </ThemedView>
       </SafeAreaView>
+
+      <ExportActivityModal
+        visible={showExport}
+        onClose={() => setShowExport(false)}
+      />
     </>
   );
 }
\ No newline at end of file
@@ -0,0 +1,30 @@
+import React from 'react';
+import { Redirect, useLocalSearchParams } from 'expo-router';
+import { normalizePaymentId, paymentLinkHints } from '@/utils/paymentLink';
+
+/**
+ * Landing route for payment links (indexwallet://pay/<id> and https://<host>/pay/<id>)
+ * Hands the payment to the Pay screen, which opens the confirmation straight away
+ */
+export default function PaymentLinkScreen() {
+  const { id, ...params } = useLocalSearchParams<{ id: string; amount?: string; vendor?: string }>();
+  const paymentId = normalizePaymentId(id || '');
+
+  if (!paymentId) {
+    return <Redirect href="/transact" />;
+  }
+
+  const { amount, vendor } = paymentLinkHints(params);
+  return (
+    <Redirect
+      href={{
+        pathname: '/transact',
+        params: {
+          pay: paymentId,
+          ...(amount !== undefined && { amount: amount.toFixed(2) }),
+          ...(vendor && { vendor }),
+        },
+      }}
+    />
+  );
+}
@@ -0,0 +1,27 @@
+import React from 'react';
+import { Redirect, useLocalSearchParams } from 'expo-router';
+import { isWalletAddress } from '@/utils/paymentLink';
+
+/**
+ * Landing route for recipient links (indexwallet://send/<address>)
+ * Opens the send flow with the recipient already chosen
+ */
+export default function RecipientLinkScreen() {
+  const { address, name } = useLocalSearchParams<{ address: string; name?: string }>();
+
+  if (!address || !isWalletAddress(address)) {
+    return <Redirect href="/send" />;
+  }
+
+  return (
+    <Redirect
+      href={{
+        pathname: '/send',
+        params: {
+          to: address,
+          ...(name && { name: name.slice(0, 60) }),
+        },
+      }}
+    />
+  );
+}
@@ -0,0 +1,567 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Stack, router, useLocalSearchParams } from 'expo-router';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import QRCode from 'react-native-qrcode-svg';
+import { ArrowLeft, CheckCircle, QrCode, ScanLine, User, X } from 'lucide-react-native';
+import { ThemedView } from '@/components/core/ThemedView';
+import { ThemedText } from '@/components/core/ThemedText';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useBalance } from '@/contexts/BalanceContext';
+import { useAppLock } from '@/contexts/AppLockContext';
+import { usePaymentOutbox } from '@/contexts/PaymentOutboxContext';
+import { TransferAPI } from '@/services/api';
+import { isApiError } from '@/services/apiClient';
+import { contacts } from '@/services/contactsService';
+import type { Contact } from '@/services/contactsService';
+import { prepareSignedPayment } from '@/services/transactionSigningService';
+import { TransactionVerificationError } from '@/services/transactionVerificationService';
+import { buildRecipientLink, parseRecipient } from '@/utils/paymentLink';
+import type { RecipientLink } from '@/utils/paymentLink';
+import { formatTokenAmount, formatTokenValue, fromBaseUnits, parseTokenAmount } from '@/utils/tokenAmount';
+import type { CreateTransferRequest, PaymentDetails } from '@/types/api';
+
+const isWeb = Platform.OS === 'web';
+
+type Step = 'recipient' | 'amount' | 'review' | 'sent';
+
+const formatUSD = (value: number) => Intl.NumberFormat('en-US', {
+  style: 'currency',
+  currency: 'USD',
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+}).format(value);
+
+const shortAddress = (address: string) => `${address.slice(0, 4)}…${address.slice(-4)}`;
+
+const showAlert = (title: string, message: string) => {
+  if (isWeb) {
+    alert(`${title}: ${message}`);
+  } else {
+    Alert.alert(title, message);
+  }
+};
+
+/**
+ * Send tokens straight to another wallet: pick who, how much, check the bundle, sign
+ */
+export default function SendScreen() {
+  const { colorScheme } = useTheme();
+  const auth = useAuth();
+  const walletAddress = auth?.walletAddress ?? null;
+  const { balances, refreshBalances } = useBalance();
+  const { requireAuthentication } = useAppLock();
+  const { submitPayment } = usePaymentOutbox();
+  const params = useLocalSearchParams<{ to?: string; name?: string }>();
+
+  const [step, setStep] = useState<Step>('recipient');
+  const [recipient, setRecipient] = useState<RecipientLink | null>(null);
+  const [addressInput, setAddressInput] = useState('');
+  const [savedContacts, setSavedContacts] = useState<Contact[]>([]);
+  const [showScanner, setShowScanner] = useState(false);
+  const [showMyCode, setShowMyCode] = useState(false);
+  const [mode, setMode] = useState<'usd' | 'tokens'>('usd');
+  const [amountInput, setAmountInput] = useState('');
+  const [tokenInputs, setTokenInputs] = useState<Record<string, string>>({});
+  const [note, setNote] = useState('');
+  const [transfer, setTransfer] = useState<PaymentDetails | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const iconColor = colorScheme === 'dark' ? '#FFFFFF' : '#000000';
+  const inputClass = `border rounded-xl py-3 px-4 text-base ${
+    colorScheme === 'dark' ? 'bg-gray-800 border-gray-700 text-white' : 'bg-white border-gray-300 text-gray-900'
+  }`;
+  const placeholderColor = colorScheme === 'dark' ? '#9CA3AF' : '#6B7280';
+
+  useEffect(() => {
+    if (!walletAddress) return;
+    contacts.getContacts(walletAddress).then(setSavedContacts);
+  }, [walletAddress]);
+
+  // Opened from a recipient link, see app/send/[address].tsx
+  useEffect(() => {
+    if (!params.to) return;
+    chooseRecipient(parseRecipient(params.to), params.name);
+  }, [params.to]);
+
+  const sendable = balances.filter(balance => balance.tokenKey && balance.amount > 0);
+  const recipientName = recipient?.name || transfer?.vendor_name || (recipient ? shortAddress(recipient.address) : '');
+
+  const chooseRecipient = (link: RecipientLink | null, name?: string) => {
+    if (!link) {
+      setError("That isn't a wallet address");
+      return;
+    }
+    if (link.address === walletAddress) {
+      setError('You cannot send to your own wallet');
+      return;
+    }
+    const contact = savedContacts.find(saved => saved.address === link.address);
+    setRecipient({ address: link.address, name: link.name || name || contact?.name });
+    setError(null);
+    setStep('amount');
+  };
+
+  const transferRequest = (): CreateTransferRequest | string => {
+    const base = { from_wallet: walletAddress!, to_wallet: recipient!.address, ...(note.trim() && { note: note.trim() }) };
+
+    if (mode === 'usd') {
+      const amount = parseFloat(amountInput);
+      if (!Number.isFinite(amount) || amount <= 0) return 'Enter an amount to send';
+      return { ...base, amount_usd: Math.round(amount * 100) / 100 };
+    }
+
+    const tokens: Array<{ token_key: string; amount: number }> = [];
+    for (const balance of sendable) {
+      const text = tokenInputs[balance.tokenKey!]?.trim();
+      if (!text) continue;
+      let units: bigint;
+      try {
+        units = parseTokenAmount(text, balance.decimals).units;
+      } catch {
+        return `${balance.tokenSymbol} amount isn't a number`;
+      }
+      if (units <= BigInt(0)) continue;
+      if (units > BigInt(balance.baseUnits)) return `You only have ${formatTokenAmount(fromBaseUnits(balance.baseUnits, balance.decimals))} ${balance.tokenSymbol}`;
+      tokens.push({ token_key: balance.tokenKey!, amount: parseFloat(text) });
+    }
+    if (tokens.length === 0) return 'Enter how much of each token to send';
+    return { ...base, tokens };
+  };
+
+  const handleReview = async () => {
+    if (!walletAddress || !recipient || busy) return;
+    const request = transferRequest();
+    if (typeof request === 'string') {
+      setError(request);
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    try {
+      setTransfer(await TransferAPI.createTransfer(request));
+      setStep('review');
+    } catch (error) {
+      setError(isApiError(error) ? error.message : 'Could not prepare the transfer. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // The unsigned transfer is dropped so it can't be signed later by mistake
+  const handleEdit = () => {
+    if (transfer && walletAddress) {
+      TransferAPI.cancelTransfer(transfer.payment_id, walletAddress)
+        .catch(error => console.error('Failed to cancel transfer:', error));
+    }
+    setTransfer(null);
+    setStep('amount');
+  };
+
+  const rememberRecipient = async () => {
+    if (!walletAddress || !recipient) return;
+    try {
+      setSavedContacts(await contacts.saveContact(walletAddress, {
+        address: recipient.address,
+        name: recipient.name || transfer?.vendor_name || shortAddress(recipient.address),
+        last_sent_at: Date.now(),
+      }));
+    } catch (error) {
+      // Not worth failing the transfer over
+    }
+  };
+
+  const handleSend = async () => {
+    if (!walletAddress || !transfer?.unsigned_transaction || busy) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      const authorized = await requireAuthentication('Authorize this transfer');
+      if (!authorized) return;
+
+      const signedPayment = await prepareSignedPayment(
+        transfer.payment_id,
+        JSON.parse(transfer.unsigned_transaction),
+        transfer,
+        walletAddress,
+        auth?.keyPair?.privateKey
+      );
+
+      const result = await submitPayment(signedPayment);
+      if (result.outcome === 'rejected') {
+        throw result.error;
+      }
+
+      await rememberRecipient();
+      if (result.outcome === 'queued') {
+        showAlert('Transfer Queued', 'You appear to be offline. Your signed transfer has been saved and will be sent when the connection is back.');
+        router.back();
+        return;
+      }
+
+      await refreshBalances();
+      setStep('sent');
+    } catch (error) {
+      if (error instanceof TransactionVerificationError) {
+        showAlert('Transfer Blocked', error.message);
+        return;
+      }
+      setError(isApiError(error) || error instanceof Error ? error.message : 'There was an error sending. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRemoveContact = (contact: Contact) => {
+    if (!walletAddress) return;
+    const remove = async () => setSavedContacts(await contacts.removeContact(walletAddress, contact.address));
+    if (isWeb) {
+      if (confirm(`Remove ${contact.name} from contacts?`)) remove();
+      return;
+    }
+    Alert.alert('Remove Contact', `Remove ${contact.name} from contacts?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Remove', style: 'destructive', onPress: remove },
+    ]);
+  };
+
+  const goBack = () => {
+    if (step === 'review') {
+      handleEdit();
+    } else if (step === 'amount') {
+      setStep('recipient');
+      setError(null);
+    } else {
+      router.back();
+    }
+  };
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'Send',
+          headerShown: true,
+          headerStyle: {
+            backgroundColor: colorScheme === 'dark' ? '#000000' : '#FFFFFF',
+          },
+          headerTintColor: iconColor,
+          headerLeft: () => (
+            <TouchableOpacity
+              onPress={goBack}
+              style={{ paddingLeft: 16 }}
+            >
+              <ArrowLeft size={24} color={iconColor} />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      <SafeAreaView style={{
+        flex: 1,
+        backgroundColor: colorScheme === 'dark' ? '#000000' : '#FFFFFF'
+      }}>
+        <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : undefined} className="flex-1">
+          <ThemedView className="flex-1">
+            <ScrollView className="flex-1 px-4" keyboardShouldPersistTaps="handled">
+              {error && (
+                <View className="bg-red-50 dark:bg-red-900/30 rounded-xl p-3 mt-4">
+                  <ThemedText className="text-sm text-red-600 dark:text-red-300">{error}</ThemedText>
+                </View>
+              )}
+
+              {step === 'recipient' && (
+                <View className="pt-4">
+                  <ThemedText className="text-lg font-bold mb-2">Send to</ThemedText>
+                  <TextInput
+                    className={inputClass}
+                    placeholder="Wallet address"
+                    placeholderTextColor={placeholderColor}
+                    value={addressInput}
+                    onChangeText={setAddressInput}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    returnKeyType="next"
+                    onSubmitEditing={() => chooseRecipient(parseRecipient(addressInput))}
+                  />
+                  <View className="flex-row mt-3">
+                    <TouchableOpacity
+                      onPress={() => chooseRecipient(parseRecipient(addressInput))}
+                      disabled={!addressInput.trim()}
+                      className={`flex-1 py-3 rounded-xl items-center ${addressInput.trim() ? 'bg-blue-500' : 'bg-gray-300 dark:bg-gray-700'}`}
+                    >
+                      <ThemedText className="text-white font-semibold">Continue</ThemedText>
+                    </TouchableOpacity>
+                    {!isWeb && (
+                      <TouchableOpacity
+                        onPress={() => setShowScanner(true)}
+                        className="ml-3 px-4 py-3 rounded-xl bg-gray-100 dark:bg-gray-800 flex-row items-center"
+                      >
+                        <ScanLine size={18} color={iconColor} />
+                        <ThemedText className="ml-2 font-semibold">Scan</ThemedText>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+
+                  <ThemedText className="text-lg font-bold mt-6 mb-2">Contacts</ThemedText>
+                  <View className="bg-gray-50 dark:bg-gray-800 rounded-xl px-4">
+                    {savedContacts.length === 0 ? (
+                      <ThemedText className="text-center opacity-60 py-4">People you send to will appear here</ThemedText>
+                    ) : savedContacts.map(contact => (
+                      <TouchableOpacity
+                        key={contact.address}
+                        onPress={() => chooseRecipient({ address: contact.address, name: contact.name })}
+                        onLongPress={() => handleRemoveContact(contact)}
+                        className="flex-row items-center py-3 border-b border-gray-200 dark:border-gray-700"
+                      >
+                        <User size={20} color={placeholderColor} />
+                        <View className="flex-1 ml-3">
+                          <ThemedText className="font-semibold" numberOfLines={1}>{contact.name}</ThemedText>
+                          <ThemedText className="text-xs opacity-60">{shortAddress(contact.address)}</ThemedText>
+                        </View>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+
+                  <TouchableOpacity onPress={() => setShowMyCode(true)} className="flex-row items-center justify-center py-6">
+                    <QrCode size={18} color={placeholderColor} />
+                    <ThemedText className="ml-2 opacity-60">Show my code so a friend can send to me</ThemedText>
+                  </TouchableOpacity>
+                </View>
+              )}
+
+              {step === 'amount' && recipient && (
+                <View className="pt-4">
+                  <ThemedText className="opacity-60">Sending to</ThemedText>
+                  <ThemedText className="text-xl font-bold mb-4" numberOfLines={1}>{recipientName}</ThemedText>
+
+                  <View className="flex-row bg-gray-100 dark:bg-gray-800 rounded-full p-1 mb-4 self-start">
+                    {(['usd', 'tokens'] as const).map(option => (
+                      <TouchableOpacity
+                        key={option}
+                        onPress={() => setMode(option)}
+                        className={`px-5 py-2 rounded-full ${mode === option ? 'bg-white dark:bg-gray-600' : ''}`}
+                      >
+                        <ThemedText className="font-semibold">{option === 'usd' ? 'USD Amount' : 'Pick Tokens'}</ThemedText>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+
+                  {mode === 'usd' ? (
+                    <TextInput
+                      className={`${inputClass} text-2xl`}
+                      placeholder="$0.00"
+                      placeholderTextColor={placeholderColor}
+                      value={amountInput}
+                      onChangeText={setAmountInput}
+                      keyboardType="decimal-pad"
+                      autoFocus
+                    />
+                  ) : (
+                    <View className="bg-gray-50 dark:bg-gray-800 rounded-xl px-4">
+                      {sendable.length === 0 ? (
+                        <ThemedText className="text-center opacity-60 py-4">You don't have any tokens to send</ThemedText>
+                      ) : sendable.map(balance => (
+                        <View key={balance.tokenKey} className="flex-row items-center py-3 border-b border-gray-200 dark:border-gray-700">
+                          <View className="flex-1 mr-3">
+                            <ThemedText className="font-semibold">{balance.tokenSymbol}</ThemedText>
+                            <ThemedText className="text-xs opacity-60">
+                              {formatTokenAmount(fromBaseUnits(balance.baseUnits, balance.decimals))} available
+                            </ThemedText>
+                          </View>
+                          <TextInput
+                            className={`${inputClass} w-28 text-right`}
+                            placeholder="0"
+                            placeholderTextColor={placeholderColor}
+                            value={tokenInputs[balance.tokenKey!] || ''}
+                            onChangeText={text => setTokenInputs(prev => ({ ...prev, [balance.tokenKey!]: text }))}
+                            keyboardType="decimal-pad"
+                          />
+                        </View>
+                      ))}
+                    </View>
+                  )}
+
+                  <TextInput
+                    className={`${inputClass} mt-4`}
+                    placeholder="Note (optional)"
+                    placeholderTextColor={placeholderColor}
+                    value={note}
+                    onChangeText={setNote}
+                    maxLength={140}
+                  />
+
+                  <TouchableOpacity
+                    onPress={handleReview}
+                    disabled={busy}
+                    className="mt-6 py-4 rounded-2xl items-center bg-blue-500"
+                  >
+                    {busy ? <ActivityIndicator color="#FFFFFF" /> : (
+                      <ThemedText className="text-white font-semibold text-lg">Review</ThemedText>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              )}
+
+              {step === 'review' && transfer && (
+                <TransferSummary transfer={transfer} recipientName={recipientName}>
+                  <TouchableOpacity
+                    onPress={handleSend}
+                    disabled={busy}
+                    className="mt-6 py-4 rounded-2xl items-center bg-blue-500"
+                  >
+                    {busy ? <ActivityIndicator color="#FFFFFF" /> : (
+                      <ThemedText className="text-white font-semibold text-lg">Send {formatUSD(transfer.price_usd)}</ThemedText>
+                    )}
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={handleEdit} disabled={busy} className="py-4 items-center">
+                    <ThemedText className="opacity-60">Edit</ThemedText>
+                  </TouchableOpacity>
+                </TransferSummary>
+              )}
+
+              {step === 'sent' && transfer && (
+                <View className="items-center pt-8">
+                  <CheckCircle size={56} color="#10B981" />
+                  <ThemedText className="text-2xl font-bold mt-4">Sent</ThemedText>
+                  <TransferSummary transfer={transfer} recipientName={recipientName}>
+                    <TouchableOpacity onPress={() => router.back()} className="mt-6 py-4 rounded-2xl items-center bg-blue-500">
+                      <ThemedText className="text-white font-semibold text-lg">Done</ThemedText>
+                    </TouchableOpacity>
+                  </TransferSummary>
+                </View>
+              )}
+            </ScrollView>
+          </ThemedView>
+        </KeyboardAvoidingView>
+      </SafeAreaView>
+
+      <RecipientScanner
+        visible={showScanner}
+        onClose={() => setShowScanner(false)}
+        onScanned={data => {
+          setShowScanner(false);
+          chooseRecipient(parseRecipient(data));
+        }}
+      />
+
+      <Modal visible={showMyCode} animationType="fade" transparent onRequestClose={() => setShowMyCode(false)}>
+        <TouchableOpacity
+          activeOpacity={1}
+          onPress={() => setShowMyCode(false)}
+          className="flex-1 justify-center items-center px-6 bg-black/40"
+        >
+          <View className="w-full max-w-sm p-8 rounded-3xl items-center bg-white">
+            {walletAddress && (
+              <QRCode value={buildRecipientLink({ address: walletAddress, name: auth?.userName || undefined })} size={220} />
+            )}
+            <ThemedText className="text-gray-900 font-semibold mt-4">{auth?.userName || 'My wallet'}</ThemedText>
+            <ThemedText className="text-gray-500 text-xs mt-1">{walletAddress ? shortAddress(walletAddress) : ''}</ThemedText>
+          </View>
+        </TouchableOpacity>
+      </Modal>
+    </>
+  );
+}
+
+/**
+ * Who gets what: the recipient, the tokens that will leave this wallet and their USD value
+ */
+function TransferSummary({
+  transfer,
+  recipientName,
+  children,
+}: {
+  transfer: PaymentDetails;
+  recipientName: string;
+  children?: React.ReactNode;
+}) {
+  return (
+    <View className="w-full pt-4">
+      <View className="bg-gray-50 dark:bg-gray-800 rounded-xl px-4 py-2">
+        <View className="flex-row justify-between py-2">
+          <ThemedText className="opacity-60">To</ThemedText>
+          <ThemedText className="font-semibold flex-1 text-right ml-4" numberOfLines={1}>{recipientName}</ThemedText>
+        </View>
+        {transfer.payment_bundle.map(item => (
+          <View key={item.token_key} className="flex-row justify-between py-2">
+            <ThemedText className="opacity-60">{item.symbol}</ThemedText>
+            <ThemedText className="font-semibold">{formatTokenValue(item.amount_to_pay, item)}</ThemedText>
+          </View>
+        ))}
+        {transfer.note && (
+          <View className="flex-row justify-between py-2">
+            <ThemedText className="opacity-60">Note</ThemedText>
+            <ThemedText className="flex-1 text-right ml-4">{transfer.note}</ThemedText>
+          </View>
+        )}
+        <View className="flex-row justify-between py-3 border-t border-gray-200 dark:border-gray-700 mt-1">
+          <ThemedText className="font-semibold">Total value</ThemedText>
+          <ThemedText className="font-bold">{formatUSD(transfer.price_usd)}</ThemedText>
+        </View>
+      </View>
+      {children}
+    </View>
+  );
+}
+
+/**
+ * Full screen camera for a friend's wallet code
+ */
+function RecipientScanner({
+  visible,
+  onClose,
+  onScanned,
+}: {
+  visible: boolean;
+  onClose: () => void;
+  onScanned: (data: string) => void;
+}) {
+  const [permission, requestPermission] = useCameraPermissions();
+
+  useEffect(() => {
+    if (visible && permission && !permission.granted && permission.canAskAgain) {
+      requestPermission();
+    }
+  }, [visible, permission]);
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View className="flex-1 bg-black">
+        {permission?.granted ? (
+          <CameraView
+            style={StyleSheet.absoluteFillObject}
+            facing="back"
+            onBarcodeScanned={visible ? ({ data }) => onScanned(data) : undefined}
+            barcodeScannerSettings={{
+              barcodeTypes: ["qr"],
+            }}
+          />
+        ) : (
+          <View className="flex-1 justify-center items-center px-8">
+            <ThemedText className="text-white text-center">Camera access is needed to scan a wallet code</ThemedText>
+          </View>
+        )}
+        <TouchableOpacity onPress={onClose} className="absolute top-14 right-5 p-2 rounded-full bg-black/50">
+          <X size={24} color="#FFFFFF" />
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+}
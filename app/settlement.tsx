@@ -0,0 +1,264 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, RefreshControl, SafeAreaView, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import { Stack, router } from 'expo-router';
+import { AlertTriangle, ArrowLeft, ChevronLeft, ChevronRight, FileText, Share } from 'lucide-react-native';
+import { ThemedView } from '@/components/core/ThemedView';
+import { ThemedText } from '@/components/core/ThemedText';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useBalance } from '@/contexts/BalanceContext';
+import { useTransactionHistory } from '@/contexts/TransactionHistoryStore';
+import { shareReport } from '@/services/exportService';
+import type { ReportFormat } from '@/services/exportService';
+import {
+  buildSettlementReport,
+  dayBounds,
+  formatSettlementAmount,
+  renderSettlementHTML,
+} from '@/utils/settlementReport';
+
+const formatUSD = (value: number) => Intl.NumberFormat('en-US', {
+  style: 'currency',
+  currency: 'USD',
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+}).format(value);
+
+const formatTime = (at: number) =>
+  new Date(at).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+const shiftDay = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+export default function SettlementScreen() {
+  const { colorScheme } = useTheme();
+  const { userName } = useAuth();
+  const { balances, valueHistory } = useBalance();
+  const { activities, hasMore, isLoading, loadMoreTransactions, refreshHistory } = useTransactionHistory();
+  const [day, setDay] = useState(() => new Date());
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [sharing, setSharing] = useState<ReportFormat | null>(null);
+  const [shareError, setShareError] = useState<string | null>(null);
+
+  const iconColor = colorScheme === 'dark' ? '#FFFFFF' : '#000000';
+  const isToday = dayBounds(day).start === dayBounds(new Date()).start;
+
+  useEffect(() => {
+    refreshHistory();
+  }, []);
+
+  // Page back through history until it covers the whole day
+  const oldestLoaded = activities.length > 0
+    ? Math.min(...activities.map(activity => activity.created_at * 1000))
+    : Infinity;
+  const needsOlder = hasMore && oldestLoaded >= dayBounds(day).start;
+  useEffect(() => {
+    if (needsOlder && !isLoading) {
+      loadMoreTransactions();
+    }
+  }, [needsOlder, isLoading, loadMoreTransactions]);
+
+  const report = useMemo(() => buildSettlementReport({
+    day,
+    activities,
+    valueHistory,
+    currentBalances: Object.fromEntries(balances.map(balance => [balance.tokenSymbol, balance.amount])),
+    tokenDecimals: Object.fromEntries(balances.map(balance => [balance.tokenSymbol, balance.decimals])),
+  }), [day, activities, valueHistory, balances]);
+
+  const decimalsOf = (symbol: string) =>
+    report.tokenTotals.find(total => total.symbol === symbol)?.decimals
+    ?? report.reconciliation.find(line => line.symbol === symbol)?.decimals;
+  const amount = (value: number | null, symbol: string) =>
+    value === null ? '—' : formatSettlementAmount(value, decimalsOf(symbol));
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await refreshHistory();
+    setIsRefreshing(false);
+  };
+
+  const handleShare = async (format: ReportFormat) => {
+    setSharing(format);
+    setShareError(null);
+    try {
+      await shareReport(renderSettlementHTML(report, userName || 'Vendor'), `settlement_${report.day}`, format);
+    } catch (error) {
+      console.error('Failed to share settlement report:', error);
+      setShareError(error instanceof Error ? error.message : 'Failed to share report');
+    } finally {
+      setSharing(null);
+    }
+  };
+
+  const hasMismatch = report.reconciliation.some(line => line.difference);
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'Settlement',
+          headerShown: true,
+          headerStyle: {
+            backgroundColor: colorScheme === 'dark' ? '#000000' : '#FFFFFF',
+          },
+          headerTintColor: iconColor,
+          headerLeft: () => (
+            <TouchableOpacity
+              onPress={() => router.back()}
+              style={{ paddingLeft: 16 }}
+            >
+              <ArrowLeft size={24} color={iconColor} />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      <SafeAreaView style={{
+        flex: 1,
+        backgroundColor: colorScheme === 'dark' ? '#000000' : '#FFFFFF'
+      }}>
+        <ThemedView className="flex-1">
+          {/* Day picker */}
+          <View className="flex-row items-center justify-between px-4 py-3">
+            <TouchableOpacity onPress={() => setDay(shiftDay(day, -1))} className="p-2">
+              <ChevronLeft size={24} color={iconColor} />
+            </TouchableOpacity>
+            <ThemedText className="text-lg font-semibold">
+              {isToday ? 'Today' : day.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })}
+            </ThemedText>
+            <TouchableOpacity onPress={() => setDay(shiftDay(day, 1))} className="p-2" disabled={isToday}>
+              <ChevronRight size={24} color={isToday ? '#9CA3AF' : iconColor} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView
+            className="flex-1 px-4"
+            refreshControl={
+              <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} tintColor="#E5E7EB" />
+            }
+          >
+            {needsOlder && <ActivityIndicator className="my-4" />}
+
+            {/* Summary */}
+            <View className="flex-row mb-4">
+              {[
+                { label: 'Sales', value: String(report.sales.length) },
+                { label: 'Revenue', value: formatUSD(report.totalUSD) },
+                { label: 'Voided', value: String(report.voided.length) },
+              ].map((stat, index) => (
+                <View key={stat.label} className={`flex-1 p-3 rounded-xl bg-gray-50 dark:bg-gray-800 ${index > 0 ? 'ml-3' : ''}`}>
+                  <ThemedText className="text-xs opacity-60 mb-1">{stat.label}</ThemedText>
+                  <ThemedText className="text-base font-bold" numberOfLines={1} adjustsFontSizeToFit>{stat.value}</ThemedText>
+                </View>
+              ))}
+            </View>
+
+            {/* Completed sales */}
+            <ThemedText className="text-lg font-bold mb-2">Completed Sales</ThemedText>
+            <View className="bg-gray-50 dark:bg-gray-800 rounded-xl px-4 mb-4">
+              {report.sales.length === 0 ? (
+                <ThemedText className="text-center opacity-60 py-4">No sales</ThemedText>
+              ) : report.sales.map(sale => (
+                <View key={sale.paymentId} className="flex-row justify-between py-3 border-b border-gray-200 dark:border-gray-700">
+                  <View className="flex-1 mr-3">
+                    <ThemedText className="font-semibold" numberOfLines={1}>{sale.customer}</ThemedText>
+                    <ThemedText className="text-xs opacity-60">
+                      {formatTime(sale.at)} • {sale.tokens.map(token => `${amount(token.amount, token.symbol)} ${token.symbol}`).join(', ')}
+                    </ThemedText>
+                  </View>
+                  <ThemedText className="font-semibold">{formatUSD(sale.amountUSD)}</ThemedText>
+                </View>
+              ))}
+            </View>
+
+            {/* Totals per token */}
+            <ThemedText className="text-lg font-bold mb-2">Totals</ThemedText>
+            <View className="bg-gray-50 dark:bg-gray-800 rounded-xl px-4 mb-4">
+              {report.tokenTotals.map(total => (
+                <View key={total.symbol} className="flex-row justify-between py-2">
+                  <ThemedText className="opacity-60">{total.symbol}</ThemedText>
+                  <ThemedText className="font-semibold">{amount(total.amount, total.symbol)}</ThemedText>
+                </View>
+              ))}
+              <View className="flex-row justify-between py-3">
+                <ThemedText className="font-semibold">Total USD</ThemedText>
+                <ThemedText className="font-bold">{formatUSD(report.totalUSD)}</ThemedText>
+              </View>
+            </View>
+
+            {/* Cancelled and expired */}
+            <ThemedText className="text-lg font-bold mb-2">Cancelled & Expired</ThemedText>
+            <View className="bg-gray-50 dark:bg-gray-800 rounded-xl px-4 mb-4">
+              {report.voided.length === 0 ? (
+                <ThemedText className="text-center opacity-60 py-4">None</ThemedText>
+              ) : report.voided.map(request => (
+                <View key={request.paymentId} className="flex-row justify-between py-3 border-b border-gray-200 dark:border-gray-700">
+                  <ThemedText className="opacity-60">{formatTime(request.at)} • {request.status}</ThemedText>
+                  <ThemedText>{formatUSD(request.amountUSD)}</ThemedText>
+                </View>
+              ))}
+            </View>
+
+            {/* Reconciliation */}
+            <View className="flex-row items-center mb-2">
+              <ThemedText className="text-lg font-bold">Reconciliation</ThemedText>
+              {hasMismatch && <View className="ml-2"><AlertTriangle size={18} color="#F59E0B" /></View>}
+            </View>
+            <View className="bg-gray-50 dark:bg-gray-800 rounded-xl p-4 mb-2">
+              {report.reconciliation.length === 0 ? (
+                <ThemedText className="text-center opacity-60">No balance changes</ThemedText>
+              ) : report.reconciliation.map(line => (
+                <View key={line.symbol} className="py-2">
+                  <View className="flex-row justify-between">
+                    <ThemedText className="font-semibold">{line.symbol}</ThemedText>
+                    <Text className={`font-semibold ${
+                      line.difference ? 'text-amber-500' : line.difference === 0 ? 'text-green-500' : 'text-gray-400'
+                    }`}>
+                      {line.difference === null ? 'Unknown' : line.difference === 0 ? 'Balanced' : `Off by ${amount(line.difference, line.symbol)}`}
+                    </Text>
+                  </View>
+                  <ThemedText className="text-xs opacity-60 mt-1">
+                    {amount(line.opening, line.symbol)} opening + {amount(line.sales, line.symbol)} sales
+                    {line.other !== 0 ? ` ${line.other > 0 ? '+' : '−'} ${amount(Math.abs(line.other), line.symbol)} other` : ''}
+                    {' → '}{amount(line.closing, line.symbol)} closing
+                  </ThemedText>
+                </View>
+              ))}
+            </View>
+            <ThemedText className="text-xs opacity-60 mb-6">
+              {report.estimated
+                ? 'Opening balances were rebuilt from transaction history.'
+                : 'Balances come from what this device recorded at the start and end of the day.'}
+            </ThemedText>
+
+            {/* Export */}
+            {shareError && <ThemedText className="text-sm text-center text-red-500 mb-3">{shareError}</ThemedText>}
+            <View className="flex-row mb-10">
+              {([
+                { format: 'pdf', label: 'Share PDF', Icon: FileText },
+                { format: 'html', label: 'Share HTML', Icon: Share },
+              ] as const).map(({ format, label, Icon }, index) => (
+                <TouchableOpacity
+                  key={format}
+                  onPress={() => handleShare(format)}
+                  disabled={sharing !== null || needsOlder}
+                  className={`flex-1 flex-row items-center justify-center py-4 rounded-2xl bg-blue-500 ${index > 0 ? 'ml-3' : ''}`}
+                >
+                  {sharing === format ? (
+                    <ActivityIndicator size="small" color="#FFFFFF" />
+                  ) : (
+                    <>
+                      <Icon size={18} color="#FFFFFF" />
+                      <Text className="text-white font-semibold ml-2">{label}</Text>
+                    </>
+                  )}
+                </TouchableOpacity>
+              ))}
+            </View>
+          </ScrollView>
+        </ThemedView>
+      </SafeAreaView>
+    </>
+  );
+}
@@ -0,0 +1,310 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Image, RefreshControl, SafeAreaView, ScrollView, TouchableOpacity, View } from 'react-native';
+import { Stack, router, useLocalSearchParams } from 'expo-router';
+import { ArrowDownLeft, ArrowLeft, ArrowUpRight, SlidersHorizontal } from 'lucide-react-native';
+import { ThemedView } from '@/components/core/ThemedView';
+import { ThemedText } from '@/components/core/ThemedText';
+import ValuationEditor from '@/components/valuation/ValuationEditor';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useBalance } from '@/contexts/BalanceContext';
+import { useTransactionHistory } from '@/contexts/TransactionHistoryStore';
+import { fetchTokenValuations, updateTokenValuation } from '@/services/valuationService';
+import type { TokenValuation } from '@/services/valuationService';
+import { isTerminalStatus, isVoidedStatus, normalizePaymentStatus } from '@/services/paymentStateMachine';
+import { PaymentStatus } from '@/types/payment';
+import type { Activity } from '@/types/api';
+import { formatBaseUnits, formatTokenAmount, formatTokenValue, fromBaseUnits } from '@/utils/tokenAmount';
+
+// One movement of this token, from a payment's computed_payment or a deposit
+interface TokenMovement {
+  key: string;
+  title: string;
+  subtitle: string;
+  amount: string;
+  isIncoming: boolean;
+  isPending: boolean;
+  createdAt: number;
+}
+
+const formatUSD = (value: number) => Intl.NumberFormat('en-US', {
+  style: 'currency',
+  currency: 'USD',
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+}).format(value);
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp * 1000).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+/**
+ * This token's movements, newest first
+ * Voided and failed payments never moved any tokens, so they're left out
+ * @param balanceDecimals - The token's precision from the wallet's balance, for deposits that don't carry their own
+ */
+const toMovements = (activities: Activity[], symbol: string, balanceDecimals?: number): TokenMovement[] => {
+  const movements: TokenMovement[] = [];
+
+  activities.forEach((activity, index) => {
+    if (activity.type === 'deposit') {
+      if (activity.token_symbol !== symbol) return;
+      movements.push({
+        key: `deposit-${activity.created_at}-${index}`,
+        title: 'Deposit',
+        subtitle: `Donated ${formatUSD(activity.amount_deposited_usd)}`,
+        amount: formatBaseUnits(activity.amount_tokens_received, {
+          symbol,
+          decimals: activity.token_decimals ?? balanceDecimals,
+        }),
+        isIncoming: true,
+        isPending: false,
+        createdAt: activity.created_at,
+      });
+      return;
+    }
+
+    if (isVoidedStatus(activity.status) || normalizePaymentStatus(activity.status) === PaymentStatus.Failed) return;
+
+    const payments = (activity.computed_payment || []).filter(payment => payment.symbol === symbol);
+    payments.forEach((payment, paymentIndex) => {
+      const isIncoming = activity.direction === 'Received';
+      const counterparty = isIncoming
+        ? activity.counterparty_username || activity.vendor_name
+        : activity.vendor_name || activity.counterparty_username;
+      movements.push({
+        key: `${activity.payment_id}-${paymentIndex}`,
+        title: isIncoming ? 'Payment Received' : 'Payment Sent',
+        subtitle: `${isIncoming ? 'From' : 'To'} ${counterparty || `${activity.counterparty_address.slice(0, 8)}...`}`,
+        amount: formatTokenValue(payment.amount_to_pay, payment),
+        isIncoming,
+        isPending: !isTerminalStatus(activity.status),
+        createdAt: activity.created_at,
+      });
+    });
+  });
+
+  return movements.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export default function TokenDetailScreen() {
+  const { symbol } = useLocalSearchParams<{ symbol: string }>();
+  const { colorScheme } = useTheme();
+  const { walletAddress } = useAuth();
+  const { balances, refreshBalances } = useBalance();
+  // The cached history, so movements show offline and page past the first request
+  const {
+    activities,
+    hasMore,
+    isLoading: isHistoryLoading,
+    error: historyError,
+    loadTransactionHistory,
+    loadMoreTransactions,
+    refreshHistory,
+  } = useTransactionHistory();
+  const [valuation, setValuation] = useState<TokenValuation | null>(null);
+  const [valuationError, setValuationError] = useState<string | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [showEditor, setShowEditor] = useState(false);
+
+  const token = balances.find(balance => balance.tokenSymbol === symbol);
+  const isUSD = symbol === 'USD';
+  const iconColor = colorScheme === 'dark' ? '#FFFFFF' : '#000000';
+  const decimals = token?.decimals;
+
+  const movements = useMemo(
+    () => (symbol ? toMovements(activities, symbol, decimals) : []),
+    [activities, symbol, decimals]
+  );
+
+  const loadValuation = useCallback(async () => {
+    if (!walletAddress || !symbol) return;
+
+    setValuationError(null);
+    try {
+      const valuations = await fetchTokenValuations(walletAddress);
+      setValuation(valuations.find(item => (item.token_symbol || item.token_name.toUpperCase()) === symbol) || null);
+    } catch (err) {
+      setValuationError(err instanceof Error ? err.message : 'Failed to load your valuation');
+    }
+  }, [walletAddress, symbol]);
+
+  useEffect(() => {
+    loadValuation();
+  }, [loadValuation]);
+
+  // Opened before the history was ever fetched
+  useEffect(() => {
+    if (activities.length === 0) {
+      loadTransactionHistory();
+    }
+  }, [walletAddress]);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await Promise.all([loadValuation(), refreshHistory(), refreshBalances()]);
+    setIsRefreshing(false);
+  };
+
+  const handleSaveValuation = async (tokenSymbol: string, adjustment: number) => {
+    if (!walletAddress) return;
+    await updateTokenValuation(walletAddress, tokenSymbol, adjustment);
+    setValuation(prev => prev ? { ...prev, current_valuation: adjustment, has_set: true } : prev);
+  };
+
+  const marketValuation = parseFloat(token?.marketValuation || '0');
+  const adjustment = valuation?.current_valuation || 0;
+  const amount = token ? formatTokenAmount(fromBaseUnits(token.baseUnits, token.decimals)) : '0.00';
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: token?.tokenName || symbol || 'Token',
+          headerShown: true,
+          headerStyle: {
+            backgroundColor: colorScheme === 'dark' ? '#000000' : '#FFFFFF',
+          },
+          headerTintColor: iconColor,
+          headerLeft: () => (
+            <TouchableOpacity
+              onPress={() => router.back()}
+              style={{ paddingLeft: 16 }}
+            >
+              <ArrowLeft size={24} color={iconColor} />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      <SafeAreaView style={{
+        flex: 1,
+        backgroundColor: colorScheme === 'dark' ? '#000000' : '#FFFFFF'
+      }}>
+        <ThemedView className="flex-1">
+          <ScrollView
+            className="flex-1 px-4"
+            refreshControl={
+              <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} colors={['#E5E7EB']} />
+            }
+          >
+            {/* Balance */}
+            <View className="items-center my-6">
+              {token?.logoUrl ? (
+                <Image source={{ uri: token.logoUrl }} className="w-16 h-16 rounded-full mb-3" />
+              ) : (
+                <View className="w-16 h-16 rounded-full mb-3 items-center justify-center bg-gray-200 dark:bg-gray-700">
+                  <ThemedText className="text-2xl font-bold">{symbol?.charAt(0)}</ThemedText>
+                </View>
+              )}
+              <ThemedText className="text-4xl font-bold">{amount} {symbol}</ThemedText>
+              <ThemedText className="text-lg opacity-60 mt-1">{formatUSD(token?.valueUSD || 0)}</ThemedText>
+            </View>
+
+            {/* Valuation context */}
+            <View className="bg-gray-50 dark:bg-gray-800 rounded-xl p-4 mb-4">
+              <View className="flex-row justify-between py-2">
+                <ThemedText className="opacity-60">Market valuation</ThemedText>
+                <ThemedText className="font-semibold">{formatUSD(marketValuation)}</ThemedText>
+              </View>
+              {!isUSD && (
+                <View className="flex-row justify-between py-2">
+                  <ThemedText className="opacity-60">Your valuation</ThemedText>
+                  <ThemedText className="font-semibold">
+                    {valuation?.has_set
+                      ? `${formatUSD(marketValuation + adjustment)} (${adjustment >= 0 ? '+' : '-'}${formatUSD(Math.abs(adjustment))})`
+                      : 'Not set'}
+                  </ThemedText>
+                </View>
+              )}
+              {valuationError && (
+                <ThemedText className="text-sm text-red-500 py-1">{valuationError}</ThemedText>
+              )}
+              <View className="flex-row justify-between py-2">
+                <ThemedText className="opacity-60">Total allocated</ThemedText>
+                <ThemedText className="font-semibold">
+                  {token ? formatTokenAmount(fromBaseUnits(token.totalAllocated || 0, token.decimals)) : '0.00'} {symbol}
+                </ThemedText>
+              </View>
+
+              {!isUSD && (
+                <TouchableOpacity
+                  className="flex-row items-center justify-center mt-3 py-3 rounded-xl bg-blue-500"
+                  onPress={() => setShowEditor(true)}
+                >
+                  <SlidersHorizontal size={18} color="#FFFFFF" />
+                  <ThemedText className="text-white font-semibold ml-2">Edit valuation</ThemedText>
+                </TouchableOpacity>
+              )}
+            </View>
+
+            {/* Movements */}
+            <ThemedText className="text-xl font-bold mb-2">Activity</ThemedText>
+            {movements.length === 0 && isHistoryLoading ? (
+              <ActivityIndicator className="my-8" />
+            ) : movements.length === 0 && historyError ? (
+              <ThemedText className="text-center opacity-60 my-8">{historyError}</ThemedText>
+            ) : movements.length === 0 && !(hasMore && activities.length > 0) ? (
+              <ThemedText className="text-center opacity-60 my-8">No {symbol} activity yet</ThemedText>
+            ) : (
+              movements.map(movement => (
+                <View key={movement.key} className="flex-row items-center justify-between bg-gray-50 dark:bg-gray-800 rounded-xl p-4 mb-3">
+                  <View className="flex-row items-center flex-1">
+                    <View className="w-10 h-10 bg-gray-200 dark:bg-gray-700 rounded-full items-center justify-center mr-3">
+                      {movement.isIncoming
+                        ? <ArrowDownLeft size={20} color="#10B981" />
+                        : <ArrowUpRight size={20} color="#6B7280" />}
+                    </View>
+                    <View className="flex-1">
+                      <ThemedText className="font-semibold">{movement.title}</ThemedText>
+                      <ThemedText className="text-sm opacity-60" numberOfLines={1}>
+                        {movement.subtitle} • {movement.isPending ? 'Pending' : formatDate(movement.createdAt)}
+                      </ThemedText>
+                    </View>
+                  </View>
+                  <ThemedText className={`font-semibold ${movement.isIncoming ? 'text-green-500' : ''}`}>
+                    {movement.isIncoming ? '+' : '-'}{movement.amount}
+                  </ThemedText>
+                </View>
+              ))
+            )}
+
+            {/* Older pages may hold more of this token's movements */}
+            {hasMore && activities.length > 0 && (
+              <TouchableOpacity
+                className="items-center py-3"
+                onPress={loadMoreTransactions}
+                disabled={isHistoryLoading}
+              >
+                {isHistoryLoading
+                  ? <ActivityIndicator />
+                  : <ThemedText className="text-blue-500 font-semibold">Show older activity</ThemedText>}
+              </TouchableOpacity>
+            )}
+
+            <View style={{ height: 40 }} />
+          </ScrollView>
+        </ThemedView>
+      </SafeAreaView>
+
+      <ValuationEditor
+        visible={showEditor}
+        token={token && !isUSD ? {
+          name: token.tokenName,
+          symbol: token.tokenSymbol,
+          amount,
+          value: token.valueUSD,
+          adjustment,
+          change: 0,
+          iconUrl: token.logoUrl,
+          has_set: valuation?.has_set || false,
+        } : null}
+        onClose={() => setShowEditor(false)}
+        onSave={handleSaveValuation}
+      />
+    </>
+  );
+}
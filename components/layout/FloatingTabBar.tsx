@@ -3,7 +3,7 @@ import { View, TouchableOpacity, Text, Animated, Platform, Dimensions, StyleShee
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { BlurView } from 'expo-blur';
 import * as Haptics from 'expo-haptics';
-import { Home, TrendingUp, ArrowLeftRight, Settings, ShoppingBag } from 'lucide-react-native';
+import { Home, TrendingUp, ArrowLeftRight, Settings, ShoppingBag, BarChart3 } from 'lucide-react-native';
 import { useTheme } from '@/contexts/ThemeContext';
 import { LinearGradient } from 'expo-linear-gradient';
 
@@ -91,6 +91,8 @@ const FloatingTabBar: React.FC<TabBarProps> = ({ state, descriptors, navigation
         return <TrendingUp size={iconSize} color={iconColor} strokeWidth={2.5} />;
       case 'transact':
         return <ArrowLeftRight size={iconSize} color={iconColor} strokeWidth={2.5} />;
+      case 'dashboard':
+        return <BarChart3 size={iconSize} color={iconColor} strokeWidth={2.5} />;
       case 'vendors':
         return <ShoppingBag size={iconSize} color={iconColor} strokeWidth={2.5} />;
       case 'settings':
@@ -198,6 +200,11 @@ const FloatingTabBar: React.FC<TabBarProps> = ({ state, descriptors, navigation
               const isFocused = state.index === index;
               const isTransact = route.name === 'transact';
 
+              // Screens with `href: null` stay routable but get no tab
+              if (options.href === null) {
+                return null;
+              }
+
               if (isTransact) {
                 // Render empty space for center button
                 return <View key={route.key} style={styles.centerSpace} />;
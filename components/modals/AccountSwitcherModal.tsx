@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, Modal, SafeAreaView, ScrollView, ActivityIndicator } from 'react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { Wallet, Store, Check, Plus, Download, X } from 'lucide-react-native';
+
+interface AccountSwitcherModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const shortenAddress = (address: string) =>
+  address.length > 12 ? `${address.slice(0, 6)}...${address.slice(-4)}` : address;
+
+export default function AccountSwitcherModal({ visible, onClose }: AccountSwitcherModalProps) {
+  const { colorScheme } = useTheme();
+  const { wallets, activeWalletId, switchWallet, startOnboarding, setOnboardingStep } = useAuth();
+  const [switchingTo, setSwitchingTo] = useState<string | null>(null);
+
+  const handleSelectWallet = async (walletId: string) => {
+    if (switchingTo) return;
+
+    setSwitchingTo(walletId);
+    try {
+      await switchWallet(walletId);
+      onClose();
+    } finally {
+      setSwitchingTo(null);
+    }
+  };
+
+  // Adding a wallet reuses the onboarding flow; the current wallets stay stored
+  const handleCreateWallet = () => {
+    onClose();
+    startOnboarding();
+    setOnboardingStep('user-type');
+  };
+
+  const handleImportWallet = () => {
+    onClose();
+    startOnboarding();
+    setOnboardingStep('import-seed');
+  };
+
+  return (
+    <Modal
+      animationType="fade"
+      transparent={true}
+      visible={visible}
+      onRequestClose={onClose}
+    >
+      <SafeAreaView className={`flex-1 ${colorScheme === 'dark' ? 'bg-black/50' : 'bg-black/30'}`}>
+        <TouchableOpacity
+          className="flex-1 justify-center items-center px-6"
+          activeOpacity={1}
+          onPress={onClose}
+        >
+          <TouchableOpacity
+            activeOpacity={1}
+            className={`w-full max-w-sm p-8 rounded-3xl ${colorScheme === 'dark' ? 'bg-gray-800/95' : 'bg-white'}`}
+            style={{
+              shadowColor: '#000',
+              shadowOffset: { width: 0, height: 2 },
+              shadowOpacity: colorScheme === 'dark' ? 0.3 : 0.08,
+              shadowRadius: 8,
+              elevation: 4,
+            }}
+          >
+            {/* Close button */}
+            <TouchableOpacity
+              className="absolute top-4 right-4 p-2"
+              onPress={onClose}
+            >
+              <X size={24} color={colorScheme === 'dark' ? '#9CA3AF' : '#6B7280'} />
+            </TouchableOpacity>
+
+            <Text className={`text-center text-2xl font-bold mb-2 ${colorScheme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+              Your Wallets
+            </Text>
+            <Text className={`text-center text-base mb-6 ${colorScheme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+              Switch between the wallets on this device
+            </Text>
+
+            {/* Stored wallets */}
+            <ScrollView style={{ maxHeight: 280 }} className="mb-4">
+              {wallets.map(wallet => {
+                const isActive = wallet.id === activeWalletId;
+                return (
+                  <TouchableOpacity
+                    key={wallet.id}
+                    className={`py-3 px-4 rounded-2xl mb-2 flex-row items-center ${
+                      isActive
+                        ? (colorScheme === 'dark' ? 'bg-blue-900/30' : 'bg-blue-50')
+                        : (colorScheme === 'dark' ? 'bg-gray-700' : 'bg-gray-100')
+                    }`}
+                    onPress={() => handleSelectWallet(wallet.id)}
+                    disabled={!!switchingTo}
+                    activeOpacity={0.8}
+                  >
+                    <View className={`w-10 h-10 rounded-xl justify-center items-center mr-3 ${
+                      colorScheme === 'dark' ? 'bg-gray-600' : 'bg-white'
+                    }`}>
+                      {wallet.userType === 'vendor'
+                        ? <Store size={20} color="#F59E0B" />
+                        : <Wallet size={20} color="#2563EB" />}
+                    </View>
+                    <View className="flex-1">
+                      <Text className={`font-semibold text-base ${colorScheme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+                        {wallet.userName || 'Index Wallet User'}
+                      </Text>
+                      <Text className={`text-sm ${colorScheme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                        {wallet.userType === 'vendor' ? 'Vendor' : 'Customer'} · {shortenAddress(wallet.walletAddress)}
+                      </Text>
+                    </View>
+                    {switchingTo === wallet.id ? (
+                      <ActivityIndicator size="small" color="#2563EB" />
+                    ) : isActive ? (
+                      <Check size={20} color="#2563EB" />
+                    ) : null}
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+
+            {/* Add another wallet */}
+            <TouchableOpacity
+              className="py-4 px-5 rounded-2xl mb-3 flex-row items-center"
+              style={{
+                backgroundColor: '#3B82F6',
+                shadowColor: '#3B82F6',
+                shadowOffset: { width: 0, height: 4 },
+                shadowOpacity: 0.3,
+                shadowRadius: 8,
+                elevation: 5,
+              }}
+              onPress={handleCreateWallet}
+              disabled={!!switchingTo}
+              activeOpacity={0.8}
+            >
+              <Plus size={20} color="#FFFFFF" />
+              <Text className="text-white font-semibold text-base ml-3">Create New Wallet</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              className={`py-4 px-5 rounded-2xl mb-2 flex-row items-center ${colorScheme === 'dark' ? 'bg-gray-700' : 'bg-gray-100'}`}
+              onPress={handleImportWallet}
+              disabled={!!switchingTo}
+              activeOpacity={0.8}
+            >
+              <Download size={20} color={colorScheme === 'dark' ? '#FFFFFF' : '#111827'} />
+              <Text className={`font-semibold text-base ml-3 ${colorScheme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+                Import Existing Wallet
+              </Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity onPress={onClose} className="mt-2">
+              <Text className={`text-center text-base ${colorScheme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+                Cancel
+              </Text>
+            </TouchableOpacity>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </SafeAreaView>
+    </Modal>
+  );
+}
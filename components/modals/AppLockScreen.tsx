@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, Modal, SafeAreaView } from 'react-native';
+import { Lock } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+
+interface AppLockScreenProps {
+  visible: boolean;
+  onUnlock: () => Promise<boolean>;
+  children?: React.ReactNode;
+}
+
+export default function AppLockScreen({ visible, onUnlock, children }: AppLockScreenProps) {
+  const { colorScheme } = useTheme();
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleUnlock = async () => {
+    if (isUnlocking) return;
+    setIsUnlocking(true);
+    try {
+      await onUnlock();
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  // Prompt straight away when the lock screen appears
+  useEffect(() => {
+    if (visible) {
+      handleUnlock();
+    }
+  }, [visible]);
+
+  return (
+    <Modal
+      animationType="none"
+      transparent={false}
+      visible={visible}
+      onRequestClose={() => {}}
+    >
+      <SafeAreaView className={`flex-1 ${colorScheme === 'dark' ? 'bg-black' : 'bg-white'}`}>
+        <View className="flex-1 justify-center items-center px-6">
+          <View className={`w-24 h-24 rounded-full items-center justify-center mb-6 ${
+            colorScheme === 'dark' ? 'bg-blue-900/30' : 'bg-blue-100'
+          }`}>
+            <Lock size={44} color={colorScheme === 'dark' ? '#60A5FA' : '#2563EB'} />
+          </View>
+
+          <Text className={`text-center text-2xl font-bold mb-2 ${colorScheme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+            Index Wallet is Locked
+          </Text>
+          <Text className={`text-center text-base mb-8 ${colorScheme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+            Unlock to continue using your wallet
+          </Text>
+
+          <TouchableOpacity
+            className={`py-4 px-12 rounded-2xl items-center ${isUnlocking ? 'opacity-50' : ''}`}
+            style={{
+              backgroundColor: '#2563EB',
+              shadowColor: '#3B82F6',
+              shadowOffset: { width: 0, height: 4 },
+              shadowOpacity: 0.3,
+              shadowRadius: 8,
+              elevation: 5,
+            }}
+            onPress={handleUnlock}
+            disabled={isUnlocking}
+            activeOpacity={0.8}
+          >
+            <Text className="text-white font-semibold text-base text-center">
+              Unlock
+            </Text>
+          </TouchableOpacity>
+        </View>
+        {children}
+      </SafeAreaView>
+    </Modal>
+  );
+}
@@ -67,7 +67,7 @@ export default function LogoutModal({
               Sign Out
             </Text>
             <Text className={`text-center text-base mb-8 ${colorScheme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
-              Are you sure you want to sign out? You will need your seed phrase to log back in.
+              Are you sure you want to sign out of this wallet? You will need its seed phrase to add it back.
             </Text>
             
             {/* Action Button */}
@@ -0,0 +1,182 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, Modal, SafeAreaView, ActivityIndicator } from 'react-native';
+import { X, Lock } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+
+// Outcome of a submitted PIN; error is shown when it was rejected
+export interface PinSubmitResult {
+  success: boolean;
+  error?: string;
+}
+
+interface PinPromptModalProps {
+  visible: boolean;
+  mode: 'verify' | 'create';
+  reason: string;
+  pinLength: number;
+  onSubmit: (pin: string) => Promise<PinSubmitResult>;
+  onCancel: () => void;
+}
+
+export default function PinPromptModal({
+  visible,
+  mode,
+  reason,
+  pinLength,
+  onSubmit,
+  onCancel,
+}: PinPromptModalProps) {
+  const { colorScheme } = useTheme();
+  const [pin, setPin] = useState('');
+  const [firstEntry, setFirstEntry] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const inputRef = useRef<TextInput>(null);
+
+  // Reset the form every time the prompt opens
+  useEffect(() => {
+    if (visible) {
+      setPin('');
+      setFirstEntry(null);
+      setError(null);
+      setTimeout(() => inputRef.current?.focus(), 100);
+    }
+  }, [visible]);
+
+  const title = mode === 'create'
+    ? (firstEntry ? 'Confirm PIN' : 'Create PIN')
+    : 'Enter PIN';
+
+  const handleSubmit = async (value: string) => {
+    if (value.length !== pinLength || isSubmitting) return;
+
+    if (mode === 'create' && !firstEntry) {
+      setFirstEntry(value);
+      setPin('');
+      setError(null);
+      return;
+    }
+
+    if (mode === 'create' && firstEntry !== value) {
+      setFirstEntry(null);
+      setPin('');
+      setError('PINs did not match. Please try again');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const result = await onSubmit(value);
+      if (result.success) return;
+
+      setError(result.error || 'Incorrect PIN');
+      setPin('');
+    } catch (err) {
+      setError('Could not save your PIN. Please try again');
+      setPin('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleChange = (value: string) => {
+    const digits = value.replace(/[^0-9]/g, '').slice(0, pinLength);
+    setPin(digits);
+    if (digits.length === pinLength) {
+      handleSubmit(digits);
+    }
+  };
+
+  return (
+    <Modal
+      animationType="fade"
+      transparent={true}
+      visible={visible}
+      onRequestClose={onCancel}
+    >
+      <SafeAreaView className={`flex-1 ${colorScheme === 'dark' ? 'bg-black/50' : 'bg-black/30'}`}>
+        <View className="flex-1 justify-center items-center px-6">
+          <View
+            className={`w-full max-w-sm p-8 rounded-3xl ${colorScheme === 'dark' ? 'bg-gray-800/95' : 'bg-white'}`}
+            style={{
+              shadowColor: '#000',
+              shadowOffset: { width: 0, height: 2 },
+              shadowOpacity: colorScheme === 'dark' ? 0.3 : 0.08,
+              shadowRadius: 8,
+              elevation: 4,
+            }}
+          >
+            {/* Close button */}
+            <TouchableOpacity
+              className="absolute top-4 right-4 p-2"
+              onPress={onCancel}
+            >
+              <X size={24} color={colorScheme === 'dark' ? '#9CA3AF' : '#6B7280'} />
+            </TouchableOpacity>
+
+            <View className={`w-20 h-20 rounded-full items-center justify-center mx-auto mb-6 ${
+              colorScheme === 'dark' ? 'bg-blue-900/30' : 'bg-blue-100'
+            }`}>
+              <Lock size={36} color={colorScheme === 'dark' ? '#60A5FA' : '#2563EB'} />
+            </View>
+
+            <Text className={`text-center text-2xl font-bold mb-2 ${colorScheme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+              {title}
+            </Text>
+            <Text className={`text-center text-base mb-6 ${colorScheme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+              {reason}
+            </Text>
+
+            {/* PIN dots */}
+            <TouchableOpacity
+              activeOpacity={1}
+              onPress={() => inputRef.current?.focus()}
+              className="flex-row justify-center mb-4"
+            >
+              {Array.from({ length: pinLength }).map((_, index) => (
+                <View
+                  key={index}
+                  className={`w-4 h-4 rounded-full mx-2 ${
+                    index < pin.length
+                      ? 'bg-blue-500'
+                      : (colorScheme === 'dark' ? 'bg-gray-600' : 'bg-gray-200')
+                  }`}
+                />
+              ))}
+            </TouchableOpacity>
+
+            {/* Hidden input drives the dots above */}
+            <TextInput
+              ref={inputRef}
+              value={pin}
+              onChangeText={handleChange}
+              keyboardType="number-pad"
+              secureTextEntry={true}
+              maxLength={pinLength}
+              editable={!isSubmitting}
+              style={{ position: 'absolute', opacity: 0, height: 0, width: 0 }}
+            />
+
+            <View style={{ minHeight: 24 }}>
+              {isSubmitting ? (
+                <ActivityIndicator size="small" color={colorScheme === 'dark' ? '#9CA3AF' : '#6B7280'} />
+              ) : error ? (
+                <Text className="text-center text-sm text-red-500">{error}</Text>
+              ) : null}
+            </View>
+
+            <TouchableOpacity
+              onPress={onCancel}
+              className="pt-4"
+              disabled={isSubmitting}
+            >
+              <Text className={`text-center text-base ${colorScheme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+                Cancel
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+}
@@ -0,0 +1,293 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, Modal, SafeAreaView, TextInput, ActivityIndicator, Alert, Platform } from 'react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useBalance } from '@/contexts/BalanceContext';
+import { useAppLock } from '@/contexts/AppLockContext';
+import { usePaymentOutbox } from '@/contexts/PaymentOutboxContext';
+import { useTransactionHistory } from '@/contexts/TransactionHistoryStore';
+import { PaymentAPI, TransferAPI } from '@/services/api';
+import { isApiError } from '@/services/apiClient';
+import { prepareSignedPayment } from '@/services/transactionSigningService';
+import { TransactionVerificationError } from '@/services/transactionVerificationService';
+import { formatTokenValue } from '@/utils/tokenAmount';
+import type { PaymentDetails, RefundMethod, TransactionActivity } from '@/types/api';
+import { CheckCircle, RotateCcw, X } from 'lucide-react-native';
+
+const isWeb = Platform.OS === 'web';
+
+interface RefundModalProps {
+  // The completed payment being refunded, null when closed
+  payment: TransactionActivity | null;
+  onClose: () => void;
+}
+
+const METHOD_OPTIONS: Array<{ value: RefundMethod; label: string }> = [
+  { value: 'proportional', label: 'Same tokens' },
+  { value: 'usd_equivalent', label: 'USD value' },
+];
+
+const toCents = (usd: number) => Math.round(usd * 100);
+
+/**
+ * How much of a payment can still be refunded, in whole cents
+ */
+export const refundableCents = (payment: TransactionActivity) =>
+  Math.max(0, toCents(payment.price_usd) - toCents(payment.refunded_usd || 0));
+
+/**
+ * Lets a vendor send some or all of a completed payment back to the customer
+ */
+export default function RefundModal({ payment, onClose }: RefundModalProps) {
+  const { colorScheme } = useTheme();
+  const auth = useAuth();
+  const { refreshBalances } = useBalance();
+  const { refreshHistory } = useTransactionHistory();
+  const { requireAuthentication } = useAppLock();
+  const { submitPayment } = usePaymentOutbox();
+  const [amountInput, setAmountInput] = useState('');
+  const [method, setMethod] = useState<RefundMethod>('proportional');
+  const [refund, setRefund] = useState<PaymentDetails | null>(null);
+  const [isDone, setIsDone] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const walletAddress = auth?.walletAddress;
+  const remainingCents = payment ? refundableCents(payment) : 0;
+  const remaining = (remainingCents / 100).toFixed(2);
+
+  // Start from a full refund of whatever's left
+  useEffect(() => {
+    if (!payment) return;
+    setAmountInput((refundableCents(payment) / 100).toFixed(2));
+    setMethod('proportional');
+    setRefund(null);
+    setIsDone(false);
+    setError(null);
+  }, [payment?.payment_id]);
+
+  // A refund that was prepared but not signed is cancelled, so it doesn't hold the amount
+  const dropRefund = () => {
+    if (refund && !isDone && walletAddress) {
+      TransferAPI.cancelTransfer(refund.payment_id, walletAddress)
+        .catch(error => console.error('Failed to cancel refund:', error));
+    }
+    setRefund(null);
+  };
+
+  const handleClose = () => {
+    if (isLoading) return;
+    dropRefund();
+    onClose();
+  };
+
+  const handleReview = async () => {
+    if (!payment || !walletAddress || isLoading) return;
+    const amount = parseFloat(amountInput);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      setError('Enter an amount to refund');
+      return;
+    }
+    const amountCents = toCents(amount);
+    if (amountCents > remainingCents) {
+      setError(`You can refund up to $${remaining}`);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      setRefund(await PaymentAPI.refundPayment(payment.payment_id, {
+        vendor_address: walletAddress,
+        amount_usd: amountCents / 100,
+        method,
+      }));
+    } catch (error) {
+      setError(isApiError(error) ? error.message : 'Could not prepare the refund. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!refund?.unsigned_transaction || !walletAddress || isLoading) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const authorized = await requireAuthentication('Authorize this refund');
+      if (!authorized) {
+        dropRefund();
+        return;
+      }
+
+      const signedPayment = await prepareSignedPayment(
+        refund.payment_id,
+        JSON.parse(refund.unsigned_transaction),
+        refund,
+        walletAddress,
+        auth?.keyPair?.privateKey
+      );
+
+      const result = await submitPayment(signedPayment);
+      if (result.outcome === 'rejected') {
+        throw result.error;
+      }
+      if (result.outcome === 'queued') {
+        const message = 'You appear to be offline. The signed refund has been saved and will be sent when the connection is back.';
+        if (isWeb) {
+          alert(`Refund Queued: ${message}`);
+        } else {
+          Alert.alert('Refund Queued', message);
+        }
+        setRefund(null);
+        onClose();
+        return;
+      }
+
+      setIsDone(true);
+      await Promise.all([refreshBalances(), refreshHistory()]);
+    } catch (error) {
+      if (error instanceof TransactionVerificationError) {
+        setError(error.message);
+        return;
+      }
+      setError(error instanceof Error ? error.message : 'There was an error sending the refund. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const textColor = colorScheme === 'dark' ? 'text-white' : 'text-gray-900';
+  const mutedColor = colorScheme === 'dark' ? 'text-gray-400' : 'text-gray-600';
+  const panelColor = colorScheme === 'dark' ? 'bg-gray-700' : 'bg-gray-100';
+
+  return (
+    <Modal
+      animationType="fade"
+      transparent={true}
+      visible={!!payment}
+      onRequestClose={handleClose}
+    >
+      <SafeAreaView className={`flex-1 ${colorScheme === 'dark' ? 'bg-black/50' : 'bg-black/30'}`}>
+        <TouchableOpacity
+          className="flex-1 justify-center items-center px-6"
+          activeOpacity={1}
+          onPress={handleClose}
+        >
+          <TouchableOpacity
+            activeOpacity={1}
+            className={`w-full max-w-sm p-8 rounded-3xl ${colorScheme === 'dark' ? 'bg-gray-800/95' : 'bg-white'}`}
+            style={{
+              shadowColor: '#000',
+              shadowOffset: { width: 0, height: 2 },
+              shadowOpacity: colorScheme === 'dark' ? 0.3 : 0.08,
+              shadowRadius: 8,
+              elevation: 4,
+            }}
+          >
+            {/* Close button */}
+            <TouchableOpacity
+              className="absolute top-4 right-4 p-2"
+              onPress={handleClose}
+            >
+              <X size={24} color={colorScheme === 'dark' ? '#9CA3AF' : '#6B7280'} />
+            </TouchableOpacity>
+
+            <View className={`w-16 h-16 rounded-full items-center justify-center mx-auto mb-4 ${panelColor}`}>
+              {isDone
+                ? <CheckCircle size={28} color="#10B981" />
+                : <RotateCcw size={28} color={colorScheme === 'dark' ? '#FFFFFF' : '#374151'} />}
+            </View>
+
+            <Text className={`text-center text-2xl font-bold mb-1 ${textColor}`}>
+              {isDone ? 'Refund Sent' : 'Refund Payment'}
+            </Text>
+            {payment && (
+              <Text className={`text-center text-sm mb-6 ${mutedColor}`}>
+                #{payment.payment_id} • {payment.counterparty_username || 'Customer'} • ${payment.price_usd.toFixed(2)}
+              </Text>
+            )}
+
+            {error && (
+              <View className="bg-red-50 dark:bg-red-900/30 rounded-xl p-3 mb-4">
+                <Text className="text-sm text-red-600 dark:text-red-300">{error}</Text>
+              </View>
+            )}
+
+            {refund ? (
+              <>
+                <View className={`p-4 rounded-2xl mb-6 ${panelColor}`}>
+                  <Text className={`text-sm mb-2 ${mutedColor}`}>Returning to {refund.vendor_name}</Text>
+                  {refund.payment_bundle.map(item => (
+                    <View key={item.token_key} className="flex-row justify-between py-1">
+                      <Text className={mutedColor}>{item.symbol}</Text>
+                      <Text className={`font-semibold ${textColor}`}>{formatTokenValue(item.amount_to_pay, item)}</Text>
+                    </View>
+                  ))}
+                  <View className="flex-row justify-between pt-2 mt-1 border-t border-gray-200 dark:border-gray-600">
+                    <Text className={`font-semibold ${textColor}`}>Refund</Text>
+                    <Text className={`font-bold ${textColor}`}>${refund.price_usd.toFixed(2)}</Text>
+                  </View>
+                </View>
+
+                {isDone ? (
+                  <TouchableOpacity onPress={handleClose} className="py-4 rounded-2xl items-center bg-blue-500">
+                    <Text className="text-white font-semibold text-lg">Done</Text>
+                  </TouchableOpacity>
+                ) : (
+                  <>
+                    <TouchableOpacity onPress={handleConfirm} disabled={isLoading} className="py-4 rounded-2xl items-center bg-blue-500">
+                      {isLoading
+                        ? <ActivityIndicator color="#FFFFFF" />
+                        : <Text className="text-white font-semibold text-lg">Send Refund</Text>}
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={dropRefund} disabled={isLoading} className="pt-4 items-center">
+                      <Text className={mutedColor}>Edit</Text>
+                    </TouchableOpacity>
+                  </>
+                )}
+              </>
+            ) : (
+              <>
+                <Text className={`text-sm mb-2 ${mutedColor}`}>Amount (up to ${remaining})</Text>
+                <TextInput
+                  className={`border rounded-xl py-3 px-4 text-xl mb-4 ${
+                    colorScheme === 'dark' ? 'bg-gray-800 border-gray-700 text-white' : 'bg-white border-gray-300 text-gray-900'
+                  }`}
+                  value={amountInput}
+                  onChangeText={setAmountInput}
+                  keyboardType="decimal-pad"
+                  editable={!isLoading}
+                />
+
+                <Text className={`text-sm mb-2 ${mutedColor}`}>Refund with</Text>
+                <View className={`flex-row rounded-full p-1 mb-6 ${panelColor}`}>
+                  {METHOD_OPTIONS.map(option => (
+                    <TouchableOpacity
+                      key={option.value}
+                      onPress={() => setMethod(option.value)}
+                      className={`flex-1 py-2 rounded-full items-center ${method === option.value ? 'bg-white dark:bg-gray-600' : ''}`}
+                    >
+                      <Text className={`font-semibold ${textColor}`}>{option.label}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                <TouchableOpacity
+                  onPress={handleReview}
+                  disabled={isLoading || remainingCents <= 0}
+                  className={`py-4 rounded-2xl items-center ${remainingCents > 0 ? 'bg-blue-500' : 'bg-gray-400'}`}
+                >
+                  {isLoading
+                    ? <ActivityIndicator color="#FFFFFF" />
+                    : <Text className="text-white font-semibold text-lg">Review Refund</Text>}
+                </TouchableOpacity>
+              </>
+            )}
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </SafeAreaView>
+    </Modal>
+  );
+}
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, Modal, SafeAreaView, ActivityIndicator } from 'react-native';
+import { X } from 'lucide-react-native';
+import { ThemedText } from '@/components/core/ThemedText';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { exportActivities } from '@/services/exportService';
+import type { ExportFormat } from '@/services/exportService';
+
+type RangePreset = 'month' | 'lastMonth' | '30d' | '90d' | 'year' | 'all';
+
+const RANGE_PRESETS: { value: RangePreset; label: string }[] = [
+  { value: 'month', label: 'This month' },
+  { value: 'lastMonth', label: 'Last month' },
+  { value: '30d', label: 'Last 30 days' },
+  { value: '90d', label: 'Last 90 days' },
+  { value: 'year', label: 'This year' },
+  { value: 'all', label: 'All time' },
+];
+
+const FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'json', label: 'JSON' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Calendar presets follow the device's timezone
+const presetRange = (preset: RangePreset, now: Date = new Date()) => {
+  const to = now.getTime();
+  switch (preset) {
+    case 'month':
+      return { from: new Date(now.getFullYear(), now.getMonth(), 1).getTime(), to };
+    case 'lastMonth':
+      return {
+        from: new Date(now.getFullYear(), now.getMonth() - 1, 1).getTime(),
+        to: new Date(now.getFullYear(), now.getMonth(), 1).getTime() - 1,
+      };
+    case '30d':
+      return { from: to - 30 * DAY_MS, to };
+    case '90d':
+      return { from: to - 90 * DAY_MS, to };
+    case 'year':
+      return { from: new Date(now.getFullYear(), 0, 1).getTime(), to };
+    case 'all':
+      return { from: null, to };
+  }
+};
+
+interface ExportActivityModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Pick a date range and format, then share the wallet's activity as a file
+ */
+export default function ExportActivityModal({ visible, onClose }: ExportActivityModalProps) {
+  const { colorScheme } = useTheme();
+  const { walletAddress } = useAuth();
+  const [preset, setPreset] = useState<RangePreset>('month');
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [isExporting, setIsExporting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleClose = () => {
+    if (isExporting) return;
+    setMessage(null);
+    onClose();
+  };
+
+  const handleExport = async () => {
+    if (!walletAddress) return;
+
+    setIsExporting(true);
+    setMessage(null);
+    try {
+      const { count } = await exportActivities(walletAddress, presetRange(preset), format);
+      if (count === 0) {
+        setMessage('No activity in this range');
+      } else {
+        handleClose();
+      }
+    } catch (error) {
+      console.error('Failed to export activity:', error);
+      setMessage(error instanceof Error ? error.message : 'Failed to export activity');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const renderOption = (label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      onPress={onPress}
+      className={`px-3 py-2 mr-2 mb-2 rounded-full ${selected ? 'bg-blue-500' : 'bg-gray-100 dark:bg-gray-700'}`}
+    >
+      <Text className={`text-sm font-medium ${selected ? 'text-white' : 'text-gray-700 dark:text-gray-300'}`}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      animationType="fade"
+      transparent={true}
+      visible={visible}
+      onRequestClose={handleClose}
+    >
+      <SafeAreaView className={`flex-1 ${colorScheme === 'dark' ? 'bg-black/50' : 'bg-black/30'}`}>
+        <TouchableOpacity
+          className="flex-1 justify-center items-center px-6"
+          activeOpacity={1}
+          onPress={handleClose}
+        >
+          <TouchableOpacity
+            activeOpacity={1}
+            className={`w-full max-w-sm p-8 rounded-3xl ${colorScheme === 'dark' ? 'bg-gray-800/95' : 'bg-white'}`}
+            style={{
+              shadowColor: '#000',
+              shadowOffset: { width: 0, height: 2 },
+              shadowOpacity: colorScheme === 'dark' ? 0.3 : 0.08,
+              shadowRadius: 8,
+              elevation: 4,
+            }}
+          >
+            <TouchableOpacity className="absolute top-4 right-4 p-2" onPress={handleClose}>
+              <X size={24} color={colorScheme === 'dark' ? '#9CA3AF' : '#6B7280'} />
+            </TouchableOpacity>
+
+            <ThemedText className="text-2xl font-bold mb-1">Export Activity</ThemedText>
+            <ThemedText className="text-sm opacity-60 mb-6">
+              Payments and deposits with token breakdowns, for your records
+            </ThemedText>
+
+            <ThemedText className="text-xs font-semibold opacity-60 mb-2 uppercase">Date range</ThemedText>
+            <View className="flex-row flex-wrap mb-4">
+              {RANGE_PRESETS.map(option => renderOption(option.label, preset === option.value, () => setPreset(option.value)))}
+            </View>
+
+            <ThemedText className="text-xs font-semibold opacity-60 mb-2 uppercase">Format</ThemedText>
+            <View className="flex-row flex-wrap mb-4">
+              {FORMATS.map(option => renderOption(option.label, format === option.value, () => setFormat(option.value)))}
+            </View>
+
+            {message && (
+              <ThemedText className="text-sm text-center opacity-60 mb-4">{message}</ThemedText>
+            )}
+
+            <TouchableOpacity
+              className={`py-4 rounded-2xl items-center ${colorScheme === 'dark' ? 'bg-blue-600' : 'bg-blue-500'}`}
+              onPress={handleExport}
+              disabled={isExporting}
+            >
+              {isExporting ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : (
+                <ThemedText className="text-white font-semibold text-lg">Export</ThemedText>
+              )}
+            </TouchableOpacity>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </SafeAreaView>
+    </Modal>
+  );
+}
@@ -0,0 +1,178 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, GestureResponderEvent, LayoutChangeEvent } from 'react-native';
+import Svg, { Circle, Defs, Line, LinearGradient, Path, Stop } from 'react-native-svg';
+import { useTheme } from '@/contexts/ThemeContext';
+import type { PortfolioPoint } from '@/services/portfolioHistoryService';
+
+type ChartRange = '1W' | '1M' | 'All';
+
+const RANGES: Record<ChartRange, number | null> = {
+  '1W': 7 * 24 * 60 * 60 * 1000,
+  '1M': 30 * 24 * 60 * 60 * 1000,
+  'All': null,
+};
+
+const CHART_HEIGHT = 140;
+const VERTICAL_PADDING = 8;
+
+const formatUSD = (value: number) => Intl.NumberFormat('en-US', {
+  style: 'currency',
+  currency: 'USD',
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+}).format(value);
+
+const formatPointDate = (at: number) => new Date(at).toLocaleDateString('en-US', {
+  month: 'short',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: '2-digit',
+});
+
+// Points inside the range, starting from the value held when the range began
+const pointsInRange = (points: PortfolioPoint[], range: ChartRange, now: number): PortfolioPoint[] => {
+  const span = RANGES[range];
+  if (span === null) return points;
+
+  const start = now - span;
+  const inRange = points.filter(point => point.at >= start);
+  const before = points.filter(point => point.at < start).pop();
+  return before ? [{ ...before, at: start }, ...inRange] : inRange;
+};
+
+interface PortfolioChartProps {
+  points: PortfolioPoint[];
+}
+
+/**
+ * Portfolio value over time, drag across it to read any point
+ */
+export function PortfolioChart({ points }: PortfolioChartProps) {
+  const { colorScheme } = useTheme();
+  const [range, setRange] = useState<ChartRange>('1W');
+  const [width, setWidth] = useState(0);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+
+  const visible = useMemo(() => {
+    const now = Date.now();
+    const inRange = pointsInRange(points, range, now);
+    // Carry the latest value to now so the line reaches the right edge
+    const last = inRange[inRange.length - 1];
+    return last && last.at < now ? [...inRange, { ...last, at: now }] : inRange;
+  }, [points, range]);
+
+  const layout = useMemo(() => {
+    if (visible.length < 2 || width === 0) return null;
+
+    const times = visible.map(point => point.at);
+    const values = visible.map(point => point.totalValueUSD);
+    const minTime = Math.min(...times);
+    const timeSpan = Math.max(Math.max(...times) - minTime, 1);
+    const minValue = Math.min(...values);
+    const valueSpan = Math.max(Math.max(...values) - minValue, 0.01);
+    const plotHeight = CHART_HEIGHT - VERTICAL_PADDING * 2;
+
+    const coordinates = visible.map(point => ({
+      x: ((point.at - minTime) / timeSpan) * width,
+      y: VERTICAL_PADDING + plotHeight - ((point.totalValueUSD - minValue) / valueSpan) * plotHeight,
+    }));
+
+    const line = coordinates.map((c, i) => `${i === 0 ? 'M' : 'L'}${c.x.toFixed(1)},${c.y.toFixed(1)}`).join(' ');
+    const area = `${line} L${width},${CHART_HEIGHT} L0,${CHART_HEIGHT} Z`;
+    return { coordinates, line, area };
+  }, [visible, width]);
+
+  if (points.length < 2) {
+    return null;
+  }
+
+  const first = visible[0];
+  const last = visible[visible.length - 1];
+  const change = first && last ? last.totalValueUSD - first.totalValueUSD : 0;
+  const changePercent = first && first.totalValueUSD > 0 ? (change / first.totalValueUSD) * 100 : 0;
+  const lineColor = change < 0 ? '#EF4444' : '#10B981';
+  const selected = selectedIndex !== null ? visible[selectedIndex] : null;
+  const selectedCoordinate = selectedIndex !== null ? layout?.coordinates[selectedIndex] : undefined;
+
+  const selectAt = (event: GestureResponderEvent) => {
+    if (!layout) return;
+    const x = event.nativeEvent.locationX;
+    let nearest = 0;
+    layout.coordinates.forEach((c, i) => {
+      if (Math.abs(c.x - x) < Math.abs(layout.coordinates[nearest].x - x)) {
+        nearest = i;
+      }
+    });
+    setSelectedIndex(nearest);
+  };
+
+  return (
+    <View className="mb-4">
+      {/* Change over the range, or the point being read */}
+      <View className="items-center mb-2" style={{ minHeight: 20 }}>
+        {selected ? (
+          <Text className="text-sm text-gray-600 dark:text-gray-400">
+            {formatUSD(selected.totalValueUSD)} • {formatPointDate(selected.at)}
+          </Text>
+        ) : (
+          <Text className="text-sm font-medium" style={{ color: lineColor }}>
+            {change >= 0 ? '+' : '-'}{formatUSD(Math.abs(change))} ({changePercent >= 0 ? '+' : ''}{changePercent.toFixed(1)}%)
+          </Text>
+        )}
+      </View>
+
+      <View
+        style={{ height: CHART_HEIGHT }}
+        onLayout={(event: LayoutChangeEvent) => setWidth(event.nativeEvent.layout.width)}
+        onStartShouldSetResponder={() => true}
+        onMoveShouldSetResponder={() => true}
+        onResponderTerminationRequest={() => false}
+        onResponderGrant={selectAt}
+        onResponderMove={selectAt}
+        onResponderRelease={() => setSelectedIndex(null)}
+        onResponderTerminate={() => setSelectedIndex(null)}
+      >
+        {layout && (
+          <Svg width={width} height={CHART_HEIGHT}>
+            <Defs>
+              <LinearGradient id="portfolioFill" x1="0" y1="0" x2="0" y2="1">
+                <Stop offset="0" stopColor={lineColor} stopOpacity={0.2} />
+                <Stop offset="1" stopColor={lineColor} stopOpacity={0} />
+              </LinearGradient>
+            </Defs>
+            <Path d={layout.area} fill="url(#portfolioFill)" />
+            <Path d={layout.line} stroke={lineColor} strokeWidth={2} fill="none" />
+            {selectedCoordinate && (
+              <>
+                <Line
+                  x1={selectedCoordinate.x}
+                  y1={0}
+                  x2={selectedCoordinate.x}
+                  y2={CHART_HEIGHT}
+                  stroke={colorScheme === 'dark' ? '#4B5563' : '#D1D5DB'}
+                  strokeWidth={1}
+                />
+                <Circle cx={selectedCoordinate.x} cy={selectedCoordinate.y} r={4} fill={lineColor} />
+              </>
+            )}
+          </Svg>
+        )}
+      </View>
+
+      {/* Range selector */}
+      <View className="flex-row justify-center mt-3">
+        {(Object.keys(RANGES) as ChartRange[]).map(option => (
+          <TouchableOpacity
+            key={option}
+            onPress={() => setRange(option)}
+            className={`px-4 py-1.5 mx-1 rounded-full ${range === option ? 'bg-gray-100 dark:bg-gray-800' : ''}`}
+          >
+            <Text className={`text-sm font-semibold ${range === option ? 'text-black dark:text-white' : 'text-gray-500'}`}>
+              {option}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+}
@@ -1,110 +1,177 @@
-import React, { useEffect, useState } from 'react';
-import { View, TouchableOpacity, ScrollView, ActivityIndicator, RefreshControl, Modal, Text, Image, SafeAreaView } from 'react-native';
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, TouchableOpacity, ScrollView, ActivityIndicator, RefreshControl, Modal, Text, TextInput, Image, SafeAreaView } from 'react-native';
 import { ThemedText } from '@/components/core/ThemedText';
 import { ThemedView } from '@/components/core/ThemedView';
 import { useTheme } from '@/contexts/ThemeContext';
-import { useAuth } from '@/contexts/AuthContext';
-import { PaymentAPI } from '@/services/api';
-import { ArrowUpRight, ArrowDownLeft, Clock, CheckCircle, XCircle, X, Banknote } from 'lucide-react-native';
+import { useTransactionHistory } from '@/contexts/TransactionHistoryStore';
+import { isCompletedStatus, isTerminalStatus } from '@/services/paymentStateMachine';
+import { formatBaseUnits, formatTokenValue } from '@/utils/tokenAmount';
+import {
+  activityTokens,
+  DEFAULT_HISTORY_FILTERS,
+  filterActivities,
+  groupActivities,
+  hasActiveFilters,
+} from '@/utils/activityFilters';
+import type { HistoryFilters } from '@/utils/activityFilters';
+import type { Activity, DepositActivity, TransactionActivity } from '@/types/api';
+import RefundModal, { refundableCents } from '@/components/modals/RefundModal';
+import { ArrowUpRight, ArrowDownLeft, Clock, CheckCircle, XCircle, X, Banknote, Search, SlidersHorizontal } from 'lucide-react-native';
 
-// Base activity interface
-interface BaseActivity {
-  type: 'transaction' | 'deposit';
-  created_at: number; // Unix timestamp
+interface TransactionHistoryProps {
+  limit?: number;
+  showTitle?: boolean;
 }
 
-// Transaction type from API
-interface TransactionActivity extends BaseActivity {
-  type: 'transaction';
-  payment_id: string;
-  direction: 'Sent' | 'Received';
-  counterparty_address: string;
-  counterparty_username?: string;
-  vendor_name?: string;
-  status: string;
-  price_usd: number;
-  computed_payment?: Array<{
-    token_key: string;
-    symbol: string;
-    amount_to_pay: number;
-    token_image_url?: string;
-  }>;
+interface FilterOption<T> {
+  value: T;
+  label: string;
 }
 
-// Deposit type from API
-interface DepositActivity extends BaseActivity {
-  type: 'deposit';
-  id: null;
-  wallet_address: string;
-  token_symbol: string;
-  token_image_url: string | null;
-  amount_deposited_usd: number;
-  amount_tokens_received: number;
-}
+const DIRECTION_OPTIONS: FilterOption<HistoryFilters['direction']>[] = [
+  { value: 'all', label: 'All' },
+  { value: 'Sent', label: 'Sent' },
+  { value: 'Received', label: 'Received' },
+];
 
-// Union type for all activities
-type Activity = TransactionActivity | DepositActivity;
+const TYPE_OPTIONS: FilterOption<HistoryFilters['type']>[] = [
+  { value: 'all', label: 'All' },
+  { value: 'transaction', label: 'Payments' },
+  { value: 'deposit', label: 'Deposits' },
+];
 
-interface TransactionHistoryProps {
-  limit?: number;
-  showTitle?: boolean;
+const STATUS_OPTIONS: FilterOption<HistoryFilters['status']>[] = [
+  { value: 'all', label: 'All' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'pending', label: 'Pending' },
+  { value: 'failed', label: 'Failed' },
+];
+
+const DATE_RANGE_OPTIONS: FilterOption<HistoryFilters['dateRange']>[] = [
+  { value: 'all', label: 'All time' },
+  { value: '7d', label: '7 days' },
+  { value: '30d', label: '30 days' },
+  { value: '90d', label: '90 days' },
+  { value: '365d', label: '1 year' },
+];
+
+const GROUPING_OPTIONS: FilterOption<HistoryFilters['groupBy']>[] = [
+  { value: 'day', label: 'Day' },
+  { value: 'month', label: 'Month' },
+];
+
+function FilterRow<T>({ title, options, selected, onSelect }: {
+  title: string;
+  options: FilterOption<T>[];
+  selected: T;
+  onSelect: (value: T) => void;
+}) {
+  return (
+    <View className="mb-3">
+      <ThemedText className="text-xs font-semibold opacity-60 mb-2 uppercase">{title}</ThemedText>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        {options.map(option => (
+          <TouchableOpacity
+            key={String(option.value)}
+            onPress={() => onSelect(option.value)}
+            className={`px-3 py-1.5 mr-2 rounded-full ${
+              selected === option.value ? 'bg-blue-500' : 'bg-gray-100 dark:bg-gray-800'
+            }`}
+          >
+            <Text className={`text-sm font-medium ${
+              selected === option.value ? 'text-white' : 'text-gray-700 dark:text-gray-300'
+            }`}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </View>
+  );
 }
 
+const formatSubtotal = (value: number) => Intl.NumberFormat('en-US', {
+  style: 'currency',
+  currency: 'USD',
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+}).format(value);
+
 export default function TransactionHistory({ limit = 10, showTitle = true }: TransactionHistoryProps) {
   const { colorScheme } = useTheme();
-  const auth = useAuth();
-  const [activities, setActivities] = useState<Activity[]>([]);
+  const {
+    activities,
+    hasMore,
+    isLoading,
+    error,
+    loadMoreTransactions,
+    refreshHistory,
+    historyFilters,
+    setHistoryFilters,
+  } = useTransactionHistory();
   const [selectedActivity, setSelectedActivity] = useState<Activity | null>(null);
   const [showDetails, setShowDetails] = useState(false);
-  const [isLoading, setIsLoading] = useState(true);
+  // Completed payment the vendor is refunding
+  const [refundTarget, setRefundTarget] = useState<TransactionActivity | null>(null);
+  const [showFilters, setShowFilters] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [visibleCount, setVisibleCount] = useState(limit);
 
-  const loadTransactions = async (isRefresh = false) => {
-    if (!auth?.walletAddress) return;
-    
-    if (isRefresh) {
-      setIsRefreshing(true);
-    } else {
-      setIsLoading(true);
-    }
-    setError(null);
-    
-    try {
-      const response = await PaymentAPI.getTransactionHistory(auth.walletAddress);
-      
-      // Log first activity to see structure
-      if (response.activities && response.activities.length > 0) {
-        console.log('Sample activity structure:', JSON.stringify(response.activities[0], null, 2));
-      }
-      
-      // Only show the requested limit
-      const limitedActivities = (response.activities || []).slice(0, limit);
-      setActivities(limitedActivities);
-    } catch (err) {
-      console.error('Failed to load transaction history:', err);
-      setError('Failed to load transaction history');
-      setActivities([]);
-    } finally {
-      setIsLoading(false);
-      setIsRefreshing(false);
-    }
+  // Cached activities show straight away, this brings them up to date
+  useEffect(() => {
+    refreshHistory();
+  }, []);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await refreshHistory();
+    setIsRefreshing(false);
   };
 
-  useEffect(() => {
-    loadTransactions();
-  }, [auth?.walletAddress]);
+  const updateFilters = (changes: Partial<HistoryFilters>) => {
+    setHistoryFilters({ ...historyFilters, ...changes });
+    setVisibleCount(limit);
+  };
+
+  const tokenOptions = useMemo((): FilterOption<string | null>[] => {
+    const symbols = new Set(activities.flatMap(activityTokens));
+    return [
+      { value: null, label: 'All' },
+      ...[...symbols].sort().map(symbol => ({ value: symbol, label: symbol })),
+    ];
+  }, [activities]);
 
-  const isPending = (status: string) => {
-    const normalizedStatus = status.toLowerCase();
-    return !['completed', 'success', 'confirmed', 'failed', 'cancelled', 'expired'].includes(normalizedStatus);
+  const filtered = useMemo(
+    () => filterActivities(activities, historyFilters),
+    [activities, historyFilters]
+  );
+
+  // Subtotals cover every match in a group, even rows not shown yet
+  const groups = useMemo(() => {
+    const shown = new Set(
+      [...filtered].sort((a, b) => b.created_at - a.created_at).slice(0, visibleCount)
+    );
+    return groupActivities(filtered, historyFilters.groupBy)
+      .map(group => ({ ...group, shown: group.activities.filter(activity => shown.has(activity)) }))
+      .filter(group => group.shown.length > 0);
+  }, [filtered, historyFilters.groupBy, visibleCount]);
+
+  const canShowMore = filtered.length > visibleCount || hasMore;
+  const filtersActive = hasActiveFilters(historyFilters);
+
+  const handleShowMore = () => {
+    setVisibleCount(count => count + limit);
+    if (filtered.length <= visibleCount + limit && hasMore) {
+      loadMoreTransactions();
+    }
   };
 
+  const isPending = (status: string) => !isTerminalStatus(status);
+
   const getStatusIcon = (status: string) => {
-    const normalizedStatus = status.toLowerCase();
-    if (['completed', 'success', 'confirmed'].includes(normalizedStatus)) {
+    if (isCompletedStatus(status)) {
       return <CheckCircle size={16} color="#10B981" />;
-    } else if (['failed', 'cancelled', 'expired'].includes(normalizedStatus)) {
+    } else if (isTerminalStatus(status)) {
       return <XCircle size={16} color="#EF4444" />;
     } else {
       return <Clock size={16} color="#F59E0B" />;
@@ -146,7 +213,8 @@ export default function TransactionHistory({ limit = 10, showTitle = true }: Tra
     if (isPending(transaction.status)) {
       return 'Transaction Created';
     }
-    return transaction.direction === 'Received' ? 'Payment Received' : 'Payment Sent';
+    const noun = transaction.kind === 'transfer' ? 'Transfer' : transaction.kind === 'refund' ? 'Refund' : 'Payment';
+    return transaction.direction === 'Received' ? `${noun} Received` : `${noun} Sent`;
   };
   
   const getActivityAmount = (activity: Activity) => {
@@ -181,13 +249,15 @@ export default function TransactionHistory({ limit = 10, showTitle = true }: Tra
                         `${transaction.counterparty_address.slice(0, 8)}...`;
     }
     
-    return `${prefix} ${counterpartyName}`;
+    return transaction.refund_of
+      ? `${prefix} ${counterpartyName} • for #${transaction.refund_of}`
+      : `${prefix} ${counterpartyName}`;
   };
   
   const getActivityPrimaryAmount = (activity: Activity) => {
     if (activity.type === 'deposit') {
-      // For deposits, show tokens received (divide by 100 as per backend format)
-      return (activity.amount_tokens_received / 100).toFixed(2);
+      // For deposits, show tokens received (sent in base units)
+      return formatBaseUnits(activity.amount_tokens_received, { symbol: activity.token_symbol, decimals: activity.token_decimals });
     }
     // For transactions, show USD amount
     return getActivityAmount(activity).toFixed(2);
@@ -243,7 +313,7 @@ export default function TransactionHistory({ limit = 10, showTitle = true }: Tra
     }
   };
 
-  if (isLoading && !isRefreshing) {
+  if (isLoading && !isRefreshing && activities.length === 0) {
     return (
       <ThemedView className="p-4">
         <View className="items-center justify-center py-8">
@@ -261,17 +331,107 @@ export default function TransactionHistory({ limit = 10, showTitle = true }: Tra
         </View>
       )}
       
+      {/* Search and filters */}
+      <View className="px-4 pt-2">
+        <View className="flex-row items-center">
+          <View className="flex-1 flex-row items-center bg-gray-100 dark:bg-gray-800 rounded-xl px-3">
+            <Search size={18} color={colorScheme === 'dark' ? '#9CA3AF' : '#6B7280'} />
+            <TextInput
+              className="flex-1 py-3 ml-2 text-base text-gray-900 dark:text-white"
+              value={historyFilters.query}
+              onChangeText={query => updateFilters({ query })}
+              placeholder="Search vendors and people"
+              placeholderTextColor={colorScheme === 'dark' ? '#6B7280' : '#9CA3AF'}
+              autoCapitalize="none"
+              autoCorrect={false}
+              returnKeyType="search"
+            />
+            {historyFilters.query !== '' && (
+              <TouchableOpacity onPress={() => updateFilters({ query: '' })} className="p-1">
+                <X size={16} color={colorScheme === 'dark' ? '#9CA3AF' : '#6B7280'} />
+              </TouchableOpacity>
+            )}
+          </View>
+          <TouchableOpacity
+            onPress={() => setShowFilters(!showFilters)}
+            className={`ml-2 p-3 rounded-xl ${
+              showFilters || filtersActive ? 'bg-blue-500' : 'bg-gray-100 dark:bg-gray-800'
+            }`}
+          >
+            <SlidersHorizontal
+              size={18}
+              color={showFilters || filtersActive ? '#FFFFFF' : (colorScheme === 'dark' ? '#9CA3AF' : '#6B7280')}
+            />
+          </TouchableOpacity>
+        </View>
+
+        {showFilters && (
+          <View className="mt-4">
+            <FilterRow
+              title="Direction"
+              options={DIRECTION_OPTIONS}
+              selected={historyFilters.direction}
+              onSelect={direction => updateFilters({ direction })}
+            />
+            <FilterRow
+              title="Type"
+              options={TYPE_OPTIONS}
+              selected={historyFilters.type}
+              onSelect={type => updateFilters({ type })}
+            />
+            <FilterRow
+              title="Status"
+              options={STATUS_OPTIONS}
+              selected={historyFilters.status}
+              onSelect={status => updateFilters({ status })}
+            />
+            {tokenOptions.length > 2 && (
+              <FilterRow
+                title="Token"
+                options={tokenOptions}
+                selected={historyFilters.token}
+                onSelect={token => updateFilters({ token })}
+              />
+            )}
+            <FilterRow
+              title="Date"
+              options={DATE_RANGE_OPTIONS}
+              selected={historyFilters.dateRange}
+              onSelect={dateRange => updateFilters({ dateRange })}
+            />
+            <FilterRow
+              title="Group by"
+              options={GROUPING_OPTIONS}
+              selected={historyFilters.groupBy}
+              onSelect={groupBy => updateFilters({ groupBy })}
+            />
+          </View>
+        )}
+
+        {filtersActive && (
+          <View className="flex-row items-center justify-between mt-3">
+            <ThemedText className="text-sm opacity-60">
+              {filtered.length} {filtered.length === 1 ? 'match' : 'matches'}
+            </ThemedText>
+            <TouchableOpacity onPress={() => updateFilters({ ...DEFAULT_HISTORY_FILTERS, groupBy: historyFilters.groupBy })}>
+              <Text className="text-sm font-semibold text-blue-500">Clear filters</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+      
       <ScrollView
         refreshControl={
           <RefreshControl
             refreshing={isRefreshing}
-            onRefresh={() => loadTransactions(true)}
+            onRefresh={handleRefresh}
             tintColor="#E5E7EB"
           />
         }
         showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
       >
-        {error ? (
+        {error && activities.length === 0 ? (
           <View className="flex-1 items-center justify-center px-6 py-16">
             <View className={`w-full max-w-sm p-8 rounded-3xl ${colorScheme === 'dark' ? 'bg-gray-800/50' : 'bg-white'}`}
               style={{
@@ -295,7 +455,7 @@ export default function TransactionHistory({ limit = 10, showTitle = true }: Tra
                 className={`py-4 px-8 rounded-2xl items-center ${
                   colorScheme === 'dark' ? 'bg-blue-600' : 'bg-blue-500'
                 }`}
-                onPress={() => loadTransactions()}
+                onPress={() => refreshHistory()}
                 style={{
                   shadowColor: '#3B82F6',
                   shadowOffset: { width: 0, height: 4 },
@@ -331,83 +491,122 @@ export default function TransactionHistory({ limit = 10, showTitle = true }: Tra
               </ThemedText>
             </View>
           </View>
+        ) : filtered.length === 0 ? (
+          <View className="items-center justify-center px-6 py-16">
+            <ThemedText className="text-center text-lg font-semibold mb-2">No matching activity</ThemedText>
+            <ThemedText className="text-center text-base opacity-60">
+              Try a different search or clear your filters
+            </ThemedText>
+          </View>
         ) : (
           <View className="px-4 pb-4">
-            {activities.map((activity, index) => {
-              const amount = getActivityAmount(activity);
-              const isDeposit = activity.type === 'deposit';
-              const isIncoming = isDeposit || (activity.type === 'transaction' && (activity as TransactionActivity).direction === 'Received');
-              const isPendingActivity = activity.type === 'transaction' && isPending((activity as TransactionActivity).status);
+            {groups.map(group => (
+              <View key={group.key} className="mt-4">
+                {/* Group header with completed subtotals */}
+                <View className="flex-row items-center justify-between mb-2">
+                  <ThemedText className="text-sm font-semibold opacity-60">{group.label}</ThemedText>
+                  <View className="flex-row">
+                    {group.receivedUSD > 0 && (
+                      <Text className="text-sm font-semibold text-green-500 ml-3">
+                        +{formatSubtotal(group.receivedUSD)}
+                      </Text>
+                    )}
+                    {group.sentUSD > 0 && (
+                      <ThemedText className="text-sm font-semibold opacity-60 ml-3">
+                        -{formatSubtotal(group.sentUSD)}
+                      </ThemedText>
+                    )}
+                  </View>
+                </View>
+
+                {group.shown.map((activity, index) => {
+                  const amount = getActivityAmount(activity);
+                  const isDeposit = activity.type === 'deposit';
+                  const isIncoming = isDeposit || (activity.type === 'transaction' && (activity as TransactionActivity).direction === 'Received');
+                  const isPendingActivity = activity.type === 'transaction' && isPending((activity as TransactionActivity).status);
               
-              return (
-                <TouchableOpacity
-                  key={activity.type === 'deposit' ? `deposit-${activity.created_at}-${index}` : (activity as TransactionActivity).payment_id}
-                  className={`
-                    bg-gray-50 dark:bg-gray-800 rounded-xl p-4 mb-3
-                    ${index === 0 ? 'mt-2' : ''}
-                  `}
-                  onPress={() => {
-                    setSelectedActivity(activity);
-                    setShowDetails(true);
-                  }}
-                >
-                  <View className="flex-row items-center justify-between">
-                    <View className="flex-row items-center flex-1">
-                      <View className="relative mr-3">
-                        <View className="w-10 h-10 bg-gray-200 dark:bg-gray-700 rounded-full items-center justify-center">
-                          {getActivityIcon(activity)}
-                        </View>
-                        {activity.type === 'transaction' && (
-                          <View className="absolute -bottom-1 -right-1 w-3 h-3 rounded-full border-2 border-gray-50 dark:border-gray-800"
-                            style={{
-                              backgroundColor: isPendingActivity ? '#F59E0B' : '#10B981'
-                            }}
-                          />
-                        )}
-                      </View>
+                  return (
+                    <TouchableOpacity
+                      key={activity.type === 'deposit' ? `deposit-${activity.created_at}-${index}` : (activity as TransactionActivity).payment_id}
+                      className="bg-gray-50 dark:bg-gray-800 rounded-xl p-4 mb-3"
+                      onPress={() => {
+                        setSelectedActivity(activity);
+                        setShowDetails(true);
+                      }}
+                    >
+                      <View className="flex-row items-center justify-between">
+                        <View className="flex-row items-center flex-1">
+                          <View className="relative mr-3">
+                            <View className="w-10 h-10 bg-gray-200 dark:bg-gray-700 rounded-full items-center justify-center">
+                              {getActivityIcon(activity)}
+                            </View>
+                            {activity.type === 'transaction' && (
+                              <View className="absolute -bottom-1 -right-1 w-3 h-3 rounded-full border-2 border-gray-50 dark:border-gray-800"
+                                style={{
+                                  backgroundColor: isPendingActivity ? '#F59E0B' : '#10B981'
+                                }}
+                              />
+                            )}
+                          </View>
                       
-                      <View className="flex-1">
-                        <View className="flex-row items-center">
-                          <ThemedText className="font-semibold text-base">
-                            {getActivityTitle(activity)}
-                          </ThemedText>
-                          {activity.type === 'transaction' && (
-                            <View className="ml-2">
-                              {getStatusIcon((activity as TransactionActivity).status)}
+                          <View className="flex-1">
+                            <View className="flex-row items-center">
+                              <ThemedText className="font-semibold text-base">
+                                {getActivityTitle(activity)}
+                              </ThemedText>
+                              {activity.type === 'transaction' && (
+                                <View className="ml-2">
+                                  {getStatusIcon((activity as TransactionActivity).status)}
+                                </View>
+                              )}
                             </View>
-                          )}
-                        </View>
                         
-                        <ThemedText className="text-sm opacity-60 mt-1">
-                          {getActivitySubtitle(activity)}
-                        </ThemedText>
+                            <ThemedText className="text-sm opacity-60 mt-1">
+                              {getActivitySubtitle(activity)}
+                            </ThemedText>
                         
-                        <ThemedText className="text-xs opacity-50 mt-1">
-                          {formatDate(activity.created_at)}
-                        </ThemedText>
-                      </View>
-                    </View>
+                            <ThemedText className="text-xs opacity-50 mt-1">
+                              {formatDate(activity.created_at)}
+                            </ThemedText>
+                          </View>
+                        </View>
                     
-                    <View className="items-end">
-                      <ThemedText className={`text-lg font-bold ${
-                        isPendingActivity
-                          ? 'text-gray-400'
-                          : (isIncoming ? 'text-green-500' : 'text-gray-700 dark:text-gray-300')
-                      }`}>
-                        {isIncoming ? '+' : '-'}{getActivityPrimaryAmount(activity)} {getActivityPrimaryLabel(activity)}
-                      </ThemedText>
+                        <View className="items-end">
+                          <ThemedText className={`text-lg font-bold ${
+                            isPendingActivity
+                              ? 'text-gray-400'
+                              : (isIncoming ? 'text-green-500' : 'text-gray-700 dark:text-gray-300')
+                          }`}>
+                            {isIncoming ? '+' : '-'}{getActivityPrimaryAmount(activity)} {getActivityPrimaryLabel(activity)}
+                          </ThemedText>
                       
-                      {activity.type === 'transaction' && (
-                        <ThemedText className="text-xs opacity-50 mt-1">
-                          #{(activity as TransactionActivity).payment_id}
-                        </ThemedText>
-                      )}
-                    </View>
-                  </View>
+                          {activity.type === 'transaction' && (
+                            <ThemedText className="text-xs opacity-50 mt-1">
+                              #{(activity as TransactionActivity).payment_id}
+                            </ThemedText>
+                          )}
+                        </View>
+                      </View>
                   
-                </TouchableOpacity>
-              );
-            })}
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            ))}
+
+            {canShowMore && (
+              <TouchableOpacity
+                className="py-3 items-center"
+                onPress={handleShowMore}
+                disabled={isLoading}
+              >
+                {isLoading ? (
+                  <ActivityIndicator size="small" color="#E5E7EB" />
+                ) : (
+                  <Text className="text-sm font-semibold text-blue-500">Show more</Text>
+                )}
+              </TouchableOpacity>
+            )}
           </View>
         )}
       </ScrollView>
@@ -507,7 +706,7 @@ export default function TransactionHistory({ limit = 10, showTitle = true }: Tra
                             />
                           )}
                           <ThemedText className="text-lg font-bold">
-                            {((selectedActivity as DepositActivity).amount_tokens_received / 100).toFixed(2)} {(selectedActivity as DepositActivity).token_symbol}
+                            {getActivityPrimaryAmount(selectedActivity)} {(selectedActivity as DepositActivity).token_symbol}
                           </ThemedText>
                         </View>
                       </View>
@@ -527,6 +726,45 @@ export default function TransactionHistory({ limit = 10, showTitle = true }: Tra
                         <ThemedText className="font-mono text-sm">{(selectedActivity as TransactionActivity).payment_id}</ThemedText>
                       </View>
                       
+                      {/* Refunds link back to the payment they return */}
+                      {(selectedActivity as TransactionActivity).refund_of && (() => {
+                        const refundOf = (selectedActivity as TransactionActivity).refund_of!;
+                        const original = activities.find(activity => activity.type === 'transaction' && activity.payment_id === refundOf);
+                        return (
+                          <TouchableOpacity
+                            className="mb-3"
+                            disabled={!original}
+                            onPress={() => original && setSelectedActivity(original)}
+                          >
+                            <ThemedText className="text-sm opacity-60 mb-1">Refund of</ThemedText>
+                            <ThemedText className={`font-mono text-sm ${original ? 'text-blue-500' : ''}`}>#{refundOf}</ThemedText>
+                          </TouchableOpacity>
+                        );
+                      })()}
+                      
+                      {(() => {
+                        const transaction = selectedActivity as TransactionActivity;
+                        const refunds = activities.filter((activity): activity is TransactionActivity =>
+                          activity.type === 'transaction' && activity.refund_of === transaction.payment_id
+                        );
+                        if (!transaction.refunded_usd && refunds.length === 0) return null;
+                        return (
+                          <View className="mb-3">
+                            <ThemedText className="text-sm opacity-60 mb-1">Refunded</ThemedText>
+                            <ThemedText className="text-sm">
+                              ${(transaction.refunded_usd || 0).toFixed(2)} of ${transaction.price_usd.toFixed(2)}
+                            </ThemedText>
+                            {refunds.map(refund => (
+                              <TouchableOpacity key={refund.payment_id} onPress={() => setSelectedActivity(refund)}>
+                                <ThemedText className="font-mono text-xs text-blue-500 mt-1">
+                                  #{refund.payment_id} • ${refund.price_usd.toFixed(2)} • {refund.status}
+                                </ThemedText>
+                              </TouchableOpacity>
+                            ))}
+                          </View>
+                        );
+                      })()}
+                      
                       <View className="mb-3">
                         <ThemedText className="text-sm opacity-60 mb-1">
                           {(() => {
@@ -613,7 +851,7 @@ export default function TransactionHistory({ limit = 10, showTitle = true }: Tra
                                   </View>
                                 )}
                                 <ThemedText className="font-semibold">
-                                  {payment.amount_to_pay.toFixed(6)} {payment.symbol}
+                                  {formatTokenValue(payment.amount_to_pay, payment)} {payment.symbol}
                                 </ThemedText>
                               </View>
                               <ThemedText className="text-sm opacity-60 ml-2">
@@ -626,6 +864,23 @@ export default function TransactionHistory({ limit = 10, showTitle = true }: Tra
                     </View>
                   )}
                   
+                  {/* Vendors can send back some or all of a completed sale */}
+                  {selectedActivity.type === 'transaction'
+                    && (selectedActivity as TransactionActivity).direction === 'Received'
+                    && ((selectedActivity as TransactionActivity).kind ?? 'payment') === 'payment'
+                    && isCompletedStatus((selectedActivity as TransactionActivity).status)
+                    && refundableCents(selectedActivity as TransactionActivity) > 0 && (
+                    <TouchableOpacity
+                      className="mt-4 py-3 rounded-2xl items-center border border-gray-300 dark:border-gray-600"
+                      onPress={() => {
+                        setShowDetails(false);
+                        setRefundTarget(selectedActivity as TransactionActivity);
+                      }}
+                    >
+                      <ThemedText className="font-semibold">Refund</ThemedText>
+                    </TouchableOpacity>
+                  )}
+                  
                 </View>
                 </View>
               </TouchableOpacity>
@@ -633,6 +888,8 @@ export default function TransactionHistory({ limit = 10, showTitle = true }: Tra
           </TouchableOpacity>
         </SafeAreaView>
       </Modal>
+      
+      <RefundModal payment={refundTarget} onClose={() => setRefundTarget(null)} />
     </ThemedView>
   );
 }
\ No newline at end of file
@@ -5,9 +5,10 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as SecureStore from 'expo-secure-store';
 import { createKeyPairFromSeedPhrase, signMessage } from '@/utils/cryptoUtils';
 import { signAndSendTransaction } from '@/services/transactionSigningService';
+import { encryptData, decryptData } from '@/services/encryptionService';
 
 export const WalletDebugger = () => {
-  const { walletAddress, status, keyPair, seedPhrase, login } = useAuth();
+  const { walletAddress, status, keyPair, seedPhrase, login, derivationMode, accountIndex } = useAuth();
   
   // Debug logging for seed phrase visibility
   useEffect(() => {
@@ -35,17 +36,6 @@ export const WalletDebugger = () => {
   const [asyncStorageValues, setAsyncStorageValues] = useState<Record<string, string>>({});
   const [testSignature, setTestSignature] = useState<string | null>(null);
 
-  // Decrypt function
-  const decryptData = async (encryptedData: string): Promise<string> => {
-    if (encryptedData.startsWith('encrypted:')) {
-      return encryptedData.substring(10);
-    }
-    if (encryptedData.includes(':')) {
-      return encryptedData.substring(encryptedData.indexOf(':') + 1);
-    }
-    return encryptedData;
-  };
-
   // Function to manually load the private key from storage
   const loadPrivateKey = async () => {
     try {
@@ -123,7 +113,7 @@ export const WalletDebugger = () => {
       
       const testSeed = decryptedSeedPhrase || seedPhrase;
       // console.log('Testing key derivation with seed phrase...');
-      const derivedKeys = await createKeyPairFromSeedPhrase(testSeed);
+      const derivedKeys = await createKeyPairFromSeedPhrase(testSeed, { mode: derivationMode, accountIndex });
       
       alert(`Key Derivation Test:
 Private Key: ${derivedKeys.privateKey}
@@ -395,7 +385,7 @@ Check console for details.`);
           onPress={async () => {
             // Store test private key in storage for testing
             const testKey = '5JeqVC5myFajNwvqba1QNZLdWMNTnMkz5oSN5W1yJWhUr1TDQoP';
-            const encryptedKey = 'encrypted:' + testKey;
+            const encryptedKey = await encryptData(testKey);
             try {
               await SecureStore.setItemAsync('encrypted-private-key', encryptedKey);
               alert('Test private key stored in SecureStore');
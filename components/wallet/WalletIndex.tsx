@@ -2,7 +2,9 @@ import React, { useState, useEffect } from 'react';
 import { View, Text, Image, TouchableOpacity, ScrollView, RefreshControl, SafeAreaView, Modal } from 'react-native';
 import { ThemedView } from '@/components/core/ThemedView';
 import LoadWalletModal from '@/components/modals/LoadWalletModal';
-import { Plus, Copy, Clock, Check, X, Wallet, ArrowRight, Store } from 'lucide-react-native';
+import { PortfolioChart } from '@/components/wallet/PortfolioChart';
+import type { PortfolioPoint } from '@/services/portfolioHistoryService';
+import { Plus, Copy, Clock, Check, X, Wallet, ArrowRight, Store, WifiOff, Send } from 'lucide-react-native';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { router } from 'expo-router';
@@ -24,6 +26,9 @@ interface WalletIndexProps {
   showCopyCheckmark?: boolean;
   isRefreshing?: boolean;
   onRefresh?: () => void;
+  lastUpdated?: Date | null;
+  isOffline?: boolean;
+  valueHistory?: PortfolioPoint[];
 }
 
 export function WalletIndex({
@@ -33,6 +38,9 @@ export function WalletIndex({
   showCopyCheckmark = false,
   isRefreshing = false,
   onRefresh,
+  lastUpdated = null,
+  isOffline = false,
+  valueHistory = [],
 }: WalletIndexProps) {
   const { colorScheme } = useTheme();
   const [showLoadWalletModal, setShowLoadWalletModal] = useState(false);
@@ -69,11 +77,15 @@ export function WalletIndex({
         />
 
         {/* Total value display */}
-        <TotalValueDisplay totalValue={totalValue} />
+        <TotalValueDisplay totalValue={totalValue} lastUpdated={lastUpdated} isOffline={isOffline} />
+
+        {/* Value over time */}
+        <PortfolioChart points={valueHistory} />
 
         {/* Action buttons */}
         <ActionButtonRow
           onBuyPress={handleAddPress}
+          onSendPress={() => router.push('/send')}
           onHistoryPress={() => router.push('/history')}
           onCopyPress={() => {
             setAutoCopyOnOpen(true);
@@ -252,7 +264,32 @@ function WalletHeader({
   );
 }
 
-function TotalValueDisplay({ totalValue }: { totalValue: number }) {
+const formatUpdatedAge = (lastUpdated: Date, now: number) => {
+  const ageMinutes = Math.floor((now - lastUpdated.getTime()) / 60000);
+  if (ageMinutes < 1) return 'Updated just now';
+  if (ageMinutes < 60) return `Updated ${ageMinutes}m ago`;
+  const ageHours = Math.floor(ageMinutes / 60);
+  if (ageHours < 24) return `Updated ${ageHours}h ago`;
+  return `Updated ${Math.floor(ageHours / 24)}d ago`;
+};
+
+function TotalValueDisplay({ 
+  totalValue, 
+  lastUpdated, 
+  isOffline 
+}: { 
+  totalValue: number;
+  lastUpdated: Date | null;
+  isOffline: boolean;
+}) {
+  const [now, setNow] = useState(Date.now());
+  
+  // Keep the age current while the screen is open
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+  
   return (
     <View className="items-center my-6">
       <Text className="text-6xl font-bold text-black dark:text-white">
@@ -263,6 +300,16 @@ function TotalValueDisplay({ totalValue }: { totalValue: number }) {
           maximumFractionDigits: 2,
         }).format(totalValue)}
       </Text>
+      {(lastUpdated || isOffline) && (
+        <View className="flex-row items-center mt-2">
+          {isOffline && <WifiOff size={14} color="#F59E0B" style={{ marginRight: 6 }} />}
+          <Text className={`text-sm ${isOffline ? 'text-amber-500' : 'text-gray-500 dark:text-gray-400'}`}>
+            {isOffline && 'Offline'}
+            {isOffline && lastUpdated && ' • '}
+            {lastUpdated && formatUpdatedAge(lastUpdated, now)}
+          </Text>
+        </View>
+      )}
     </View>
   );
 }
@@ -318,11 +365,13 @@ function LoadWalletSection({ onPress }: { onPress: () => void }) {
 
 function ActionButtonRow({
   onBuyPress,
+  onSendPress,
   onHistoryPress,
   onCopyPress,
   showCopyCheckmark,
 }: {
   onBuyPress?: () => void;
+  onSendPress?: () => void;
   onHistoryPress?: () => void;
   onCopyPress?: () => void;
   showCopyCheckmark?: boolean;
@@ -335,6 +384,11 @@ function ActionButtonRow({
         label="Add"
         onPress={onBuyPress} 
       />
+      <ActionButton 
+        icon={<Send size={24} color={colorScheme === 'dark' ? '#FFFFFF' : '#374151'} />} 
+        label="Send"
+        onPress={onSendPress} 
+      />
       <ActionButton 
         icon={<Clock size={24} color={colorScheme === 'dark' ? '#FFFFFF' : '#374151'} />} 
         label="History"
@@ -418,9 +472,11 @@ function TokenRow({ token }: { token: Token }) {
   const { colorScheme } = useTheme();
   
   return (
-    <View
+    <TouchableOpacity
       className="flex-row justify-between items-center py-4 border-b border-black/5 dark:border-white/10"
       key={token.symbol}
+      onPress={() => router.push({ pathname: '/token/[symbol]', params: { symbol: token.symbol } })}
+      activeOpacity={0.7}
     >
       <View className="flex-row items-center">
         {/* Token Logo */}
@@ -456,7 +512,7 @@ function TokenRow({ token }: { token: Token }) {
         {/* Token Info */}
         <View className="justify-center">
           <Text className="text-lg font-semibold text-black dark:text-white">{token.name}</Text>
-          <Text className="text-sm text-gray-600 dark:text-gray-400">{parseFloat(token.amount).toFixed(2)} {token.symbol}</Text>
+          <Text className="text-sm text-gray-600 dark:text-gray-400">{token.amount} {token.symbol}</Text>
         </View>
       </View>
       <View className="items-end">
@@ -469,7 +525,7 @@ function TokenRow({ token }: { token: Token }) {
           }).format(token.value)}
         </Text>
       </View>
-    </View>
+    </TouchableOpacity>
   );
 }
 
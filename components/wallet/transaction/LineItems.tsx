@@ -0,0 +1,37 @@
+import React from 'react';
+import { View } from 'react-native';
+import { ThemedText } from '@/components/core/ThemedText';
+import type { PaymentLineItem } from '@/types/api';
+import { formatUSD, fromCents, lineTotalCents } from '@/utils/invoice';
+
+interface LineItemsProps {
+  items?: PaymentLineItem[];
+  tipUSD?: number;
+}
+
+/**
+ * The items on an itemized payment request, with the tip if there was one
+ */
+export default function LineItems({ items, tipUSD }: LineItemsProps) {
+  if (!items || items.length === 0) return null;
+
+  return (
+    <View className="mb-4">
+      <ThemedText className="text-sm font-medium opacity-60 mb-2">ITEMS</ThemedText>
+      {items.map((item, index) => (
+        <View key={`${item.name}-${index}`} className="flex-row justify-between py-1.5">
+          <ThemedText className="flex-1 mr-3" numberOfLines={1}>
+            {item.quantity > 1 ? `${item.quantity} × ` : ''}{item.name}
+          </ThemedText>
+          <ThemedText className="font-medium">{formatUSD(fromCents(lineTotalCents(item)))}</ThemedText>
+        </View>
+      ))}
+      {!!tipUSD && (
+        <View className="flex-row justify-between py-1.5">
+          <ThemedText className="opacity-60">Tip</ThemedText>
+          <ThemedText className="font-medium">{formatUSD(tipUSD)}</ThemedText>
+        </View>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import { View, ScrollView, TouchableOpacity } from 'react-native';
+import { ThemedText } from '@/components/core/ThemedText';
+import { isCompletedStatus, isPendingStatus, normalizePaymentStatus, requestExpiresAt } from '@/services/paymentStateMachine';
+import { PaymentStatus } from '@/types/payment';
+import type { Transaction } from '@/types/payment';
+
+/**
+ * Current time, ticking once a second while mounted
+ */
+export const useNow = () => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  return now;
+};
+
+export const requestLabel = (request: Transaction) => request.label || `#${request.payment_id}`;
+
+/**
+ * Seconds until an unpaid request expires
+ * @returns null once it has been paid, cancelled or has expired
+ */
+export const requestSecondsLeft = (request: Transaction, now: number): number | null => {
+  if (!isPendingStatus(request.status)) return null;
+  const remaining = Math.ceil((requestExpiresAt(request) - now) / 1000);
+  return remaining > 0 ? remaining : null;
+};
+
+/**
+ * Where a request stands: the countdown while it can still be paid, otherwise its status
+ */
+export const requestStatusText = (request: Transaction, now: number) => {
+  const status = normalizePaymentStatus(request.status);
+  if (status === PaymentStatus.Assigned) return 'Paying…';
+
+  const remaining = requestSecondsLeft(request, now);
+  if (remaining === null) {
+    return isPendingStatus(request.status) ? PaymentStatus.Expired : status || request.status;
+  }
+  return `${Math.floor(remaining / 60)}:${String(remaining % 60).padStart(2, '0')}`;
+};
+
+const statusColor = (request: Transaction, now: number) => {
+  if (isCompletedStatus(request.status)) return 'bg-green-500';
+  if (normalizePaymentStatus(request.status) === PaymentStatus.Assigned) return 'bg-blue-500';
+  const remaining = requestSecondsLeft(request, now);
+  if (remaining === null) return 'bg-gray-400';
+  return remaining < 2 * 60 ? 'bg-orange-500' : 'bg-yellow-500';
+};
+
+interface OpenRequestsProps {
+  requests: Transaction[];
+  selectedId?: string | null;
+  onSelect: (paymentId: string) => void;
+}
+
+/**
+ * The vendor's open requests side by side, each with its live status
+ */
+export default function OpenRequests({ requests, selectedId, onSelect }: OpenRequestsProps) {
+  const now = useNow();
+
+  if (requests.length === 0) return null;
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ paddingHorizontal: 16 }}>
+      {requests.map(request => (
+        <TouchableOpacity
+          key={request.payment_id}
+          onPress={() => onSelect(request.payment_id)}
+          activeOpacity={0.7}
+          className={`mr-2 px-4 py-3 rounded-2xl ${
+            request.payment_id === selectedId ? 'bg-blue-100 dark:bg-blue-900' : 'bg-gray-100 dark:bg-gray-800'
+          }`}
+          style={{ minWidth: 110 }}
+        >
+          <ThemedText className="font-semibold" numberOfLines={1}>{requestLabel(request)}</ThemedText>
+          <ThemedText className="text-sm">${Number(request.price_usd).toFixed(2)}</ThemedText>
+          <View className="flex-row items-center mt-1">
+            <View className={`${statusColor(request, now)} w-2 h-2 rounded-full mr-1.5`} />
+            <ThemedText className="text-xs opacity-60">{requestStatusText(request, now)}</ThemedText>
+          </View>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+}
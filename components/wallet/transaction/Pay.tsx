@@ -17,12 +17,26 @@ import {
 } from 'react-native';
 import { ThemedText } from '@/components/core/ThemedText';
 import { useTheme } from '@/contexts/ThemeContext';
-import { useActiveTransaction } from '@/contexts/ActiveTransactionContext';
+import { useTransaction } from '@/contexts/TransactionContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { useBalance } from '@/contexts/BalanceContext';
+import { useAppLock } from '@/contexts/AppLockContext';
+import { usePaymentOutbox } from '@/contexts/PaymentOutboxContext';
 import TransactionSuccess from './TransactionSuccess';
+import LineItems from './LineItems';
+import PaymentChecks from './PaymentChecks';
+import PaymentOutbox from './PaymentOutbox';
 import Ionicons from '@expo/vector-icons/Ionicons';
-import { signAndSendTransaction } from '@/services/transactionSigningService';
+import { prepareSignedPayment } from '@/services/transactionSigningService';
+import { verifyUnsignedTransaction, TransactionVerificationError } from '@/services/transactionVerificationService';
+import { isCompletedStatus } from '@/services/paymentStateMachine';
+import { formatTokenValue } from '@/utils/tokenAmount';
+import { parsePaymentLink, paymentLinkMismatch } from '@/utils/paymentLink';
+import { PaymentQRError, paymentQRMismatches, readPaymentQR } from '@/services/paymentQRService';
+import type { PaymentQRPayload } from '@/services/paymentQRService';
+import { contacts } from '@/services/contactsService';
+import type { PaymentLink } from '@/utils/paymentLink';
+import type { PaymentDetails } from '@/types/api';
 import { CameraView, useCameraPermissions, BarcodeScanningResult } from 'expo-camera';
 import Svg, { Defs, Rect, Mask } from 'react-native-svg';
 
@@ -31,12 +45,17 @@ const isWeb = Platform.OS === 'web' || (Platform as any).OS === 'web';
 
 interface PayProps {
   onSuccessStateChange?: (isSuccess: boolean) => void;
+  // A payment opened from a link, paid as if its code had been scanned
+  paymentLink?: PaymentLink | null;
+  onPaymentLinkHandled?: () => void;
 }
 
-export default function Pay({ onSuccessStateChange }: PayProps) {
+export default function Pay({ onSuccessStateChange, paymentLink, onPaymentLinkHandled }: PayProps) {
   const { colorScheme } = useTheme();
   const auth = useAuth();
   const { refreshBalances } = useBalance();
+  const { requireAuthentication } = useAppLock();
+  const { submitPayment } = usePaymentOutbox();
   
   
   // State variables
@@ -45,12 +64,18 @@ export default function Pay({ onSuccessStateChange }: PayProps) {
   const [showInput, setShowInput] = useState(false);
   const [showModal, setShowModal] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
+  // The link the current payment came from, if any
+  const [linkHint, setLinkHint] = useState<PaymentLink | null>(null);
+  // The vendor's signed QR the current payment was scanned from, if any
+  const [signedQR, setSignedQR] = useState<PaymentQRPayload | null>(null);
+  // The saved contact name of the wallet that signed it, if the payer knows it
+  const [signerContactName, setSignerContactName] = useState<string | null>(null);
   
   // Notify parent about success state
   useEffect(() => {
     onSuccessStateChange?.(showSuccess);
   }, [showSuccess, onSuccessStateChange]);
-  const [completedTransaction, setCompletedTransaction] = useState(null);
+  const [completedTransaction, setCompletedTransaction] = useState<PaymentDetails | null>(null);
   const [scanned, setScanned] = useState(false);
   const [permission, requestPermission] = useCameraPermissions();
   
@@ -71,7 +96,7 @@ export default function Pay({ onSuccessStateChange }: PayProps) {
     completePayment,
     clearActivePayment,
     isLoading
-  } = useActiveTransaction();
+  } = useTransaction();
 
   // Show modal when activePayment is available
   useEffect(() => {
@@ -119,21 +144,45 @@ export default function Pay({ onSuccessStateChange }: PayProps) {
     }
   }, [showModal]);
 
+  // Open a payment from a link
+  useEffect(() => {
+    if (!paymentLink) return;
+    
+    onPaymentLinkHandled?.();
+    openPayment(paymentLink);
+  }, [paymentLink]);
+
   const handlePaymentCodeSubmit = async (code?: string) => {
-    // Sanitize the payment code: trim whitespace and convert to uppercase
+    // Accept a bare code (trimmed and uppercased) or a payment link
     const rawCode = code || paymentCode;
-    const codeToUse = rawCode.trim().toUpperCase();
+    if (!rawCode.trim() || processing || isLoading) return;
     
-    if (!codeToUse || processing || isLoading) return;
+    setSignedQR(null);
+    setSignerContactName(null);
+    const link = parsePaymentLink(rawCode);
+    if (!link) {
+      Alert.alert('Payment Error', 'That is not a valid payment code or link');
+      setPaymentCode('');
+      setScanned(false);
+      setProcessing(false);
+      return;
+    }
+    
+    await openPayment(link);
+  };
+
+  const openPayment = async (link: PaymentLink) => {
+    if (processing || isLoading) return;
     
     setProcessing(true);
+    setLinkHint(link);
     
     try {
       // Refresh balances to ensure we have the latest data
       await refreshBalances();
       
       // Initiate payment to get payment details with sanitized code
-      await initiatePayment(codeToUse);
+      await initiatePayment(link.paymentId);
       
       // Clear the input
       setPaymentCode('');
@@ -167,6 +216,9 @@ export default function Pay({ onSuccessStateChange }: PayProps) {
   // Reset everything
   const resetPayment = () => {
     setPaymentCode('');
+    setLinkHint(null);
+    setSignedQR(null);
+    setSignerContactName(null);
     setShowModal(false);
     setShowInput(false);
     setShowSuccess(false);
@@ -197,10 +249,19 @@ export default function Pay({ onSuccessStateChange }: PayProps) {
         throw new Error('Wallet address not found in auth context');
       }
       
+      // Check the transaction matches the breakdown on screen before asking to sign it
+      verifyUnsignedTransaction(transactionData, activePayment, payerAddress);
+      
+      // Confirm it's really the wallet owner before anything is signed
+      const authorized = await requireAuthentication('Authorize this payment');
+      if (!authorized) {
+        return;
+      }
+      
       // Get the private key from auth context - it's already encrypted
       const privateKey = auth?.keyPair?.privateKey;
       
-      const response = await signAndSendTransaction(
+      const signedPayment = await prepareSignedPayment(
         paymentId, 
         transactionData, 
         activePayment, 
@@ -208,10 +269,25 @@ export default function Pay({ onSuccessStateChange }: PayProps) {
         privateKey // Pass it - getPrivateKey will decrypt it if needed
       );
       
+      // Saved before it's sent, so a dropped connection leaves it queued rather than lost
+      const result = await submitPayment(signedPayment);
+      if (result.outcome === 'rejected') {
+        throw result.error;
+      }
+      if (result.outcome === 'queued') {
+        resetPayment();
+        const message = 'You appear to be offline. Your signed payment has been saved and will be sent when the connection is back.';
+        if (isWeb) {
+          alert(`Payment Queued: ${message}`);
+        } else {
+          Alert.alert('Payment Queued', message);
+        }
+        return;
+      }
       
+      const response = result.response;
       if (response && response.status) {
-        const successStatuses = ['completed', 'success', 'confirmed', 'Completed', 'Success', 'Confirmed'];
-        const isSuccess = successStatuses.includes(response.status);
+        const isSuccess = isCompletedStatus(response.status);
         
         if (isSuccess) {
           await refreshBalances();
@@ -229,6 +305,16 @@ export default function Pay({ onSuccessStateChange }: PayProps) {
       }
     } catch (error: any) {
       
+      // Explain exactly why signing was blocked
+      if (error instanceof TransactionVerificationError) {
+        if (isWeb) {
+          alert(`Payment Blocked: ${error.message}`);
+        } else {
+          Alert.alert('Payment Blocked', error.message);
+        }
+        return;
+      }
+      
       // Show more detailed error on web
       if (isWeb) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -255,6 +341,17 @@ export default function Pay({ onSuccessStateChange }: PayProps) {
   };
 
   // Modal content renderer
+  // Warn when the link or signed QR that opened this payment described something else
+  const linkWarning = linkHint && activePayment && linkHint.paymentId === activePayment.payment_id
+    ? paymentLinkMismatch(linkHint, activePayment)
+    : null;
+  const qrSigned = !!signedQR && !!activePayment && signedQR.id.toUpperCase() === activePayment.payment_id.toUpperCase();
+  const paymentWarnings = [
+    ...(linkWarning ? [linkWarning] : []),
+    ...(qrSigned ? paymentQRMismatches(signedQR!, activePayment!) : []),
+  ];
+  const qrSigner = qrSigned ? { address: signedQR!.vendor_address, contactName: signerContactName } : null;
+
   const renderModalContent = () => {
     if (!activePayment) return null;
     
@@ -284,6 +381,11 @@ export default function Pay({ onSuccessStateChange }: PayProps) {
           </ThemedText>
         </View>
         
+        <PaymentChecks warnings={paymentWarnings} signer={qrSigner} />
+        
+        {/* Itemized requests */}
+        <LineItems items={activePayment.line_items} tipUSD={activePayment.tip_usd} />
+        
         {/* Token Breakdown */}
         <View style={styles.breakdownSection}>
           <ThemedText className="text-sm font-medium opacity-60 mb-4">
@@ -324,7 +426,7 @@ export default function Pay({ onSuccessStateChange }: PayProps) {
                     {item.symbol}
                   </ThemedText>
                   <ThemedText className="text-sm opacity-60">
-                    {item.amount_to_pay?.toFixed(2) || '0.00'} tokens
+                    {formatTokenValue(item.amount_to_pay || 0, item)} tokens
                   </ThemedText>
                 </View>
               </View>
@@ -456,8 +558,34 @@ isWeb && { justifyContent: 'center', alignItems: 'center' }
     setProcessing(true); // Set processing immediately to prevent multiple scans
     // console.log(`QR code scanned with type ${type} and data ${data}`);
     
-    // Process the payment code
-    handlePaymentCodeSubmit(data);
+    handleScannedData(data);
+  };
+
+  // Signed vendor QRs are checked before anything is fetched, anything else is read as a code or link
+  const handleScannedData = async (data: string) => {
+    try {
+      const scannedQR = await readPaymentQR(data);
+      if (scannedQR.kind === 'plain') {
+        await handlePaymentCodeSubmit(scannedQR.data);
+        return;
+      }
+      
+      // The QR only proves which wallet signed it; a name is shown only for wallets the payer saved
+      const savedContacts = auth?.walletAddress ? await contacts.getContacts(auth.walletAddress) : [];
+      const signerContact = savedContacts.find(contact => contact.address === scannedQR.payload.vendor_address);
+      setSignedQR(scannedQR.payload);
+      setSignerContactName(signerContact?.name || null);
+      await openPayment({ paymentId: scannedQR.payload.id });
+    } catch (error) {
+      const message = error instanceof PaymentQRError ? error.message : 'This QR code could not be read';
+      if (isWeb) {
+        alert(`Unverified QR Code: ${message}`);
+      } else {
+        Alert.alert('Unverified QR Code', message);
+      }
+      setScanned(false);
+      setProcessing(false);
+    }
   };
 
 
@@ -476,6 +604,9 @@ isWeb && { justifyContent: 'center', alignItems: 'center' }
             className="flex-1"
           >
             <View className="flex-1 items-center justify-center px-6">
+              <View className="w-full max-w-sm">
+                <PaymentOutbox />
+              </View>
               <View className={`w-full max-w-sm p-8 rounded-3xl ${colorScheme === 'dark' ? 'bg-gray-800/50' : 'bg-white'}`}>
                 <ThemedText className="text-center text-2xl font-bold mb-2">Enter Payment Code</ThemedText>
                 <ThemedText className="text-center text-base opacity-60 mb-8">
@@ -559,6 +690,11 @@ isWeb && { justifyContent: 'center', alignItems: 'center' }
                 </ThemedText>
               </View>
               
+              <PaymentChecks warnings={paymentWarnings} signer={qrSigner} />
+              
+              {/* Itemized requests */}
+              <LineItems items={activePayment.line_items} tipUSD={activePayment.tip_usd} />
+              
               {/* Token Breakdown */}
               <View style={{ paddingVertical: 20 }}>
                 <ThemedText className="text-sm font-medium opacity-60 mb-4">
@@ -602,7 +738,7 @@ isWeb && { justifyContent: 'center', alignItems: 'center' }
                           {item.symbol}
                         </ThemedText>
                         <ThemedText className="text-sm opacity-60">
-                          {item.amount_to_pay?.toFixed(2) || '0.00'} tokens
+                          {formatTokenValue(item.amount_to_pay || 0, item)} tokens
                         </ThemedText>
                       </View>
                     </View>
@@ -845,6 +981,16 @@ isWeb && { justifyContent: 'center', alignItems: 'center' }
               <ThemedText className="text-gray-600 text-base text-center mt-1">Position code within frame</ThemedText>
             </View>
             
+            {/* Payments waiting to reach the backend, below the scan area */}
+            <View 
+              className="absolute left-0 right-0 px-5"
+              style={{ 
+                top: (height + width * 0.7) / 2 + 24,
+              }}
+            >
+              <PaymentOutbox />
+            </View>
+            
             {/* Corner markers */}
             <View style={styles.scanFrame}>
               <View style={[styles.cornerMarker, styles.topLeftCorner]} />
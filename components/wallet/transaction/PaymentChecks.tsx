@@ -0,0 +1,44 @@
+import React from 'react';
+import { View } from 'react-native';
+import { ShieldCheck } from 'lucide-react-native';
+import { ThemedText } from '@/components/core/ThemedText';
+
+interface PaymentChecksProps {
+  // Anything about the request that doesn't match how the payer got to it
+  warnings: string[];
+  // Wallet whose signed QR matched the request, named only if it's a saved contact
+  signer?: { address: string; contactName: string | null } | null;
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 4)}…${address.slice(-4)}`;
+
+/**
+ * What the payer should know before confirming: warnings, or which wallet signed the QR.
+ * The name inside a QR is the signer's own claim, so only a saved contact gets named.
+ */
+export default function PaymentChecks({ warnings, signer }: PaymentChecksProps) {
+  if (warnings.length > 0) {
+    return (
+      <View className="bg-amber-50 dark:bg-amber-900/30 rounded-xl p-3 mb-4">
+        {warnings.map(warning => (
+          <ThemedText key={warning} className="text-sm text-amber-700 dark:text-amber-300">{warning}</ThemedText>
+        ))}
+      </View>
+    );
+  }
+
+  if (signer) {
+    return (
+      <View className="flex-row items-center justify-center mb-4">
+        <ShieldCheck size={16} color="#10B981" />
+        <ThemedText className="text-sm text-green-600 dark:text-green-400 ml-1.5">
+          {signer.contactName
+            ? `QR signed by your contact ${signer.contactName}`
+            : `QR signed by wallet ${shortAddress(signer.address)}`}
+        </ThemedText>
+      </View>
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,67 @@
+import React from 'react';
+import { View, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { CloudOff } from 'lucide-react-native';
+import { ThemedText } from '@/components/core/ThemedText';
+import { usePaymentOutbox } from '@/contexts/PaymentOutboxContext';
+import type { OutboxEntry } from '@/services/paymentOutboxService';
+
+const entryStatusText = (entry: OutboxEntry) => {
+  switch (entry.state) {
+    case 'sending':
+      return 'Sending…';
+    case 'failed':
+      return `Failed: ${entry.last_error || 'the payment was not accepted'}`;
+    default:
+      return 'Waiting for connection';
+  }
+};
+
+/**
+ * Signed payments that haven't reached the backend yet, with retry and discard
+ */
+export default function PaymentOutbox() {
+  const { entries, retryPayment, discardPayment } = usePaymentOutbox();
+
+  if (entries.length === 0) return null;
+
+  return (
+    <View className="bg-white dark:bg-gray-800 rounded-2xl p-4 mb-4">
+      <View className="flex-row items-center mb-2">
+        <CloudOff size={16} color="#F59E0B" />
+        <ThemedText className="text-sm font-semibold ml-1.5">
+          {entries.length === 1 ? '1 payment not sent yet' : `${entries.length} payments not sent yet`}
+        </ThemedText>
+      </View>
+      {entries.map(entry => (
+        <View key={entry.id} className="flex-row items-center py-2">
+          <View className="flex-1 mr-2">
+            <ThemedText className="text-sm" numberOfLines={1}>
+              ${Number(entry.price_usd).toFixed(2)} to {entry.vendor_name || 'vendor'}
+            </ThemedText>
+            <ThemedText
+              className={`text-xs ${entry.state === 'failed' ? 'text-red-500' : 'opacity-60'}`}
+              numberOfLines={2}
+            >
+              {entryStatusText(entry)}
+            </ThemedText>
+          </View>
+          {entry.state === 'sending' ? (
+            <ActivityIndicator size="small" color="#9CA3AF" />
+          ) : (
+            <View className="flex-row">
+              <TouchableOpacity onPress={() => retryPayment(entry.id)} className="px-3 py-1.5 rounded-full bg-blue-500">
+                <ThemedText className="text-xs font-semibold text-white">Retry</ThemedText>
+              </TouchableOpacity>
+              {/* Only failed payments can be dropped; a queued one may already have reached the vendor */}
+              {entry.state === 'failed' && (
+                <TouchableOpacity onPress={() => discardPayment(entry.id)} className="px-3 py-1.5 ml-2 rounded-full bg-gray-200 dark:bg-gray-700">
+                  <ThemedText className="text-xs font-semibold">Discard</ThemedText>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+        </View>
+      ))}
+    </View>
+  );
+}
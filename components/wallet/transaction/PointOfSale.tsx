@@ -0,0 +1,229 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, TextInput, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import { Minus, Plus, QrCode } from 'lucide-react-native';
+import { ThemedText } from '@/components/core/ThemedText';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { catalog } from '@/services/catalogService';
+import type { CatalogItem } from '@/services/catalogService';
+import type { PaymentInvoice, PaymentLineItem } from '@/types/api';
+import { TIP_PERCENTAGES, formatUSD, fromCents, lineTotalCents, subtotalCents, tipCents, toCents } from '@/utils/invoice';
+
+interface PointOfSaleProps {
+  isLoading: boolean;
+  onCharge: (amount: number, invoice: PaymentInvoice) => void;
+}
+
+/**
+ * Build an order from the vendor's catalog and charge for it as one itemized request
+ */
+export default function PointOfSale({ isLoading, onCharge }: PointOfSaleProps) {
+  const { colorScheme } = useTheme();
+  const { walletAddress } = useAuth();
+  const [items, setItems] = useState<CatalogItem[]>([]);
+  const [cart, setCart] = useState<Record<string, number>>({});
+  const [tipPercent, setTipPercent] = useState(0);
+  const [newName, setNewName] = useState('');
+  const [newPrice, setNewPrice] = useState('');
+
+  const iconColor = colorScheme === 'dark' ? '#FFFFFF' : '#000000';
+  const placeholderColor = colorScheme === 'dark' ? '#6B7280' : '#9CA3AF';
+
+  useEffect(() => {
+    if (!walletAddress) return;
+    catalog.getItems(walletAddress).then(setItems);
+    setCart({});
+  }, [walletAddress]);
+
+  const lineItems: PaymentLineItem[] = useMemo(() => items
+    .filter(item => cart[item.id] > 0)
+    .map(item => ({ name: item.name, quantity: cart[item.id], unit_price_usd: item.price_usd })),
+    [items, cart]
+  );
+
+  const subtotal = subtotalCents(lineItems);
+  const tip = tipCents(lineItems, tipPercent);
+  const total = subtotal + tip;
+
+  const changeQuantity = (itemId: string, delta: number) => {
+    setCart(current => {
+      const quantity = Math.max(0, (current[itemId] || 0) + delta);
+      const { [itemId]: _, ...rest } = current;
+      return quantity > 0 ? { ...rest, [itemId]: quantity } : rest;
+    });
+  };
+
+  const handleAddItem = async () => {
+    const price = parseFloat(newPrice);
+    if (!walletAddress || !newName.trim() || isNaN(price) || price <= 0) {
+      Alert.alert('Invalid Item', 'Enter a name and a price');
+      return;
+    }
+
+    try {
+      setItems(await catalog.saveItem(walletAddress, { name: newName.trim(), price_usd: fromCents(toCents(price)) }));
+      setNewName('');
+      setNewPrice('');
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save item');
+    }
+  };
+
+  const handleRemoveItem = (item: CatalogItem) => {
+    if (!walletAddress) return;
+
+    Alert.alert('Remove Item', `Remove ${item.name} from your catalog?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            setItems(await catalog.removeItem(walletAddress, item.id));
+            changeQuantity(item.id, -Infinity);
+          } catch (error) {
+            Alert.alert('Error', 'Failed to remove item');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleCharge = () => {
+    onCharge(fromCents(total), {
+      line_items: lineItems,
+      ...(tip > 0 && { tip_usd: fromCents(tip) }),
+    });
+  };
+
+  return (
+    <View className="mx-4">
+      {/* Catalog */}
+      {items.length === 0 ? (
+        <ThemedText className="text-center opacity-60 mb-4">
+          Add the things you sell to build an order
+        </ThemedText>
+      ) : (
+        <View className="flex-row flex-wrap -mx-1 mb-2">
+          {items.map(item => (
+            <View key={item.id} className="w-1/2 p-1">
+              <TouchableOpacity
+                onPress={() => changeQuantity(item.id, 1)}
+                onLongPress={() => handleRemoveItem(item)}
+                activeOpacity={0.7}
+                className={`p-4 rounded-2xl ${cart[item.id] ? 'bg-blue-100 dark:bg-blue-900' : 'bg-gray-50 dark:bg-gray-900'}`}
+              >
+                <ThemedText className="font-semibold" numberOfLines={1}>{item.name}</ThemedText>
+                <ThemedText className="text-sm opacity-60">{formatUSD(item.price_usd)}</ThemedText>
+                {!!cart[item.id] && (
+                  <View className="absolute top-2 right-2 bg-blue-500 rounded-full w-6 h-6 items-center justify-center">
+                    <ThemedText className="text-white text-xs font-bold">{cart[item.id]}</ThemedText>
+                  </View>
+                )}
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+      )}
+      {items.length > 0 && (
+        <ThemedText className="text-xs text-center opacity-50 mb-4">Tap to add • Hold to remove from catalog</ThemedText>
+      )}
+
+      {/* New catalog item */}
+      <View className="flex-row items-center mb-6">
+        <TextInput
+          className="flex-1 bg-gray-50 dark:bg-gray-900 rounded-xl px-4 py-3 text-black dark:text-white"
+          value={newName}
+          onChangeText={setNewName}
+          placeholder="Item name"
+          placeholderTextColor={placeholderColor}
+        />
+        <TextInput
+          className="w-24 ml-2 bg-gray-50 dark:bg-gray-900 rounded-xl px-4 py-3 text-black dark:text-white"
+          value={newPrice}
+          onChangeText={setNewPrice}
+          keyboardType="decimal-pad"
+          placeholder="0.00"
+          placeholderTextColor={placeholderColor}
+        />
+        <TouchableOpacity onPress={handleAddItem} className="ml-2 p-3 rounded-xl bg-gray-100 dark:bg-gray-800">
+          <Plus size={20} color={iconColor} />
+        </TouchableOpacity>
+      </View>
+
+      {/* Cart */}
+      {lineItems.length > 0 && (
+        <View className="bg-gray-50 dark:bg-gray-900 rounded-2xl p-4 mb-4">
+          {items.filter(item => cart[item.id] > 0).map(item => (
+            <View key={item.id} className="flex-row items-center py-2">
+              <ThemedText className="flex-1" numberOfLines={1}>{item.name}</ThemedText>
+              <TouchableOpacity onPress={() => changeQuantity(item.id, -1)} className="p-1">
+                <Minus size={18} color={iconColor} />
+              </TouchableOpacity>
+              <ThemedText className="w-8 text-center font-semibold">{cart[item.id]}</ThemedText>
+              <TouchableOpacity onPress={() => changeQuantity(item.id, 1)} className="p-1">
+                <Plus size={18} color={iconColor} />
+              </TouchableOpacity>
+              <ThemedText className="w-20 text-right font-medium">
+                {formatUSD(fromCents(lineTotalCents({ name: item.name, quantity: cart[item.id], unit_price_usd: item.price_usd })))}
+              </ThemedText>
+            </View>
+          ))}
+
+          {/* Tip */}
+          <View className="flex-row mt-3 mb-3">
+            {TIP_PERCENTAGES.map((percent, index) => (
+              <TouchableOpacity
+                key={percent}
+                onPress={() => setTipPercent(percent)}
+                className={`flex-1 py-2 rounded-lg items-center ${index > 0 ? 'ml-2' : ''} ${
+                  tipPercent === percent ? 'bg-blue-500' : 'bg-gray-200 dark:bg-gray-800'
+                }`}
+              >
+                <ThemedText className={`text-sm font-semibold ${tipPercent === percent ? 'text-white' : ''}`}>
+                  {percent === 0 ? 'No tip' : `${percent}%`}
+                </ThemedText>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View className="flex-row justify-between py-1">
+            <ThemedText className="opacity-60">Subtotal</ThemedText>
+            <ThemedText>{formatUSD(fromCents(subtotal))}</ThemedText>
+          </View>
+          {tip > 0 && (
+            <View className="flex-row justify-between py-1">
+              <ThemedText className="opacity-60">Tip</ThemedText>
+              <ThemedText>{formatUSD(fromCents(tip))}</ThemedText>
+            </View>
+          )}
+          <View className="flex-row justify-between pt-2 mt-1 border-t border-gray-200 dark:border-gray-700">
+            <ThemedText className="font-bold">Total</ThemedText>
+            <ThemedText className="font-bold">{formatUSD(fromCents(total))}</ThemedText>
+          </View>
+        </View>
+      )}
+
+      {/* Charge Button */}
+      <TouchableOpacity
+        className={`${isLoading || total <= 0 ? 'bg-gray-400' : 'bg-blue-500'} py-4 px-8 rounded-2xl shadow-lg mb-8`}
+        onPress={handleCharge}
+        disabled={isLoading || total <= 0}
+        activeOpacity={0.8}
+      >
+        <View className="flex-row items-center justify-center">
+          {isLoading ? (
+            <ActivityIndicator color="#ffffff" size="small" />
+          ) : (
+            <>
+              <QrCode size={24} color="#FFFFFF" />
+              <ThemedText className="text-white text-lg font-semibold ml-3">
+                {total > 0 ? `Charge ${formatUSD(fromCents(total))}` : 'Charge'}
+              </ThemedText>
+            </>
+          )}
+        </View>
+      </TouchableOpacity>
+    </View>
+  );
+}
@@ -1,16 +1,23 @@
 import React, { useState, useEffect } from 'react';
-import { View, TextInput, TouchableOpacity, ActivityIndicator, Alert, ScrollView, SafeAreaView, Modal } from 'react-native';
+import { View, TextInput, TouchableOpacity, ActivityIndicator, Alert, ScrollView, SafeAreaView, Modal, Share } from 'react-native';
 import { ThemedText } from '@/components/core/ThemedText';
 import { ThemedView } from '@/components/core/ThemedView';
 import { useTheme } from '@/contexts/ThemeContext';
-import { useActiveTransaction } from '@/contexts/ActiveTransactionContext';
+import { PaymentStatus, useTransaction } from '@/contexts/TransactionContext';
+import { isCompletedStatus, isPendingStatus, isTerminalStatus } from '@/services/paymentStateMachine';
 import { usePendingTransactionManager } from '@/contexts/PendingTransactionManager';
 import { useTransactionHistory } from '@/contexts/TransactionHistoryStore';
 import { useAuth } from '@/contexts/AuthContext';
 import QRCode from 'react-native-qrcode-svg';
-import { QrCode, Copy, Check, ArrowLeft, Clock, X } from 'lucide-react-native';
+import { QrCode, Copy, Check, ArrowLeft, Clock, X, Link } from 'lucide-react-native';
 import TransactionSuccess from '@/components/wallet/transaction/TransactionSuccess';
+import PointOfSale from '@/components/wallet/transaction/PointOfSale';
+import LineItems from '@/components/wallet/transaction/LineItems';
+import OpenRequests, { requestSecondsLeft, requestStatusText, useNow } from '@/components/wallet/transaction/OpenRequests';
+import type { PaymentInvoice } from '@/types/api';
 import * as Clipboard from 'expo-clipboard';
+import { buildPaymentLink } from '@/utils/paymentLink';
+import { createPaymentQR } from '@/services/paymentQRService';
 
 interface ReceiveProps {
   onSuccessStateChange?: (isSuccess: boolean) => void;
@@ -18,18 +25,34 @@ interface ReceiveProps {
 
 export default function Receive({ onSuccessStateChange }: ReceiveProps) {
   const { colorScheme } = useTheme();
-  const { activeRequest, createRequest, deleteRequest, clearActiveRequest, isLoading, error } = useActiveTransaction();
+  const {
+    activeRequest,
+    openRequests,
+    createRequest,
+    resumeRequest,
+    selectRequest,
+    deleteRequest,
+    clearActiveRequest,
+    clearRequest,
+    isLoading,
+  } = useTransaction();
   const { pendingTransactions, syncTransactions, clearAllCaches } = usePendingTransactionManager();
   const { transactions: historyTransactions, loadTransactionHistory } = useTransactionHistory();
   const auth = useAuth();
+  const [mode, setMode] = useState<'amount' | 'items'>('amount');
   const [amount, setAmount] = useState('');
-  const [paymentId, setPaymentId] = useState<string | null>(null);
+  const [label, setLabel] = useState('');
   const [qrVisible, setQrVisible] = useState(false);
   const [transactionDetails, setTransactionDetails] = useState<any>(null);
   const [copied, setCopied] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
   const [showHistoryModal, setShowHistoryModal] = useState(false);
   const [isCancelling, setIsCancelling] = useState(false);
+  const clock = useNow();
+  
+  const paymentId = activeRequest?.payment_id ?? null;
+  const [signedQR, setSignedQR] = useState<{ paymentId: string; value: string } | null>(null);
+  const completedRequest = openRequests.find(request => isCompletedStatus(request.status));
   
   // Filter vendor's pending transactions (excluding the active one and expired)
   const MAX_TRANSACTION_AGE = 60 * 60 * 1000; // 1 hour
@@ -41,8 +64,7 @@ export default function Receive({ onSuccessStateChange }: ReceiveProps) {
       if (t.vendor_address !== auth?.walletAddress) return false;
       
       // Exclude completed, cancelled, expired transactions
-      const excludedStatuses = ['completed', 'Completed', 'cancelled', 'Cancelled', 'expired', 'Expired', 'failed', 'Failed'];
-      if (excludedStatuses.includes(t.status)) return false;
+      if (isTerminalStatus(t.status)) return false;
       
       // Check if expired (older than 1 hour)
       const createdAtMs = t.created_at < 10000000000 ? t.created_at * 1000 : t.created_at;
@@ -59,10 +81,7 @@ export default function Receive({ onSuccessStateChange }: ReceiveProps) {
   const allTransactions = [...historyTransactions, ...pendingTransactions];
   const vendorCompletedTransactions = allTransactions
     .filter(
-      t => t.vendor_address === auth?.walletAddress &&
-           (t.status === 'completed' || t.status === 'Completed' || 
-            t.status === 'success' || t.status === 'Success' ||
-            t.status === 'confirmed' || t.status === 'Confirmed')
+      t => t.vendor_address === auth?.walletAddress && isCompletedStatus(t.status)
     )
     .sort((a, b) => b.created_at - a.created_at) // Sort by newest first
     .filter((t, index, self) => 
@@ -75,37 +94,47 @@ export default function Receive({ onSuccessStateChange }: ReceiveProps) {
     loadTransactionHistory();
   }, []);
   
-  // Watch for completed transaction
+  // Show the receipt for whichever open request gets paid first
   useEffect(() => {
-    if (activeRequest) {
-      const completedStatuses = ['completed', 'success', 'confirmed', 'Completed', 'Success', 'Confirmed'];
-      if (completedStatuses.includes(activeRequest.status)) {
-        setShowSuccess(true);
-      }
+    if (completedRequest && !showSuccess) {
+      selectRequest(completedRequest.payment_id);
+      setQrVisible(false);
+      setShowSuccess(true);
     }
-  }, [activeRequest?.status]);
+  }, [completedRequest?.payment_id, showSuccess]);
+  
+  // Sign the QR for the request on screen, so payers can check it came from us
+  useEffect(() => {
+    if (!activeRequest || signedQR?.paymentId === activeRequest.payment_id) return;
+    
+    let cancelled = false;
+    createPaymentQR(activeRequest, auth?.keyPair?.privateKey).then(value => {
+      if (!cancelled) {
+        setSignedQR({ paymentId: activeRequest.payment_id, value });
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeRequest?.payment_id]);
   
   // Notify parent about success state
   useEffect(() => {
     onSuccessStateChange?.(showSuccess);
   }, [showSuccess, onSuccessStateChange]);
 
-  const handleCreatePayment = async () => {
-    if (!amount || isNaN(parseFloat(amount)) || parseFloat(amount) <= 0) {
-      Alert.alert('Invalid Amount', 'Please enter a valid amount');
-      return;
-    }
-
+  const startRequest = async (requestAmount: number, invoice?: PaymentInvoice) => {
     try {
-      const newPaymentId = await createRequest(parseFloat(amount));
-      setPaymentId(newPaymentId);
+      const newPaymentId = await createRequest(requestAmount, invoice, label);
+      // Clear the form for the next customer, the QR view shows the request itself
+      setAmount('');
+      setLabel('');
       // Auto-show QR code after creating
       setQrVisible(true);
-      // Keep amount to show in QR view
       // Polling starts automatically in createRequest
       setTransactionDetails({
         paymentId: newPaymentId,
-        amount: parseFloat(amount),
+        amount: requestAmount,
         createdAt: new Date().toISOString()
       });
       
@@ -117,6 +146,15 @@ export default function Receive({ onSuccessStateChange }: ReceiveProps) {
     }
   };
 
+  const handleCreatePayment = async () => {
+    if (!amount || isNaN(parseFloat(amount)) || parseFloat(amount) <= 0) {
+      Alert.alert('Invalid Amount', 'Please enter a valid amount');
+      return;
+    }
+
+    await startRequest(parseFloat(amount));
+  };
+
   const handleCopyId = async () => {
     if (paymentId) {
       await Clipboard.setStringAsync(paymentId);
@@ -125,53 +163,66 @@ export default function Receive({ onSuccessStateChange }: ReceiveProps) {
     }
   };
 
+  const handleShareLink = async () => {
+    if (!activeRequest) return;
+    
+    const link = buildPaymentLink({
+      paymentId: activeRequest.payment_id,
+      amount: Number(activeRequest.price_usd),
+      vendor: auth?.userName || undefined,
+    });
+    try {
+      await Share.share({ message: link, url: link });
+    } catch (error) {
+      console.error('Failed to share payment link:', error);
+    }
+  };
+
   const resetForm = () => {
     clearActiveRequest();
     setQrVisible(false);
-    setPaymentId(null);
     setTransactionDetails(null);
-    setAmount('');
     setShowSuccess(false);
     onSuccessStateChange?.(false);
   };
   
   const handleCancel = async () => {
-    if (paymentId && activeRequest) {
-      setIsCancelling(true);
-      try {
-        // Delete the payment request from backend
-        await deleteRequest(paymentId);
-        
-        // Clear the form
-        setQrVisible(false);
-        setPaymentId(null);
-        setTransactionDetails(null);
-        setAmount('');
-        
-        // Don't sync immediately - the local removal will take effect
-        // Background sync will update from backend later
-      } catch (error) {
-        console.error('Failed to cancel payment:', error);
-        Alert.alert('Error', 'Failed to cancel payment. Please try again.');
-        // Even if delete fails, clear the UI
-        clearActiveRequest();
-        setQrVisible(false);
-        setPaymentId(null);
-        setTransactionDetails(null);
-        setAmount('');
-      } finally {
-        setIsCancelling(false);
-      }
-    } else {
-      // No active request, just clear the form
-      clearActiveRequest();
+    if (!paymentId) {
+      setQrVisible(false);
+      return;
+    }
+    
+    // Expired or already cancelled requests only need closing
+    if (!isPendingStatus(activeRequest!.status)) {
+      clearRequest(paymentId);
+      setQrVisible(false);
+      return;
+    }
+    
+    setIsCancelling(true);
+    try {
+      // Delete the payment request from backend
+      await deleteRequest(paymentId);
+      
+      // Don't sync immediately - the local removal will take effect
+      // Background sync will update from backend later
+    } catch (error) {
+      console.error('Failed to cancel payment:', error);
+      Alert.alert('Error', 'Failed to cancel payment. Please try again.');
+      // Even if delete fails, clear the UI
+      clearRequest(paymentId);
+    } finally {
       setQrVisible(false);
-      setPaymentId(null);
       setTransactionDetails(null);
-      setAmount('');
+      setIsCancelling(false);
     }
   };
 
+  const handleSelectRequest = (requestId: string) => {
+    selectRequest(requestId);
+    setQrVisible(true);
+  };
+
   return (
     <>
       {showSuccess && activeRequest ? (
@@ -200,10 +251,54 @@ export default function Receive({ onSuccessStateChange }: ReceiveProps) {
                 Request Payment
               </ThemedText>
               <ThemedText className="text-lg text-center opacity-60">
-                Enter the amount you'd like to request
+                {mode === 'amount' ? "Enter the amount you'd like to request" : 'Add items to the order'}
               </ThemedText>
             </View>
 
+            {/* Requests waiting to be paid */}
+            {openRequests.length > 0 && (
+              <View className="mb-6 -mx-6">
+                <ThemedText className="text-sm font-medium opacity-60 mb-2 px-6">
+                  OPEN REQUESTS ({openRequests.length})
+                </ThemedText>
+                <OpenRequests requests={openRequests} onSelect={handleSelectRequest} />
+              </View>
+            )}
+
+            {/* Optional label, e.g. who the request is for */}
+            <View className="mx-4 mb-4">
+              <TextInput
+                className="bg-gray-50 dark:bg-gray-900 rounded-xl px-4 py-3 text-black dark:text-white"
+                value={label}
+                onChangeText={setLabel}
+                maxLength={40}
+                placeholder="Label (optional), e.g. customer name"
+                placeholderTextColor={colorScheme === 'dark' ? '#6B7280' : '#9CA3AF'}
+              />
+            </View>
+
+            {/* Amount or itemized order */}
+            <View className="flex-row mx-4 mb-6 p-1 rounded-xl bg-gray-100 dark:bg-gray-800">
+              {([
+                { value: 'amount', label: 'Amount' },
+                { value: 'items', label: 'Items' },
+              ] as const).map(option => (
+                <TouchableOpacity
+                  key={option.value}
+                  onPress={() => setMode(option.value)}
+                  className={`flex-1 py-2 rounded-lg items-center ${mode === option.value ? 'bg-white dark:bg-gray-700' : ''}`}
+                >
+                  <ThemedText className={`text-sm font-semibold ${mode === option.value ? '' : 'opacity-50'}`}>
+                    {option.label}
+                  </ThemedText>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {mode === 'items' ? (
+              <PointOfSale isLoading={isLoading} onCharge={startRequest} />
+            ) : (
+            <>
             {/* Amount Input */}
             <View className="mb-8">
               <View className="flex-row items-center justify-center bg-gray-50 dark:bg-gray-900 rounded-2xl p-6 mx-4">
@@ -252,6 +347,8 @@ export default function Receive({ onSuccessStateChange }: ReceiveProps) {
               </TouchableOpacity>
               
             </View>
+            </>
+            )}
 
                   {/* Bottom padding to prevent overlap with Pay/Receive toggle */}
                   <View className="h-24" />
@@ -307,8 +404,17 @@ export default function Receive({ onSuccessStateChange }: ReceiveProps) {
                       >
                         <X size={24} color={colorScheme === 'dark' ? '#FFFFFF' : '#000000'} />
                       </TouchableOpacity>
-                      <ThemedText className="text-lg font-bold flex-1 text-center mr-8">Payment Request</ThemedText>
+                      <ThemedText className="text-lg font-bold flex-1 text-center mr-8" numberOfLines={1}>
+                        {activeRequest?.label || 'Payment Request'}
+                      </ThemedText>
                     </View>
+
+                    {/* Switch between open requests */}
+                    {openRequests.length > 1 && (
+                      <View className="mb-4 -mx-6">
+                        <OpenRequests requests={openRequests} selectedId={paymentId} onSelect={selectRequest} />
+                      </View>
+                    )}
                     
                     {/* QR Code Display */}
                     <View className="items-center">
@@ -316,16 +422,29 @@ export default function Receive({ onSuccessStateChange }: ReceiveProps) {
                       <View className="mb-6">
                         <ThemedText className="text-center text-sm opacity-60 mb-1">Amount to receive</ThemedText>
                         <ThemedText className="text-4xl font-bold text-center" style={{ fontFamily: 'System' }}>
-                          ${parseFloat(amount || '0').toFixed(2)}
+                          ${Number(activeRequest?.price_usd || 0).toFixed(2)}
                         </ThemedText>
+                        {activeRequest && (
+                          <ThemedText className="text-center text-sm opacity-60 mt-1">
+                            {activeRequest.status === PaymentStatus.Created && requestSecondsLeft(activeRequest, clock) !== null
+                              ? `Expires in ${requestStatusText(activeRequest, clock)}`
+                              : requestStatusText(activeRequest, clock)}
+                          </ThemedText>
+                        )}
                       </View>
 
+                      {activeRequest?.line_items && (
+                        <View className="w-full">
+                          <LineItems items={activeRequest.line_items} tipUSD={activeRequest.tip_usd} />
+                        </View>
+                      )}
+
                       {/* QR Code */}
                       {paymentId && (
                         <View className="mb-6">
                           <View className="bg-white p-6 rounded-3xl shadow-lg">
                             <QRCode
-                              value={paymentId}
+                              value={signedQR?.paymentId === paymentId ? signedQR.value : paymentId}
                               size={180}
                               backgroundColor="white"
                               color="black"
@@ -376,6 +495,18 @@ export default function Receive({ onSuccessStateChange }: ReceiveProps) {
 
                       {/* Action Buttons */}
                       <View className="w-full mt-4">
+                        {activeRequest && isPendingStatus(activeRequest.status) && (
+                          <TouchableOpacity
+                            className="py-3 mb-3 rounded-xl flex-row items-center justify-center bg-blue-500"
+                            onPress={handleShareLink}
+                            activeOpacity={0.8}
+                          >
+                            <Link size={18} color="#FFFFFF" />
+                            <ThemedText className="text-center text-base font-semibold text-white ml-2">
+                              Share Payment Link
+                            </ThemedText>
+                          </TouchableOpacity>
+                        )}
                         <TouchableOpacity
                           className={`py-3 rounded-xl flex-row items-center justify-center ${
                             isCancelling ? 'bg-gray-400' : colorScheme === 'dark' ? 'bg-gray-800' : 'bg-gray-200'
@@ -390,7 +521,7 @@ export default function Receive({ onSuccessStateChange }: ReceiveProps) {
                             <ThemedText className={`text-center text-base font-semibold ${
                               colorScheme === 'dark' ? 'text-white' : 'text-gray-900'
                             }`}>
-                              Cancel Request
+                              {activeRequest && !isPendingStatus(activeRequest.status) ? 'Close Request' : 'Cancel Request'}
                             </ThemedText>
                           )}
                         </TouchableOpacity>
@@ -456,8 +587,7 @@ export default function Receive({ onSuccessStateChange }: ReceiveProps) {
                             : 'bg-gray-100 dark:bg-gray-800'
                         }`}
                         onPress={() => {
-                          setPaymentId(transaction.payment_id);
-                          setAmount(transaction.price_usd.toFixed(2));
+                          resumeRequest(transaction);
                           setQrVisible(true);
                           setShowHistoryModal(false);
                         }}
@@ -14,6 +14,8 @@ import { ThemedView } from '@/components/core/ThemedView';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useBalance } from '@/contexts/BalanceContext';
 import { CheckCircle, Copy, ExternalLink } from 'lucide-react-native';
+import { formatTokenValue } from '@/utils/tokenAmount';
+import LineItems from './LineItems';
 
 const { width, height } = Dimensions.get('window');
 
@@ -200,6 +202,18 @@ const TransactionSuccess: React.FC<TransactionSuccessProps> = ({ transaction, on
               </ThemedText>
             </View>
 
+            {/* Receipt items */}
+            {transaction.line_items?.length > 0 && (
+              <View style={styles.detailsSection}>
+                <View style={[
+                  styles.detailCard,
+                  { backgroundColor: colorScheme === 'dark' ? '#2C2C2E' : '#FFFFFF' }
+                ]}>
+                  <LineItems items={transaction.line_items} tipUSD={transaction.tip_usd} />
+                </View>
+              </View>
+            )}
+
             {/* Transaction Details */}
             <View style={styles.detailsSection}>
               <View style={[
@@ -263,7 +277,7 @@ const TransactionSuccess: React.FC<TransactionSuccessProps> = ({ transaction, on
                           {item.symbol}
                         </ThemedText>
                         <ThemedText className="text-xs opacity-60">
-                          {item.amount_to_pay.toFixed(2)}
+                          {formatTokenValue(item.amount_to_pay, item)}
                         </ThemedText>
                       </View>
                     </View>
@@ -27,13 +27,23 @@ export const PRODUCTION_API_URL = process.env.EXPO_PUBLIC_PRODUCTION_API_URL ||
 // Use environment variable if available, otherwise use local in dev or production URL
 export const API_URL = process.env.EXPO_PUBLIC_API_URL || (isDevelopment ? LOCAL_BACKEND_SERVER_URL : PRODUCTION_API_URL);
 
+// Payment links: indexwallet://pay/<id>, or https://<host>/pay/<id> as a universal link
+export const PAYMENT_LINK_SCHEME = 'indexwallet';
+export const PAYMENT_LINK_HOST = process.env.EXPO_PUBLIC_PAYMENT_LINK_HOST || 'indexwallets.com';
 
 
+// Which backend the app talks to:
+//  - remote: the server at API_URL (a real backend, or `npm run mock-server`)
+//  - mock: an in-process mock backend, so the full pay/receive flow works with no network
+export type BackendMode = 'remote' | 'mock';
+export const BACKEND_MODE: BackendMode = process.env.EXPO_PUBLIC_BACKEND_MODE === 'mock' ? 'mock' : 'remote';
+
 // Only log in development
 if (isDevelopment) {
   console.log('API Configuration:');
   console.log('  - Environment:', isDevelopment ? 'development' : 'production');
   console.log('  - API URL:', API_URL);
+  console.log('  - Backend:', BACKEND_MODE);
 }
 
 // App configuration from app.json
@@ -56,6 +66,9 @@ export default {
   API_URL,
   LOCAL_BACKEND_SERVER_URL,
   PRODUCTION_API_URL,
+  PAYMENT_LINK_SCHEME,
+  PAYMENT_LINK_HOST,
+  BACKEND_MODE,
   APP_CONFIG,
   FEATURES,
   DEFAULTS,
@@ -5,6 +5,10 @@ export const AUTH_KEYS = {
   PRIVATE_KEY: 'encrypted-private-key',
   WALLET_ADDRESS: 'wallet-address',
   HAS_PASSKEY: 'has-passkey',
+  ENCRYPTION_KEY: 'wallet-encryption-key',
+  DERIVATION_MODE: 'key-derivation-mode',
+  ACCOUNT_INDEX: 'account-index',
+  SESSION_TOKEN: 'session-token',
 } as const;
 
 // User information keys
@@ -23,6 +27,15 @@ export const VENDOR_KEYS = {
   WEBSITE_LINK: 'vendor-website-link',
 } as const;
 
+// App lock keys
+export const LOCK_KEYS = {
+  PIN_HASH: 'app-lock-pin-hash',
+  PIN_SALT: 'app-lock-pin-salt',
+  BIOMETRICS_ENABLED: 'app-lock-biometrics-enabled',
+  AUTO_LOCK_TIMEOUT: 'app-lock-timeout',
+  PIN_FAILED_ATTEMPTS: 'app-lock-pin-failed-attempts',
+  PIN_LOCKED_UNTIL: 'app-lock-pin-locked-until',
+} as const;
 
 // Other data keys
 export const DATA_KEYS = {
@@ -30,12 +43,45 @@ export const DATA_KEYS = {
   USER_DATA: 'user-data',
 } as const;
 
+// Multi-wallet registry keys
+export const WALLET_KEYS = {
+  WALLETS: 'wallets',
+  ACTIVE_WALLET_ID: 'active-wallet-id',
+} as const;
+
+// Keys holding data for a single wallet, stored once per wallet
+export const WALLET_SECURE_KEYS = [
+  AUTH_KEYS.SEED_PHRASE,
+  AUTH_KEYS.PRIVATE_KEY,
+  AUTH_KEYS.WALLET_ADDRESS,
+  USER_KEYS.USER_NAME,
+  AUTH_KEYS.SESSION_TOKEN,
+] as const;
+
+export const WALLET_STANDARD_KEYS = [
+  AUTH_KEYS.DERIVATION_MODE,
+  AUTH_KEYS.ACCOUNT_INDEX,
+  USER_KEYS.USER_TYPE,
+  USER_KEYS.USER_ID,
+  USER_KEYS.IS_VERIFIED,
+  VENDOR_KEYS.DESCRIPTION,
+  VENDOR_KEYS.GOOGLE_MAPS_LINK,
+  VENDOR_KEYS.WEBSITE_LINK,
+  DATA_KEYS.VALUATIONS,
+  DATA_KEYS.USER_DATA,
+] as const;
+
+// Namespace a key to one wallet, e.g. `encrypted-seed-phrase.<walletId>`
+export const getWalletKey = (key: string, walletId: string) => `${key}.${walletId}`;
+
 // Combine all keys for easy access
 export const STORAGE_KEYS = {
   ...AUTH_KEYS,
   ...USER_KEYS,
   ...VENDOR_KEYS,
+  ...LOCK_KEYS,
   ...DATA_KEYS,
+  ...WALLET_KEYS,
 } as const;
 
 // Type for all storage keys
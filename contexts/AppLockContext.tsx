@@ -0,0 +1,376 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import * as LocalAuthentication from 'expo-local-authentication';
+import * as Crypto from 'expo-crypto';
+import { storage } from '@/services/storageService';
+import { LOCK_KEYS } from '@/constants/storageKeys';
+import { FEATURES } from '@/config';
+import { useAuth } from './AuthContext';
+import PinPromptModal, { PinSubmitResult } from '@/components/modals/PinPromptModal';
+import AppLockScreen from '@/components/modals/AppLockScreen';
+
+// Auto-lock choices offered in settings, in milliseconds
+export const AUTO_LOCK_OPTIONS = [
+  { label: 'Immediately', value: 0 },
+  { label: 'After 1 minute', value: 60 * 1000 },
+  { label: 'After 5 minutes', value: 5 * 60 * 1000 },
+  { label: 'After 15 minutes', value: 15 * 60 * 1000 },
+] as const;
+
+const DEFAULT_AUTO_LOCK_TIMEOUT = 60 * 1000;
+export const PIN_LENGTH = 6;
+
+// Wrong PINs allowed before entry is paused; each further miss doubles the pause
+const FREE_PIN_ATTEMPTS = 5;
+const BASE_PIN_LOCKOUT = 30 * 1000;
+const MAX_PIN_LOCKOUT = 60 * 60 * 1000;
+
+type PinPromptMode = 'verify' | 'create';
+
+interface PinPromptState {
+  mode: PinPromptMode;
+  reason: string;
+  resolve: (success: boolean) => void;
+}
+
+interface AppLockContextType {
+  // Lock state
+  isLocked: boolean;
+  isLockEnabled: boolean;
+  hasPin: boolean;
+  biometricsAvailable: boolean;
+  biometricsEnabled: boolean;
+  autoLockTimeout: number;
+
+  // Re-authentication for sensitive actions
+  requireAuthentication: (reason: string) => Promise<boolean>;
+  lock: () => void;
+  unlock: () => Promise<boolean>;
+
+  // Settings
+  setupPin: () => Promise<boolean>;
+  removePin: () => Promise<boolean>;
+  setBiometricsEnabled: (enabled: boolean) => Promise<void>;
+  setAutoLockTimeout: (timeout: number) => Promise<void>;
+}
+
+const AppLockContext = createContext<AppLockContextType | undefined>(undefined);
+
+// Hash a PIN with its per-install salt so the PIN itself is never stored
+const hashPin = (pin: string, salt: string) =>
+  Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${pin}`);
+
+const pinLockoutFor = (failedAttempts: number) =>
+  failedAttempts < FREE_PIN_ATTEMPTS
+    ? 0
+    : Math.min(BASE_PIN_LOCKOUT * 2 ** (failedAttempts - FREE_PIN_ATTEMPTS), MAX_PIN_LOCKOUT);
+
+const formatWait = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.ceil(seconds / 60)} min`;
+};
+
+export const AppLockProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { status } = useAuth();
+  const [isLocked, setIsLocked] = useState(false);
+  const [hasPin, setHasPin] = useState(false);
+  const [biometricsAvailable, setBiometricsAvailable] = useState(false);
+  const [biometricsEnabled, setBiometricsEnabledState] = useState(false);
+  const [autoLockTimeout, setAutoLockTimeoutState] = useState(DEFAULT_AUTO_LOCK_TIMEOUT);
+  const [pinPrompt, setPinPrompt] = useState<PinPromptState | null>(null);
+  const [isReady, setIsReady] = useState(false);
+
+  const backgroundedAtRef = useRef<number | null>(null);
+  const launchLockCheckedRef = useRef(false);
+
+  const isLockEnabled = hasPin || (biometricsEnabled && biometricsAvailable);
+
+  // Load lock settings and detect biometric hardware
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const [pinHash, storedBiometrics, storedTimeout] = await Promise.all([
+          storage.getItem(LOCK_KEYS.PIN_HASH, 'secure'),
+          storage.getItem(LOCK_KEYS.BIOMETRICS_ENABLED),
+          storage.getItem(LOCK_KEYS.AUTO_LOCK_TIMEOUT),
+        ]);
+
+        setHasPin(!!pinHash);
+        setBiometricsEnabledState(storedBiometrics === 'true');
+        if (storedTimeout !== null && !isNaN(parseInt(storedTimeout, 10))) {
+          setAutoLockTimeoutState(parseInt(storedTimeout, 10));
+        }
+
+        if (FEATURES.enableBiometrics) {
+          const [hasHardware, isEnrolled] = await Promise.all([
+            LocalAuthentication.hasHardwareAsync(),
+            LocalAuthentication.isEnrolledAsync(),
+          ]);
+          setBiometricsAvailable(hasHardware && isEnrolled);
+        }
+      } catch (error) {
+        // Biometrics unavailable on this platform; PIN remains usable
+      } finally {
+        setIsReady(true);
+      }
+    };
+
+    loadSettings();
+  }, []);
+
+  // Lock on launch once lock settings are known. Lock settings are only
+  // removed by logging out of the last wallet (AuthContext), so a failed
+  // start-up that lands on 'unauthenticated' keeps the PIN in place
+  useEffect(() => {
+    if (status === 'authenticated' && isReady && !launchLockCheckedRef.current) {
+      // Only once per session, returning from adding a wallet must not lock
+      launchLockCheckedRef.current = true;
+      if (isLockEnabled) {
+        setIsLocked(true);
+      }
+    } else if (status === 'unauthenticated') {
+      launchLockCheckedRef.current = false;
+      setIsLocked(false);
+      // Pick up whatever logout left behind
+      storage.getItem(LOCK_KEYS.PIN_HASH, 'secure')
+        .then(pinHash => {
+          setHasPin(!!pinHash);
+          if (!pinHash) {
+            setBiometricsEnabledState(false);
+            setAutoLockTimeoutState(DEFAULT_AUTO_LOCK_TIMEOUT);
+          }
+        })
+        .catch(() => {});
+    }
+    // Only re-evaluate on auth changes; toggling settings must not lock the user out
+  }, [status, isReady]);
+
+  // Lock when returning from the background after the auto-lock timeout
+  useEffect(() => {
+    const handleAppStateChange = (nextAppState: AppStateStatus) => {
+      if (nextAppState === 'background') {
+        backgroundedAtRef.current = Date.now();
+      } else if (nextAppState === 'active' && backgroundedAtRef.current !== null) {
+        const elapsed = Date.now() - backgroundedAtRef.current;
+        backgroundedAtRef.current = null;
+
+        if (status === 'authenticated' && isLockEnabled && elapsed >= autoLockTimeout) {
+          setIsLocked(true);
+        }
+      }
+    };
+
+    const subscription = AppState.addEventListener('change', handleAppStateChange);
+    return () => subscription.remove();
+  }, [status, isLockEnabled, autoLockTimeout]);
+
+  // Show the PIN prompt and wait for the user to finish with it
+  const promptForPin = useCallback((mode: PinPromptMode, reason: string): Promise<boolean> => {
+    return new Promise(resolve => {
+      setPinPrompt({ mode, reason, resolve });
+    });
+  }, []);
+
+  const authenticateWithBiometrics = async (reason: string): Promise<boolean> => {
+    try {
+      const result = await LocalAuthentication.authenticateAsync({
+        promptMessage: reason,
+        cancelLabel: 'Cancel',
+        fallbackLabel: hasPin ? 'Use PIN' : undefined,
+        // The in-app PIN is our fallback, not the device passcode
+        disableDeviceFallback: hasPin,
+      });
+      return result.success;
+    } catch (error) {
+      return false;
+    }
+  };
+
+  // Ask the user to prove presence before a sensitive action
+  const requireAuthentication = useCallback(async (reason: string): Promise<boolean> => {
+    if (!isLockEnabled) {
+      return true;
+    }
+
+    if (biometricsEnabled && biometricsAvailable) {
+      const success = await authenticateWithBiometrics(reason);
+      if (success || !hasPin) {
+        return success;
+      }
+    }
+
+    return promptForPin('verify', reason);
+  }, [isLockEnabled, biometricsEnabled, biometricsAvailable, hasPin, promptForPin]);
+
+  const lock = useCallback(() => {
+    if (isLockEnabled) {
+      setIsLocked(true);
+    }
+  }, [isLockEnabled]);
+
+  const unlock = useCallback(async (): Promise<boolean> => {
+    const success = await requireAuthentication('Unlock Index Wallet');
+    if (success) {
+      setIsLocked(false);
+    }
+    return success;
+  }, [requireAuthentication]);
+
+  // Check an entered PIN against the stored hash. Failed attempts are kept in
+  // secure storage so closing the prompt or restarting the app doesn't reset them
+  const verifyPin = async (pin: string): Promise<PinSubmitResult> => {
+    const [storedHash, salt, storedAttempts, storedLockedUntil] = await Promise.all([
+      storage.getItem(LOCK_KEYS.PIN_HASH, 'secure'),
+      storage.getItem(LOCK_KEYS.PIN_SALT, 'secure'),
+      storage.getItem(LOCK_KEYS.PIN_FAILED_ATTEMPTS, 'secure'),
+      storage.getItem(LOCK_KEYS.PIN_LOCKED_UNTIL, 'secure'),
+    ]);
+    if (!storedHash || !salt) return { success: false };
+
+    const lockedUntil = parseInt(storedLockedUntil || '0', 10) || 0;
+    if (Date.now() < lockedUntil) {
+      return { success: false, error: `Too many attempts. Try again in ${formatWait(lockedUntil - Date.now())}` };
+    }
+
+    if ((await hashPin(pin, salt)) === storedHash) {
+      await clearFailedAttempts();
+      return { success: true };
+    }
+
+    const failedAttempts = (parseInt(storedAttempts || '0', 10) || 0) + 1;
+    const lockout = pinLockoutFor(failedAttempts);
+    await storage.setItem(LOCK_KEYS.PIN_FAILED_ATTEMPTS, failedAttempts.toString(), 'secure');
+
+    if (lockout > 0) {
+      await storage.setItem(LOCK_KEYS.PIN_LOCKED_UNTIL, (Date.now() + lockout).toString(), 'secure');
+      return { success: false, error: `Too many attempts. Try again in ${formatWait(lockout)}` };
+    }
+    const remaining = FREE_PIN_ATTEMPTS - failedAttempts;
+    return {
+      success: false,
+      error: remaining === 1 ? 'Incorrect PIN. 1 attempt left' : `Incorrect PIN. ${remaining} attempts left`,
+    };
+  };
+
+  const clearFailedAttempts = async (): Promise<void> => {
+    await storage.removeItem(LOCK_KEYS.PIN_FAILED_ATTEMPTS, 'secure');
+    await storage.removeItem(LOCK_KEYS.PIN_LOCKED_UNTIL, 'secure');
+  };
+
+  // Persist a new PIN
+  const savePin = async (pin: string): Promise<void> => {
+    const saltBytes = await Crypto.getRandomBytesAsync(16);
+    const salt = Array.from(saltBytes, b => b.toString(16).padStart(2, '0')).join('');
+    const pinHash = await hashPin(pin, salt);
+
+    await storage.setItem(LOCK_KEYS.PIN_SALT, salt, 'secure');
+    await storage.setItem(LOCK_KEYS.PIN_HASH, pinHash, 'secure');
+    await clearFailedAttempts();
+    setHasPin(true);
+  };
+
+  const setupPin = useCallback(async (): Promise<boolean> => {
+    // Changing an existing PIN requires the current one first
+    if (hasPin) {
+      const verified = await promptForPin('verify', 'Enter your current PIN');
+      if (!verified) return false;
+    }
+    return promptForPin('create', 'Choose a PIN');
+  }, [hasPin, promptForPin]);
+
+  const removePin = useCallback(async (): Promise<boolean> => {
+    const verified = await requireAuthentication('Confirm to remove your PIN');
+    if (!verified) return false;
+
+    await storage.removeItem(LOCK_KEYS.PIN_HASH, 'secure');
+    await storage.removeItem(LOCK_KEYS.PIN_SALT, 'secure');
+    await clearFailedAttempts();
+    setHasPin(false);
+    return true;
+  }, [requireAuthentication]);
+
+  const setBiometricsEnabled = useCallback(async (enabled: boolean): Promise<void> => {
+    if (enabled) {
+      // Confirm the biometric works before relying on it
+      const success = await authenticateWithBiometrics('Enable biometric unlock');
+      if (!success) return;
+    }
+    setBiometricsEnabledState(enabled);
+    await storage.setItem(LOCK_KEYS.BIOMETRICS_ENABLED, enabled ? 'true' : 'false');
+  }, [hasPin]);
+
+  const setAutoLockTimeout = useCallback(async (timeout: number): Promise<void> => {
+    setAutoLockTimeoutState(timeout);
+    await storage.setItem(LOCK_KEYS.AUTO_LOCK_TIMEOUT, timeout.toString());
+  }, []);
+
+  // PIN prompt callbacks
+  const handlePinSubmit = async (pin: string): Promise<PinSubmitResult> => {
+    if (!pinPrompt) return { success: false };
+
+    if (pinPrompt.mode === 'create') {
+      await savePin(pin);
+    } else {
+      const result = await verifyPin(pin);
+      if (!result.success) return result;
+    }
+
+    pinPrompt.resolve(true);
+    setPinPrompt(null);
+    return { success: true };
+  };
+
+  const handlePinCancel = () => {
+    pinPrompt?.resolve(false);
+    setPinPrompt(null);
+  };
+
+  const value = {
+    isLocked,
+    isLockEnabled,
+    hasPin,
+    biometricsAvailable,
+    biometricsEnabled,
+    autoLockTimeout,
+    requireAuthentication,
+    lock,
+    unlock,
+    setupPin,
+    removePin,
+    setBiometricsEnabled,
+    setAutoLockTimeout,
+  };
+
+  const showLockScreen = isLocked && status === 'authenticated';
+  
+  const pinPromptModal = (
+    <PinPromptModal
+      visible={!!pinPrompt}
+      mode={pinPrompt?.mode || 'verify'}
+      reason={pinPrompt?.reason || ''}
+      pinLength={PIN_LENGTH}
+      onSubmit={handlePinSubmit}
+      onCancel={handlePinCancel}
+    />
+  );
+
+  return (
+    <AppLockContext.Provider value={value}>
+      {children}
+      {/* The PIN prompt is nested in the lock screen so it can present above it */}
+      <AppLockScreen visible={showLockScreen} onUnlock={unlock}>
+        {showLockScreen && pinPromptModal}
+      </AppLockScreen>
+      {!showLockScreen && pinPromptModal}
+    </AppLockContext.Provider>
+  );
+};
+
+// Custom hook to use the app lock context
+export const useAppLock = () => {
+  const context = useContext(AppLockContext);
+  if (context === undefined) {
+    throw new Error('useAppLock must be used within an AppLockProvider');
+  }
+  return context;
+};
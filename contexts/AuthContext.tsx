@@ -1,16 +1,20 @@
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
 import * as Device from 'expo-device';
 import { storage } from '@/services/storageService';
-import { encryptData, decryptData } from '@/services/encryptionService';
-import { AUTH_KEYS, USER_KEYS, VENDOR_KEYS, DATA_KEYS } from '@/constants/storageKeys';
+import { encryptData, decryptData, encryptionService } from '@/services/encryptionService';
+import { AUTH_KEYS, USER_KEYS, VENDOR_KEYS, DATA_KEYS, WALLET_KEYS, LOCK_KEYS, getWalletKey } from '@/constants/storageKeys';
 import { 
   generateSeedPhrase as generateSeedPhraseUtil, 
   validateSeedPhrase as validateSeedPhraseUtil, 
   createKeyPairFromSeedPhrase,
+  DEFAULT_DERIVATION_MODE,
 } from '@/utils/cryptoUtils';
+import type { DerivationMode } from '@/utils/cryptoUtils';
 import { registerUser } from '@/services/registerUser';
-import { validateAndFetchWallet } from '@/services/walletService';
-import type { WalletData, Valuation, AuthData, WalletStorageData, UserStorageData, RegistrationData, ApiError } from '@/types/auth';
+import { validateAndFetchWallet, findWalletForSeedPhrase } from '@/services/walletService';
+import { walletRegistry } from '@/services/walletRegistryService';
+import { session } from '@/services/sessionService';
+import type { WalletData, Valuation, AuthData, WalletStorageData, UserStorageData, RegistrationData, ApiError, AccountInfo, StoredWallet } from '@/types/auth';
 
 
 // Define types
@@ -29,6 +33,10 @@ interface AuthContextType {
   userType: UserType;
   userName: string | null;
   walletAddress: string | null;
+  wallets: StoredWallet[];
+  activeWalletId: string | null;
+  derivationMode: DerivationMode;
+  accountIndex: number;
   existingWallet: WalletData | null;
   valuations: Valuation[] | null;
   isVerified: boolean;
@@ -47,6 +55,14 @@ interface AuthContextType {
   login: (seedPhrase: string, usePasskey?: boolean) => Promise<boolean>;
   logout: () => Promise<void>;
   
+  // Wallet methods
+  switchWallet: (walletId: string) => Promise<boolean>;
+  cancelAddWallet: () => Promise<void>;
+  
+  // Account methods
+  getAccounts: (count: number) => Promise<AccountInfo[]>;
+  switchAccount: (accountIndex: number, mode?: DerivationMode) => Promise<boolean>;
+  
   // Seed phrase methods
   generateSeedPhrase: () => string;
   validateSeedPhrase: (phrase: string) => boolean;
@@ -73,6 +89,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [existingWallet, setExistingWallet] = useState<WalletData | null>(null);
   const [valuations, setValuations] = useState<Valuation[] | null>(null);
   const [walletAddress, setWalletAddress] = useState<string | null>(null);
+  const [wallets, setWallets] = useState<StoredWallet[]>([]);
+  const [activeWalletId, setActiveWalletId] = useState<string | null>(null);
+  const [derivationMode, setDerivationMode] = useState<DerivationMode>(DEFAULT_DERIVATION_MODE);
+  const [accountIndex, setAccountIndex] = useState<number>(0);
   const [isVerified, setIsVerified] = useState<boolean>(false);
   const [vendorInfo, setVendorInfo] = useState<{
     description: string | null;
@@ -89,39 +109,39 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const recoverMissingData = async () => {
     try {
       // If we're authenticated but missing username or wallet address, try to recover
-      if (status === 'authenticated' && (!userName || !walletAddress)) {
+      if (status === 'authenticated' && activeWalletId && (!userName || !walletAddress)) {
         
         // Try to get from storage first
         if (!userName) {
-          const storedUserName = await storage.getItem(USER_KEYS.USER_NAME, 'secure');
+          const storedUserName = await storage.getItem(getWalletKey(USER_KEYS.USER_NAME, activeWalletId), 'secure');
           if (storedUserName) {
               setUserName(storedUserName);
           }
         }
         
         if (!walletAddress) {
-          const storedWalletAddress = await storage.getItem(AUTH_KEYS.WALLET_ADDRESS, 'secure');
+          const storedWalletAddress = await storage.getItem(getWalletKey(AUTH_KEYS.WALLET_ADDRESS, activeWalletId), 'secure');
           if (storedWalletAddress) {
             updateWalletAddress(storedWalletAddress);
           } else if (keyPair?.publicKey) {
             // Use public key as fallback
             updateWalletAddress(keyPair.publicKey);
-            await storage.setItem(AUTH_KEYS.WALLET_ADDRESS, keyPair.publicKey, 'secure');
+            await storage.setItem(getWalletKey(AUTH_KEYS.WALLET_ADDRESS, activeWalletId), keyPair.publicKey, 'secure');
           }
         }
         
         // If we have a seed phrase but still missing data, try to fetch from backend
         if (seedPhrase && (!userName || !walletAddress)) {
           try {
-            const wallet = await validateAndFetchWallet(seedPhrase);
+            const wallet = await validateAndFetchWallet(seedPhrase, { mode: derivationMode, accountIndex });
             if (wallet) {
               if (!userName && wallet.username) {
                   setUserName(wallet.username);
-                await storage.setItem(USER_KEYS.USER_NAME, wallet.username, 'secure');
+                await storage.setItem(getWalletKey(USER_KEYS.USER_NAME, activeWalletId), wallet.username, 'secure');
               }
               if (!walletAddress && wallet.wallet_address) {
                 updateWalletAddress(wallet.wallet_address);
-                await storage.setItem(AUTH_KEYS.WALLET_ADDRESS, wallet.wallet_address, 'secure');
+                await storage.setItem(getWalletKey(AUTH_KEYS.WALLET_ADDRESS, activeWalletId), wallet.wallet_address, 'secure');
               }
             }
           } catch (e) {
@@ -141,147 +161,226 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       }, 500);
       return () => clearTimeout(timer);
     }
-  }, [status, userName, walletAddress, seedPhrase, keyPair]);
+  }, [status, activeWalletId, userName, walletAddress, seedPhrase, keyPair, derivationMode, accountIndex]);
   
-  // Initialize auth state
+  // Sign the active wallet in to the backend so API calls carry its token
   useEffect(() => {
-    const detectPlatform = async () => {
-      if (Device.isDevice) {
-        const os = Device.osName as string;
-        
-        if (os === 'iOS') {
-          setPlatformOS('ios');
-        } else if (os === 'Android') {
-          setPlatformOS('android');
-        } else {
-          setPlatformOS('web');
-        }
-      } else {
-        // Running in simulator or web
-        setPlatformOS('unknown');
-      }
-    };
+    if (status === 'authenticated' && activeWalletId && walletAddress) {
+      session.start(activeWalletId, walletAddress).catch(() => {});
+    }
+  }, [status, activeWalletId, walletAddress]);
+  
+  // Helper function to load basic auth data from storage for one wallet
+  const loadBasicAuthData = async (walletId: string) => {
+    const storedStatus = await storage.getItem(AUTH_KEYS.AUTH_STATUS);
+    const storedHasPasskey = await storage.getItem(AUTH_KEYS.HAS_PASSKEY);
+    const storedUserType = await storage.getItem(getWalletKey(USER_KEYS.USER_TYPE, walletId)) as UserType;
+    const storedUserName = await storage.getItem(getWalletKey(USER_KEYS.USER_NAME, walletId), 'secure');
+    const storedIsVerified = await storage.getItem(getWalletKey(USER_KEYS.IS_VERIFIED, walletId));
     
-    // Helper function to load basic auth data from storage
-    const loadBasicAuthData = async () => {
-      const storedStatus = await storage.getItem(AUTH_KEYS.AUTH_STATUS);
-      const storedHasPasskey = await storage.getItem(AUTH_KEYS.HAS_PASSKEY);
-      const storedUserType = await storage.getItem(USER_KEYS.USER_TYPE) as UserType;
-      const storedUserName = await storage.getItem(USER_KEYS.USER_NAME, 'secure');
-      const storedIsVerified = await storage.getItem(USER_KEYS.IS_VERIFIED);
-      
-      // Load vendor-specific data if user type is vendor
-      let vendorData = null;
-      if (storedUserType === 'vendor') {
-        vendorData = {
-          description: await storage.getItem(VENDOR_KEYS.DESCRIPTION),
-          googleMapsLink: await storage.getItem(VENDOR_KEYS.GOOGLE_MAPS_LINK),
-          websiteLink: await storage.getItem(VENDOR_KEYS.WEBSITE_LINK),
-        };
-      }
-      
-      return {
-        status: storedStatus,
-        hasPasskey: storedHasPasskey === 'true',
-        userType: storedUserType,
-        userName: storedUserName,
-        isVerified: storedIsVerified === 'true',
-        vendorData,
+    // Load vendor-specific data if user type is vendor
+    let vendorData = null;
+    if (storedUserType === 'vendor') {
+      vendorData = {
+        description: await storage.getItem(getWalletKey(VENDOR_KEYS.DESCRIPTION, walletId)),
+        googleMapsLink: await storage.getItem(getWalletKey(VENDOR_KEYS.GOOGLE_MAPS_LINK, walletId)),
+        websiteLink: await storage.getItem(getWalletKey(VENDOR_KEYS.WEBSITE_LINK, walletId)),
       };
-    };
+    }
     
-    // Helper function to load wallet and crypto data
-    const loadWalletData = async () => {
-      let walletAddress = null;
-      let privateKey = null;
-      let seedPhraseValue = null;
-      
+    return {
+      status: storedStatus,
+      hasPasskey: storedHasPasskey === 'true',
+      userType: storedUserType,
+      userName: storedUserName,
+      isVerified: storedIsVerified === 'true',
+      vendorData,
+    };
+  };
+  
+  // Helper function to re-encrypt secrets stored by older app versions
+  const migrateLegacySecrets = async (walletId: string) => {
+    for (const key of [AUTH_KEYS.SEED_PHRASE, AUTH_KEYS.PRIVATE_KEY]) {
       try {
-        walletAddress = await storage.getItem(AUTH_KEYS.WALLET_ADDRESS, 'secure');
+        await encryptionService.migrateStoredValue(getWalletKey(key, walletId));
       } catch (e) {
-        // Failed to load wallet address
+        // Leave the value as is; it is still readable and will be retried next launch
       }
-      
-      try {
-        const encryptedSeedPhrase = await storage.getItem(AUTH_KEYS.SEED_PHRASE, 'secure');
-        if (encryptedSeedPhrase) {
-          seedPhraseValue = await decryptData(encryptedSeedPhrase);
-        }
-        
-        const encryptedPrivateKey = await storage.getItem(AUTH_KEYS.PRIVATE_KEY, 'secure');
-        if (encryptedPrivateKey) {
-          privateKey = await decryptData(encryptedPrivateKey);
-        }
-        
-        // If still no private key, try to regenerate from seed phrase
-        if (!privateKey && seedPhraseValue) {
-          const regeneratedKeyPair = await createKeyPairFromSeedPhrase(seedPhraseValue);
-          privateKey = regeneratedKeyPair.privateKey;
-          
-          if (!walletAddress) {
-            walletAddress = regeneratedKeyPair.publicKey;
-            await storage.setItem(AUTH_KEYS.WALLET_ADDRESS, walletAddress, 'secure');
-          }
-          
-          const encryptedKey = await encryptData(privateKey);
-          await storage.setItem(AUTH_KEYS.PRIVATE_KEY, encryptedKey, 'secure');
-        }
-      } catch (error) {
-        // Error loading wallet data
+    }
+  };
+  
+  // Helper function to load wallet and crypto data
+  const loadWalletData = async (walletId: string) => {
+    let walletAddress = null;
+    let privateKey = null;
+    let seedPhraseValue = null;
+    let storedMode: DerivationMode = 'legacy';
+    let storedAccountIndex = 0;
+    
+    try {
+      walletAddress = await storage.getItem(getWalletKey(AUTH_KEYS.WALLET_ADDRESS, walletId), 'secure');
+    } catch (e) {
+      // Failed to load wallet address
+    }
+    
+    try {
+      const modeValue = await storage.getItem(getWalletKey(AUTH_KEYS.DERIVATION_MODE, walletId));
+      if (modeValue === 'slip10' || modeValue === 'legacy') {
+        storedMode = modeValue;
+      } else {
+        // Wallets set up before derivation modes existed used the raw seed slice
+        await storage.setItem(getWalletKey(AUTH_KEYS.DERIVATION_MODE, walletId), storedMode);
       }
       
-      return {
-        seedPhrase: seedPhraseValue,
-        keyPair: walletAddress && privateKey ? { privateKey, publicKey: walletAddress } : null,
-        walletAddress,
-      };
-    };
+      const indexValue = await storage.getItem(getWalletKey(AUTH_KEYS.ACCOUNT_INDEX, walletId));
+      if (indexValue !== null && !isNaN(parseInt(indexValue, 10))) {
+        storedAccountIndex = parseInt(indexValue, 10);
+      }
+    } catch (e) {
+      // Failed to load derivation settings
+    }
     
-    // Helper function to load user data
-    const loadUserData = async () => {
-      let userData = null;
-      let valuations = null;
-      
-      try {
-        userData = await storage.getJSON(DATA_KEYS.USER_DATA);
-      } catch (e) {
-        // Failed to load user data
+    try {
+      const encryptedSeedPhrase = await storage.getItem(getWalletKey(AUTH_KEYS.SEED_PHRASE, walletId), 'secure');
+      if (encryptedSeedPhrase) {
+        seedPhraseValue = await decryptData(encryptedSeedPhrase);
       }
       
-      try {
-        valuations = await storage.getJSON(DATA_KEYS.VALUATIONS);
-      } catch (e) {
-        // Failed to load valuations
+      const encryptedPrivateKey = await storage.getItem(getWalletKey(AUTH_KEYS.PRIVATE_KEY, walletId), 'secure');
+      if (encryptedPrivateKey) {
+        privateKey = await decryptData(encryptedPrivateKey);
       }
       
-      return { userData, valuations };
+      // If still no private key, try to regenerate from seed phrase
+      if (!privateKey && seedPhraseValue) {
+        const regeneratedKeyPair = await createKeyPairFromSeedPhrase(seedPhraseValue, {
+          mode: storedMode,
+          accountIndex: storedAccountIndex,
+        });
+        privateKey = regeneratedKeyPair.privateKey;
+        
+        if (!walletAddress) {
+          walletAddress = regeneratedKeyPair.publicKey;
+          await storage.setItem(getWalletKey(AUTH_KEYS.WALLET_ADDRESS, walletId), walletAddress, 'secure');
+        }
+        
+        const encryptedKey = await encryptData(privateKey);
+        await storage.setItem(getWalletKey(AUTH_KEYS.PRIVATE_KEY, walletId), encryptedKey, 'secure');
+      }
+    } catch (error) {
+      // Error loading wallet data
+    }
+    
+    return {
+      seedPhrase: seedPhraseValue,
+      keyPair: walletAddress && privateKey ? { privateKey, publicKey: walletAddress } : null,
+      walletAddress,
+      derivationMode: storedMode,
+      accountIndex: storedAccountIndex,
     };
+  };
+  
+  // Helper function to load user data
+  const loadUserData = async (walletId: string) => {
+    let userData = null;
+    let valuations = null;
     
-    // Helper function to apply all loaded state
-    const applyLoadedState = (authData: AuthData, walletData: WalletStorageData, userData: UserStorageData) => {
-      // Set basic auth state
-      setHasPasskey(authData.hasPasskey);
-      if (authData.userType) setUserType(authData.userType);
-      if (authData.userName) setUserName(authData.userName);
-      setIsVerified(authData.isVerified);
-      
-      // Set vendor data if present
-      if (authData.vendorData) {
-        setVendorInfo({
-          description: authData.vendorData.description || null,
-          googleMapsLink: authData.vendorData.googleMapsLink || null,
-          websiteLink: authData.vendorData.websiteLink || null,
-        });
+    try {
+      userData = await storage.getJSON(getWalletKey(DATA_KEYS.USER_DATA, walletId));
+    } catch (e) {
+      // Failed to load user data
+    }
+    
+    try {
+      valuations = await storage.getJSON(getWalletKey(DATA_KEYS.VALUATIONS, walletId));
+    } catch (e) {
+      // Failed to load valuations
+    }
+    
+    return { userData, valuations };
+  };
+  
+  // Helper function to clear the state that belongs to a single wallet
+  const resetWalletState = () => {
+    setSeedPhrase(null);
+    setKeyPair(null);
+    setWalletAddress(null);
+    setDerivationMode(DEFAULT_DERIVATION_MODE);
+    setAccountIndex(0);
+    setValuations(null);
+    setExistingWallet(null);
+    setUserType(null);
+    setUserName(null);
+    setIsVerified(false);
+    setVendorInfo({ description: null, googleMapsLink: null, websiteLink: null });
+  };
+  
+  // Helper function to apply all loaded state
+  const applyLoadedState = (authData: AuthData, walletData: WalletStorageData, userData: UserStorageData) => {
+    // Set basic auth state
+    setHasPasskey(authData.hasPasskey);
+    if (authData.userType) setUserType(authData.userType);
+    if (authData.userName) setUserName(authData.userName);
+    setIsVerified(authData.isVerified);
+    
+    // Set vendor data if present
+    if (authData.vendorData) {
+      setVendorInfo({
+        description: authData.vendorData.description || null,
+        googleMapsLink: authData.vendorData.googleMapsLink || null,
+        websiteLink: authData.vendorData.websiteLink || null,
+      });
+    }
+    
+    // Set wallet data
+    if (walletData.seedPhrase) setSeedPhrase(walletData.seedPhrase);
+    if (walletData.keyPair) setKeyPair(walletData.keyPair);
+    if (walletData.walletAddress) updateWalletAddress(walletData.walletAddress);
+    setDerivationMode(walletData.derivationMode);
+    setAccountIndex(walletData.accountIndex);
+    
+    // Set user data
+    if (userData.userData) setExistingWallet(userData.userData);
+    if (userData.valuations) setValuations(userData.valuations);
+  };
+  
+  // Load a stored wallet and make it the active one
+  const loadWallet = async (walletId: string) => {
+    // Upgrade any plaintext secrets before they are read
+    await migrateLegacySecrets(walletId);
+    
+    // Load wallet and user data in parallel for better performance
+    const [authData, walletData, userData, storedWallets] = await Promise.all([
+      loadBasicAuthData(walletId),
+      loadWalletData(walletId),
+      loadUserData(walletId),
+      walletRegistry.getWallets(),
+    ]);
+    
+    // Replace the previous wallet's state in one pass
+    resetWalletState();
+    applyLoadedState(authData, walletData, userData);
+    setWallets(storedWallets);
+    setActiveWalletId(walletId);
+  };
+  
+  // Initialize auth state
+  useEffect(() => {
+    const detectPlatform = async () => {
+      if (Device.isDevice) {
+        const os = Device.osName as string;
+        
+        if (os === 'iOS') {
+          setPlatformOS('ios');
+        } else if (os === 'Android') {
+          setPlatformOS('android');
+        } else {
+          setPlatformOS('web');
+        }
+      } else {
+        // Running in simulator or web
+        setPlatformOS('unknown');
       }
-      
-      // Set wallet data
-      if (walletData.seedPhrase) setSeedPhrase(walletData.seedPhrase);
-      if (walletData.keyPair) setKeyPair(walletData.keyPair);
-      if (walletData.walletAddress) updateWalletAddress(walletData.walletAddress);
-      
-      // Set user data
-      if (userData.userData) setExistingWallet(userData.userData);
-      if (userData.valuations) setValuations(userData.valuations);
     };
     
     const initializeAuth = async () => {
@@ -289,22 +388,24 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         // Detect platform first
         await detectPlatform();
         
-        // Load basic auth data
-        const authData = await loadBasicAuthData();
+        const storedStatus = await storage.getItem(AUTH_KEYS.AUTH_STATUS);
         
-        if (authData.status === 'authenticated') {
-          // Load wallet and user data in parallel for better performance
-          const [walletData, userData] = await Promise.all([
-            loadWalletData(),
-            loadUserData()
-          ]);
+        if (storedStatus === 'authenticated') {
+          // Move a wallet stored by a single-wallet app version into the registry
+          const walletId = await walletRegistry.migrateLegacyWallet();
+          if (!walletId) {
+            setStatus('unauthenticated');
+            return;
+          }
           
-          // Apply all loaded state
-          applyLoadedState(authData, walletData, userData);
+          await loadWallet(walletId);
           
           // Set authenticated status LAST to ensure all data is ready
           setStatus('authenticated');
-        } else if (authData.status === 'onboarding') {
+        } else if (storedStatus === 'onboarding') {
+          // Wallets may already be stored if the user was adding another one
+          setWallets(await walletRegistry.getWallets());
+          setActiveWalletId(await walletRegistry.getActiveWalletId());
           setStatus('onboarding');
         } else {
           setStatus('unauthenticated');
@@ -345,16 +446,24 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   // Complete the onboarding process
   const completeOnboarding = async (seedPhrase: string, usePasskey: boolean): Promise<boolean> => {
     try {
-      // Generate key pair from seed phrase
-      const keyPair = await createKeyPairFromSeedPhrase(seedPhrase);
+      // Generate key pair from seed phrase, new wallets start on the first standard account
+      const keyPair = await createKeyPairFromSeedPhrase(seedPhrase, {
+        mode: DEFAULT_DERIVATION_MODE,
+        accountIndex: 0,
+      });
+      
+      // Every wallet on the device gets its own namespaced keys
+      const walletId = walletRegistry.createWalletId();
       
       // Encrypt sensitive data
       const encryptedSeedPhrase = await encryptData(seedPhrase);
       const encryptedPrivateKey = await encryptData(keyPair.privateKey);
       
       // Store in secure storage
-      await storage.setItem(AUTH_KEYS.SEED_PHRASE, encryptedSeedPhrase, 'secure');
-      await storage.setItem(AUTH_KEYS.PRIVATE_KEY, encryptedPrivateKey, 'secure');
+      await storage.setItem(getWalletKey(AUTH_KEYS.SEED_PHRASE, walletId), encryptedSeedPhrase, 'secure');
+      await storage.setItem(getWalletKey(AUTH_KEYS.PRIVATE_KEY, walletId), encryptedPrivateKey, 'secure');
+      await storage.setItem(getWalletKey(AUTH_KEYS.DERIVATION_MODE, walletId), DEFAULT_DERIVATION_MODE);
+      await storage.setItem(getWalletKey(AUTH_KEYS.ACCOUNT_INDEX, walletId), '0');
       
       // Public key is stored as wallet address, no need to store separately
       
@@ -363,6 +472,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       
       setSeedPhrase(seedPhrase);
       setKeyPair(keyPair);
+      setDerivationMode(DEFAULT_DERIVATION_MODE);
+      setAccountIndex(0);
       setHasPasskey(usePasskey);
       setStatus('authenticated');
       
@@ -371,14 +482,23 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       updateWalletAddress(walletAddress);
       
       // Save wallet address to both AsyncStorage and SecureStore for redundancy
-      await storage.setItem(AUTH_KEYS.WALLET_ADDRESS, walletAddress);
-      try {
-      } catch (e) {
-      }
+      await storage.setItem(getWalletKey(AUTH_KEYS.WALLET_ADDRESS, walletId), walletAddress, 'secure');
       
       // Use the user's name if available, otherwise use a default
       const displayName = userName || "Index Wallet User";
       
+      // Add the wallet to this device's registry and make it active
+      const storedWallets = await walletRegistry.saveWallet({
+        id: walletId,
+        walletAddress,
+        userName: displayName,
+        userType: userType || 'customer',
+        createdAt: Date.now(),
+      });
+      await walletRegistry.setActiveWalletId(walletId);
+      setWallets(storedWallets);
+      setActiveWalletId(walletId);
+      
       // Register user with backend
       try {
         // Register the user account
@@ -406,44 +526,51 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         
         // Store user ID for future API calls
         if (userData.userId) {
-          await storage.setItem(USER_KEYS.USER_ID, userData.userId);
+          await storage.setItem(getWalletKey(USER_KEYS.USER_ID, walletId), userData.userId);
         }
         
         // Store username to both AsyncStorage and SecureStore for redundancy
         if (userName) {
-          await storage.setItem(USER_KEYS.USER_NAME, userName, 'secure');
+          await storage.setItem(getWalletKey(USER_KEYS.USER_NAME, walletId), userName, 'secure');
         }
         
         // Store user type to AsyncStorage
         if (userType) {
-          await storage.setItem(USER_KEYS.USER_TYPE, userType);
+          await storage.setItem(getWalletKey(USER_KEYS.USER_TYPE, walletId), userType);
         }
         
         // Store isVerified status - check API response first, then fallback to registration data
         const verifiedStatus = userData.is_verified ?? userData.isVerified ?? registrationData.isVerified ?? false;
         setIsVerified(verifiedStatus);
-        await storage.setItem(USER_KEYS.IS_VERIFIED, verifiedStatus.toString());
+        await storage.setItem(getWalletKey(USER_KEYS.IS_VERIFIED, walletId), verifiedStatus.toString());
         
         // Store vendor-specific data if user is a vendor
         if (userType === 'vendor') {
           if (vendorInfo.description) {
-            await storage.setItem(VENDOR_KEYS.DESCRIPTION, vendorInfo.description);
+            await storage.setItem(getWalletKey(VENDOR_KEYS.DESCRIPTION, walletId), vendorInfo.description);
           }
           if (vendorInfo.googleMapsLink) {
-            await storage.setItem(VENDOR_KEYS.GOOGLE_MAPS_LINK, vendorInfo.googleMapsLink);
+            await storage.setItem(getWalletKey(VENDOR_KEYS.GOOGLE_MAPS_LINK, walletId), vendorInfo.googleMapsLink);
           }
           if (vendorInfo.websiteLink) {
-            await storage.setItem(VENDOR_KEYS.WEBSITE_LINK, vendorInfo.websiteLink);
+            await storage.setItem(getWalletKey(VENDOR_KEYS.WEBSITE_LINK, walletId), vendorInfo.websiteLink);
           }
         }
       } catch (apiError) {
         
         // Clean up any stored data since registration failed
         try {
-          await storage.removeItem(AUTH_KEYS.SEED_PHRASE, 'secure');
-          await storage.removeItem(AUTH_KEYS.PRIVATE_KEY, 'secure');
+          const remainingWallets = await walletRegistry.removeWallet(walletId);
+          setWallets(remainingWallets);
+          
+          // Other wallets on this device stay signed in
+          if (remainingWallets.length === 0) {
             await storage.removeItem(AUTH_KEYS.HAS_PASSKEY);
-          await storage.removeItem(AUTH_KEYS.AUTH_STATUS);
+            await storage.removeItem(AUTH_KEYS.AUTH_STATUS);
+          } else {
+            await walletRegistry.setActiveWalletId(remainingWallets[0].id);
+            await loadWallet(remainingWallets[0].id);
+          }
         } catch (cleanupError) {
         }
         
@@ -466,46 +593,53 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         return false;
       }
       
-      const derivedKeyPair = await createKeyPairFromSeedPhrase(inputSeedPhrase);
+      // Check if a wallet with this seed phrase exists, and whether it uses the legacy derivation
+      const { wallet, mode } = await findWalletForSeedPhrase(inputSeedPhrase);
       
-      // Check if a wallet with this seed phrase exists
-      const wallet = await validateAndFetchWallet(inputSeedPhrase);
+      const derivedKeyPair = await createKeyPairFromSeedPhrase(inputSeedPhrase, { mode, accountIndex: 0 });
+      const address = wallet?.wallet_address || derivedKeyPair.publicKey;
       
-      // Clear any old wallet address
-      await storage.removeItem(AUTH_KEYS.WALLET_ADDRESS);
+      // Importing a wallet that is already on this device reuses its keys
+      const existingEntry = await walletRegistry.findByAddress(address);
+      const walletId = existingEntry?.id || walletRegistry.createWalletId();
+      
+      // Re-importing keeps the name this wallet already had on the device
+      const localUserName = existingEntry
+        ? await storage.getItem(getWalletKey(USER_KEYS.USER_NAME, walletId), 'secure')
+        : null;
+      
+      // Don't carry anything over from the previously active wallet
+      resetWalletState();
       
       // Set the wallet address if available from the backend
-      if (wallet && wallet.wallet_address) {
-        await storage.setItem(AUTH_KEYS.WALLET_ADDRESS, wallet.wallet_address, 'secure');
-        setWalletAddress(wallet.wallet_address);
+      await storage.setItem(getWalletKey(AUTH_KEYS.WALLET_ADDRESS, walletId), address, 'secure');
+      setWalletAddress(address);
+      
+      if (wallet) {
+        // Store the user ID for future API calls
+        if (wallet.user_id) {
+          await storage.setItem(getWalletKey(USER_KEYS.USER_ID, walletId), wallet.user_id);
+        }
         
         // Also restore username if available
         if (wallet.username) {
-          await storage.setItem(USER_KEYS.USER_NAME, wallet.username, 'secure');
+          await storage.setItem(getWalletKey(USER_KEYS.USER_NAME, walletId), wallet.username, 'secure');
           setUserName(wallet.username);
-        }
-        
-        // Always check local storage as well to ensure we don't lose data
-        const localUserName = await storage.getItem(USER_KEYS.USER_NAME);
-        if (!wallet.username && localUserName) {
+        } else if (localUserName) {
           setUserName(localUserName);
         }
         
         // Restore user type if available
         if (wallet.user_type) {
-          await storage.setItem(USER_KEYS.USER_TYPE, wallet.user_type);
+          await storage.setItem(getWalletKey(USER_KEYS.USER_TYPE, walletId), wallet.user_type);
           setUserType(wallet.user_type);
         }
         
         // Restore verified status if available
         if (wallet.is_verified !== undefined) {
           setIsVerified(wallet.is_verified);
-          await storage.setItem(USER_KEYS.IS_VERIFIED, wallet.is_verified.toString());
+          await storage.setItem(getWalletKey(USER_KEYS.IS_VERIFIED, walletId), wallet.is_verified.toString());
         }
-      } else {
-        // Fallback to using the public key as the wallet address
-        await storage.setItem(AUTH_KEYS.WALLET_ADDRESS, derivedKeyPair.publicKey, 'secure');
-        setWalletAddress(derivedKeyPair.publicKey);
       }
       
       // Encrypt sensitive data
@@ -513,17 +647,33 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       const encryptedPrivateKey = await encryptData(derivedKeyPair.privateKey);
       
       // Store in secure storage
-      await storage.setItem(AUTH_KEYS.SEED_PHRASE, encryptedSeedPhrase, 'secure');
-      await storage.setItem(AUTH_KEYS.PRIVATE_KEY, encryptedPrivateKey, 'secure');
+      await storage.setItem(getWalletKey(AUTH_KEYS.SEED_PHRASE, walletId), encryptedSeedPhrase, 'secure');
+      await storage.setItem(getWalletKey(AUTH_KEYS.PRIVATE_KEY, walletId), encryptedPrivateKey, 'secure');
+      await storage.setItem(getWalletKey(AUTH_KEYS.DERIVATION_MODE, walletId), mode);
+      await storage.setItem(getWalletKey(AUTH_KEYS.ACCOUNT_INDEX, walletId), '0');
       
       // Public key is stored as wallet address, no need to store separately
       
       await storage.setItem(AUTH_KEYS.HAS_PASSKEY, usePasskey ? 'true' : 'false');
       await storage.setItem(AUTH_KEYS.AUTH_STATUS, 'authenticated');
       
+      // Add the wallet to this device's registry and make it active
+      const storedWallets = await walletRegistry.saveWallet({
+        id: walletId,
+        walletAddress: address,
+        userName: wallet?.username || localUserName || existingEntry?.userName || null,
+        userType: wallet?.user_type || existingEntry?.userType || null,
+        createdAt: existingEntry?.createdAt || Date.now(),
+      });
+      await walletRegistry.setActiveWalletId(walletId);
+      
       // Set context state with derived key pair
+      setWallets(storedWallets);
+      setActiveWalletId(walletId);
       setSeedPhrase(inputSeedPhrase);
       setKeyPair(derivedKeyPair);
+      setDerivationMode(mode);
+      setAccountIndex(0);
       setHasPasskey(usePasskey);
       setStatus('authenticated');
       
@@ -533,9 +683,22 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
   
-  // Logout
+  // Logout removes the active wallet from this device
   const logout = async (): Promise<void> => {
     try {
+      await session.end();
+      
+      const remainingWallets = activeWalletId
+        ? await walletRegistry.removeWallet(activeWalletId)
+        : await walletRegistry.getWallets();
+      
+      // Other wallets stay signed in, switch to the next one
+      if (remainingWallets.length > 0) {
+        await walletRegistry.setActiveWalletId(remainingWallets[0].id);
+        await loadWallet(remainingWallets[0].id);
+        return;
+      }
+      
       // Clear ALL user-specific data from AsyncStorage
       const keysToRemove = [
         AUTH_KEYS.AUTH_STATUS,
@@ -551,7 +714,13 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         VENDOR_KEYS.GOOGLE_MAPS_LINK,
         VENDOR_KEYS.WEBSITE_LINK,
         AUTH_KEYS.HAS_PASSKEY,
+        AUTH_KEYS.DERIVATION_MODE,
+        AUTH_KEYS.ACCOUNT_INDEX,
         USER_KEYS.USER_ID,
+        WALLET_KEYS.WALLETS,
+        WALLET_KEYS.ACTIVE_WALLET_ID,
+        // The app lock belongs to the wallets; removeMultiple also clears the secure copies
+        ...Object.values(LOCK_KEYS),
       ];
       
       await storage.removeMultiple(keysToRemove);
@@ -563,21 +732,103 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       await storage.removeItem(AUTH_KEYS.WALLET_ADDRESS, 'secure');
       
       // Reset ALL state to initial values
-      setSeedPhrase(null);
-      setKeyPair(null);
-      setWalletAddress(null);
-      setValuations(null);
-      setExistingWallet(null);
-      setUserType(null);
-      setUserName(null);
-      setIsVerified(false);
-      setVendorInfo({ description: null, googleMapsLink: null, websiteLink: null });
+      resetWalletState();
+      setWallets([]);
+      setActiveWalletId(null);
       setHasPasskey(false);
       setOnboardingStep('welcome');
       setStatus('unauthenticated');
     } catch (error) {
     }
   };
+  
+  // Make another stored wallet the active one, without signing out
+  const switchWallet = async (walletId: string): Promise<boolean> => {
+    try {
+      if (walletId === activeWalletId) {
+        return true;
+      }
+      
+      const storedWallets = await walletRegistry.getWallets();
+      if (!storedWallets.some(w => w.id === walletId)) {
+        return false;
+      }
+      
+      await walletRegistry.setActiveWalletId(walletId);
+      await loadWallet(walletId);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  };
+  
+  // Leave the add-wallet flow and return to the active wallet
+  const cancelAddWallet = async (): Promise<void> => {
+    const walletId = activeWalletId || await walletRegistry.getActiveWalletId();
+    if (!walletId) {
+      return;
+    }
+    
+    await loadWallet(walletId);
+    await storage.setItem(AUTH_KEYS.AUTH_STATUS, 'authenticated');
+    setOnboardingStep('welcome');
+    setStatus('authenticated');
+  };
+  
+  // Derive the first `count` standard accounts for the current seed phrase
+  const getAccounts = async (count: number): Promise<AccountInfo[]> => {
+    if (!seedPhrase) {
+      return [];
+    }
+    
+    const accounts: AccountInfo[] = [];
+    
+    // Keep the legacy account reachable for wallets that were created with it
+    if (derivationMode === 'legacy') {
+      const legacyKeyPair = await createKeyPairFromSeedPhrase(seedPhrase, { mode: 'legacy' });
+      accounts.push({ index: 0, derivationMode: 'legacy', publicKey: legacyKeyPair.publicKey });
+    }
+    
+    for (let index = 0; index < count; index++) {
+      const accountKeyPair = await createKeyPairFromSeedPhrase(seedPhrase, { mode: 'slip10', accountIndex: index });
+      accounts.push({ index, derivationMode: 'slip10', publicKey: accountKeyPair.publicKey });
+    }
+    
+    return accounts;
+  };
+  
+  // Switch the active key pair to another account derived from the same seed phrase
+  const switchAccount = async (index: number, mode: DerivationMode = DEFAULT_DERIVATION_MODE): Promise<boolean> => {
+    try {
+      if (!seedPhrase || !activeWalletId || index < 0) {
+        return false;
+      }
+      
+      const accountKeyPair = await createKeyPairFromSeedPhrase(seedPhrase, { mode, accountIndex: index });
+      const encryptedPrivateKey = await encryptData(accountKeyPair.privateKey);
+      
+      await storage.setItem(getWalletKey(AUTH_KEYS.PRIVATE_KEY, activeWalletId), encryptedPrivateKey, 'secure');
+      await storage.setItem(getWalletKey(AUTH_KEYS.WALLET_ADDRESS, activeWalletId), accountKeyPair.publicKey, 'secure');
+      await storage.setItem(getWalletKey(AUTH_KEYS.DERIVATION_MODE, activeWalletId), mode);
+      await storage.setItem(getWalletKey(AUTH_KEYS.ACCOUNT_INDEX, activeWalletId), index.toString());
+      
+      // Keep the registry entry pointing at the account in use
+      const entry = wallets.find(w => w.id === activeWalletId);
+      if (entry) {
+        setWallets(await walletRegistry.saveWallet({ ...entry, walletAddress: accountKeyPair.publicKey }));
+      }
+      
+      setKeyPair(accountKeyPair);
+      setDerivationMode(mode);
+      setAccountIndex(index);
+      updateWalletAddress(accountKeyPair.publicKey);
+      
+      return true;
+    } catch (error) {
+      return false;
+    }
+  };
+  
   // Validate seed phrase and check if wallet exists
   const validateSeedAndCheckWallet = async (phrase: string): Promise<WalletData | null> => {
     try {
@@ -586,17 +837,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         throw new Error('Invalid seed phrase format');
       }
       
-      // Check if a wallet with this seed phrase exists
-      const wallet = await validateAndFetchWallet(phrase);
+      // Check if a wallet with this seed phrase exists under either derivation
+      const { wallet } = await findWalletForSeedPhrase(phrase);
       
       if (wallet) {
-        // Store the user ID and other relevant data
-        await storage.setItem(USER_KEYS.USER_ID, wallet.user_id || '');
-        await storage.setItem(AUTH_KEYS.WALLET_ADDRESS, wallet.wallet_address);
-        if (wallet.username) {
-          await storage.setItem(USER_KEYS.USER_NAME, wallet.username);
-        }
-
+        // Wallet data is stored by login() once it knows which wallet slot to use
         if (wallet.wallet_address) {
           setWalletAddress(wallet.wallet_address);
         }
@@ -620,6 +865,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   
 
+  // Profile edits belong to the active wallet. While onboarding, the new wallet
+  // has no id yet, so the values stay in state until completeOnboarding saves them
+  const profileWalletId = status === 'authenticated' ? activeWalletId : null;
+
   const value = {
     status,
     onboardingStep,
@@ -628,34 +877,47 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     hasPasskey,
     platformOS,
     walletAddress,
+    wallets,
+    activeWalletId,
+    derivationMode,
+    accountIndex,
     userType,
     valuations,
     setUserType: (type: UserType) => {
       setUserType(type);
-      storage.setItem(USER_KEYS.USER_TYPE, type || '');
+      if (profileWalletId) {
+        storage.setItem(getWalletKey(USER_KEYS.USER_TYPE, profileWalletId), type || '');
+      }
     },
     userName,
     setUserName: (name: string) => {
       setUserName(name);
-      storage.setItem(USER_KEYS.USER_NAME, name);
+      if (profileWalletId) {
+        storage.setItem(getWalletKey(USER_KEYS.USER_NAME, profileWalletId), name, 'secure');
+      }
     },
     isVerified,
     vendorInfo,
     setVendorInfo: (info: Partial<{ description: string; googleMapsLink: string; websiteLink: string }>) => {
       setVendorInfo(prev => ({ ...prev, ...info }));
+      if (!profileWalletId) return;
       // Save each field to storage if provided
       if (info.description !== undefined) {
-        storage.setItem(VENDOR_KEYS.DESCRIPTION, info.description);
+        storage.setItem(getWalletKey(VENDOR_KEYS.DESCRIPTION, profileWalletId), info.description);
       }
       if (info.googleMapsLink !== undefined) {
-        storage.setItem(VENDOR_KEYS.GOOGLE_MAPS_LINK, info.googleMapsLink);
+        storage.setItem(getWalletKey(VENDOR_KEYS.GOOGLE_MAPS_LINK, profileWalletId), info.googleMapsLink);
       }
       if (info.websiteLink !== undefined) {
-        storage.setItem(VENDOR_KEYS.WEBSITE_LINK, info.websiteLink);
+        storage.setItem(getWalletKey(VENDOR_KEYS.WEBSITE_LINK, profileWalletId), info.websiteLink);
       }
     },
     login,
     logout,
+    switchWallet,
+    cancelAddWallet,
+    getAccounts,
+    switchAccount,
     generateSeedPhrase,
     validateSeedPhrase,
     startOnboarding,
@@ -1,13 +1,20 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import axios from 'axios';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { AppState } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useAuth } from './AuthContext';
-import { API_URL } from '../config';
+import { fetchWalletBalances } from '../services/valuationService';
+import { connectivity } from '../services/connectivityService';
+import { portfolioHistory } from '../services/portfolioHistoryService';
+import type { PortfolioPoint } from '../services/portfolioHistoryService';
+import { fromBaseUnits, getTokenDecimals, tokenAmountToNumber } from '../utils/tokenAmount';
 
 // Define token balance type
 export type TokenBalance = {
   tokenSymbol: string;
   tokenName: string;
   amount: number;
+  baseUnits: string;  // Exact balance in base units, amount is for display math only
+  decimals: number;
   valueUSD: number;
   logoUrl?: string;
   marketValuation?: string;
@@ -15,6 +22,20 @@ export type TokenBalance = {
   tokenKey?: string; // Add token key to store the original key from API response
 };
 
+// Balances as last fetched for a wallet, shown until a fetch succeeds
+type CachedBalances = {
+  balances: TokenBalance[];
+  totalValueUSD: number;
+  lastUpdated: number;
+};
+
+const getBalanceCacheKey = (walletAddress: string) => `@balances/${walletAddress}`;
+
+// Retry a failed fetch after 5s, 10s, 20s... while we're online
+const RETRY_BASE_DELAY = 5000;
+const RETRY_MAX_DELAY = 60000;
+const MAX_RETRIES = 5;
+
 // Context interface
 interface BalanceContextType {
   balances: TokenBalance[];
@@ -23,6 +44,9 @@ interface BalanceContextType {
   error: string | null;
   refreshBalances: () => Promise<void>;
   lastUpdated: Date | null;
+  isOffline: boolean;
+  // Portfolio value over time, oldest first
+  valueHistory: PortfolioPoint[];
 }
 
 // Create context with default values
@@ -33,20 +57,58 @@ const BalanceContext = createContext<BalanceContextType>({
   error: null,
   refreshBalances: async () => {},
   lastUpdated: null,
+  isOffline: false,
+  valueHistory: [],
 });
 
-// API base URL - use centralized config
-const API_BASE_URL = API_URL;
-
 export const BalanceProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [balances, setBalances] = useState<TokenBalance[]>([]);
   const [totalValueUSD, setTotalValueUSD] = useState<number>(0);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [isOffline, setIsOffline] = useState<boolean>(!connectivity.isOnline());
+  const [valueHistory, setValueHistory] = useState<PortfolioPoint[]>([]);
   
   const { status, walletAddress } = useAuth();
   
+  // Tracks the wallet currently shown so responses for a previous wallet are dropped
+  const activeAddressRef = useRef<string | null>(walletAddress);
+  activeAddressRef.current = walletAddress;
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const retryCountRef = useRef(0);
+  
+  const cancelRetry = () => {
+    if (retryTimerRef.current) {
+      clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = null;
+    }
+  };
+  
+  // Show the wallet's last known balances straight away
+  const loadCachedBalances = async (address: string) => {
+    try {
+      const cached = await AsyncStorage.getItem(getBalanceCacheKey(address));
+      if (!cached || activeAddressRef.current !== address) return;
+      
+      const parsed: CachedBalances = JSON.parse(cached);
+      setBalances(parsed.balances);
+      setTotalValueUSD(parsed.totalValueUSD);
+      setLastUpdated(new Date(parsed.lastUpdated));
+      setIsLoading(false);
+    } catch (error) {
+      console.error('Failed to load cached balances:', error);
+    }
+  };
+  
+  const saveCachedBalances = async (address: string, cached: CachedBalances) => {
+    try {
+      await AsyncStorage.setItem(getBalanceCacheKey(address), JSON.stringify(cached));
+    } catch (error) {
+      console.error('Failed to cache balances:', error);
+    }
+  };
+  
   // Function to fetch balances from API
   const fetchBalances = async (): Promise<void> => {
     console.log("FETCHING BALANCES");
@@ -56,25 +118,31 @@ export const BalanceProvider: React.FC<{ children: ReactNode }> = ({ children })
       return;
     }
     
+    cancelRetry();
     setIsLoading(true);
     setError(null);
     
     try {
-      const response = await axios.get(`${API_BASE_URL}/wallet/${walletAddress}/balances`);
-      console.log("RESPONSE DATA: ", response.data);
+      const requestedAddress = walletAddress;
+      const balanceData = await fetchWalletBalances(requestedAddress);
+      console.log("RESPONSE DATA: ", balanceData);
+      
+      // The user switched wallets while this request was in flight
+      if (activeAddressRef.current !== requestedAddress) {
+        return;
+      }
       
       // Parse the response data and transform it into TokenBalance objects
       const tokenBalances: TokenBalance[] = [];
       let calculatedTotalValue = 0;
       
       // Process each token in the response
-      for (const [tokenId, tokenData] of Object.entries(response.data)) {
-        const [mintAddress, decimals] = tokenId.split(',');
-        const data = tokenData as any;
-        
-        // Calculate token value based on balance and average valuation
-        // Divide by 100 to adjust for two decimal places
-        const balance = (data.balance || 0) / 100;
+      for (const [tokenId, data] of Object.entries(balanceData)) {
+        // Balances arrive in base units, at the precision in the token's metadata
+        // A balance without it can't be read, so the fetch fails rather than guessing
+        const decimals = getTokenDecimals({ ...data, token_key: tokenId });
+        const baseUnits = fromBaseUnits(data.balance || 0, decimals);
+        const balance = tokenAmountToNumber(baseUnits);
         const marketValuation = parseFloat(data.market_valuation || '0');
         const valueUSD = balance * marketValuation;
         
@@ -86,6 +154,8 @@ export const BalanceProvider: React.FC<{ children: ReactNode }> = ({ children })
           tokenSymbol: data.symbol || 'Unknown',
           tokenName: data.name || 'Unknown Token',
           amount: balance,
+          baseUnits: baseUnits.units.toString(),
+          decimals,
           valueUSD: valueUSD,
           marketValuation: data.market_valuation,
           logoUrl: data.token_image_url,
@@ -109,36 +179,115 @@ export const BalanceProvider: React.FC<{ children: ReactNode }> = ({ children })
       })));
       
       // Update state with the parsed data
+      const fetchedAt = Date.now();
       setBalances(sortedTokenBalances);
       setTotalValueUSD(calculatedTotalValue);
-      setLastUpdated(new Date());
+      setLastUpdated(new Date(fetchedAt));
+      retryCountRef.current = 0;
+      
+      await saveCachedBalances(requestedAddress, {
+        balances: sortedTokenBalances,
+        totalValueUSD: calculatedTotalValue,
+        lastUpdated: fetchedAt,
+      });
+      
+      const history = await portfolioHistory.record(requestedAddress, sortedTokenBalances.map(token => ({
+        symbol: token.tokenSymbol,
+        amount: token.amount,
+        valueUSD: token.valueUSD,
+        decimals: token.decimals,
+      })));
+      if (activeAddressRef.current === requestedAddress) {
+        setValueHistory(history);
+      }
     } catch (err) {
       console.error('Error fetching balances:', err);
+      // Cached balances stay on screen, lastUpdated shows how old they are
       setError('Failed to fetch wallet balances');
+      scheduleRetry();
     } finally {
       setIsLoading(false);
     }
   };
   
+  // Retries wait for the connection to come back rather than failing while offline
+  const scheduleRetry = () => {
+    if (!connectivity.isOnline() || retryCountRef.current >= MAX_RETRIES) return;
+    
+    const delay = Math.min(RETRY_BASE_DELAY * 2 ** retryCountRef.current, RETRY_MAX_DELAY);
+    retryCountRef.current += 1;
+    retryTimerRef.current = setTimeout(() => {
+      retryTimerRef.current = null;
+      fetchBalancesRef.current();
+    }, delay);
+  };
+  
+  // Listeners registered once always call the latest fetchBalances
+  const fetchBalancesRef = useRef(fetchBalances);
+  fetchBalancesRef.current = fetchBalances;
+  
   // Refresh balances function that can be called from components
   const refreshBalances = async (): Promise<void> => {
     console.log('BalanceContext: Manual refresh requested');
     await fetchBalances();
   };
   
-  // Fetch balances when auth status changes and clear when unauthenticated
+  // Fetch balances when auth status or the active wallet changes, and clear when unauthenticated
   useEffect(() => {
+    cancelRetry();
+    retryCountRef.current = 0;
+    
     if (status === 'authenticated') {
-      fetchBalances();
+      // Don't show the previous wallet's balances while the new ones load
+      setBalances([]);
+      setTotalValueUSD(0);
+      setLastUpdated(null);
+      setValueHistory([]);
+      if (walletAddress) {
+        portfolioHistory.getHistory(walletAddress).then(history => {
+          if (activeAddressRef.current === walletAddress) {
+            setValueHistory(history);
+          }
+        });
+        loadCachedBalances(walletAddress).finally(() => fetchBalances());
+      } else {
+        fetchBalances();
+      }
     } else if (status === 'unauthenticated') {
       // Clear all balance data on logout
       setBalances([]);
       setTotalValueUSD(0);
       setError(null);
       setLastUpdated(null);
+      setValueHistory([]);
       setIsLoading(false);
     }
-  }, [status]);
+    
+    return cancelRetry;
+  }, [status, walletAddress]);
+  
+  // Refresh in the background whenever the app comes back to the foreground
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (nextAppState) => {
+      if (nextAppState === 'active' && connectivity.isOnline()) {
+        fetchBalancesRef.current();
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+  
+  // Pick up where we left off once the connection comes back
+  useEffect(() => {
+    return connectivity.subscribe((online) => {
+      setIsOffline(!online);
+      if (online) {
+        retryCountRef.current = 0;
+        fetchBalancesRef.current();
+      } else {
+        cancelRetry();
+      }
+    });
+  }, []);
   
   return (
     <BalanceContext.Provider 
@@ -148,7 +297,9 @@ export const BalanceProvider: React.FC<{ children: ReactNode }> = ({ children })
         isLoading, 
         error, 
         refreshBalances,
-        lastUpdated
+        lastUpdated,
+        isOffline,
+        valueHistory
       }}
     >
       {children}
@@ -0,0 +1,216 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import { paymentOutbox } from '../services/paymentOutboxService';
+import { connectivity } from '../services/connectivityService';
+import { isCompletedStatus, isVoidedStatus } from '../services/paymentStateMachine';
+import { useAuth } from './AuthContext';
+import { useBalance } from './BalanceContext';
+import { useTransactionHistory } from './TransactionHistoryStore';
+import type { OutboxEntry, OutboxSendResult } from '../services/paymentOutboxService';
+import type { SignPaymentRequest } from '@/types/api';
+
+// How often queued payments are retried while the backend answers but fails
+const RETRY_INTERVAL = 30000;
+
+interface PaymentOutboxContextType {
+  // Signed payments that haven't reached the backend yet, oldest first
+  entries: OutboxEntry[];
+  submitPayment: (request: SignPaymentRequest) => Promise<OutboxSendResult>;
+  retryPayment: (entryId: string) => Promise<void>;
+  discardPayment: (entryId: string) => Promise<void>;
+  flush: () => Promise<void>;
+}
+
+export const PaymentOutboxContext = createContext<PaymentOutboxContextType>({
+  entries: [],
+  submitPayment: async () => ({ outcome: 'rejected', error: new Error('Payment outbox not available') }),
+  retryPayment: async () => {},
+  discardPayment: async () => {},
+  flush: async () => {},
+});
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : 'Unknown error';
+
+export const PaymentOutboxProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const auth = useAuth();
+  const { refreshBalances } = useBalance();
+  const { refreshHistory } = useTransactionHistory();
+  const walletAddress = auth?.walletAddress ?? null;
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  // Kept in step with state so async work always reads the latest entries
+  const entriesRef = useRef<OutboxEntry[]>([]);
+  // The wallet entriesRef belongs to, so work started before a switch still lands on its own wallet
+  const walletRef = useRef<string | null>(walletAddress);
+  const flushingRef = useRef(new Set<string>());
+
+  /**
+   * Apply a change to one wallet's outbox and save it
+   * Another wallet's entries are read back from storage instead of the ones on screen
+   */
+  const commit = useCallback(async (address: string, change: (current: OutboxEntry[]) => OutboxEntry[]) => {
+    if (address === walletRef.current) {
+      const updated = change(entriesRef.current);
+      entriesRef.current = updated;
+      setEntries(updated);
+      await paymentOutbox.save(address, updated);
+    } else {
+      await paymentOutbox.save(address, change(await paymentOutbox.getEntries(address)));
+    }
+  }, []);
+
+  const updateEntry = useCallback((address: string, entryId: string, changes: Partial<OutboxEntry>) =>
+    commit(address, current => current.map(entry =>
+      entry.id === entryId ? { ...entry, ...changes, updated_at: Date.now() } : entry
+    )), [commit]);
+
+  const removeEntry = useCallback((address: string, entryId: string) =>
+    commit(address, current => current.filter(entry => entry.id !== entryId)), [commit]);
+
+  // The backend has the money moving, so balances and history are out of date
+  const settled = useCallback(async () => {
+    await Promise.all([refreshBalances(), refreshHistory()]);
+  }, [refreshBalances, refreshHistory]);
+
+  /**
+   * Send one entry and record how it went
+   */
+  const attempt = useCallback(async (address: string, entry: OutboxEntry): Promise<OutboxSendResult> => {
+    await updateEntry(address, entry.id, { state: 'sending', attempts: entry.attempts + 1 });
+    const result = await paymentOutbox.send(entry);
+
+    if (result.outcome === 'sent') {
+      await removeEntry(address, entry.id);
+    } else if (result.outcome === 'queued') {
+      await updateEntry(address, entry.id, { state: 'queued', last_error: errorMessage(result.error) });
+    } else {
+      await updateEntry(address, entry.id, { state: 'failed', last_error: errorMessage(result.error) });
+    }
+    return result;
+  }, [updateEntry, removeEntry]);
+
+  /**
+   * Save a signed payment, then send it
+   * If the connection drops it stays queued and is sent again on reconnect
+   */
+  const submitPayment = useCallback(async (request: SignPaymentRequest): Promise<OutboxSendResult> => {
+    const address = walletRef.current;
+    if (!address) {
+      return { outcome: 'rejected', error: new Error('No wallet to pay from') };
+    }
+
+    const entry = paymentOutbox.createEntry(request);
+    await commit(address, current => [...current, entry]);
+
+    const result = await attempt(address, entry);
+    // Rejected payments are the caller's to report, nothing is left to retry
+    if (result.outcome === 'rejected') {
+      await removeEntry(address, entry.id);
+    }
+    return result;
+  }, [commit, attempt, removeEntry]);
+
+  /**
+   * Settle queued payments against the backend, then resend what it doesn't have
+   * A payment the backend already completed is never sent twice
+   */
+  const flush = useCallback(async () => {
+    const address = walletRef.current;
+    if (!address || flushingRef.current.has(address)) return;
+    const queued = entriesRef.current.filter(entry => entry.state === 'queued');
+    if (queued.length === 0) return;
+
+    flushingRef.current.add(address);
+    try {
+      const statuses = await paymentOutbox.checkStatuses(queued.map(entry => entry.payment_id));
+      let anySettled = false;
+
+      for (const entry of queued) {
+        const status = statuses.get(entry.payment_id);
+        if (status && isCompletedStatus(status)) {
+          await removeEntry(address, entry.id);
+          anySettled = true;
+        } else if (status && isVoidedStatus(status)) {
+          await updateEntry(address, entry.id, { state: 'failed', last_error: `The request was ${status.toLowerCase()} before the payment reached it` });
+        } else {
+          const result = await attempt(address, entry);
+          if (result.outcome === 'sent') {
+            anySettled = true;
+          } else if (result.outcome === 'queued') {
+            // Still offline, the rest would fail the same way
+            break;
+          }
+        }
+      }
+
+      // Balances and history follow the active wallet, so there's nothing to refresh after a switch
+      if (anySettled && address === walletRef.current) {
+        await settled();
+      }
+    } catch (error) {
+      // Couldn't reach the backend to check, try again later
+      console.error('Failed to flush payment outbox:', error);
+    } finally {
+      flushingRef.current.delete(address);
+    }
+  }, [removeEntry, updateEntry, attempt, settled]);
+
+  const retryPayment = useCallback(async (entryId: string) => {
+    if (!walletRef.current) return;
+    await updateEntry(walletRef.current, entryId, { state: 'queued', last_error: undefined });
+    await flush();
+  }, [updateEntry, flush]);
+
+  const discardPayment = useCallback(async (entryId: string) => {
+    if (!walletRef.current) return;
+    await removeEntry(walletRef.current, entryId);
+  }, [removeEntry]);
+
+  // Load the wallet's outbox and send anything left from last time
+  useEffect(() => {
+    walletRef.current = walletAddress;
+    entriesRef.current = [];
+    setEntries([]);
+    if (!walletAddress) return;
+
+    let cancelled = false;
+    paymentOutbox.getEntries(walletAddress).then(stored => {
+      if (cancelled) return;
+      entriesRef.current = stored;
+      setEntries(stored);
+      flush();
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [walletAddress]);
+
+  // Resend as soon as the backend is reachable again
+  useEffect(() => connectivity.subscribe(online => {
+    if (online) flush();
+  }), [flush]);
+
+  // Keep retrying while something is queued
+  const hasQueued = entries.some(entry => entry.state === 'queued');
+  useEffect(() => {
+    if (!hasQueued) return;
+    const timer = setInterval(() => {
+      if (connectivity.isOnline()) flush();
+    }, RETRY_INTERVAL);
+    return () => clearInterval(timer);
+  }, [hasQueued, flush]);
+
+  return (
+    <PaymentOutboxContext.Provider
+      value={{
+        entries,
+        submitPayment,
+        retryPayment,
+        discardPayment,
+        flush,
+      }}
+    >
+      {children}
+    </PaymentOutboxContext.Provider>
+  );
+};
+
+export const usePaymentOutbox = () => useContext(PaymentOutboxContext);
@@ -1,7 +1,9 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
 import { PaymentAPI } from '../services/api';
+import { paymentStatusService } from '../services/paymentStatusService';
+import { isPendingStatus } from '../services/paymentStateMachine';
 import { useAuth } from './AuthContext';
-import { Transaction } from './TransactionContext';
+import type { Transaction } from '@/types/payment';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { AppState, AppStateStatus } from 'react-native';
 
@@ -12,6 +14,7 @@ const POLLING_INTERVALS = {
   PENDING_STANDARD: 10000,       // 10s - Transaction 30s-5 min old  
   PENDING_STALE: 120000,         // 120s - Transaction > 5 min old
   BACKGROUND_SYNC: 300000,       // 5 min - App in background
+  SOCKET_CONNECTED: 60000,       // 60s - Status socket pushes updates for known payments
 };
 
 interface PendingTransactionManagerContextType {
@@ -49,11 +52,18 @@ export const PendingTransactionManagerProvider: React.FC<{ children: React.React
   const [error, setError] = useState<string | null>(null);
   const [lastSyncTime, setLastSyncTime] = useState<number | null>(null);
   const [appState, setAppState] = useState<AppStateStatus>(AppState.currentState);
+  const [socketConnected, setSocketConnected] = useState(paymentStatusService.isConnected());
   const syncIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const requestCacheRef = useRef<Map<string, Promise<any>>>(new Map());
+  const walletAddressRef = useRef<string | null>(auth?.walletAddress ?? null);
+  walletAddressRef.current = auth?.walletAddress ?? null;
 
   // Load cached data on mount and when wallet changes
   useEffect(() => {
+    // Drop the previous wallet's state before loading the new one
+    setPendingTransactions([]);
+    setLastSyncTime(null);
+    setError(null);
     loadCachedData();
     
     // App state listener
@@ -66,6 +76,9 @@ export const PendingTransactionManagerProvider: React.FC<{ children: React.React
     };
   }, [auth?.walletAddress]); // Reload when wallet address changes
 
+  // The socket only follows payments already known, so syncing just slows down while it's up
+  useEffect(() => paymentStatusService.onConnectionChange(setSocketConnected), []);
+
   // Handle app state changes
   const handleAppStateChange = (nextAppState: AppStateStatus) => {
     setAppState(nextAppState);
@@ -174,7 +187,13 @@ export const PendingTransactionManagerProvider: React.FC<{ children: React.React
         // console.log('Syncing transactions from backend...');
         
         // Fetch transaction history from backend
-        const response = await PaymentAPI.getTransactionHistory(auth.walletAddress);
+        const requestedAddress = auth.walletAddress;
+        const response = await PaymentAPI.getTransactionHistory(requestedAddress);
+        
+        // The user switched wallets while this request was in flight
+        if (walletAddressRef.current !== requestedAddress) {
+          return;
+        }
         
         if (response && response.transactions) {
           // console.log('All transactions from backend:', response.transactions.map((t: Transaction) => ({
@@ -183,9 +202,8 @@ export const PendingTransactionManagerProvider: React.FC<{ children: React.React
           // })));
           
           // Filter for pending transactions
-          const pendingStatuses = ['pending', 'created', 'assigned', 'Pending', 'Created', 'Assigned'];
           const pendingTxs = response.transactions.filter((tx: Transaction) => 
-            pendingStatuses.includes(tx.status)
+            isPendingStatus(tx.status)
           );
           
           // console.log(`Found ${pendingTxs.length} pending transactions from ${response.transactions.length} total`);
@@ -236,10 +254,11 @@ export const PendingTransactionManagerProvider: React.FC<{ children: React.React
     }
     
     if (interval && appState === 'active') {
-      // console.log(`Setting sync interval to ${interval}ms`);
-      syncIntervalRef.current = setInterval(syncTransactions, interval);
+      const syncInterval = socketConnected ? Math.max(interval, POLLING_INTERVALS.SOCKET_CONNECTED) : interval;
+      // console.log(`Setting sync interval to ${syncInterval}ms`);
+      syncIntervalRef.current = setInterval(syncTransactions, syncInterval);
     }
-  }, [appState, syncTransactions]);
+  }, [appState, socketConnected, syncTransactions]);
 
   // Start polling when pending transactions exist
   useEffect(() => {
@@ -288,6 +307,31 @@ export const PendingTransactionManagerProvider: React.FC<{ children: React.React
     });
   }, [lastSyncTime, calculatePollingInterval, updatePollingInterval]);
 
+  // Follow every pending payment over the status socket
+  // The sync loop above picks up new payments and covers a dropped socket, so the service doesn't poll these itself
+  const handleStatusRef = useRef<(payment: Transaction) => void>(() => {});
+  handleStatusRef.current = (payment: Transaction) => {
+    if (isPendingStatus(payment.status)) {
+      updateTransaction(payment);
+    } else {
+      removePendingTransaction(payment.payment_id);
+    }
+  };
+
+  const pendingIds = pendingTransactions.map(t => t.payment_id).join(',');
+  useEffect(() => {
+    if (!pendingIds) return;
+
+    const unsubscribes = pendingIds.split(',').map(paymentId =>
+      paymentStatusService.subscribe(
+        paymentId,
+        payment => handleStatusRef.current(payment),
+        { pollInterval: () => null }
+      )
+    );
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [pendingIds]);
+
   // Clear all caches and force resync
   const clearAllCaches = useCallback(async () => {
     if (!auth?.walletAddress) return;
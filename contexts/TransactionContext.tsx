@@ -1,369 +1,506 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import { PaymentAPI } from '../services/api';
+import { isApiError } from '../services/apiClient';
+import { paymentStatusService } from '../services/paymentStatusService';
+import {
+  applyPaymentUpdate,
+  isCompletedStatus,
+  isTerminalStatus,
+  startPayment,
+} from '../services/paymentStateMachine';
 import { useAuth } from './AuthContext';
 import { useBalance } from './BalanceContext';
-import { PaymentAPI } from '../services/api';
+import { usePendingTransactionManager } from './PendingTransactionManager';
+import { useTransactionHistory } from './TransactionHistoryStore';
+import { PaymentStatus } from '@/types/payment';
+import type { Transaction } from '@/types/payment';
+import type { PaymentInvoice, SupplementPaymentRequest } from '@/types/api';
 
-export type TokenPayment = {
-  token_key: string;
-  symbol: string;
-  amount_to_pay: number;
-};
+export { PaymentStatus } from '@/types/payment';
+export type { Transaction, TokenBreakdown, PaymentTransition } from '@/types/payment';
+export type { TokenPayment, PaymentInvoice, PaymentLineItem } from '@/types/api';
 
-export type Transaction = {
-  payment_id: string;
-  vendor_address: string;
-  vendor_name: string;
-  status: string;
-  price_usd: number;
-  created_at: number;
-  payment_bundle: TokenPayment[];
-  unsigned_transaction?: string;
-  
-  // Legacy fields for compatibility
-  paymentId?: string;
-  merchantId?: string;
-  amount?: number;
-  calculatedBundle?: TokenBreakdown[] | null;
-  createdAt?: string;
-  updatedAt?: string;
+const POLLING_INTERVALS = {
+  ACTIVE_TRANSACTION: 2000,      // 2s - User actively transacting
+  PENDING_RECENT: 5000,          // 5s - Transaction < 30 seconds old
+  PENDING_STANDARD: 10000,       // 10s - Transaction 30s-5 min old  
+  PENDING_STALE: 120000,         // 120s - Transaction > 5 min old
 };
 
-export type TokenBreakdown = {
-  tokenSymbol: string;
-  amount: number;
-};
+const MAX_POLL_DURATION = 30 * 60 * 1000; // 30 minutes max polling
 
+type TransactionFlow = 'payment' | 'request';
+
+/**
+ * One provider for both sides of a payment
+ * The payer's flow tracks activePayment. A vendor can have several requests
+ * open at once (openRequests), each followed separately, and activeRequest is
+ * the one they're looking at. All of them move through PaymentStatus via the
+ * payment state machine, so a status only ever moves forward and every
+ * transition is timestamped.
+ */
 interface TransactionContextType {
-  // Merchant functions
-  createTransaction: (amount: number) => Promise<string>;
-  pollTransactionStatus: (paymentId: string) => void;
-  stopPolling: () => void;
+  // Separate states for pay and receive flows
+  activePayment: Transaction | null;
+  activeRequest: Transaction | null;
+  openRequests: Transaction[];
+  
+  // Pay flow methods
+  initiatePayment: (paymentCode: string) => Promise<Transaction>;
+  completePayment: (paymentId: string) => Promise<boolean>;
   
-  // User functions
-  scanTransaction: (paymentId: string) => Promise<Transaction>;
-  supplementTransaction: (paymentId: string) => Promise<Transaction>;
-  completeTransaction: (paymentId: string) => Promise<boolean>;
+  // Receive flow methods  
+  createRequest: (amount: number, invoice?: PaymentInvoice, label?: string) => Promise<string>;
+  resumeRequest: (transaction: Transaction) => void;
+  selectRequest: (paymentId: string | null) => void;
+  deleteRequest: (paymentId: string) => Promise<boolean>;
   
-  // Shared state
-  currentTransaction: Transaction | null;
+  // Shared methods
+  clearActivePayment: () => void;
+  clearActiveRequest: () => void;
+  clearRequest: (paymentId: string) => void;
+  
+  // Loading and error states
   isLoading: boolean;
-  clearTransaction: () => void;
   error: string | null;
 }
 
-
-export const TransactionContext = createContext<TransactionContextType>({ createTransaction: async () => '', pollTransactionStatus: () => {},
-  stopPolling: () => {},
-  scanTransaction: async () => ({} as Transaction),
-  supplementTransaction: async () => ({} as Transaction),
-  completeTransaction: async () => false,
-  currentTransaction: null,
+export const TransactionContext = createContext<TransactionContextType>({
+  activePayment: null,
+  activeRequest: null,
+  openRequests: [],
+  initiatePayment: async () => ({} as Transaction),
+  completePayment: async () => false,
+  createRequest: async () => '',
+  resumeRequest: () => {},
+  selectRequest: () => {},
+  deleteRequest: async () => false,
+  clearActivePayment: () => {},
+  clearActiveRequest: () => {},
+  clearRequest: () => {},
   isLoading: false,
-  clearTransaction: () => {},
   error: null,
 });
 
-export const TransactionProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+export const TransactionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const auth = useAuth();
-  const { balances } = useBalance();
+  const { balances, refreshBalances } = useBalance();
+  const { updateTransaction, removePendingTransaction } = usePendingTransactionManager();
+  const { addTransaction: addToHistory } = useTransactionHistory();
   
-  const [currentTransaction, setCurrentTransaction] = useState<Transaction | null>(null);
-  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [activePayment, setActivePayment] = useState<Transaction | null>(null);
+  const [openRequests, setOpenRequests] = useState<Transaction[]>([]);
+  const [selectedRequestId, setSelectedRequestId] = useState<string | null>(null);
+  // Mirrors of the state above so transitions always start from the latest status
+  const activePaymentRef = useRef<Transaction | null>(null);
+  const openRequestsRef = useRef<Map<string, Transaction>>(new Map());
+  const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [pollingInterval, setPollingInterval] = useState<NodeJS.Timeout | null>(null);
+  
+  const paymentSubscriptionRef = useRef<(() => void) | null>(null);
+  // One subscription per open request, keyed by payment ID
+  const requestSubscriptionsRef = useRef<Map<string, () => void>>(new Map());
+  const pollStartTimeRef = useRef<Map<string, number>>(new Map());
+  const transactionCreatedAtRef = useRef<Map<string, number>>(new Map());
 
-  const handleError = (err: unknown, defaultMessage: string): never => {
-    const errorMessage = err instanceof Error ? err.message : defaultMessage;
-    setError(errorMessage);
-    throw new Error(errorMessage);
-  };
+  const activeRequest = openRequests.find(request => request.payment_id === selectedRequestId) || null;
 
+  // Cleanup on unmount
   useEffect(() => {
     return () => {
-      if (pollingInterval) {
-        clearTimeout(pollingInterval);
-      }
+      paymentSubscriptionRef.current?.();
+      requestSubscriptionsRef.current.forEach(unsubscribe => unsubscribe());
     };
-  }, [pollingInterval]);
+  }, []);
+
+  // Open requests and the active payment belong to the wallet that made them
+  useEffect(() => {
+    clearActivePayment();
+    requestSubscriptionsRef.current.forEach(unsubscribe => unsubscribe());
+    requestSubscriptionsRef.current.clear();
+    openRequestsRef.current.clear();
+    setOpenRequests([]);
+    setSelectedRequestId(null);
+  }, [auth?.walletAddress]);
 
-  const clearTransaction = () => {
-    setCurrentTransaction(null);
+  // Fallback polling interval based on transaction age, used while the live connection is down
+  const calculatePollingInterval = (transactionId: string): number | null => {
+    // Stop polling after the max duration, pushed updates still arrive
+    const startTime = pollStartTimeRef.current.get(transactionId);
+    if (startTime && Date.now() - startTime > MAX_POLL_DURATION) return null;
+    
+    const createdAt = transactionCreatedAtRef.current.get(transactionId);
+    if (!createdAt) return POLLING_INTERVALS.ACTIVE_TRANSACTION;
+    
+    const age = Date.now() - createdAt;
+    
+    if (age < 30 * 1000) return POLLING_INTERVALS.ACTIVE_TRANSACTION;      // < 30 seconds
+    if (age < 5 * 60 * 1000) return POLLING_INTERVALS.PENDING_STANDARD;    // 30s - 5 minutes
+    return POLLING_INTERVALS.PENDING_STALE;  // > 5 min
   };
-  const createTransaction = async (amount: number): Promise<string> => {
+
+  const setActivePaymentState = (transaction: Transaction | null) => {
+    activePaymentRef.current = transaction;
+    setActivePayment(transaction);
+  };
+
+  // Add or update one of the vendor's open requests
+  const putRequest = (transaction: Transaction) => {
+    openRequestsRef.current.set(transaction.payment_id, transaction);
+    setOpenRequests(Array.from(openRequestsRef.current.values()));
+  };
+
+  // Stop following a request and close it, without cancelling it on the backend
+  const clearRequest = (paymentId: string) => {
+    stopRequestUpdates(paymentId);
+    openRequestsRef.current.delete(paymentId);
+    setOpenRequests(Array.from(openRequestsRef.current.values()));
+    setSelectedRequestId(current => current === paymentId ? null : current);
+  };
+
+  // Move the active payment or one of the open requests to a new status
+  // Returns null if we aren't tracking it or the transition isn't legal
+  const transitionActive = (
+    type: TransactionFlow,
+    update: Partial<Transaction> & { status: string }
+  ): Transaction | null => {
+    const current = type === 'payment'
+      ? activePaymentRef.current
+      : openRequestsRef.current.get(update.payment_id || '') || null;
+    if (!current || (update.payment_id && update.payment_id !== current.payment_id)) {
+      return null;
+    }
     
+    const next = applyPaymentUpdate(current, update);
+    if (next) {
+      if (type === 'payment') {
+        setActivePaymentState(next);
+      } else {
+        putRequest(next);
+      }
+    }
+    return next;
+  };
+
+  // Apply a status update for the active payment or an open request
+  const handleStatusUpdate = useCallback((
+    response: Transaction,
+    type: TransactionFlow
+  ) => {
+    const transactionId = response.payment_id;
+    
+    // Stale and out of order updates are dropped here
+    const updated = transitionActive(type, response);
+    if (!updated) return;
+    
+    // Update in pending manager
+    updateTransaction(updated);
+    
+    // Stop following once the payment is settled
+    if (isTerminalStatus(updated.status)) {
+      if (type === 'payment') {
+        stopPaymentUpdates();
+      } else {
+        stopRequestUpdates(transactionId);
+      }
+      
+      // Only remove from pending if completed (not if failed/cancelled)
+      if (isCompletedStatus(updated.status)) {
+        removePendingTransaction(transactionId);
+        // Add to transaction history
+        addToHistory(updated);
+      }
+    }
+  }, [updateTransaction, removePendingTransaction, addToHistory]);
+
+  // Follow a transaction's status, pushed live or polled while offline
+  const startUpdates = (
+    transactionId: string,
+    type: TransactionFlow,
+    createdAt?: number
+  ): (() => void) => {
+    // Backend timestamps are in seconds
+    const createdAtMs = createdAt && createdAt < 10000000000 ? createdAt * 1000 : createdAt;
+    
+    pollStartTimeRef.current.set(transactionId, Date.now());
+    transactionCreatedAtRef.current.set(transactionId, createdAtMs || Date.now());
+    
+    const unsubscribe = paymentStatusService.subscribe(
+      transactionId,
+      payment => handleStatusUpdate(payment, type),
+      { pollInterval: () => calculatePollingInterval(transactionId) }
+    );
+    
+    return () => {
+      unsubscribe();
+      pollStartTimeRef.current.delete(transactionId);
+      transactionCreatedAtRef.current.delete(transactionId);
+    };
+  };
+
+  const startPaymentUpdates = (transactionId: string, createdAt?: number) => {
+    stopPaymentUpdates();
+    paymentSubscriptionRef.current = startUpdates(transactionId, 'payment', createdAt);
+  };
+
+  const startRequestUpdates = (transactionId: string, createdAt?: number) => {
+    stopRequestUpdates(transactionId);
+    requestSubscriptionsRef.current.set(transactionId, startUpdates(transactionId, 'request', createdAt));
+  };
+
+  const stopPaymentUpdates = () => {
+    paymentSubscriptionRef.current?.();
+    paymentSubscriptionRef.current = null;
+  };
+
+  const stopRequestUpdates = (transactionId: string) => {
+    requestSubscriptionsRef.current.get(transactionId)?.();
+    requestSubscriptionsRef.current.delete(transactionId);
+  };
+
+  // PAY FLOW: Initiate payment by scanning/entering code
+  const initiatePayment = async (paymentCode: string): Promise<Transaction> => {
     if (!auth?.walletAddress) {
-      throw new Error('Vendor wallet address not available');
+      throw new Error('Wallet address not available');
     }
     
     setIsLoading(true);
+    setError(null);
     
     try {
-      // Prepare payment data for API
-      const paymentData = {
-        vendor_address: auth.walletAddress,
-        vendor_name: auth.userName || 'Unknown Vendor',
-        price_usd: amount,
-        vendor_valuations: auth.valuations
+      // Convert balances to API format
+      const payerBalances = balances.filter(token => token.tokenKey).map(token => ({
+        token_key: token.tokenKey!,
+        symbol: token.tokenSymbol,
+        name: token.tokenName,
+        balance: token.amount,
+        average_valuation: token.valueUSD / token.amount,
+        token_image_url: token.tokenImageUrl || null
+      }));
+      
+      // Build supplement data
+      const supplementData: SupplementPaymentRequest = {
+        payer_address: auth.walletAddress,
+        payer_balances: payerBalances
       };
       
+      // Only add payer_username if it exists
+      if (auth.userName) {
+        supplementData.payer_username = auth.userName;
+      }
       
-      // Call the real backend API
-      const response = await PaymentAPI.createPayment(paymentData);
+      // Supplement the transaction with payer info
+      const transaction = await PaymentAPI.getFinalizedTransaction(paymentCode, supplementData);
       
-      // Use the response directly as our Transaction
-      const transaction: Transaction = {
-        payment_id: response.payment_id,
-        vendor_address: auth.walletAddress,
-        vendor_name: auth.userName || 'Unknown Vendor',
-        status: response.status || 'Created',
-        price_usd: amount,
-        created_at: Date.now(),
-        payment_bundle: [],
-        
-        // Legacy fields for compatibility
-        paymentId: response.payment_id,
-        merchantId: auth.walletAddress,
-        amount: amount,
-        calculatedBundle: null,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      };
+      // Supplementing assigns the payment to us
+      setActivePaymentState(startPayment(transaction, PaymentStatus.Assigned));
       
-      setCurrentTransaction(transaction);
-      return transaction.payment_id;
+      // Follow status updates
+      startPaymentUpdates(transaction.payment_id, transaction.created_at);
+      
+      return transaction;
     } catch (err) {
-      handleError(err, 'Failed to create transaction');
-      throw err; // Re-throw to propagate the error after handling it
+      let userFriendlyMessage = 'Failed to initiate payment';
+      
+      if (isApiError(err)) {
+        // Handle specific error codes with user-friendly messages
+        switch (err.code) {
+          case 'INSUFFICIENT_FUNDS':
+            userFriendlyMessage = 'Insufficient funds to complete this payment';
+            break;
+          case 'PAYMENT_NOT_FOUND':
+            userFriendlyMessage = 'Payment code not found or expired';
+            break;
+          case 'PAYMENT_ALREADY_COMPLETED':
+            userFriendlyMessage = 'This payment has already been completed';
+            break;
+          case 'PAYMENT_ALREADY_ASSIGNED':
+            userFriendlyMessage = 'This payment is already being processed by another user';
+            break;
+          case 'USER_NOT_FOUND':
+            userFriendlyMessage = 'User account not found';
+            break;
+          case 'SERVER_ERROR':
+            userFriendlyMessage = 'Server error. Please try again later';
+            break;
+          default:
+            userFriendlyMessage = err.message;
+        }
+      } else if (err instanceof Error) {
+        userFriendlyMessage = err.message;
+      }
+      
+      setError(userFriendlyMessage);
+      throw new Error(userFriendlyMessage);
     } finally {
       setIsLoading(false);
     }
   };
 
-  const pollTransactionStatus = (paymentId: string) => {
-    stopPolling();
-    
-    let currentDelay = 1000;
-    const maxDelay = 30000;
-    const backoffMultiplier = 1.5;
-    const maxAttempts = 50;
-    let attemptCount = 0;
-    
-    
-    const pollFunction = async () => {
-      try {
-        attemptCount++;
-        
-        // Call the actual backend API to get payment status
-        const statusResponse = await PaymentAPI.getPaymentStatus(paymentId);
-        
-        // Update the current transaction with the latest data
-        if (statusResponse) {
-          const updatedTransaction = {
-            ...currentTransaction,
-            ...statusResponse,
-            status: statusResponse.status,
-            updatedAt: new Date().toISOString()
-          };
-          
-          setCurrentTransaction(updatedTransaction);
-          
-          const completedStatuses = ['completed', 'success', 'confirmed', 'Completed', 'Success', 'Confirmed'];
-          const failedStatuses = ['failed', 'cancelled', 'expired', 'Failed', 'Cancelled', 'Expired'];
-          const terminalStatuses = [...completedStatuses, ...failedStatuses];
-          
-          if (terminalStatuses.includes(statusResponse.status)) {
-            stopPolling();
-            
-            if (completedStatuses.includes(statusResponse.status)) {
-            } else {
-            }
-            return; // Exit polling
-          }
-          
-          if (currentTransaction && statusResponse.status !== currentTransaction.status) {
-            currentDelay = 1000;
-          } else {
-            // No change, apply exponential backoff
-            currentDelay = Math.min(currentDelay * backoffMultiplier, maxDelay);
-          }
-        }
-        
-        // Stop polling if we've reached max attempts
-        if (attemptCount >= maxAttempts) {
-          stopPolling();
-          return;
-        }
-        
-        // Schedule next poll
-        const timeout = setTimeout(pollFunction, currentDelay);
-        setPollingInterval(timeout as any);
-        
-      } catch (err: any) {
-        const errorMessage = err instanceof Error ? err.message : 'Failed to poll transaction status';
-        setError(errorMessage);
-        
-        // Check if it's a server error (5xx)
-        if (err.response?.status >= 500 && err.response?.status < 600) {
-          // For server errors, increase delay more aggressively
-          currentDelay = Math.min(currentDelay * 3, maxDelay);
-        } else {
-          // For other errors, normal backoff
-          currentDelay = Math.min(currentDelay * 2, maxDelay);
-        }
-        
-        // Stop polling if too many errors or max attempts reached
-        if (attemptCount >= maxAttempts || attemptCount >= 10) { // Stop after 10 attempts for errors
-          stopPolling();
-          
-          setCurrentTransaction((prev) => {
-            if (!prev) return null;
-            return {
-              ...prev,
-              status: 'error',
-              error: 'Unable to get payment status'
-            };
-          });
-          return;
-        }
-        
-        // Schedule retry
-        const timeout = setTimeout(pollFunction, currentDelay);
-        setPollingInterval(timeout as any);
-      }
-    };
-    
-    // Start the first poll immediately
-    pollFunction();
-  };
-
-  const stopPolling = () => {
-    if (pollingInterval) {
-      clearTimeout(pollingInterval);
-      setPollingInterval(null);
+  // PAY FLOW: Complete the payment
+  const completePayment = async (paymentId: string): Promise<boolean> => {
+    if (!auth?.walletAddress) {
+      throw new Error('Wallet address not available');
     }
-  };
-
-  const scanTransaction = async (paymentId: string): Promise<Transaction> => {
+    
     setIsLoading(true);
     setError(null);
     
     try {
-      // Try to fetch payment from real API
-      const payment = await PaymentAPI.getPayment(paymentId);
+      // Call API to complete payment
+      const response = await PaymentAPI.completePayment(paymentId, {
+        customer_address: auth.walletAddress
+      });
       
-      // Use API response directly as our Transaction
-      const transaction: Transaction = {
-        // New fields from backend
-        payment_id: payment.payment_id,
-        vendor_address: payment.vendor_address,
-        vendor_name: payment.vendor_name || 'Unknown Vendor',
-        status: payment.status,
-        price_usd: payment.price_usd,
-        created_at: payment.created_at || Date.now(),
-        payment_bundle: payment.payment_bundle || [],
-        unsigned_transaction: payment.unsigned_transaction,
-        
-        // Legacy fields for compatibility
-        paymentId: payment.payment_id,
-        merchantId: payment.vendor_address,
-        amount: payment.price_usd,
-        calculatedBundle: null,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      };
+      // Update active payment status
+      transitionActive('payment', { payment_id: paymentId, status: PaymentStatus.Completed });
       
-      setCurrentTransaction(transaction);
-      return transaction;
+      // Refresh balances after payment
+      await refreshBalances();
+      
+      // Stop following updates
+      stopPaymentUpdates();
+      
+      // Remove from pending
+      removePendingTransaction(paymentId);
+      
+      return true;
     } catch (err) {
-      handleError(err, 'Failed to scan transaction');
-      throw err; // Re-throw to propagate the error after handling it
+      const errorMessage = err instanceof Error ? err.message : 'Failed to complete payment';
+      setError(errorMessage);
+      throw new Error(errorMessage);
     } finally {
       setIsLoading(false);
     }
   };
 
-  const supplementTransaction = async (paymentId: string): Promise<Transaction> => {
+  // RECEIVE FLOW: Create payment request, optionally itemized
+  const createRequest = async (amount: number, invoice?: PaymentInvoice, label?: string): Promise<string> => {
     if (!auth?.walletAddress) {
-      throw new Error('User wallet address not available');
+      throw new Error('Vendor wallet address not available');
     }
     
     setIsLoading(true);
     setError(null);
     
     try {
-      const payerBalances = balances.map(token => {
-        const token_key = token.tokenKey || `${token.tokenSymbol},1`;
-        
-        return {
-          token_key, // Using the stored token key from the TokenBalance
-          symbol: token.tokenSymbol,
-          name: token.tokenName,
-          balance: token.amount,
-          average_valuation: token.valueUSD / token.amount,
-          token_image_url: token.logoUrl || null
-        };
-      });
+      const paymentData = {
+        vendor_address: auth.walletAddress,
+        vendor_name: auth.userName || 'Unknown Vendor',
+        price_usd: amount,
+        vendor_valuations: auth.valuations,
+        is_verified: auth.isVerified || false,
+        ...(label?.trim() && { label: label.trim() }),
+        ...invoice
+      };
       
-      const transaction = await PaymentAPI.getFinalizedTransaction(paymentId, { 
-        payer_address: auth.walletAddress,
-        payer_balances: payerBalances
+      const response = await PaymentAPI.createPayment(paymentData);
+      
+      const transaction = startPayment({
+        payment_id: response.payment_id,
+        vendor_address: auth.walletAddress,
+        vendor_name: auth.userName || 'Unknown Vendor',
+        status: response.status || PaymentStatus.Created,
+        price_usd: amount,
+        created_at: Date.now(),
+        expires_at: response.expires_at,
+        payment_bundle: [],
+        ...(label?.trim() && { label: label.trim() }),
+        ...invoice,
       });
       
-      setCurrentTransaction(transaction);
-      return transaction;
+      putRequest(transaction);
+      setSelectedRequestId(transaction.payment_id);
+      
+      // Add to pending transactions
+      updateTransaction(transaction);
+      
+      // Follow status updates
+      startRequestUpdates(transaction.payment_id, transaction.created_at);
+      
+      return transaction.payment_id;
     } catch (err) {
-      handleError(err, 'Failed to supplement transaction');
-      throw err; // Re-throw to propagate the error after handling it
+      const errorMessage = err instanceof Error ? err.message : 'Failed to create payment request';
+      setError(errorMessage);
+      throw new Error(errorMessage);
     } finally {
       setIsLoading(false);
     }
   };
 
-  // User: Complete transaction
-  const completeTransaction = async (paymentId: string): Promise<boolean> => {
+  // RECEIVE FLOW: Delete/Cancel payment request
+  const deleteRequest = async (paymentId: string): Promise<boolean> => {
     if (!auth?.walletAddress) {
-      throw new Error('User wallet address not available');
+      throw new Error('Vendor wallet address not available');
     }
     
     setIsLoading(true);
     setError(null);
     
     try {
-      // Call the API to complete the payment
-      await PaymentAPI.completePayment(paymentId, {
-        customer_address: auth.walletAddress
-      });
+      console.log(`Deleting payment ${paymentId}...`);
+      await PaymentAPI.deletePayment(paymentId, auth.walletAddress);
+      console.log(`Payment ${paymentId} deleted from backend`);
       
-      setCurrentTransaction(prev => {
-        if (!prev) return null;
-        return {
-          ...prev,
-          status: 'Completed',
-        };
-      });
+      // Stop following updates and close the request
+      clearRequest(paymentId);
+      
+      // Remove from pending transactions
+      removePendingTransaction(paymentId);
+      console.log(`Payment ${paymentId} removed from pending transactions`);
       
       return true;
     } catch (err) {
-      handleError(err, 'Failed to complete transaction');
-      return false;
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete payment';
+      setError(errorMessage);
+      console.error('Failed to delete payment:', err);
+      throw new Error(errorMessage);
     } finally {
       setIsLoading(false);
     }
   };
 
+  // RECEIVE FLOW: Follow an unpaid request again, e.g. one made before a restart
+  const resumeRequest = (transaction: Transaction) => {
+    if (!openRequestsRef.current.has(transaction.payment_id)) {
+      putRequest(startPayment(transaction));
+      startRequestUpdates(transaction.payment_id, transaction.created_at);
+    }
+    setSelectedRequestId(transaction.payment_id);
+  };
+
+  const selectRequest = (paymentId: string | null) => {
+    setSelectedRequestId(paymentId && openRequestsRef.current.has(paymentId) ? paymentId : null);
+  };
+
+  // Clear methods
+  const clearActivePayment = () => {
+    stopPaymentUpdates();
+    setActivePaymentState(null);
+  };
+
+  const clearActiveRequest = () => {
+    if (selectedRequestId) {
+      clearRequest(selectedRequestId);
+    }
+  };
 
   return (
     <TransactionContext.Provider
       value={{
-        createTransaction,
-        pollTransactionStatus,
-        stopPolling,
-        scanTransaction,
-        supplementTransaction,
-        completeTransaction,
-        currentTransaction,
+        activePayment,
+        activeRequest,
+        openRequests,
+        initiatePayment,
+        completePayment,
+        createRequest,
+        resumeRequest,
+        selectRequest,
+        deleteRequest,
+        clearActivePayment,
+        clearActiveRequest,
+        clearRequest,
         isLoading,
-        clearTransaction,
         error,
       }}
     >
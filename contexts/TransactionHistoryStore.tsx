@@ -1,20 +1,30 @@
-import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { PaymentAPI } from '../services/api';
+import { isVoidedStatus } from '../services/paymentStateMachine';
 import { useAuth } from './AuthContext';
-import { Transaction } from './TransactionContext';
+import type { Transaction } from '@/types/payment';
+import type { Activity } from '@/types/api';
+import { DEFAULT_HISTORY_FILTERS } from '@/utils/activityFilters';
+import type { HistoryFilters } from '@/utils/activityFilters';
 
 // Storage keys are now functions that include wallet address
 const getStorageKeys = (walletAddress: string) => ({
   TRANSACTION_HISTORY: `@transactions/history/${walletAddress}`,
+  ACTIVITY_HISTORY: `@transactions/activities/${walletAddress}`,
   HISTORY_CURSOR: `@transactions/history_cursor/${walletAddress}`,
+  HISTORY_FILTERS: `@transactions/history_filters/${walletAddress}`,
 });
 
 const MAX_CACHED_TRANSACTIONS = 100;
+// Activities are small and the explorer searches them offline, so keep more
+const MAX_CACHED_ACTIVITIES = 500;
 const PAGE_SIZE = 50;
 
 interface TransactionHistoryStoreContextType {
   transactions: Transaction[];
+  // Payments and deposits as shown in the history explorer
+  activities: Activity[];
   hasMore: boolean;
   isLoading: boolean;
   error: string | null;
@@ -23,10 +33,15 @@ interface TransactionHistoryStoreContextType {
   loadMoreTransactions: () => Promise<void>;
   refreshHistory: () => Promise<void>;
   addTransaction: (transaction: Transaction) => void;
+  
+  // Explorer filters, kept per wallet so they survive navigation and restarts
+  historyFilters: HistoryFilters;
+  setHistoryFilters: (filters: HistoryFilters) => void;
 }
 
 export const TransactionHistoryStoreContext = createContext<TransactionHistoryStoreContextType>({
   transactions: [],
+  activities: [],
   hasMore: true,
   isLoading: false,
   error: null,
@@ -34,16 +49,22 @@ export const TransactionHistoryStoreContext = createContext<TransactionHistorySt
   loadMoreTransactions: async () => {},
   refreshHistory: async () => {},
   addTransaction: () => {},
+  historyFilters: DEFAULT_HISTORY_FILTERS,
+  setHistoryFilters: () => {},
 });
 
 export const TransactionHistoryStoreProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const auth = useAuth();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [activities, setActivities] = useState<Activity[]>([]);
+  const [historyFilters, setHistoryFiltersState] = useState<HistoryFilters>(DEFAULT_HISTORY_FILTERS);
   const [hasMore, setHasMore] = useState(true);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [cursor, setCursor] = useState<string | null>(null);
   const [isInitialized, setIsInitialized] = useState(false);
+  const walletAddressRef = useRef<string | null>(auth?.walletAddress ?? null);
+  walletAddressRef.current = auth?.walletAddress ?? null;
 
   // Load cached history on mount and when wallet changes
   useEffect(() => {
@@ -57,14 +78,20 @@ export const TransactionHistoryStoreProvider: React.FC<{ children: React.ReactNo
   useEffect(() => {
     setIsInitialized(false);
     setTransactions([]);
+    setActivities([]);
+    setHistoryFiltersState(DEFAULT_HISTORY_FILTERS);
     setCursor(null);
     setHasMore(true);
+    setError(null);
+    setIsLoading(false);
   }, [auth?.walletAddress]);
 
   // Clear transaction history when user logs out
   useEffect(() => {
     if (auth?.status === 'unauthenticated') {
       setTransactions([]);
+      setActivities([]);
+      setHistoryFiltersState(DEFAULT_HISTORY_FILTERS);
       setCursor(null);
       setHasMore(true);
       setError(null);
@@ -82,17 +109,17 @@ export const TransactionHistoryStoreProvider: React.FC<{ children: React.ReactNo
     
     try {
       const storageKeys = getStorageKeys(auth.walletAddress);
-      const [cachedHistory, cachedCursor] = await Promise.all([
+      const [cachedHistory, cachedActivities, cachedCursor, cachedFilters] = await Promise.all([
         AsyncStorage.getItem(storageKeys.TRANSACTION_HISTORY),
+        AsyncStorage.getItem(storageKeys.ACTIVITY_HISTORY),
         AsyncStorage.getItem(storageKeys.HISTORY_CURSOR),
+        AsyncStorage.getItem(storageKeys.HISTORY_FILTERS),
       ]);
 
       if (cachedHistory) {
         const parsed = JSON.parse(cachedHistory);
         // Filter out cancelled and expired transactions from cache
-        const filtered = parsed.filter((tx: Transaction) => 
-          !['cancelled', 'Cancelled', 'expired', 'Expired'].includes(tx.status)
-        );
+        const filtered = parsed.filter((tx: Transaction) => !isVoidedStatus(tx.status));
         console.log(`Loaded ${filtered.length} cached history transactions for wallet ${auth.walletAddress.slice(0, 8)}...`);
         setTransactions(filtered);
       } else {
@@ -100,9 +127,17 @@ export const TransactionHistoryStoreProvider: React.FC<{ children: React.ReactNo
         setTransactions([]);
       }
       
+      if (cachedActivities) {
+        setActivities(JSON.parse(cachedActivities));
+      }
+      
       if (cachedCursor) {
         setCursor(cachedCursor);
       }
+      
+      if (cachedFilters) {
+        setHistoryFiltersState({ ...DEFAULT_HISTORY_FILTERS, ...JSON.parse(cachedFilters) });
+      }
     } catch (error) {
       console.error('Failed to load cached history:', error);
       setTransactions([]);
@@ -110,7 +145,7 @@ export const TransactionHistoryStoreProvider: React.FC<{ children: React.ReactNo
   };
 
   // Save to cache
-  const saveToCache = async (txns: Transaction[], newCursor: string | null) => {
+  const saveToCache = async (txns: Transaction[], newCursor: string | null, newActivities?: Activity[]) => {
     if (!auth?.walletAddress) {
       console.log('No wallet address, skipping history cache save');
       return;
@@ -125,6 +160,9 @@ export const TransactionHistoryStoreProvider: React.FC<{ children: React.ReactNo
       
       await Promise.all([
         AsyncStorage.setItem(storageKeys.TRANSACTION_HISTORY, JSON.stringify(pruned)),
+        newActivities
+          ? AsyncStorage.setItem(storageKeys.ACTIVITY_HISTORY, JSON.stringify(newActivities.slice(0, MAX_CACHED_ACTIVITIES)))
+          : Promise.resolve(),
         newCursor 
           ? AsyncStorage.setItem(storageKeys.HISTORY_CURSOR, newCursor)
           : AsyncStorage.removeItem(storageKeys.HISTORY_CURSOR),
@@ -142,21 +180,27 @@ export const TransactionHistoryStoreProvider: React.FC<{ children: React.ReactNo
     setError(null);
     
     try {
-      const response = await PaymentAPI.getTransactionHistory(auth.walletAddress);
+      const requestedAddress = auth.walletAddress;
+      const response = await PaymentAPI.getTransactionHistory(requestedAddress);
+      
+      // The user switched wallets while this request was in flight
+      if (walletAddressRef.current !== requestedAddress) {
+        return;
+      }
       
       const allTransactions = response.transactions || [];
       // Filter out cancelled and expired transactions completely
-      const filteredTransactions = allTransactions.filter(tx => 
-        !['cancelled', 'Cancelled', 'expired', 'Expired'].includes(tx.status)
-      );
+      const filteredTransactions = allTransactions.filter(tx => !isVoidedStatus(tx.status));
+      const newActivities = response.activities || [];
       const newCursor = response.cursor || null;
       
       setTransactions(filteredTransactions);
+      setActivities(newActivities);
       setCursor(newCursor);
       setHasMore(!!newCursor);
       
       // Save to cache
-      await saveToCache(filteredTransactions, newCursor);
+      await saveToCache(filteredTransactions, newCursor, newActivities);
       
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to load transaction history';
@@ -175,28 +219,34 @@ export const TransactionHistoryStoreProvider: React.FC<{ children: React.ReactNo
     setError(null);
     
     try {
+      const requestedAddress = auth.walletAddress;
       const response = await PaymentAPI.getTransactionHistory({
-        wallet_address: auth.walletAddress,
+        wallet_address: requestedAddress,
         limit: PAGE_SIZE,
         cursor: cursor,
       });
       
+      // The user switched wallets while this request was in flight
+      if (walletAddressRef.current !== requestedAddress) {
+        return;
+      }
+      
       const allTransactions = response.transactions || [];
       // Filter out cancelled and expired transactions completely
-      const filteredTransactions = allTransactions.filter(tx => 
-        !['cancelled', 'Cancelled', 'expired', 'Expired'].includes(tx.status)
-      );
+      const filteredTransactions = allTransactions.filter(tx => !isVoidedStatus(tx.status));
       const newCursor = response.cursor || null;
       
       // Append to existing transactions
       const combined = [...transactions, ...filteredTransactions];
+      const combinedActivities = [...activities, ...(response.activities || [])];
       
       setTransactions(combined);
+      setActivities(combinedActivities);
       setCursor(newCursor);
       setHasMore(!!newCursor);
       
       // Save to cache
-      await saveToCache(combined, newCursor);
+      await saveToCache(combined, newCursor, combinedActivities);
       
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to load more transactions';
@@ -205,7 +255,7 @@ export const TransactionHistoryStoreProvider: React.FC<{ children: React.ReactNo
     } finally {
       setIsLoading(false);
     }
-  }, [auth?.walletAddress, cursor, isLoading, hasMore, transactions]);
+  }, [auth?.walletAddress, cursor, isLoading, hasMore, transactions, activities]);
 
   // Refresh history (pull to refresh)
   const refreshHistory = useCallback(async () => {
@@ -236,10 +286,19 @@ export const TransactionHistoryStoreProvider: React.FC<{ children: React.ReactNo
     });
   }, [cursor]);
 
+  const setHistoryFilters = useCallback((filters: HistoryFilters) => {
+    setHistoryFiltersState(filters);
+    if (!auth?.walletAddress) return;
+    
+    AsyncStorage.setItem(getStorageKeys(auth.walletAddress).HISTORY_FILTERS, JSON.stringify(filters))
+      .catch(error => console.error('Failed to save history filters:', error));
+  }, [auth?.walletAddress]);
+
   // Clear cache when user changes
   useEffect(() => {
     if (!auth?.walletAddress && isInitialized) {
       setTransactions([]);
+      setActivities([]);
       setCursor(null);
       setHasMore(true);
       setIsInitialized(false);
@@ -256,6 +315,7 @@ export const TransactionHistoryStoreProvider: React.FC<{ children: React.ReactNo
     <TransactionHistoryStoreContext.Provider
       value={{
         transactions,
+        activities,
         hasMore,
         isLoading,
         error,
@@ -263,6 +323,8 @@ export const TransactionHistoryStoreProvider: React.FC<{ children: React.ReactNo
         loadMoreTransactions,
         refreshHistory,
         addTransaction,
+        historyFilters,
+        setHistoryFilters,
       }}
     >
       {children}
@@ -0,0 +1,161 @@
+import type { PaymentDetails, TokenPayment, WalletBalancesResponse } from '@/types/api';
+import { MockBackend } from '../mockBackend';
+import type { MockRequest } from '../mockBackend';
+
+const VENDOR = 'Vendor1111111111111111111111111111111111111';
+const CUSTOMER = 'Customer111111111111111111111111111111111';
+const USD = 'USD1111111111111111111111111111111111111111,0';
+const BKRY = 'BKRY3333333333333333333333333333333333333333,0';
+
+// Signatures are the runtime's job, so every signature passes and payloads are compared as sent
+const createBackend = () => new MockBackend(
+  async () => true,
+  payload => ({ parsed: payload, bytes: new Uint8Array() })
+);
+
+let backend: MockBackend;
+const tokens: Record<string, string> = {};
+
+const call = async (walletAddress: string | null, method: string, path: string, body?: unknown) => {
+  const request: MockRequest = { method, path, body };
+  if (walletAddress) {
+    request.headers = { authorization: `Bearer ${tokens[walletAddress]}` };
+  }
+  return backend.handle(request);
+};
+
+const ok = async <T,>(walletAddress: string | null, method: string, path: string, body?: unknown): Promise<T> => {
+  const response = await call(walletAddress, method, path, body);
+  if (response.status !== 200) {
+    throw new Error(`${method} ${path} failed: ${JSON.stringify(response.body)}`);
+  }
+  return response.body as T;
+};
+
+const signIn = async (walletAddress: string, username: string, userType: 'vendor' | 'customer') => {
+  const { nonce } = await ok<{ nonce: string }>(null, 'POST', '/users/nonce', { walletAddress });
+  const { token } = await ok<{ token: string }>(null, 'POST', '/users/verify-wallet', { walletAddress, nonce, signature: 'sig' });
+  tokens[walletAddress] = token;
+  await ok(walletAddress, 'POST', '/api/users', { wallet_address: walletAddress, username, user_type: userType });
+};
+
+// Sign exactly the transaction the backend issued
+const sign = (walletAddress: string, payment: PaymentDetails) =>
+  ok<unknown>(walletAddress, 'POST', `/api/payments/${payment.payment_id}/sign`, {
+    signed_transaction: JSON.stringify([{
+      payload: JSON.parse(payment.unsigned_transaction!)[0],
+      signature: { Ed25519: { pubkey: walletAddress, signature: 'sig' } },
+    }]),
+  });
+
+const balanceOf = async (walletAddress: string, tokenKey: string) => {
+  const balances = await ok<WalletBalancesResponse>(walletAddress, 'GET', `/wallet/${walletAddress}/balances`);
+  return balances[tokenKey]?.balance || 0;
+};
+
+const amountOf = (bundle: TokenPayment[], tokenKey: string) =>
+  bundle.find(item => item.token_key === tokenKey)?.amount_to_pay || 0;
+
+// A completed $60 sale, paid with all $50 of the customer's USD and $10 of bakery tokens
+const completedSale = async () => {
+  const { payment_id } = await ok<{ payment_id: string }>(VENDOR, 'POST', '/api/payments', {
+    vendor_address: VENDOR,
+    vendor_name: 'Corner Bakery',
+    price_usd: 60,
+  });
+  const payment = await ok<PaymentDetails>(CUSTOMER, 'POST', `/api/payments/${payment_id}/supplement`, {
+    payer_address: CUSTOMER,
+  });
+  await sign(CUSTOMER, payment);
+  return payment;
+};
+
+const refund = (paymentId: string, amountUsd: number, method: 'proportional' | 'usd_equivalent') =>
+  call(VENDOR, 'POST', `/api/payments/${paymentId}/refund`, { vendor_address: VENDOR, amount_usd: amountUsd, method });
+
+beforeEach(async () => {
+  backend = createBackend();
+  await signIn(VENDOR, 'bakery', 'vendor');
+  await signIn(CUSTOMER, 'sam', 'customer');
+});
+
+describe('refunds', () => {
+  it('returns the tokens the customer paid with, scaled to the refund', async () => {
+    const sale = await completedSale();
+    expect(amountOf(sale.payment_bundle, USD)).toBe(50);
+    expect(amountOf(sale.payment_bundle, BKRY)).toBe(8.34);
+
+    const response = await refund(sale.payment_id, 30, 'proportional');
+    expect(response.status).toBe(200);
+    const prepared = response.body as PaymentDetails;
+    expect(prepared).toEqual(expect.objectContaining({ kind: 'refund', refund_of: sale.payment_id, price_usd: 30 }));
+    expect(prepared.payment_bundle).toEqual([
+      { token_key: USD, symbol: 'USD', amount_to_pay: 25, decimals: 2 },
+      { token_key: BKRY, symbol: 'BKRY', amount_to_pay: 4.17, decimals: 2 },
+    ]);
+  });
+
+  it('returns exactly what is left of each token with the last refund', async () => {
+    const sale = await completedSale();
+    const first = (await refund(sale.payment_id, 20, 'proportional')).body as PaymentDetails;
+    await sign(VENDOR, first);
+    expect(amountOf(first.payment_bundle, USD)).toBe(16.66);
+    expect(amountOf(first.payment_bundle, BKRY)).toBe(2.78);
+
+    // The first refund rounded each token down, so the last one returns the unit left over
+    const last = (await refund(sale.payment_id, 40, 'proportional')).body as PaymentDetails;
+    expect(amountOf(last.payment_bundle, USD)).toBe(33.34);
+    expect(amountOf(last.payment_bundle, BKRY)).toBe(5.56);
+  });
+
+  it('pays a USD equivalent in the tokens the vendor holds', async () => {
+    const sale = await completedSale();
+    const prepared = (await refund(sale.payment_id, 12.5, 'usd_equivalent')).body as PaymentDetails;
+
+    // USD goes first, so the refund is all dollars even though the sale was partly paid in bakery tokens
+    expect(prepared.payment_bundle).toEqual([{ token_key: USD, symbol: 'USD', amount_to_pay: 12.5, decimals: 2 }]);
+
+    const vendorUsd = await balanceOf(VENDOR, USD);
+    await sign(VENDOR, prepared);
+    expect(await balanceOf(VENDOR, USD)).toBe(vendorUsd - 1250);
+    expect(await balanceOf(CUSTOMER, USD)).toBe(1250);
+  });
+
+  it('caps refunds at what is left of the payment, counting refunds waiting to be signed', async () => {
+    const sale = await completedSale();
+    await sign(VENDOR, (await refund(sale.payment_id, 25, 'proportional')).body as PaymentDetails);
+    const pending = (await refund(sale.payment_id, 15, 'usd_equivalent')).body as PaymentDetails;
+
+    const tooMuch = await refund(sale.payment_id, 20.01, 'proportional');
+    expect(tooMuch.status).toBe(400);
+    expect(tooMuch.body).toEqual(expect.objectContaining({ message: 'Only $20.00 of this payment is left to refund' }));
+
+    // Cancelling the unsigned refund releases its amount
+    await ok(VENDOR, 'DELETE', `/api/transfers/${pending.payment_id}`, { from_wallet: VENDOR });
+    expect((await refund(sale.payment_id, 35, 'usd_equivalent')).status).toBe(200);
+  });
+
+  it('reports completed refunds on the original payment', async () => {
+    const sale = await completedSale();
+    await sign(VENDOR, (await refund(sale.payment_id, 10.1, 'usd_equivalent')).body as PaymentDetails);
+    await refund(sale.payment_id, 5, 'usd_equivalent');
+
+    const { activities } = await ok<{ activities: Array<{ payment_id: string; refunded_usd?: number }> }>(
+      VENDOR, 'GET', `/api/users/${VENDOR}/transactions`
+    );
+    expect(activities.find(activity => activity.payment_id === sale.payment_id)?.refunded_usd).toBe(10.1);
+  });
+
+  it('only lets the vendor refund a completed payment', async () => {
+    const sale = await completedSale();
+    const byCustomer = await call(CUSTOMER, 'POST', `/api/payments/${sale.payment_id}/refund`, {
+      vendor_address: VENDOR,
+      amount_usd: 1,
+      method: 'proportional',
+    });
+    expect(byCustomer.status).toBe(403);
+
+    const { payment_id } = await ok<{ payment_id: string }>(VENDOR, 'POST', '/api/payments', { vendor_address: VENDOR, price_usd: 5 });
+    expect((await refund(payment_id, 1, 'proportional')).status).toBe(400);
+  });
+});
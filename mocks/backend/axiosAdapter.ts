@@ -0,0 +1,75 @@
+import { AxiosError, AxiosHeaders } from 'axios';
+import type { AxiosAdapter, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import type { MockBackend, MockRequest } from './mockBackend';
+
+// Small delay so loading states and polling behave as they do against a server
+const RESPONSE_DELAY_MS = 150;
+
+const parseBody = (data: unknown) => {
+  if (typeof data !== 'string') {
+    return data;
+  }
+  try {
+    return JSON.parse(data);
+  } catch (error) {
+    return data;
+  }
+};
+
+// React Native's URL doesn't implement pathname or searchParams, so split the URL by hand
+const toMockRequest = (config: InternalAxiosRequestConfig): MockRequest => {
+  const [path, search = ''] = (config.url || '/').replace(/^[a-z]+:\/\/[^/]+/i, '').split('?');
+
+  const query: Record<string, string | undefined> = {};
+  for (const pair of search.split('&').filter(Boolean)) {
+    const [key, value = ''] = pair.split('=');
+    query[decodeURIComponent(key)] = decodeURIComponent(value);
+  }
+  for (const [key, value] of Object.entries(config.params || {})) {
+    if (value !== undefined && value !== null) {
+      query[key] = String(value);
+    }
+  }
+
+  const headers: Record<string, string | undefined> = {};
+  for (const [key, value] of Object.entries(AxiosHeaders.from(config.headers).toJSON())) {
+    headers[key.toLowerCase()] = value === undefined || value === null ? undefined : String(value);
+  }
+
+  return {
+    method: config.method || 'get',
+    path: path || '/',
+    query,
+    headers,
+    body: parseBody(config.data),
+  };
+};
+
+/**
+ * Axios adapter that answers requests from an in-process MockBackend
+ * Error statuses are rejected as AxiosErrors, just like a real server response
+ */
+export const createMockAdapter = (backend: MockBackend): AxiosAdapter => async (config) => {
+  const { status, body } = await backend.handle(toMockRequest(config));
+  await new Promise(resolve => setTimeout(resolve, RESPONSE_DELAY_MS));
+
+  const response: AxiosResponse = {
+    data: body,
+    status,
+    statusText: status < 400 ? 'OK' : 'Error',
+    headers: {},
+    config,
+    request: {},
+  };
+
+  if (status >= 400) {
+    throw new AxiosError(
+      `Request failed with status code ${status}`,
+      status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      response.request,
+      response
+    );
+  }
+  return response;
+};
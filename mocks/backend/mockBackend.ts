@@ -0,0 +1,880 @@
+import type {
+  PaymentDetails,
+  TokenPayment,
+  TransactionActivity,
+  WalletBalancesResponse,
+  TokenValuation,
+} from '../../types/api';
+import {
+  MOCK_PARTNERED_VENDORS,
+  MOCK_TOKENS,
+  PAYMENT_TTL_SECONDS,
+  STARTING_BALANCES,
+} from './mockData';
+import { parseTokenAmount, fromBaseUnits, tokenAmountToNumber } from '../../utils/tokenAmount';
+import { invoiceMatchesPrice } from '../../utils/invoice';
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  query?: Record<string, string | undefined>;
+  headers?: Record<string, string | undefined>;
+  body?: any;
+}
+
+export interface MockResponse {
+  status: number;
+  body: unknown;
+}
+
+/**
+ * Checks an ed25519 signature, supplied by the runtime so the backend runs in the app or in Node
+ */
+export type SignatureVerifier = (
+  message: Uint8Array,
+  signatureBase58: string,
+  publicKeyBase58: string
+) => Promise<boolean>;
+
+/**
+ * Parses a debit allowance exactly as it's signed and serializes the bytes the signature covers,
+ * supplied by the runtime along with the signature check so the backend doesn't need the signing library
+ */
+export type DebitAllowanceReader = (payload: unknown) => { parsed: unknown; bytes: Uint8Array };
+
+interface MockUser {
+  user_id: string;
+  wallet_address: string;
+  username: string;
+  user_type: 'vendor' | 'customer';
+  is_verified: boolean;
+  vendor_description?: string;
+  vendor_google_maps_link?: string;
+  vendor_website_link?: string;
+  created_at: string;
+}
+
+interface MockPayment extends PaymentDetails {
+  completed_at?: number;
+}
+
+type RouteHandler = (request: MockRequest, params: string[]) => Promise<unknown> | unknown;
+
+class MockHttpError extends Error {
+  status: number;
+  code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+const now = () => Math.floor(Date.now() / 1000);
+
+const randomId = (length: number) => {
+  const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  let id = '';
+  for (let i = 0; i < length; i++) {
+    id += alphabet[Math.floor(Math.random() * alphabet.length)];
+  }
+  return id;
+};
+
+const accountAddress = (account: string) => account.split(',')[0].trim();
+
+// Stable JSON for comparing parsed transactions, which may hold bigints
+const canonical = (value: unknown) =>
+  JSON.stringify(value, (_key, v) => (typeof v === 'bigint' ? v.toString() : v));
+
+// Wallet addresses are base58 ed25519 public keys
+const WALLET_ADDRESS_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+// Precision of a token from its metadata; token keys are "address,shard"
+const decimalsOf = (tokenKey: string) => {
+  const token = MOCK_TOKENS.find(candidate => candidate.token_key === tokenKey);
+  if (!token) {
+    throw new MockHttpError(400, 'VALIDATION_ERROR', `Unknown token ${tokenKey}`);
+  }
+  return token.decimals;
+};
+
+// Signing in must work whatever token the app still holds
+const SIGN_IN_PATHS = new Set(['/users/nonce', '/users/verify-wallet']);
+
+const isOpen = (payment: MockPayment) => payment.status === 'Created' || payment.status === 'Assigned';
+
+/**
+ * In-memory stand-in for the Rust backend
+ *
+ * Implements the routes the app calls with the same request and response
+ * shapes. Payments move Created → Assigned → Completed, or to Expired once
+ * their time runs out, and sign-in challenges and signed transactions are
+ * checked against the wallet's ed25519 key. State lives only as long as the
+ * instance.
+ */
+class MockBackend {
+  private users = new Map<string, MockUser>();
+  private balances = new Map<string, Map<string, number>>();
+  private valuations = new Map<string, Map<string, number>>();
+  private payments = new Map<string, MockPayment>();
+  private nonces = new Map<string, string>();
+  private sessions = new Map<string, string>();
+  private transactionNonces = new Map<string, number>();
+  // Results of signed payments, replayed for retries with the same Idempotency-Key
+  private idempotentResults = new Map<string, unknown>();
+  private routes: Array<{ method: string; pattern: RegExp; handler: RouteHandler }> = [];
+
+  constructor(private verifySignature: SignatureVerifier, private readDebitAllowance: DebitAllowanceReader) {
+    // Sessions
+    this.route('POST', /^\/users\/nonce$/, this.createNonce);
+    this.route('POST', /^\/users\/verify-wallet$/, this.verifyWallet);
+
+    // Users
+    this.route('POST', /^\/api\/users$/, this.registerUser);
+    this.route('GET', /^\/api\/users\/([^/]+)$/, this.getUser);
+    this.route('GET', /^\/api\/users\/([^/]+)\/transactions$/, this.getTransactionHistory);
+
+    // Payments
+    this.route('POST', /^\/api\/payments$/, this.createPayment);
+    this.route('GET', /^\/api\/payments\/([^/]+)$/, this.getPayment);
+    this.route('GET', /^\/api\/payments\/([^/]+)\/status$/, this.getPayment);
+    this.route('POST', /^\/api\/payments\/([^/]+)\/supplement$/, this.supplementPayment);
+    this.route('POST', /^\/api\/payments\/([^/]+)\/sign$/, this.signPayment);
+    this.route('POST', /^\/api\/payments\/([^/]+)\/complete$/, this.completePayment);
+    this.route('POST', /^\/api\/payments\/([^/]+)\/refund$/, this.refundPayment);
+    this.route('DELETE', /^\/api\/payments\/([^/]+)$/, this.deletePayment);
+
+    // Transfers, signed through the payment routes once created
+    this.route('POST', /^\/api\/transfers$/, this.createTransfer);
+    this.route('DELETE', /^\/api\/transfers\/([^/]+)$/, this.cancelTransfer);
+    this.route('POST', /^\/api\/transactions\/batch-status$/, this.batchStatus);
+
+    // Wallets
+    this.route('GET', /^\/wallet\/([^/]+)\/balances$/, this.getBalances);
+    this.route('GET', /^\/wallet\/([^/]+)\/valuations$/, this.getValuations);
+    this.route('POST', /^\/wallet\/([^/]+)\/valuations$/, this.updateValuation);
+
+    // Vendors
+    this.route('GET', /^\/vendors\/partnered$/, () => MOCK_PARTNERED_VENDORS);
+  }
+
+  /**
+   * Handle one request
+   * Errors use the backend's `{ code, message }` body
+   */
+  async handle(request: MockRequest): Promise<MockResponse> {
+    const method = request.method.toUpperCase();
+    const path = request.path.split('?')[0].replace(/\/+$/, '') || '/';
+
+    try {
+      for (const route of this.routes) {
+        const match = route.method === method ? route.pattern.exec(path) : null;
+        if (match) {
+          if (!SIGN_IN_PATHS.has(path)) {
+            this.checkSession(request);
+          }
+          const body = await route.handler.call(this, request, match.slice(1).map(decodeURIComponent));
+          return { status: 200, body };
+        }
+      }
+      throw new MockHttpError(404, 'NOT_FOUND', `No route for ${method} ${path}`);
+    } catch (error) {
+      if (error instanceof MockHttpError) {
+        return { status: error.status, body: { code: error.code, message: error.message } };
+      }
+      const message = error instanceof Error ? error.message : 'Internal error';
+      return { status: 500, body: { code: 'INTERNAL_ERROR', message } };
+    }
+  }
+
+  private route(method: string, pattern: RegExp, handler: RouteHandler) {
+    this.routes.push({ method, pattern, handler });
+  }
+
+  // ——— Sessions ———
+
+  // A token the mock doesn't know about has expired, so the app signs in again
+  private checkSession(request: MockRequest) {
+    const token = this.bearerToken(request);
+    if (token && !this.sessions.has(token)) {
+      throw new MockHttpError(401, 'UNAUTHORIZED', 'Session expired');
+    }
+  }
+
+  private bearerToken(request: MockRequest): string | null {
+    const header = request.headers?.authorization || request.headers?.Authorization;
+    return header?.startsWith('Bearer ') ? header.slice(7) : null;
+  }
+
+  private sessionAddress(request: MockRequest): string | null {
+    const token = this.bearerToken(request);
+    return token ? this.sessions.get(token) || null : null;
+  }
+
+  private createNonce(request: MockRequest) {
+    const walletAddress = request.body?.walletAddress;
+    if (!walletAddress) {
+      throw new MockHttpError(400, 'VALIDATION_ERROR', 'walletAddress is required');
+    }
+
+    const nonce = randomId(24);
+    this.nonces.set(walletAddress, nonce);
+    return { nonce };
+  }
+
+  private async verifyWallet(request: MockRequest) {
+    const { walletAddress, signature, nonce } = request.body || {};
+    if (!walletAddress || !signature || !nonce || this.nonces.get(walletAddress) !== nonce) {
+      throw new MockHttpError(401, 'UNAUTHORIZED', 'Unknown or expired sign-in challenge');
+    }
+    this.nonces.delete(walletAddress);
+
+    // Same text the app builds in sessionService.buildSignInMessage
+    const message = new TextEncoder().encode(`index-wallet-login:${walletAddress}:${nonce}`);
+    if (!(await this.safeVerify(message, signature, walletAddress))) {
+      throw new MockHttpError(401, 'UNAUTHORIZED', 'Invalid signature');
+    }
+
+    const token = randomId(40);
+    this.sessions.set(token, walletAddress);
+    return { token, expires_at: now() + 24 * 60 * 60 };
+  }
+
+  private async safeVerify(message: Uint8Array, signature: string, publicKey: string) {
+    try {
+      return await this.verifySignature(message, signature, publicKey);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // ——— Users ———
+
+  private registerUser(request: MockRequest) {
+    const body = request.body || {};
+    if (!body.wallet_address || !body.username) {
+      throw new MockHttpError(400, 'VALIDATION_ERROR', 'wallet_address and username are required');
+    }
+
+    const existing = this.users.get(body.wallet_address);
+    const user: MockUser = {
+      user_id: existing?.user_id || `user-${randomId(12)}`,
+      wallet_address: body.wallet_address,
+      username: body.username,
+      user_type: body.user_type === 'vendor' ? 'vendor' : 'customer',
+      is_verified: body.is_verified ?? true,
+      vendor_description: body.vendor_description,
+      vendor_google_maps_link: body.vendor_google_maps_link,
+      vendor_website_link: body.vendor_website_link,
+      created_at: existing?.created_at || new Date().toISOString(),
+    };
+    this.users.set(user.wallet_address, user);
+    this.walletBalances(user.wallet_address);
+
+    return {
+      userId: user.user_id,
+      user_id: user.user_id,
+      username: user.username,
+      user_type: user.user_type,
+      is_verified: user.is_verified,
+    };
+  }
+
+  private getUser(_request: MockRequest, [walletAddress]: string[]) {
+    const user = this.users.get(walletAddress);
+    if (!user) {
+      throw new MockHttpError(404, 'NOT_FOUND', `User with wallet ${walletAddress} not found`);
+    }
+
+    return {
+      id: user.user_id,
+      wallet_address: user.wallet_address,
+      user_id: user.user_id,
+      wallet_type: 'primary',
+      is_backed_up: true,
+      has_biometrics: false,
+      created_at: user.created_at,
+      updated_at: user.created_at,
+      username: user.username,
+      user_type: user.user_type,
+      is_verified: user.is_verified,
+    };
+  }
+
+  private getTransactionHistory(request: MockRequest, [walletAddress]: string[]) {
+    const limit = Math.max(1, parseInt(request.query?.limit || '50', 10) || 50);
+    const offset = parseInt(request.query?.cursor || '0', 10) || 0;
+
+    const payments = [...this.payments.values()]
+      .map(payment => this.refreshExpiry(payment))
+      .filter(payment => payment.vendor_address === walletAddress || payment.payer_address === walletAddress)
+      .sort((a, b) => b.created_at - a.created_at);
+
+    const page = payments.slice(offset, offset + limit);
+    const nextOffset = offset + page.length;
+
+    const activities: TransactionActivity[] = page.map(payment => {
+      const isVendor = payment.vendor_address === walletAddress;
+      const counterparty = isVendor ? payment.payer_address || '' : payment.vendor_address;
+      return {
+        type: 'transaction',
+        payment_id: payment.payment_id,
+        kind: payment.kind,
+        note: payment.note,
+        refund_of: payment.refund_of,
+        refunded_usd: this.refundedUsd(payment) || undefined,
+        direction: isVendor ? 'Received' : 'Sent',
+        counterparty_address: counterparty,
+        counterparty_username: this.users.get(counterparty)?.username,
+        vendor_name: payment.vendor_name,
+        status: payment.status,
+        price_usd: payment.price_usd,
+        line_items: payment.line_items,
+        tip_usd: payment.tip_usd,
+        created_at: payment.created_at,
+        computed_payment: payment.payment_bundle.map(item => ({
+          ...item,
+          token_image_url: MOCK_TOKENS.find(token => token.token_key === item.token_key)?.token_image_url,
+        })),
+      };
+    });
+
+    return {
+      transactions: page,
+      activities,
+      cursor: nextOffset < payments.length ? String(nextOffset) : null,
+    };
+  }
+
+  // ——— Payments ———
+
+  private createPayment(request: MockRequest) {
+    const body = request.body || {};
+    const price = Number(body.price_usd);
+    if (!body.vendor_address || !(price > 0)) {
+      throw new MockHttpError(400, 'VALIDATION_ERROR', 'vendor_address and a positive price_usd are required');
+    }
+
+    const lineItems = body.line_items;
+    if (lineItems !== undefined) {
+      const valid = Array.isArray(lineItems) && lineItems.length > 0 && lineItems.every((item: any) =>
+        typeof item?.name === 'string' && item.name.trim() !== ''
+        && Number.isInteger(item.quantity) && item.quantity > 0
+        && Number(item.unit_price_usd) >= 0
+      );
+      if (!valid) {
+        throw new MockHttpError(400, 'VALIDATION_ERROR', 'line_items must each have a name, a positive quantity and a unit_price_usd');
+      }
+      if (!invoiceMatchesPrice(lineItems, Number(body.tip_usd) || 0, price)) {
+        throw new MockHttpError(400, 'VALIDATION_ERROR', 'price_usd must equal the line item totals plus tip_usd');
+      }
+    }
+
+    const payment: MockPayment = {
+      payment_id: randomId(6),
+      vendor_address: body.vendor_address,
+      vendor_name: body.vendor_name || 'Unknown Vendor',
+      status: 'Created',
+      price_usd: price,
+      created_at: now(),
+      expires_at: now() + PAYMENT_TTL_SECONDS,
+      payment_bundle: [],
+      ...(typeof body.label === 'string' && body.label.trim() && { label: body.label.trim().slice(0, 40) }),
+      ...(lineItems && { line_items: lineItems, tip_usd: Number(body.tip_usd) || undefined }),
+    };
+    this.payments.set(payment.payment_id, payment);
+
+    return { payment_id: payment.payment_id, status: payment.status, expires_at: payment.expires_at };
+  }
+
+  private findPayment(paymentId: string): MockPayment {
+    const payment = this.payments.get(paymentId.toUpperCase());
+    if (!payment) {
+      throw new MockHttpError(404, 'NOT_FOUND', `Payment with ID ${paymentId} not found`);
+    }
+    return this.refreshExpiry(payment);
+  }
+
+  private refreshExpiry(payment: MockPayment): MockPayment {
+    if (isOpen(payment) && now() > (payment.expires_at ?? payment.created_at + PAYMENT_TTL_SECONDS)) {
+      payment.status = 'Expired';
+    }
+    return payment;
+  }
+
+  private getPayment(_request: MockRequest, [paymentId]: string[]) {
+    return this.findPayment(paymentId);
+  }
+
+  private supplementPayment(request: MockRequest, [paymentId]: string[]) {
+    const payment = this.payments.get(paymentId.toUpperCase());
+    if (!payment || this.refreshExpiry(payment).status === 'Expired' || payment.status === 'Cancelled') {
+      throw new MockHttpError(400, 'VALIDATION_ERROR', 'Payment code not found');
+    }
+    if (payment.status === 'Completed') {
+      throw new MockHttpError(400, 'VALIDATION_ERROR', 'Transaction already fulfilled');
+    }
+
+    const payerAddress = request.body?.payer_address;
+    if (!payerAddress) {
+      throw new MockHttpError(400, 'VALIDATION_ERROR', 'payer_address is required');
+    }
+    if (payment.payer_address && payment.payer_address !== payerAddress) {
+      throw new MockHttpError(400, 'VALIDATION_ERROR', 'Payer already assigned');
+    }
+    if (payerAddress === payment.vendor_address) {
+      throw new MockHttpError(400, 'VALIDATION_ERROR', 'Vendors cannot pay their own payment request');
+    }
+
+    const bundle = this.computeBundle(payerAddress, payment.vendor_address, payment.price_usd);
+    this.issueTransaction(payment, payerAddress, bundle);
+    payment.payer_username = request.body?.payer_username;
+
+    return payment;
+  }
+
+  /**
+   * Assign a payer and the debit allowance they have to sign for the bundle
+   */
+  private issueTransaction(payment: MockPayment, payerAddress: string, bundle: TokenPayment[]) {
+    const transactionNonce = (this.transactionNonces.get(payerAddress) || 0) + 1;
+    this.transactionNonces.set(payerAddress, transactionNonce);
+
+    const allowances: Record<string, number> = {};
+    for (const item of bundle) {
+      allowances[item.token_key] = Number(parseTokenAmount(item.amount_to_pay, decimalsOf(item.token_key)).units);
+    }
+
+    payment.status = 'Assigned';
+    payment.payer_address = payerAddress;
+    payment.payment_bundle = bundle;
+    payment.unsigned_transaction = JSON.stringify([{
+      debited: `${payerAddress},0`,
+      credited: `${payment.vendor_address},0`,
+      allowances,
+      new_nonce: transactionNonce,
+    }]);
+  }
+
+  /**
+   * Pick the tokens that cover a price, USD first, then the tokens the vendor values most
+   * Each token is worth its market valuation plus the vendor's adjustment
+   */
+  private computeBundle(payerAddress: string, vendorAddress: string, priceUsd: number): TokenPayment[] {
+    const held = this.walletBalances(payerAddress);
+    const vendorValuations = this.valuations.get(vendorAddress) || new Map<string, number>();
+
+    const candidates = MOCK_TOKENS
+      .map(token => ({
+        token,
+        balance: held.get(token.token_key) || 0,
+        price: token.symbol === 'USD'
+          ? 1
+          : Math.max(0, token.market_valuation + (vendorValuations.get(token.symbol) || 0)),
+      }))
+      .filter(candidate => candidate.balance > 0 && candidate.price > 0)
+      .sort((a, b) => {
+        if (a.token.symbol === 'USD') return -1;
+        if (b.token.symbol === 'USD') return 1;
+        return b.price - a.price;
+      });
+
+    // Work in cents so rounding can't leave a fraction unpaid
+    let remainingCents = Math.round(priceUsd * 100);
+    const bundle: TokenPayment[] = [];
+
+    for (const { token, balance, price } of candidates) {
+      if (remainingCents <= 0) break;
+
+      // Balances are in base units, worth price / 10^decimals dollars each
+      const decimals = decimalsOf(token.token_key);
+      const centsPerUnit = (price * 100) / 10 ** decimals;
+      const units = Math.min(balance, Math.ceil(remainingCents / centsPerUnit));
+      remainingCents -= Math.round(units * centsPerUnit);
+      bundle.push({
+        token_key: token.token_key,
+        symbol: token.symbol,
+        amount_to_pay: tokenAmountToNumber(fromBaseUnits(units, decimals)),
+        decimals,
+      });
+    }
+
+    if (remainingCents > 0) {
+      throw new MockHttpError(400, 'VALIDATION_ERROR', 'Insufficient funds to cover this payment');
+    }
+    return bundle;
+  }
+
+  private async signPayment(request: MockRequest, [paymentId]: string[]) {
+    const idempotencyKey = request.headers?.['idempotency-key'];
+    if (idempotencyKey && this.idempotentResults.has(idempotencyKey)) {
+      return this.idempotentResults.get(idempotencyKey);
+    }
+
+    const payment = this.findPayment(paymentId);
+    if (payment.status === 'Completed') {
+      throw new MockHttpError(400, 'VALIDATION_ERROR', 'Transaction already fulfilled');
+    }
+    if (payment.status !== 'Assigned' || !payment.unsigned_transaction || !payment.payer_address) {
+      throw new MockHttpError(400, 'VALIDATION_ERROR', `Payment is ${payment.status} and can't be signed`);
+    }
+
+    let signed: any;
+    try {
+      signed = JSON.parse(request.body?.signed_transaction)[0];
+    } catch (error) {
+      throw new MockHttpError(400, 'VALIDATION_ERROR', 'signed_transaction is not valid JSON');
+    }
+
+    const signature = signed?.signature?.Ed25519;
+    if (!signature || signature.pubkey !== payment.payer_address) {
+      throw new MockHttpError(400, 'VALIDATION_ERROR', 'Transaction must be signed by the assigned payer');
+    }
+
+    // The payer must sign exactly the transaction that was issued
+    const issued = this.readDebitAllowance(JSON.parse(payment.unsigned_transaction)[0]);
+    let received: unknown;
+    try {
+      received = this.readDebitAllowance(signed.payload).parsed;
+    } catch (error) {
+      throw new MockHttpError(400, 'VALIDATION_ERROR', 'Signed payload could not be read');
+    }
+    if (canonical(received) !== canonical(issued.parsed)) {
+      throw new MockHttpError(400, 'VALIDATION_ERROR', 'Signed payload does not match the payment');
+    }
+
+    const isValid = await this.safeVerify(issued.bytes, signature.signature, signature.pubkey);
+    if (!isValid) {
+      throw new MockHttpError(400, 'VALIDATION_ERROR', 'Invalid transaction signature');
+    }
+
+    // Settle the transfer
+    const payerBalances = this.walletBalances(payment.payer_address);
+    const vendorBalances = this.walletBalances(payment.vendor_address);
+    for (const item of payment.payment_bundle) {
+      const units = Number(parseTokenAmount(item.amount_to_pay, decimalsOf(item.token_key)).units);
+      const available = payerBalances.get(item.token_key) || 0;
+      if (available < units) {
+        throw new MockHttpError(400, 'VALIDATION_ERROR', 'Insufficient funds to cover this payment');
+      }
+    }
+    for (const item of payment.payment_bundle) {
+      const units = Number(parseTokenAmount(item.amount_to_pay, decimalsOf(item.token_key)).units);
+      payerBalances.set(item.token_key, (payerBalances.get(item.token_key) || 0) - units);
+      vendorBalances.set(item.token_key, (vendorBalances.get(item.token_key) || 0) + units);
+    }
+
+    payment.status = 'Completed';
+    payment.completed_at = now();
+    if (idempotencyKey) {
+      this.idempotentResults.set(idempotencyKey, payment);
+    }
+    return payment;
+  }
+
+  private completePayment(request: MockRequest, [paymentId]: string[]) {
+    const payment = this.findPayment(paymentId);
+    if (payment.payer_address !== request.body?.customer_address) {
+      throw new MockHttpError(400, 'VALIDATION_ERROR', 'Only the assigned payer can complete this payment');
+    }
+    if (payment.status !== 'Completed') {
+      throw new MockHttpError(400, 'VALIDATION_ERROR', 'Payment has not been signed');
+    }
+    return payment;
+  }
+
+  private deletePayment(request: MockRequest, [paymentId]: string[]) {
+    const payment = this.findPayment(paymentId);
+    const caller = this.sessionAddress(request);
+    if (!caller) {
+      throw new MockHttpError(401, 'UNAUTHORIZED', 'Sign in to cancel a payment');
+    }
+    if (caller !== payment.vendor_address || request.body?.vendor_address !== payment.vendor_address) {
+      throw new MockHttpError(403, 'FORBIDDEN', 'Only the vendor can cancel this payment');
+    }
+    if (!isOpen(payment)) {
+      throw new MockHttpError(400, 'VALIDATION_ERROR', `Payment is ${payment.status} and can't be cancelled`);
+    }
+
+    payment.status = 'Cancelled';
+    return { success: true };
+  }
+
+  // ——— Transfers ———
+
+  private createTransfer(request: MockRequest) {
+    const body = request.body || {};
+    const from = body.from_wallet;
+    const to = typeof body.to_wallet === 'string' ? body.to_wallet.trim() : '';
+    if (!from || this.sessionAddress(request) !== from) {
+      throw new MockHttpError(401, 'UNAUTHORIZED', 'Sign in as the sending wallet to make a transfer');
+    }
+    if (!WALLET_ADDRESS_PATTERN.test(to)) {
+      throw new MockHttpError(400, 'VALIDATION_ERROR', 'to_wallet is not a wallet address');
+    }
+    if (to === from) {
+      throw new MockHttpError(400, 'VALIDATION_ERROR', 'You cannot send to your own wallet');
+    }
+
+    let bundle: TokenPayment[];
+    let price: number;
+    if (Array.isArray(body.tokens)) {
+      bundle = this.pickedBundle(from, body.tokens);
+      // Picked tokens are valued at market, there's no vendor to adjust them
+      const cents = bundle.reduce((total, item) => {
+        const token = MOCK_TOKENS.find(candidate => candidate.token_key === item.token_key)!;
+        return total + item.amount_to_pay * token.market_valuation * 100;
+      }, 0);
+      price = Math.round(cents) / 100;
+    } else {
+      price = Number(body.amount_usd);
+      if (!(price > 0)) {
+        throw new MockHttpError(400, 'VALIDATION_ERROR', 'amount_usd must be positive, or tokens given');
+      }
+      bundle = this.computeBundle(from, to, price);
+    }
+
+    const recipient = this.users.get(to);
+    const transfer: MockPayment = {
+      payment_id: randomId(6),
+      kind: 'transfer',
+      vendor_address: to,
+      vendor_name: recipient?.username || `${to.slice(0, 4)}…${to.slice(-4)}`,
+      status: 'Created',
+      price_usd: price,
+      created_at: now(),
+      expires_at: now() + PAYMENT_TTL_SECONDS,
+      payment_bundle: [],
+      payer_username: this.users.get(from)?.username,
+      ...(typeof body.note === 'string' && body.note.trim() && { note: body.note.trim().slice(0, 140) }),
+    };
+    this.issueTransaction(transfer, from, bundle);
+    this.payments.set(transfer.payment_id, transfer);
+
+    return transfer;
+  }
+
+  /**
+   * The exact tokens a sender picked, checked against what they hold
+   */
+  private pickedBundle(walletAddress: string, picked: any[]): TokenPayment[] {
+    const held = this.walletBalances(walletAddress);
+    const bundle = picked
+      .filter(item => Number(item?.amount) > 0)
+      .map(item => {
+        const token = MOCK_TOKENS.find(candidate => candidate.token_key === item.token_key);
+        if (!token) {
+          throw new MockHttpError(400, 'VALIDATION_ERROR', `Unknown token ${item?.token_key}`);
+        }
+        const units = Number(parseTokenAmount(Number(item.amount), decimalsOf(token.token_key)).units);
+        if (units <= 0) {
+          throw new MockHttpError(400, 'VALIDATION_ERROR', `${token.symbol} amount is too small to send`);
+        }
+        if ((held.get(token.token_key) || 0) < units) {
+          throw new MockHttpError(400, 'VALIDATION_ERROR', `Insufficient funds: not enough ${token.symbol}`);
+        }
+        return {
+          token_key: token.token_key,
+          symbol: token.symbol,
+          amount_to_pay: tokenAmountToNumber(fromBaseUnits(units, decimalsOf(token.token_key))),
+          decimals: decimalsOf(token.token_key),
+        };
+      });
+
+    if (bundle.length === 0) {
+      throw new MockHttpError(400, 'VALIDATION_ERROR', 'Pick at least one token to send');
+    }
+    return bundle;
+  }
+
+  private cancelTransfer(request: MockRequest, [transferId]: string[]) {
+    const transfer = this.findPayment(transferId);
+    if (transfer.kind !== 'transfer' && transfer.kind !== 'refund') {
+      throw new MockHttpError(404, 'NOT_FOUND', `Transfer with ID ${transferId} not found`);
+    }
+    const caller = this.sessionAddress(request);
+    if (!caller || caller !== transfer.payer_address || request.body?.from_wallet !== transfer.payer_address) {
+      throw new MockHttpError(403, 'FORBIDDEN', 'Only the sender can cancel this transfer');
+    }
+    if (!isOpen(transfer)) {
+      throw new MockHttpError(400, 'VALIDATION_ERROR', `Transfer is ${transfer.status} and can't be cancelled`);
+    }
+
+    transfer.status = 'Cancelled';
+    return { success: true };
+  }
+
+  // ——— Refunds ———
+
+  private refundsOf(payment: MockPayment): MockPayment[] {
+    return [...this.payments.values()]
+      .map(refund => this.refreshExpiry(refund))
+      .filter(refund => refund.kind === 'refund' && refund.refund_of === payment.payment_id);
+  }
+
+  private refundedUsd(payment: MockPayment): number {
+    const cents = this.refundsOf(payment)
+      .filter(refund => refund.status === 'Completed')
+      .reduce((total, refund) => total + Math.round(refund.price_usd * 100), 0);
+    return cents / 100;
+  }
+
+  private refundPayment(request: MockRequest, [paymentId]: string[]) {
+    const payment = this.findPayment(paymentId);
+    if (payment.kind && payment.kind !== 'payment') {
+      throw new MockHttpError(400, 'VALIDATION_ERROR', 'Only payments to a vendor can be refunded');
+    }
+    const caller = this.sessionAddress(request);
+    if (!caller || caller !== payment.vendor_address || request.body?.vendor_address !== payment.vendor_address) {
+      throw new MockHttpError(403, 'FORBIDDEN', 'Only the vendor can refund this payment');
+    }
+    if (payment.status !== 'Completed' || !payment.payer_address) {
+      throw new MockHttpError(400, 'VALIDATION_ERROR', `Payment is ${payment.status} and can't be refunded`);
+    }
+
+    // Refunds waiting to be signed hold their amount until they complete, expire or are cancelled
+    const refunds = this.refundsOf(payment).filter(refund => refund.status === 'Completed' || isOpen(refund));
+    const heldCents = refunds.reduce((total, refund) => total + Math.round(refund.price_usd * 100), 0);
+    const remainingCents = Math.round(payment.price_usd * 100) - heldCents;
+    const amountCents = Math.round(Number(request.body?.amount_usd) * 100);
+    if (!(amountCents > 0)) {
+      throw new MockHttpError(400, 'VALIDATION_ERROR', 'amount_usd must be positive');
+    }
+    if (amountCents > remainingCents) {
+      throw new MockHttpError(400, 'VALIDATION_ERROR', `Only $${(Math.max(0, remainingCents) / 100).toFixed(2)} of this payment is left to refund`);
+    }
+
+    const bundle = request.body?.method === 'usd_equivalent'
+      ? this.computeBundle(payment.vendor_address, payment.payer_address, amountCents / 100)
+      : this.proportionalBundle(payment, refunds, amountCents, amountCents === remainingCents);
+
+    const refund: MockPayment = {
+      payment_id: randomId(6),
+      kind: 'refund',
+      refund_of: payment.payment_id,
+      vendor_address: payment.payer_address,
+      vendor_name: payment.payer_username || this.users.get(payment.payer_address)?.username || 'Customer',
+      status: 'Created',
+      price_usd: amountCents / 100,
+      created_at: now(),
+      expires_at: now() + PAYMENT_TTL_SECONDS,
+      payment_bundle: [],
+      payer_username: payment.vendor_name,
+    };
+    this.issueTransaction(refund, payment.vendor_address, bundle);
+    this.payments.set(refund.payment_id, refund);
+
+    return refund;
+  }
+
+  /**
+   * The payment's tokens scaled to the refund
+   * The last refund returns exactly what's left of each token so rounding leaves nothing behind
+   */
+  private proportionalBundle(payment: MockPayment, refunds: MockPayment[], amountCents: number, isLast: boolean): TokenPayment[] {
+    const held = this.walletBalances(payment.vendor_address);
+    const priceCents = Math.round(payment.price_usd * 100);
+    const unitsOf = (item: TokenPayment) => Number(parseTokenAmount(item.amount_to_pay, decimalsOf(item.token_key)).units);
+
+    const bundle = payment.payment_bundle
+      .map(item => {
+        const paid = unitsOf(item);
+        const alreadyRefunded = refunds
+          .flatMap(refund => refund.payment_bundle)
+          .filter(refunded => refunded.token_key === item.token_key)
+          .reduce((total, refunded) => total + unitsOf(refunded), 0);
+        const units = isLast
+          ? Math.max(0, paid - alreadyRefunded)
+          : Math.min(Math.floor((paid * amountCents) / priceCents), Math.max(0, paid - alreadyRefunded));
+        return { item, units };
+      })
+      .filter(({ units }) => units > 0)
+      .map(({ item, units }) => {
+        if ((held.get(item.token_key) || 0) < units) {
+          throw new MockHttpError(400, 'VALIDATION_ERROR', `Insufficient funds: not enough ${item.symbol} to refund`);
+        }
+        return {
+          token_key: item.token_key,
+          symbol: item.symbol,
+          amount_to_pay: tokenAmountToNumber(fromBaseUnits(units, decimalsOf(item.token_key))),
+          decimals: decimalsOf(item.token_key),
+        };
+      });
+
+    if (bundle.length === 0) {
+      throw new MockHttpError(400, 'VALIDATION_ERROR', 'The refund is too small to return any tokens');
+    }
+    return bundle;
+  }
+
+  private batchStatus(request: MockRequest) {
+    const ids: string[] = Array.isArray(request.body?.transaction_ids) ? request.body.transaction_ids : [];
+    return {
+      statuses: ids
+        .map(id => this.payments.get(String(id).toUpperCase()))
+        .filter((payment): payment is MockPayment => !!payment)
+        .map(payment => ({ payment_id: payment.payment_id, status: this.refreshExpiry(payment).status })),
+    };
+  }
+
+  // ——— Wallets ———
+
+  // New wallets are funded so the pay flow can be demoed straight away
+  private walletBalances(walletAddress: string): Map<string, number> {
+    let balances = this.balances.get(walletAddress);
+    if (!balances) {
+      balances = new Map(Object.entries(STARTING_BALANCES));
+      this.balances.set(walletAddress, balances);
+    }
+    return balances;
+  }
+
+  private getBalances(_request: MockRequest, [walletAddress]: string[]): WalletBalancesResponse {
+    const balances = this.walletBalances(walletAddress);
+    const response: WalletBalancesResponse = {};
+
+    for (const token of MOCK_TOKENS) {
+      const balance = balances.get(token.token_key) || 0;
+      if (balance > 0) {
+        response[token.token_key] = {
+          balance,
+          decimals: token.decimals,
+          symbol: token.symbol,
+          name: token.name,
+          market_valuation: token.market_valuation.toString(),
+          average_valuation: token.market_valuation,
+          token_image_url: token.token_image_url,
+          total_allocated: 0,
+        };
+      }
+    }
+    return response;
+  }
+
+  private getValuations(_request: MockRequest, [walletAddress]: string[]): TokenValuation[] {
+    const valuations = this.valuations.get(walletAddress) || new Map<string, number>();
+    return MOCK_TOKENS.map(token => ({
+      token_name: token.name,
+      token_symbol: token.symbol,
+      current_valuation: valuations.get(token.symbol) || 0,
+      has_set: valuations.has(token.symbol),
+      token_image_url: token.token_image_url,
+    }));
+  }
+
+  private updateValuation(request: MockRequest, [walletAddress]: string[]) {
+    const { symbol, valuation } = request.body || {};
+    if (!MOCK_TOKENS.some(token => token.symbol === symbol) || typeof valuation !== 'number') {
+      throw new MockHttpError(400, 'VALIDATION_ERROR', 'A known token symbol and numeric valuation are required');
+    }
+
+    const valuations = this.valuations.get(walletAddress) || new Map<string, number>();
+    valuations.set(symbol, valuation);
+    this.valuations.set(walletAddress, valuations);
+    return { symbol, valuation };
+  }
+}
+
+export { MockBackend };
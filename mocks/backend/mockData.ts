@@ -0,0 +1,61 @@
+import type { PartneredVendor } from '@/types/api';
+
+export interface MockToken {
+  token_key: string;   // "address,shard"
+  decimals: number;
+  symbol: string;
+  name: string;
+  market_valuation: number;
+  token_image_url?: string;
+}
+
+// Tokens every mock wallet can hold
+export const MOCK_TOKENS: MockToken[] = [
+  {
+    token_key: 'USD1111111111111111111111111111111111111111,0',
+    decimals: 2,
+    symbol: 'USD',
+    name: 'US Dollar',
+    market_valuation: 1,
+  },
+  {
+    token_key: 'GRDN2222222222222222222222222222222222222222,0',
+    decimals: 2,
+    symbol: 'GRDN',
+    name: 'Community Garden',
+    market_valuation: 0.85,
+  },
+  {
+    token_key: 'BKRY3333333333333333333333333333333333333333,0',
+    decimals: 2,
+    symbol: 'BKRY',
+    name: 'Corner Bakery',
+    market_valuation: 1.2,
+  },
+];
+
+// Balance a wallet starts with the first time the mock backend sees it, in base units
+export const STARTING_BALANCES: Record<string, number> = {
+  'USD1111111111111111111111111111111111111111,0': 5000,
+  'GRDN2222222222222222222222222222222222222222,0': 2500,
+  'BKRY3333333333333333333333333333333333333333,0': 1000,
+};
+
+export const MOCK_PARTNERED_VENDORS: PartneredVendor[] = [
+  {
+    _id: 'mock-vendor-1',
+    name: 'Corner Bakery',
+    description: 'Fresh bread and pastries, baked every morning.',
+    google_maps_link: 'https://maps.google.com/?q=bakery',
+    website_link: 'https://example.com/bakery',
+  },
+  {
+    _id: 'mock-vendor-2',
+    name: 'Community Garden Market',
+    description: 'Seasonal produce from the neighbourhood garden.',
+    google_maps_link: 'https://maps.google.com/?q=farmers+market',
+  },
+];
+
+// Unpaid payment requests expire after this long
+export const PAYMENT_TTL_SECONDS = 15 * 60;
@@ -0,0 +1,83 @@
+/**
+ * Runs the mock backend as a local HTTP server
+ *
+ *   npm run mock-server
+ *
+ * Listens on MOCK_PORT (default 8080, the app's local backend URL). Point the
+ * app at it with EXPO_PUBLIC_LOCAL_API_URL when testing on a device.
+ */
+import { createServer, IncomingMessage } from 'http';
+import { createPublicKey, verify } from 'crypto';
+import bs58 from 'bs58';
+import { parse, serialize } from '@repyh-labs/delta-signing';
+import { MockBackend } from './backend/mockBackend';
+import type { DebitAllowanceReader, SignatureVerifier } from './backend/mockBackend';
+
+const PORT = parseInt(process.env.MOCK_PORT || '8080', 10);
+
+const verifySignature: SignatureVerifier = async (message, signatureBase58, publicKeyBase58) => {
+  const publicKey = createPublicKey({
+    key: { kty: 'OKP', crv: 'Ed25519', x: Buffer.from(bs58.decode(publicKeyBase58)).toString('base64url') },
+    format: 'jwk',
+  });
+  return verify(null, message, publicKey, bs58.decode(signatureBase58));
+};
+
+const readDebitAllowance: DebitAllowanceReader = payload => {
+  const parsed = parse.debitAllowance(payload);
+  return { parsed, bytes: serialize(parsed) };
+};
+
+const backend = new MockBackend(verifySignature, readDebitAllowance);
+
+const readBody = (request: IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    let raw = '';
+    request.on('data', chunk => {
+      raw += chunk;
+    });
+    request.on('end', () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : undefined);
+      } catch (error) {
+        resolve(raw);
+      }
+    });
+    request.on('error', reject);
+  });
+
+const server = createServer(async (request, response) => {
+  // Allow the web build to call the server
+  response.setHeader('Access-Control-Allow-Origin', '*');
+  response.setHeader('Access-Control-Allow-Headers', '*');
+  response.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204);
+    response.end();
+    return;
+  }
+
+  const [path, search = ''] = (request.url || '/').split('?');
+  const query = Object.fromEntries(new URLSearchParams(search));
+  const headers: Record<string, string | undefined> = {};
+  for (const [key, value] of Object.entries(request.headers)) {
+    headers[key] = Array.isArray(value) ? value[0] : value;
+  }
+
+  const { status, body } = await backend.handle({
+    method: request.method || 'GET',
+    path,
+    query,
+    headers,
+    body: await readBody(request),
+  });
+
+  console.log(`${request.method} ${path} → ${status}`);
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock backend listening on http://localhost:${PORT}`);
+});
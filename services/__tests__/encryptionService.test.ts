@@ -0,0 +1,103 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import { AUTH_KEYS } from '@/constants/storageKeys';
+import { EncryptionService } from '../encryptionService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('expo-secure-store', () => {
+  const values = new Map<string, string>();
+  return {
+    isAvailableAsync: jest.fn(async () => true),
+    getItemAsync: jest.fn(async (key: string) => values.get(key) ?? null),
+    setItemAsync: jest.fn(async (key: string, value: string) => { values.set(key, value); }),
+    deleteItemAsync: jest.fn(async (key: string) => { values.delete(key); }),
+    __values: values,
+  };
+});
+
+jest.mock('expo-crypto', () => ({
+  getRandomBytesAsync: jest.fn(async (length: number) => new Uint8Array(require('crypto').randomBytes(length))),
+}));
+
+const secureValues: Map<string, string> = (SecureStore as any).__values;
+
+describe('EncryptionService', () => {
+  beforeEach(async () => {
+    secureValues.clear();
+    await AsyncStorage.clear();
+    jest.mocked(SecureStore.isAvailableAsync).mockResolvedValue(true);
+  });
+
+  it('round-trips values through a v1 envelope', async () => {
+    const service = new EncryptionService();
+    const encrypted = await service.encrypt('correct horse battery staple');
+
+    expect(encrypted).toMatch(/^v1:[A-Za-z0-9+/=]+:[A-Za-z0-9+/=]+$/);
+    expect(encrypted).not.toContain('horse');
+    expect(service.isEncrypted(encrypted)).toBe(true);
+    expect(await service.decrypt(encrypted)).toBe('correct horse battery staple');
+  });
+
+  it('uses a fresh nonce for every value', async () => {
+    const service = new EncryptionService();
+    expect(await service.encrypt('same')).not.toBe(await service.encrypt('same'));
+  });
+
+  it('keeps the key in SecureStore so another instance can decrypt', async () => {
+    const encrypted = await new EncryptionService().encrypt('secret');
+
+    expect(secureValues.get(AUTH_KEYS.ENCRYPTION_KEY)).toBeDefined();
+    expect(await AsyncStorage.getItem(AUTH_KEYS.ENCRYPTION_KEY)).toBeNull();
+    expect(await new EncryptionService().decrypt(encrypted)).toBe('secret');
+  });
+
+  it('rejects tampered ciphertext', async () => {
+    const service = new EncryptionService();
+    const [version, nonce, ciphertext] = (await service.encrypt('secret')).split(':');
+    const bytes = Buffer.from(ciphertext, 'base64');
+    bytes[0] ^= 1;
+
+    await expect(service.decrypt(`${version}:${nonce}:${bytes.toString('base64')}`)).rejects.toThrow();
+    await expect(service.decrypt('v1:missing')).rejects.toThrow('Malformed encrypted value');
+  });
+
+  it('passes legacy and plain values through for migration', async () => {
+    const service = new EncryptionService();
+
+    expect(await service.decrypt('encrypted:old secret')).toBe('old secret');
+    expect(await service.decrypt('plain secret')).toBe('plain secret');
+    expect(service.needsMigration('encrypted:old secret')).toBe(true);
+    expect(service.needsMigration('plain secret')).toBe(true);
+  });
+
+  it('re-encrypts a legacy stored value in place', async () => {
+    const service = new EncryptionService();
+    secureValues.set('seed', 'encrypted:old secret');
+
+    expect(await service.migrateStoredValue('seed')).toBe(true);
+    const migrated = secureValues.get('seed')!;
+    expect(service.isEncrypted(migrated)).toBe(true);
+    expect(await service.decrypt(migrated)).toBe('old secret');
+    expect(await service.migrateStoredValue('seed')).toBe(false);
+  });
+
+  it('moves a key left in AsyncStorage into SecureStore', async () => {
+    const legacyKey = Buffer.alloc(32, 7).toString('base64');
+    await AsyncStorage.setItem(AUTH_KEYS.ENCRYPTION_KEY, legacyKey);
+
+    await new EncryptionService().encrypt('secret');
+
+    expect(secureValues.get(AUTH_KEYS.ENCRYPTION_KEY)).toBe(legacyKey);
+    expect(await AsyncStorage.getItem(AUTH_KEYS.ENCRYPTION_KEY)).toBeNull();
+  });
+
+  it('fails closed without SecureStore', async () => {
+    jest.mocked(SecureStore.isAvailableAsync).mockResolvedValue(false);
+
+    await expect(new EncryptionService().encrypt('secret')).rejects.toThrow('Secure storage is not available');
+    expect(await AsyncStorage.getItem(AUTH_KEYS.ENCRYPTION_KEY)).toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+import { createKeyPairFromSeedPhrase } from '@/utils/cryptoUtils';
+import type { KeyPair } from '@/utils/cryptoUtils';
+import type { Transaction } from '@/types/payment';
+import { createPaymentQR, paymentQRMismatches, readPaymentQR, PaymentQRError } from '../paymentQRService';
+import type { PaymentQRPayload } from '../paymentQRService';
+
+// The real module pulls in the signing library; these tests pass plain keys
+jest.mock('../transactionSigningService', () => ({
+  getPrivateKey: jest.fn(async (key?: string) => key || null),
+}));
+
+const PHRASE = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+let vendor: KeyPair;
+let other: KeyPair;
+
+const request = (overrides: Partial<Transaction> = {}): Transaction => ({
+  payment_id: 'ABC123',
+  vendor_address: vendor.publicKey,
+  vendor_name: 'Corner Bakery',
+  status: 'Created',
+  price_usd: 4.5,
+  created_at: 1700000000,
+  expires_at: 1700000900,
+  payment_bundle: [],
+  ...overrides,
+});
+
+const signedPayload = async (overrides: Partial<Transaction> = {}) =>
+  JSON.parse(await createPaymentQR(request(overrides), vendor.privateKey)) as PaymentQRPayload;
+
+beforeAll(async () => {
+  vendor = await createKeyPairFromSeedPhrase(PHRASE, { accountIndex: 0 });
+  other = await createKeyPairFromSeedPhrase(PHRASE, { accountIndex: 1 });
+});
+
+describe('createPaymentQR', () => {
+  it('signs the request details with the vendor key', async () => {
+    const payload = await signedPayload();
+    expect(payload).toMatchObject({
+      v: 1,
+      id: 'ABC123',
+      vendor_address: vendor.publicKey,
+      vendor_name: 'Corner Bakery',
+      amount_usd: '4.50',
+      expires_at: 1700000900,
+    });
+    expect(typeof payload.sig).toBe('string');
+  });
+
+  it('falls back to the bare code without a key', async () => {
+    expect(await createPaymentQR(request())).toBe('ABC123');
+  });
+});
+
+describe('readPaymentQR', () => {
+  it('passes anything that is not a signed payload through', async () => {
+    expect(await readPaymentQR(' abc123 ')).toEqual({ kind: 'plain', data: 'abc123' });
+    expect(await readPaymentQR('indexwallet://pay/ABC123')).toEqual({ kind: 'plain', data: 'indexwallet://pay/ABC123' });
+  });
+
+  it('accepts a payload signed by its vendor, in any field order', async () => {
+    const payload = await signedPayload();
+    const reordered = JSON.stringify(Object.fromEntries(Object.entries(payload).reverse()));
+
+    const scanned = await readPaymentQR(reordered);
+    expect(scanned).toEqual({ kind: 'signed', payload });
+  });
+
+  it('rejects a payload whose details were changed after signing', async () => {
+    const payload = await signedPayload();
+    const tampered = JSON.stringify({ ...payload, amount_usd: '45.00' });
+
+    await expect(readPaymentQR(tampered)).rejects.toThrow(PaymentQRError);
+  });
+
+  it('rejects a payload re-signed for another wallet', async () => {
+    const payload = await signedPayload();
+    const swapped = JSON.stringify({ ...payload, vendor_address: other.publicKey });
+
+    await expect(readPaymentQR(swapped)).rejects.toThrow("signature doesn't match");
+  });
+
+  it('rejects unreadable, incomplete and newer payloads', async () => {
+    await expect(readPaymentQR('{not json')).rejects.toThrow('could not be read');
+    await expect(readPaymentQR(JSON.stringify({ v: 1, id: 'ABC123' }))).rejects.toThrow('missing payment details');
+    await expect(readPaymentQR(JSON.stringify({ v: 2 }))).rejects.toThrow('newer version');
+  });
+});
+
+describe('paymentQRMismatches', () => {
+  it('accepts the request the QR was made for', async () => {
+    const payload = await signedPayload();
+    expect(paymentQRMismatches(payload, { ...request(), payment_id: 'abc123' }, 1700000000 * 1000)).toEqual([]);
+  });
+
+  it('lists every difference from the returned request', async () => {
+    const payload = await signedPayload();
+    const mismatches = paymentQRMismatches(
+      payload,
+      { payment_id: 'XYZ', vendor_address: other.publicKey, vendor_name: 'Garden', price_usd: 45 },
+      1700001000 * 1000
+    );
+    expect(mismatches).toHaveLength(5);
+  });
+});
@@ -0,0 +1,146 @@
+import { PaymentStatus } from '@/types/payment';
+import type { Transaction } from '@/types/payment';
+import {
+  applyPaymentUpdate,
+  canTransition,
+  isCompletedStatus,
+  isPendingStatus,
+  isTerminalStatus,
+  isVoidedStatus,
+  normalizePaymentStatus,
+  requestExpiresAt,
+  startPayment,
+  DEFAULT_REQUEST_TTL,
+} from '../paymentStateMachine';
+
+const ALL_STATUSES = Object.values(PaymentStatus);
+const TERMINAL = [PaymentStatus.Completed, PaymentStatus.Failed, PaymentStatus.Cancelled, PaymentStatus.Expired];
+
+const payment = (overrides: Partial<Transaction> = {}): Transaction => ({
+  payment_id: 'ABC123',
+  vendor_address: 'vendor',
+  vendor_name: 'Corner Bakery',
+  status: 'Created',
+  price_usd: 4.5,
+  created_at: 1700000000,
+  payment_bundle: [],
+  ...overrides,
+});
+
+describe('normalizePaymentStatus', () => {
+  it.each([
+    ['Created', PaymentStatus.Created],
+    ['pending', PaymentStatus.Created],
+    ['ASSIGNED', PaymentStatus.Assigned],
+    [' completed ', PaymentStatus.Completed],
+    ['success', PaymentStatus.Completed],
+    ['confirmed', PaymentStatus.Completed],
+    ['error', PaymentStatus.Failed],
+    ['canceled', PaymentStatus.Cancelled],
+    ['Cancelled', PaymentStatus.Cancelled],
+    ['expired', PaymentStatus.Expired],
+  ])('maps %p to %p', (input, expected) => {
+    expect(normalizePaymentStatus(input)).toBe(expected);
+  });
+
+  it('returns null for unknown or missing statuses', () => {
+    expect(normalizePaymentStatus('refunded')).toBeNull();
+    expect(normalizePaymentStatus('')).toBeNull();
+    expect(normalizePaymentStatus(undefined)).toBeNull();
+  });
+});
+
+describe('status predicates', () => {
+  it('treats created and assigned as pending', () => {
+    expect(isPendingStatus('pending')).toBe(true);
+    expect(isPendingStatus('Assigned')).toBe(true);
+    expect(isPendingStatus('Completed')).toBe(false);
+  });
+
+  it('treats every status without outgoing transitions as terminal', () => {
+    TERMINAL.forEach(status => expect(isTerminalStatus(status)).toBe(true));
+    expect(isTerminalStatus('Created')).toBe(false);
+    expect(isTerminalStatus('unknown')).toBe(false);
+  });
+
+  it('only voids cancelled and expired payments', () => {
+    expect(isVoidedStatus('canceled')).toBe(true);
+    expect(isVoidedStatus('Expired')).toBe(true);
+    expect(isVoidedStatus('Failed')).toBe(false);
+    expect(isCompletedStatus('success')).toBe(true);
+  });
+});
+
+describe('canTransition', () => {
+  it('lets a new request move to any other status', () => {
+    ALL_STATUSES.forEach(to => expect(canTransition(PaymentStatus.Created, to)).toBe(true));
+  });
+
+  it('never moves an assigned payment back to created', () => {
+    expect(canTransition(PaymentStatus.Assigned, PaymentStatus.Created)).toBe(false);
+    TERMINAL.forEach(to => expect(canTransition(PaymentStatus.Assigned, to)).toBe(true));
+  });
+
+  it('keeps terminal statuses final', () => {
+    TERMINAL.forEach(from => {
+      ALL_STATUSES.filter(to => to !== from).forEach(to => {
+        expect(canTransition(from, to)).toBe(false);
+      });
+      expect(canTransition(from, from)).toBe(true);
+    });
+  });
+});
+
+describe('applyPaymentUpdate', () => {
+  it('records each new status with its time', () => {
+    const started = startPayment(payment(), PaymentStatus.Created, 1000);
+    const assigned = applyPaymentUpdate(started, { status: 'assigned' }, 2000)!;
+    const completed = applyPaymentUpdate(assigned, { status: 'success' }, 3000)!;
+
+    expect(completed.status).toBe(PaymentStatus.Completed);
+    expect(completed.status_history).toEqual([
+      { status: PaymentStatus.Created, at: 1000 },
+      { status: PaymentStatus.Assigned, at: 2000 },
+      { status: PaymentStatus.Completed, at: 3000 },
+    ]);
+  });
+
+  it('does not add history for a repeated status', () => {
+    const started = startPayment(payment(), PaymentStatus.Created, 1000);
+    const repeated = applyPaymentUpdate(started, { status: 'pending', vendor_name: 'Bakery' }, 2000)!;
+
+    expect(repeated.vendor_name).toBe('Bakery');
+    expect(repeated.status_history).toHaveLength(1);
+  });
+
+  it('rejects stale, out of order and unknown updates', () => {
+    const completed = payment({ status: 'Completed' });
+    expect(applyPaymentUpdate(completed, { status: 'Assigned' })).toBeNull();
+    expect(applyPaymentUpdate(payment({ status: 'Assigned' }), { status: 'Created' })).toBeNull();
+    expect(applyPaymentUpdate(payment(), { status: 'refunded' })).toBeNull();
+  });
+
+  it('starts the history at the creation time when there is none', () => {
+    const updated = applyPaymentUpdate(payment(), { status: 'Assigned' }, 5000)!;
+    expect(updated.status_history?.[0]).toEqual({ status: PaymentStatus.Created, at: 1700000000 * 1000 });
+  });
+});
+
+describe('startPayment', () => {
+  it('falls back when the backend status is not recognized', () => {
+    const started = startPayment(payment({ status: 'mystery' }), PaymentStatus.Assigned, 10);
+    expect(started.status).toBe(PaymentStatus.Assigned);
+    expect(started.status_history).toEqual([{ status: PaymentStatus.Assigned, at: 10 }]);
+  });
+});
+
+describe('requestExpiresAt', () => {
+  it('uses the expiry in seconds or milliseconds', () => {
+    expect(requestExpiresAt(payment({ expires_at: 1700000900 }))).toBe(1700000900 * 1000);
+    expect(requestExpiresAt(payment({ expires_at: 1700000900000 }))).toBe(1700000900000);
+  });
+
+  it('defaults to the request TTL after creation', () => {
+    expect(requestExpiresAt(payment())).toBe(1700000000 * 1000 + DEFAULT_REQUEST_TTL);
+  });
+});
@@ -0,0 +1,228 @@
+import axios, { AxiosRequestConfig } from 'axios';
+import { Platform } from 'react-native';
+import Constants from 'expo-constants';
+import { API_URL, BACKEND_MODE } from '../config';
+import { connectivity } from './connectivityService';
+import { verifyBytes } from '@/utils/cryptoUtils';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Don't try to refresh the session when this request gets a 401
+    skipAuthRefresh?: boolean;
+    // Set once a request has been retried with a refreshed token
+    authRetried?: boolean;
+  }
+}
+
+/**
+ * Every failure from the backend is reported as one of these codes
+ */
+export type ApiErrorCode =
+  | 'INSUFFICIENT_FUNDS'
+  | 'PAYMENT_NOT_FOUND'
+  | 'PAYMENT_ALREADY_COMPLETED'
+  | 'PAYMENT_ALREADY_ASSIGNED'
+  | 'USER_NOT_FOUND'
+  | 'NOT_FOUND'
+  | 'VALIDATION_ERROR'
+  | 'CONFLICT'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'SERVER_ERROR'
+  | 'TIMEOUT'
+  | 'NETWORK_ERROR'
+  | 'UNKNOWN';
+
+/**
+ * Error thrown by every API call
+ * Check `code` rather than matching on the message
+ */
+export class ApiError extends Error {
+  code: ApiErrorCode;
+  status: number | null;
+  data: unknown;
+
+  constructor(code: ApiErrorCode, message: string, status: number | null = null, data?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.status = status;
+    this.data = data;
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError;
+
+// Mobile networks can be slow, so keep a generous timeout
+const REQUEST_TIMEOUT = 30000;
+
+const client = axios.create({
+  baseURL: API_URL,
+  headers: {
+    'Content-Type': 'application/json',
+    'Accept': 'application/json',
+    'X-Client-Platform': Platform.OS,
+    'X-Client-Version': Constants.expoConfig?.version || '1.0.0',
+  },
+  timeout: REQUEST_TIMEOUT,
+});
+
+// Demo mode answers every request in-process instead of over the network.
+// Required inline so other builds never load the mock backend
+if (BACKEND_MODE === 'mock') {
+  const { MockBackend } = require('@/mocks/backend/mockBackend') as typeof import('@/mocks/backend/mockBackend');
+  const { createMockAdapter } = require('@/mocks/backend/axiosAdapter') as typeof import('@/mocks/backend/axiosAdapter');
+  const { readDebitAllowance } = require('@/services/transactionVerificationService') as typeof import('@/services/transactionVerificationService');
+  client.defaults.adapter = createMockAdapter(new MockBackend(verifyBytes, readDebitAllowance));
+}
+
+let authToken: string | null = null;
+
+/**
+ * Set the bearer token sent with every request, or null to stop sending one
+ */
+export const setAuthToken = (token: string | null) => {
+  authToken = token;
+};
+
+export const getAuthToken = () => authToken;
+
+let refreshHandler: (() => Promise<string | null>) | null = null;
+let refreshPromise: Promise<string | null> | null = null;
+
+/**
+ * Register how to get a new token when a request is rejected with a 401
+ * The handler resolves to the new token, or null if the session can't be renewed
+ */
+export const setTokenRefreshHandler = (handler: (() => Promise<string | null>) | null) => {
+  refreshHandler = handler;
+};
+
+// Requests that fail together share a single refresh
+const refreshAuthToken = (): Promise<string | null> => {
+  if (!refreshHandler) {
+    return Promise.resolve(null);
+  }
+  if (!refreshPromise) {
+    refreshPromise = refreshHandler()
+      .catch(() => null)
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+};
+
+client.interceptors.request.use((config) => {
+  if (authToken) {
+    config.headers.Authorization = `Bearer ${authToken}`;
+  }
+  return config;
+});
+
+// The backend reports some failures only through the message text
+const MESSAGE_CODES: Array<[RegExp, ApiErrorCode]> = [
+  [/insufficient funds/i, 'INSUFFICIENT_FUNDS'],
+  [/payment code not found/i, 'PAYMENT_NOT_FOUND'],
+  [/payment with id .* not found/i, 'PAYMENT_NOT_FOUND'],
+  [/transaction already fulfilled/i, 'PAYMENT_ALREADY_COMPLETED'],
+  [/payer already assigned/i, 'PAYMENT_ALREADY_ASSIGNED'],
+];
+
+const codeForStatus = (status: number, message: string): ApiErrorCode => {
+  if (status === 400) return 'VALIDATION_ERROR';
+  if (status === 401) return 'UNAUTHORIZED';
+  if (status === 403) return 'FORBIDDEN';
+  if (status === 404) return /user|wallet/i.test(message) ? 'USER_NOT_FOUND' : 'NOT_FOUND';
+  if (status === 409) return 'CONFLICT';
+  if (status >= 500) return 'SERVER_ERROR';
+  return 'UNKNOWN';
+};
+
+/**
+ * Convert anything thrown by a request into an ApiError
+ * @param error The error thrown by axios
+ */
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  if (axios.isAxiosError(error)) {
+    if (error.response) {
+      const { status } = error.response;
+      const data: any = error.response.data;
+      const message: string = data?.error?.message || data?.message
+        || (typeof data === 'string' && data) || error.message;
+      const matched = MESSAGE_CODES.find(([pattern]) => pattern.test(message));
+      const code = matched ? matched[1] : codeForStatus(status, message);
+      return new ApiError(code, message, status, data);
+    }
+
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+      return new ApiError('TIMEOUT', 'The request timed out. Please check your connection.');
+    }
+    return new ApiError('NETWORK_ERROR', 'No response received from server. Please check your connection.');
+  }
+
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  return new ApiError('UNKNOWN', message);
+};
+
+client.interceptors.response.use(
+  (response) => {
+    connectivity.reportOnline();
+    return response;
+  },
+  async (error) => {
+    const config = axios.isAxiosError(error) ? error.config : undefined;
+
+    // No response at all means we can't reach the backend
+    if (axios.isAxiosError(error)) {
+      if (error.response) {
+        connectivity.reportOnline();
+      } else {
+        connectivity.reportOffline();
+      }
+    }
+
+    // The session expired, renew it once and replay the request
+    if (config && error.response?.status === 401 && !config.skipAuthRefresh && !config.authRetried) {
+      config.authRetried = true;
+      const token = await refreshAuthToken();
+      if (token) {
+        config.headers.Authorization = `Bearer ${token}`;
+        return client(config);
+      }
+    }
+
+    return Promise.reject(toApiError(error));
+  }
+);
+
+/**
+ * Typed wrapper around the shared axios instance, resolving to the response body
+ */
+export const apiClient = {
+  get: async <T>(url: string, config?: AxiosRequestConfig): Promise<T> => {
+    const response = await client.get<T>(url, config);
+    return response.data;
+  },
+
+  post: async <T>(url: string, data?: unknown, config?: AxiosRequestConfig): Promise<T> => {
+    const response = await client.post<T>(url, data, config);
+    return response.data;
+  },
+
+  put: async <T>(url: string, data?: unknown, config?: AxiosRequestConfig): Promise<T> => {
+    const response = await client.put<T>(url, data, config);
+    return response.data;
+  },
+
+  delete: async <T>(url: string, config?: AxiosRequestConfig): Promise<T> => {
+    const response = await client.delete<T>(url, config);
+    return response.data;
+  },
+};
+
+export default apiClient;
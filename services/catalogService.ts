@@ -0,0 +1,68 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/**
+ * Something a vendor sells, kept on the device
+ */
+export interface CatalogItem {
+  id: string;
+  name: string;
+  price_usd: number;
+}
+
+const getStorageKey = (walletAddress: string) => `@catalog/items/${walletAddress}`;
+
+const newItemId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+/**
+ * A vendor's point-of-sale catalog, stored per wallet
+ */
+class CatalogService {
+  async getItems(walletAddress: string): Promise<CatalogItem[]> {
+    try {
+      const stored = await AsyncStorage.getItem(getStorageKey(walletAddress));
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Failed to load catalog:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Add an item, or update the one with the same id
+   * @returns The updated catalog
+   */
+  async saveItem(walletAddress: string, item: Omit<CatalogItem, 'id'> & { id?: string }): Promise<CatalogItem[]> {
+    const items = await this.getItems(walletAddress);
+    const saved: CatalogItem = { ...item, id: item.id || newItemId() };
+    const updated = items.some(existing => existing.id === saved.id)
+      ? items.map(existing => existing.id === saved.id ? saved : existing)
+      : [...items, saved];
+
+    await this.save(walletAddress, updated);
+    return updated;
+  }
+
+  /**
+   * @returns The updated catalog
+   */
+  async removeItem(walletAddress: string, itemId: string): Promise<CatalogItem[]> {
+    const updated = (await this.getItems(walletAddress)).filter(item => item.id !== itemId);
+    await this.save(walletAddress, updated);
+    return updated;
+  }
+
+  private async save(walletAddress: string, items: CatalogItem[]) {
+    try {
+      await AsyncStorage.setItem(getStorageKey(walletAddress), JSON.stringify(items));
+    } catch (error) {
+      console.error('Failed to save catalog:', error);
+      throw error;
+    }
+  }
+}
+
+// Export a singleton instance
+export const catalog = new CatalogService();
+
+// Also export the class for testing
+export { CatalogService };
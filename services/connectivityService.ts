@@ -0,0 +1,108 @@
+import { Platform } from 'react-native';
+import { API_URL, BACKEND_MODE } from '../config';
+
+type ConnectivityListener = (online: boolean) => void;
+
+const PROBE_INTERVAL = 15000;
+const PROBE_TIMEOUT = 5000;
+
+/**
+ * Tracks whether the backend can be reached
+ *
+ * Every API response marks us online and every network failure or timeout
+ * marks us offline. While offline the backend is probed periodically, so
+ * listeners hear about reconnection without having to keep retrying
+ * themselves. On web the browser's online and offline events are used too.
+ */
+class ConnectivityService {
+  private online = true;
+  private listeners = new Set<ConnectivityListener>();
+  private probeTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor() {
+    if (Platform.OS === 'web' && typeof window !== 'undefined') {
+      window.addEventListener('online', () => this.probe());
+      window.addEventListener('offline', () => this.reportOffline());
+    }
+  }
+
+  isOnline(): boolean {
+    return this.online;
+  }
+
+  /**
+   * Be told when the backend becomes reachable or unreachable
+   * @returns A function that removes the listener
+   */
+  subscribe(listener: ConnectivityListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // A request got a response, whatever its status
+  reportOnline() {
+    this.setOnline(true);
+  }
+
+  // A request got no response at all
+  reportOffline() {
+    // The in-process mock backend is always reachable
+    if (BACKEND_MODE === 'mock') return;
+    this.setOnline(false);
+  }
+
+  /**
+   * Check whether the backend can be reached right now
+   * Any HTTP response counts, only a network failure means offline
+   */
+  async probe(): Promise<boolean> {
+    if (BACKEND_MODE === 'mock') {
+      this.setOnline(true);
+      return true;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), PROBE_TIMEOUT);
+    try {
+      await fetch(API_URL, { method: 'HEAD', signal: controller.signal });
+      this.setOnline(true);
+    } catch (error) {
+      this.setOnline(false);
+    } finally {
+      clearTimeout(timeout);
+    }
+    return this.online;
+  }
+
+  private setOnline(online: boolean) {
+    if (online) {
+      this.stopProbing();
+    } else {
+      this.startProbing();
+    }
+
+    if (this.online === online) return;
+    this.online = online;
+    this.listeners.forEach(listener => listener(online));
+  }
+
+  private startProbing() {
+    if (this.probeTimer) return;
+    this.probeTimer = setInterval(() => this.probe(), PROBE_INTERVAL);
+  }
+
+  private stopProbing() {
+    if (this.probeTimer) {
+      clearInterval(this.probeTimer);
+      this.probeTimer = null;
+    }
+  }
+}
+
+// Export a singleton instance
+export const connectivity = new ConnectivityService();
+
+// Also export the class for testing
+export { ConnectivityService };
@@ -0,0 +1,67 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/**
+ * Someone this wallet sends to, kept on the device
+ */
+export interface Contact {
+  address: string;
+  name: string;
+  last_sent_at?: number;  // ms
+}
+
+const getStorageKey = (walletAddress: string) => `@contacts/${walletAddress}`;
+
+/**
+ * A wallet's saved recipients, most recently sent to first
+ */
+class ContactsService {
+  async getContacts(walletAddress: string): Promise<Contact[]> {
+    try {
+      const stored = await AsyncStorage.getItem(getStorageKey(walletAddress));
+      const contacts: Contact[] = stored ? JSON.parse(stored) : [];
+      return contacts.sort((a, b) => (b.last_sent_at || 0) - (a.last_sent_at || 0));
+    } catch (error) {
+      console.error('Failed to load contacts:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Add a contact, or update the one with the same address
+   * @returns The updated contacts
+   */
+  async saveContact(walletAddress: string, contact: Contact): Promise<Contact[]> {
+    const contacts = await this.getContacts(walletAddress);
+    const existing = contacts.find(saved => saved.address === contact.address);
+    const saved: Contact = { ...existing, ...contact, name: contact.name.trim() || existing?.name || '' };
+    const updated = [saved, ...contacts.filter(other => other.address !== contact.address)]
+      .sort((a, b) => (b.last_sent_at || 0) - (a.last_sent_at || 0));
+
+    await this.save(walletAddress, updated);
+    return updated;
+  }
+
+  /**
+   * @returns The updated contacts
+   */
+  async removeContact(walletAddress: string, address: string): Promise<Contact[]> {
+    const updated = (await this.getContacts(walletAddress)).filter(contact => contact.address !== address);
+    await this.save(walletAddress, updated);
+    return updated;
+  }
+
+  private async save(walletAddress: string, contacts: Contact[]) {
+    try {
+      await AsyncStorage.setItem(getStorageKey(walletAddress), JSON.stringify(contacts));
+    } catch (error) {
+      console.error('Failed to save contacts:', error);
+      throw error;
+    }
+  }
+}
+
+// Export a singleton instance
+export const contacts = new ContactsService();
+
+// Also export the class for testing
+export { ContactsService };
@@ -1,84 +1,164 @@
 import * as Crypto from 'expo-crypto';
+import * as SecureStore from 'expo-secure-store';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { gcm } from '@noble/ciphers/aes';
+import { Buffer } from 'buffer';
+import { storage } from './storageService';
+import { AUTH_KEYS } from '@/constants/storageKeys';
 
 /**
  * Encryption service for handling sensitive data encryption/decryption
- * 
- * NOTE: This is currently using a simplified implementation for demonstration.
- * In a production app, should use passkeys.
+ *
+ * Values are sealed with AES-256-GCM under a random per-install key that
+ * lives in SecureStore. Ciphertext is stored as a versioned envelope:
+ *
+ *   v1:<base64 nonce>:<base64 ciphertext + auth tag>
+ *
+ * Values written by the old mock implementation (`encrypted:<plaintext>`)
+ * and plain values are still readable so they can be migrated in place.
+ *
+ * The key never falls back to AsyncStorage: where SecureStore is missing
+ * (web) or fails, encryption fails rather than leaving the key in plain
+ * text next to the ciphertext it protects.
  */
 
-const ENCRYPTION_PREFIX = 'encrypted:';
-const ENCRYPTION_KEY_SALT = 'wallet-encryption-key';
+const ENVELOPE_VERSION = 'v1';
+const ENVELOPE_PREFIX = `${ENVELOPE_VERSION}:`;
+const LEGACY_PREFIX = 'encrypted:';
+const KEY_LENGTH = 32; // AES-256
+const NONCE_LENGTH = 12; // 96-bit GCM nonce
+
+const toBase64 = (bytes: Uint8Array) => Buffer.from(bytes).toString('base64');
+const fromBase64 = (value: string) => new Uint8Array(Buffer.from(value, 'base64'));
 
 class EncryptionService {
+  private keyPromise: Promise<Uint8Array> | null = null;
+
   /**
    * Encrypt sensitive data
    * @param data - The string data to encrypt
-   * @returns The encrypted data with a prefix
+   * @returns A versioned envelope holding the nonce and ciphertext
    */
   async encrypt(data: string): Promise<string> {
-    try {
-      // In a real implementation, use a proper encryption method
-      // This is a simplified mock for demonstration
-      const encryptionKey = await Crypto.digestStringAsync(
-        Crypto.CryptoDigestAlgorithm.SHA256,
-        ENCRYPTION_KEY_SALT
-      );
-      
-      // For a real app, use a proper encryption algorithm
-      // This is just a mock for demonstration purposes
-      return `${ENCRYPTION_PREFIX}${data}`;
-    } catch (error) {
-      console.error('Error encrypting data:', error);
-      // Fallback to unencrypted in case of error
-      // In production, you might want to throw the error instead
-      return data;
-    }
+    const key = await this.getKey();
+    const nonce = await Crypto.getRandomBytesAsync(NONCE_LENGTH);
+    const plaintext = new TextEncoder().encode(data);
+    const ciphertext = gcm(key, nonce).encrypt(plaintext);
+
+    return `${ENVELOPE_PREFIX}${toBase64(nonce)}:${toBase64(ciphertext)}`;
   }
 
   /**
    * Decrypt encrypted data
-   * @param encryptedData - The encrypted string to decrypt
+   * @param encryptedData - The envelope (or legacy value) to decrypt
    * @returns The decrypted data
+   * @throws If the envelope is malformed or fails authentication
    */
   async decrypt(encryptedData: string): Promise<string> {
-    // In a real implementation, use proper decryption
-    // This is a simplified mock for demonstration
-    
-    if (encryptedData.startsWith(ENCRYPTION_PREFIX)) {
-      return encryptedData.substring(ENCRYPTION_PREFIX.length);
+    if (encryptedData.startsWith(ENVELOPE_PREFIX)) {
+      const [, nonceB64, ciphertextB64] = encryptedData.split(':');
+      if (!nonceB64 || !ciphertextB64) {
+        throw new Error('Malformed encrypted value');
+      }
+
+      const key = await this.getKey();
+      const plaintext = gcm(key, fromBase64(nonceB64)).decrypt(fromBase64(ciphertextB64));
+      return new TextDecoder().decode(plaintext);
     }
-    
-    // Try other possible formats for backward compatibility
-    if (encryptedData.includes(':')) {
-      return encryptedData.substring(encryptedData.indexOf(':') + 1);
+
+    // Values written before real encryption was introduced
+    if (encryptedData.startsWith(LEGACY_PREFIX)) {
+      return encryptedData.substring(LEGACY_PREFIX.length);
     }
-    
-    // No encryption prefix found, return as is
+
+    // No envelope found, return as is
     return encryptedData;
   }
 
   /**
-   * Check if a string is encrypted
+   * Check if a string is encrypted with the current envelope format
    * @param data - The string to check
-   * @returns True if the data appears to be encrypted
    */
   isEncrypted(data: string): boolean {
-    return data.startsWith(ENCRYPTION_PREFIX) || data.includes(':');
+    return data.startsWith(ENVELOPE_PREFIX);
+  }
+
+  /**
+   * Check if a string was stored by the legacy mock or as plaintext
+   * and therefore needs to be re-encrypted
+   * @param data - The string to check
+   */
+  needsMigration(data: string): boolean {
+    return !this.isEncrypted(data);
+  }
+
+  /**
+   * Re-encrypt a stored secret in place if it is still in a legacy format
+   * @param key - The storage key holding the secret
+   * @returns True if the value was migrated
+   */
+  async migrateStoredValue(key: string): Promise<boolean> {
+    const stored = await storage.getItem(key, 'secure');
+    if (!stored || !this.needsMigration(stored)) {
+      return false;
+    }
+
+    const plaintext = await this.decrypt(stored);
+    const encrypted = await this.encrypt(plaintext);
+    await storage.setItem(key, encrypted, 'secure');
+    return true;
+  }
+
+  /**
+   * Load the per-install key from secure storage, creating it on first use
+   */
+  private getKey(): Promise<Uint8Array> {
+    if (!this.keyPromise) {
+      this.keyPromise = this.loadOrCreateKey().catch((error) => {
+        // Allow a later call to retry if storage was temporarily unavailable
+        this.keyPromise = null;
+        throw error;
+      });
+    }
+    return this.keyPromise;
+  }
+
+  private async loadOrCreateKey(): Promise<Uint8Array> {
+    if (!(await SecureStore.isAvailableAsync())) {
+      throw new Error('Secure storage is not available on this device');
+    }
+
+    // Read errors propagate: a missing key must never be confused with an unreadable one
+    let storedKey = await SecureStore.getItemAsync(AUTH_KEYS.ENCRYPTION_KEY);
+    if (!storedKey) {
+      storedKey = await this.takeFallbackKey();
+    }
+    if (storedKey) {
+      const key = fromBase64(storedKey);
+      if (key.length !== KEY_LENGTH) {
+        throw new Error('Stored encryption key is invalid');
+      }
+      return key;
+    }
+
+    const key = await Crypto.getRandomBytesAsync(KEY_LENGTH);
+    await SecureStore.setItemAsync(AUTH_KEYS.ENCRYPTION_KEY, toBase64(key));
+    return key;
   }
 
   /**
-   * Generate a secure encryption key (for future use)
-   * In a real implementation, this would generate a proper encryption key
+   * Move a key that an earlier storage fallback left in AsyncStorage into SecureStore,
+   * so values already sealed with it stay readable
    */
-  async generateKey(): Promise<string> {
-    // This would generate a proper encryption key
-    // For now, return a hash as a placeholder
-    const randomBytes = await Crypto.getRandomBytesAsync(32);
-    return Crypto.digestStringAsync(
-      Crypto.CryptoDigestAlgorithm.SHA256,
-      randomBytes.toString()
-    );
+  private async takeFallbackKey(): Promise<string | null> {
+    const fallbackKey = await AsyncStorage.getItem(AUTH_KEYS.ENCRYPTION_KEY);
+    if (!fallbackKey) {
+      return null;
+    }
+
+    await SecureStore.setItemAsync(AUTH_KEYS.ENCRYPTION_KEY, fallbackKey);
+    await AsyncStorage.removeItem(AUTH_KEYS.ENCRYPTION_KEY);
+    return fallbackKey;
   }
 }
 
@@ -90,4 +170,4 @@ export { EncryptionService };
 
 // Maintain backward compatibility with the old function names
 export const encryptData = (data: string) => encryptionService.encrypt(data);
-export const decryptData = (data: string) => encryptionService.decrypt(data);
\ No newline at end of file
+export const decryptData = (data: string) => encryptionService.decrypt(data);
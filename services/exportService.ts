@@ -0,0 +1,280 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { PaymentAPI } from './api';
+import { normalizePaymentStatus } from './paymentStateMachine';
+import type { Activity } from '@/types/api';
+import { formatBaseUnits, formatTokenValue } from '@/utils/tokenAmount';
+
+export type ExportFormat = 'csv' | 'json';
+export type ReportFormat = 'pdf' | 'html';
+
+/**
+ * Time window to export, in ms
+ * A null `from` exports everything up to `to`
+ */
+export interface ExportRange {
+  from: number | null;
+  to: number;
+}
+
+// One token moved by an activity
+export interface ExportTokenLine {
+  symbol: string;
+  token_key: string | null;
+  amount: string;
+}
+
+// One payment or deposit, flattened for bookkeeping
+export interface ExportRecord {
+  type: 'payment' | 'deposit';
+  id: string | null;
+  date: string;  // ISO 8601, UTC
+  direction: 'Sent' | 'Received';
+  status: string;
+  counterparty: string;
+  counterparty_address: string;
+  amount_usd: number;
+  tokens: ExportTokenLine[];
+}
+
+export interface ExportResult {
+  count: number;
+  fileName: string;
+}
+
+const PAGE_SIZE = 100;
+// Stop paging eventually, even on a very long history
+const MAX_PAGES = 50;
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+};
+
+const UTIS: Record<ExportFormat, string> = {
+  csv: 'public.comma-separated-values-text',
+  json: 'public.json',
+};
+
+const CSV_COLUMNS = [
+  'date',
+  'type',
+  'id',
+  'direction',
+  'status',
+  'counterparty',
+  'counterparty_address',
+  'amount_usd',
+  'tokens',
+] as const;
+
+/**
+ * Fetch every activity created inside the range, newest first
+ * History comes back newest first, so paging stops at the first page that
+ * reaches past the start of the range.
+ */
+export const fetchActivitiesInRange = async (walletAddress: string, range: ExportRange): Promise<Activity[]> => {
+  const activities: Activity[] = [];
+  let cursor: string | null = null;
+
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const response = await PaymentAPI.getTransactionHistory({
+      wallet_address: walletAddress,
+      limit: PAGE_SIZE,
+      cursor,
+    });
+    const pageActivities = response.activities || [];
+    activities.push(...pageActivities);
+
+    cursor = response.cursor || null;
+    const reachedStart = range.from !== null
+      && pageActivities.some(activity => activity.created_at * 1000 < range.from!);
+    if (!cursor || reachedStart) break;
+  }
+
+  return activities
+    .filter(activity => {
+      const at = activity.created_at * 1000;
+      return at <= range.to && (range.from === null || at >= range.from);
+    })
+    .sort((a, b) => b.created_at - a.created_at);
+};
+
+/**
+ * Flatten activities into export records
+ */
+export const toExportRecords = (activities: Activity[]): ExportRecord[] =>
+  activities.map(activity => {
+    const date = new Date(activity.created_at * 1000).toISOString();
+
+    if (activity.type === 'deposit') {
+      return {
+        type: 'deposit',
+        id: null,
+        date,
+        direction: 'Received',
+        status: 'Completed',
+        counterparty: 'Deposit',
+        counterparty_address: activity.wallet_address,
+        amount_usd: activity.amount_deposited_usd,
+        tokens: [{
+          symbol: activity.token_symbol,
+          token_key: null,
+          amount: formatBaseUnits(activity.amount_tokens_received, { symbol: activity.token_symbol, decimals: activity.token_decimals }),
+        }],
+      };
+    }
+
+    const isIncoming = activity.direction === 'Received';
+    return {
+      type: 'payment',
+      id: activity.payment_id,
+      date,
+      direction: activity.direction,
+      status: normalizePaymentStatus(activity.status) || activity.status,
+      counterparty: (isIncoming
+        ? activity.counterparty_username || activity.vendor_name
+        : activity.vendor_name || activity.counterparty_username) || '',
+      counterparty_address: activity.counterparty_address,
+      amount_usd: activity.price_usd,
+      tokens: (activity.computed_payment || []).map(payment => ({
+        symbol: payment.symbol,
+        token_key: payment.token_key,
+        amount: formatTokenValue(payment.amount_to_pay, payment),
+      })),
+    };
+  });
+
+// Quote fields that need it, and keep spreadsheets from running names as formulas
+const escapeCSV = (value: string) => {
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+/**
+ * One row per activity, with the token breakdown as "12.50 ABC; 3.00 DEF"
+ */
+export const toCSV = (records: ExportRecord[]): string => {
+  const rows = records.map(record => {
+    const fields: Record<typeof CSV_COLUMNS[number], string> = {
+      date: record.date,
+      type: record.type,
+      id: record.id || '',
+      direction: record.direction,
+      status: record.status,
+      counterparty: escapeCSV(record.counterparty),
+      counterparty_address: escapeCSV(record.counterparty_address),
+      amount_usd: record.amount_usd.toFixed(2),
+      tokens: escapeCSV(record.tokens.map(token => `${token.amount} ${token.symbol}`).join('; ')),
+    };
+    return CSV_COLUMNS.map(column => fields[column]).join(',');
+  });
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+export const toJSON = (records: ExportRecord[], walletAddress: string, range: ExportRange): string =>
+  JSON.stringify({
+    wallet_address: walletAddress,
+    from: range.from !== null ? new Date(range.from).toISOString() : null,
+    to: new Date(range.to).toISOString(),
+    exported_at: new Date().toISOString(),
+    records,
+  }, null, 2);
+
+const buildFileName = (range: ExportRange, format: ExportFormat) => {
+  const day = (at: number) => new Date(at).toISOString().slice(0, 10);
+  const span = range.from !== null ? `${day(range.from)}_to_${day(range.to)}` : `to_${day(range.to)}`;
+  return `index-wallet-activity_${span}.${format}`;
+};
+
+// Browsers have no share sheet for files, so download instead
+const downloadOnWeb = (contents: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Hand a file already on the device to the system share sheet
+ * @param uti - Uniform Type Identifier, used by iOS to pick share targets
+ * @throws Error if the device can't share files
+ */
+export const shareFile = async (uri: string, mimeType: string, uti: string, dialogTitle: string) => {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  await Sharing.shareAsync(uri, { mimeType, UTI: uti, dialogTitle });
+};
+
+/**
+ * Write text to a file in the cache directory and share it, or download it on web
+ * @throws Error if the file can't be written or shared
+ */
+export const shareTextFile = async (
+  contents: string,
+  fileName: string,
+  mimeType: string,
+  uti: string,
+  dialogTitle: string
+) => {
+  if (Platform.OS === 'web') {
+    downloadOnWeb(contents, fileName, mimeType);
+    return;
+  }
+
+  if (!FileSystem.cacheDirectory) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  const uri = `${FileSystem.cacheDirectory}${fileName}`;
+  await FileSystem.writeAsStringAsync(uri, contents, { encoding: FileSystem.EncodingType.UTF8 });
+  await shareFile(uri, mimeType, uti, dialogTitle);
+};
+
+/**
+ * Export a wallet's payments and deposits in the range and open the share sheet
+ * @throws Error if history can't be fetched or the file can't be shared
+ */
+export const exportActivities = async (
+  walletAddress: string,
+  range: ExportRange,
+  format: ExportFormat
+): Promise<ExportResult> => {
+  const records = toExportRecords(await fetchActivitiesInRange(walletAddress, range));
+  const contents = format === 'csv' ? toCSV(records) : toJSON(records, walletAddress, range);
+  const fileName = buildFileName(range, format);
+
+  await shareTextFile(contents, fileName, MIME_TYPES[format], UTIS[format], 'Export activity');
+  return { count: records.length, fileName };
+};
+
+/**
+ * Share an HTML report as is or printed to PDF
+ * On web the PDF goes through the browser's print dialog instead.
+ * @param baseName - File name without an extension
+ * @throws Error if the report can't be rendered or shared
+ */
+export const shareReport = async (html: string, baseName: string, format: ReportFormat) => {
+  if (format === 'html') {
+    await shareTextFile(html, `${baseName}.html`, 'text/html', 'public.html', 'Share report');
+    return;
+  }
+
+  if (Platform.OS === 'web') {
+    await Print.printAsync({ html });
+    return;
+  }
+
+  // Printed files get a random name, give it a readable one for the recipient
+  const { uri: printedUri } = await Print.printToFileAsync({ html });
+  const uri = `${FileSystem.cacheDirectory}${baseName}.pdf`;
+  await FileSystem.deleteAsync(uri, { idempotent: true });
+  await FileSystem.moveAsync({ from: printedUri, to: uri });
+  await shareFile(uri, 'application/pdf', 'com.adobe.pdf', 'Share report');
+};
@@ -0,0 +1,133 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PaymentAPI } from './api';
+import { isApiError } from './apiClient';
+import { normalizePaymentStatus } from './paymentStateMachine';
+import { normalizePaymentId } from '@/utils/paymentLink';
+import type { PaymentDetails, SignPaymentRequest } from '@/types/api';
+import type { PaymentStatus } from '@/types/payment';
+
+/**
+ * queued: signed and saved, waiting to reach the backend
+ * sending: a request is in flight
+ * failed: the backend turned it down, kept until the user retries or discards it
+ */
+export type OutboxState = 'queued' | 'sending' | 'failed';
+
+/**
+ * A signed payment kept on the device until the backend has it
+ */
+export interface OutboxEntry {
+  id: string;                    // Idempotency key, the same for every attempt
+  payment_id: string;
+  request: SignPaymentRequest;
+  vendor_name: string;
+  price_usd: number;
+  state: OutboxState;
+  attempts: number;
+  last_error?: string;
+  created_at: number;            // ms
+  updated_at: number;            // ms
+}
+
+export type OutboxSendResult =
+  | { outcome: 'sent'; response: PaymentDetails }
+  | { outcome: 'queued'; error: unknown }
+  | { outcome: 'rejected'; error: unknown };
+
+// Failures where the signature may or may not have arrived, so sending again is safe and worthwhile
+const RETRYABLE_CODES = new Set(['NETWORK_ERROR', 'TIMEOUT', 'SERVER_ERROR']);
+
+const getStorageKey = (walletAddress: string) => `@payments/outbox/${walletAddress}`;
+
+const newEntryId = (paymentId: string) =>
+  `${paymentId}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Signed payments saved before they're sent, so a dropped connection can't lose them
+ *
+ * Every attempt carries the entry's idempotency key, so the backend settles
+ * a payment once however many times it's resent.
+ */
+class PaymentOutboxService {
+  /**
+   * An entry that was mid-send when the app stopped is queued again
+   */
+  async getEntries(walletAddress: string): Promise<OutboxEntry[]> {
+    try {
+      const stored = await AsyncStorage.getItem(getStorageKey(walletAddress));
+      const entries: OutboxEntry[] = stored ? JSON.parse(stored) : [];
+      return entries.map(entry => entry.state === 'sending' ? { ...entry, state: 'queued' } : entry);
+    } catch (error) {
+      console.error('Failed to load payment outbox:', error);
+      return [];
+    }
+  }
+
+  async save(walletAddress: string, entries: OutboxEntry[]) {
+    try {
+      await AsyncStorage.setItem(getStorageKey(walletAddress), JSON.stringify(entries));
+    } catch (error) {
+      console.error('Failed to save payment outbox:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The payment ID is normalized here so status lookups can match it exactly
+   */
+  createEntry(request: SignPaymentRequest): OutboxEntry {
+    const now = Date.now();
+    const paymentId = normalizePaymentId(request.payment_id) ?? request.payment_id;
+    return {
+      id: newEntryId(paymentId),
+      payment_id: paymentId,
+      request,
+      vendor_name: request.vendor_name,
+      price_usd: request.price_usd,
+      state: 'queued',
+      attempts: 0,
+      created_at: now,
+      updated_at: now,
+    };
+  }
+
+  /**
+   * Send an entry once
+   * @returns sent, queued if it should be tried again later, or rejected by the backend
+   */
+  async send(entry: OutboxEntry): Promise<OutboxSendResult> {
+    try {
+      const response = await PaymentAPI.signPayment(entry.payment_id, entry.request, entry.id);
+      return { outcome: 'sent', response };
+    } catch (error) {
+      if (isApiError(error) && RETRYABLE_CODES.has(error.code)) {
+        return { outcome: 'queued', error };
+      }
+      return { outcome: 'rejected', error };
+    }
+  }
+
+  /**
+   * Where the backend has the given payments
+   * @returns Normalized status by normalized payment ID; payments it doesn't know are left out
+   */
+  async checkStatuses(paymentIds: string[]): Promise<Map<string, PaymentStatus>> {
+    const statuses = new Map<string, PaymentStatus>();
+    if (paymentIds.length === 0) return statuses;
+
+    const response = await PaymentAPI.batchCheckStatus(paymentIds);
+    for (const { payment_id, status } of response?.statuses || []) {
+      const normalized = normalizePaymentStatus(status);
+      if (normalized) {
+        statuses.set(normalizePaymentId(payment_id) ?? payment_id, normalized);
+      }
+    }
+    return statuses;
+  }
+}
+
+// Export a singleton instance
+export const paymentOutbox = new PaymentOutboxService();
+
+// Also export the class for testing
+export { PaymentOutboxService };
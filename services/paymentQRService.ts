@@ -0,0 +1,157 @@
+import { signMessage, verifyMessage } from '@/utils/cryptoUtils';
+import { requestExpiresAt } from './paymentStateMachine';
+import { getPrivateKey } from './transactionSigningService';
+import type { Transaction } from '@/types/payment';
+
+export const PAYMENT_QR_VERSION = 1;
+
+/**
+ * What a vendor's payment QR says, signed with the vendor's key
+ * vendor_address is the vendor's ed25519 public key, so the signature proves who made the code
+ */
+export interface PaymentQRPayload {
+  v: number;
+  id: string;
+  vendor_address: string;
+  vendor_name: string;
+  amount_usd: string;   // Two decimal places
+  expires_at: number;   // Seconds
+  sig: string;          // Base58 ed25519 signature of paymentQRMessage
+}
+
+/**
+ * A scanned QR: either a signed payload that checked out, or anything else
+ * (a bare payment code or a payment link) to be read as before
+ */
+export type ScannedPaymentQR =
+  | { kind: 'signed'; payload: PaymentQRPayload }
+  | { kind: 'plain'; data: string };
+
+/**
+ * Thrown when a QR claims to be a signed payment but can't be trusted
+ */
+export class PaymentQRError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaymentQRError';
+  }
+}
+
+/**
+ * The exact text that's signed, the same for every field order the JSON arrives in
+ */
+const paymentQRMessage = (payload: Omit<PaymentQRPayload, 'sig'>) => JSON.stringify([
+  'index-wallet-payment-qr',
+  payload.v,
+  payload.id,
+  payload.vendor_address,
+  payload.vendor_name,
+  payload.amount_usd,
+  payload.expires_at,
+]);
+
+/**
+ * Build the QR contents for a payment request, signed with the active wallet's key
+ * Falls back to the bare payment ID if the key isn't available
+ * @param request The vendor's open request
+ * @param privateKey Optional private key, encrypted or plain
+ */
+export const createPaymentQR = async (request: Transaction, privateKey?: string): Promise<string> => {
+  const key = await getPrivateKey(privateKey);
+  if (!key) {
+    return request.payment_id;
+  }
+
+  const payload: Omit<PaymentQRPayload, 'sig'> = {
+    v: PAYMENT_QR_VERSION,
+    id: request.payment_id,
+    vendor_address: request.vendor_address,
+    vendor_name: request.vendor_name,
+    amount_usd: Number(request.price_usd).toFixed(2),
+    expires_at: Math.floor(requestExpiresAt(request) / 1000),
+  };
+
+  try {
+    const sig = await signMessage(paymentQRMessage(payload), key);
+    return JSON.stringify({ ...payload, sig });
+  } catch (error) {
+    console.error('Failed to sign payment QR:', error);
+    return request.payment_id;
+  }
+};
+
+/**
+ * Read a scanned QR, checking the vendor's signature if it carries one
+ * @throws PaymentQRError if it looks like a signed payload but is malformed, from
+ * an unsupported version, or its signature doesn't match the vendor
+ */
+export const readPaymentQR = async (data: string): Promise<ScannedPaymentQR> => {
+  const trimmed = data.trim();
+  if (!trimmed.startsWith('{')) {
+    return { kind: 'plain', data: trimmed };
+  }
+
+  let payload: PaymentQRPayload;
+  try {
+    payload = JSON.parse(trimmed);
+  } catch (error) {
+    throw new PaymentQRError('This QR code could not be read');
+  }
+
+  if (payload?.v !== PAYMENT_QR_VERSION) {
+    throw new PaymentQRError('This QR code was made by a newer version of the app. Please update to pay it.');
+  }
+
+  const wellFormed = typeof payload.id === 'string' && payload.id !== ''
+    && typeof payload.vendor_address === 'string'
+    && typeof payload.vendor_name === 'string'
+    && typeof payload.amount_usd === 'string' && /^\d+\.\d{2}$/.test(payload.amount_usd)
+    && Number.isInteger(payload.expires_at)
+    && typeof payload.sig === 'string';
+  if (!wellFormed) {
+    throw new PaymentQRError('This QR code is missing payment details');
+  }
+
+  let verified = false;
+  try {
+    const { sig, ...signed } = payload;
+    verified = await verifyMessage(paymentQRMessage(signed), sig, payload.vendor_address);
+  } catch (error) {
+    verified = false;
+  }
+  if (!verified) {
+    throw new PaymentQRError(`This QR code's signature doesn't match ${payload.vendor_name || 'the vendor'}. It may have been tampered with.`);
+  }
+
+  return { kind: 'signed', payload };
+};
+
+/**
+ * Compare a signed QR with the request the backend returned for it
+ * @returns Every difference, worded for the payer; empty if they agree
+ */
+export const paymentQRMismatches = (
+  payload: PaymentQRPayload,
+  payment: { payment_id: string; vendor_address: string; vendor_name?: string; price_usd: number },
+  now: number = Date.now()
+): string[] => {
+  const mismatches: string[] = [];
+
+  if (payload.id.toUpperCase() !== payment.payment_id.toUpperCase()) {
+    mismatches.push('The payment code is different from the one in the QR');
+  }
+  if (payload.vendor_address !== payment.vendor_address) {
+    mismatches.push(`The money goes to a different wallet than the one that signed the QR (${payload.vendor_name})`);
+  }
+  if (payment.vendor_name && payload.vendor_name.trim().toLowerCase() !== payment.vendor_name.trim().toLowerCase()) {
+    mismatches.push(`The QR was signed by "${payload.vendor_name}" but the request is from "${payment.vendor_name}"`);
+  }
+  if (payload.amount_usd !== Number(payment.price_usd).toFixed(2)) {
+    mismatches.push(`The QR showed $${payload.amount_usd} but the request is for $${Number(payment.price_usd).toFixed(2)}`);
+  }
+  if (payload.expires_at * 1000 < now) {
+    mismatches.push('The QR code has expired');
+  }
+
+  return mismatches;
+};
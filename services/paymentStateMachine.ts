@@ -0,0 +1,135 @@
+import { PaymentStatus } from '@/types/payment';
+import type { PaymentTransition, Transaction } from '@/types/payment';
+
+// Every spelling of each status the backend and older caches have used
+const STATUS_ALIASES: Record<string, PaymentStatus> = {
+  created: PaymentStatus.Created,
+  pending: PaymentStatus.Created,
+  assigned: PaymentStatus.Assigned,
+  completed: PaymentStatus.Completed,
+  success: PaymentStatus.Completed,
+  confirmed: PaymentStatus.Completed,
+  failed: PaymentStatus.Failed,
+  error: PaymentStatus.Failed,
+  cancelled: PaymentStatus.Cancelled,
+  canceled: PaymentStatus.Cancelled,
+  expired: PaymentStatus.Expired,
+};
+
+/**
+ * Statuses a payment may move to from each status
+ * Updates can skip a step (a request can be paid before we ever see it
+ * assigned) but never go backwards, and terminal statuses are final.
+ */
+const TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  [PaymentStatus.Created]: [
+    PaymentStatus.Assigned,
+    PaymentStatus.Completed,
+    PaymentStatus.Failed,
+    PaymentStatus.Cancelled,
+    PaymentStatus.Expired,
+  ],
+  [PaymentStatus.Assigned]: [
+    PaymentStatus.Completed,
+    PaymentStatus.Failed,
+    PaymentStatus.Cancelled,
+    PaymentStatus.Expired,
+  ],
+  [PaymentStatus.Completed]: [],
+  [PaymentStatus.Failed]: [],
+  [PaymentStatus.Cancelled]: [],
+  [PaymentStatus.Expired]: [],
+};
+
+/**
+ * Maps a status as reported by the backend onto PaymentStatus
+ * @returns null for a status we don't know
+ */
+export const normalizePaymentStatus = (status: string | null | undefined): PaymentStatus | null => {
+  if (!status) return null;
+  return STATUS_ALIASES[status.trim().toLowerCase()] ?? null;
+};
+
+export const isPendingStatus = (status: string): boolean => {
+  const normalized = normalizePaymentStatus(status);
+  return normalized === PaymentStatus.Created || normalized === PaymentStatus.Assigned;
+};
+
+export const isTerminalStatus = (status: string): boolean => {
+  const normalized = normalizePaymentStatus(status);
+  return normalized !== null && TRANSITIONS[normalized].length === 0;
+};
+
+export const isCompletedStatus = (status: string): boolean =>
+  normalizePaymentStatus(status) === PaymentStatus.Completed;
+
+// Cancelled and expired requests never moved any money
+export const isVoidedStatus = (status: string): boolean => {
+  const normalized = normalizePaymentStatus(status);
+  return normalized === PaymentStatus.Cancelled || normalized === PaymentStatus.Expired;
+};
+
+// How long the backend keeps an unpaid request open when it doesn't say
+export const DEFAULT_REQUEST_TTL = 15 * 60 * 1000;
+
+/**
+ * When an unpaid request stops being payable, in ms
+ */
+export const requestExpiresAt = (transaction: Transaction): number => {
+  if (transaction.expires_at) {
+    return transaction.expires_at < 10000000000 ? transaction.expires_at * 1000 : transaction.expires_at;
+  }
+  const createdAt = transaction.created_at < 10000000000 ? transaction.created_at * 1000 : transaction.created_at;
+  return createdAt + DEFAULT_REQUEST_TTL;
+};
+
+export const canTransition = (from: PaymentStatus, to: PaymentStatus): boolean =>
+  from === to || TRANSITIONS[from].includes(to);
+
+/**
+ * Starts tracking a payment in the status the backend reported
+ * @param transaction - The payment as returned by the backend
+ * @param fallback - Status to use if the backend's one isn't recognized
+ */
+export const startPayment = (
+  transaction: Transaction,
+  fallback: PaymentStatus = PaymentStatus.Created,
+  at: number = Date.now()
+): Transaction => {
+  const status = normalizePaymentStatus(transaction.status) ?? fallback;
+  return {
+    ...transaction,
+    status,
+    status_history: [{ status, at }],
+  };
+};
+
+/**
+ * Applies an update to a tracked payment
+ * Unknown statuses and illegal transitions (stale or out of order updates) are
+ * rejected, so a payment can never move backwards.
+ * @param current - The payment as we know it
+ * @param update - Latest details, from a status push, poll or local action
+ * @returns The updated payment, or null if the update was rejected
+ */
+export const applyPaymentUpdate = (
+  current: Transaction,
+  update: Partial<Transaction> & { status: string },
+  at: number = Date.now()
+): Transaction | null => {
+  const from = normalizePaymentStatus(current.status);
+  const to = normalizePaymentStatus(update.status);
+  if (!from || !to || !canTransition(from, to)) {
+    return null;
+  }
+
+  // Backend timestamps are in seconds
+  const createdAt = current.created_at < 10000000000 ? current.created_at * 1000 : current.created_at;
+  const history: PaymentTransition[] = current.status_history || [{ status: from, at: createdAt }];
+  return {
+    ...current,
+    ...update,
+    status: to,
+    status_history: from === to ? history : [...history, { status: to, at }],
+  };
+};
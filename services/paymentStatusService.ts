@@ -0,0 +1,277 @@
+import { API_URL, BACKEND_MODE } from '../config';
+import { PaymentAPI } from './api';
+import { getAuthToken } from './apiClient';
+import type { PaymentDetails } from '@/types/api';
+
+type StatusListener = (payment: PaymentDetails) => void;
+type ConnectionListener = (connected: boolean) => void;
+
+export interface StatusSubscriptionOptions {
+  /**
+   * How long to wait before polling again while the socket is down
+   * Return null to stop polling; pushed updates still arrive once reconnected
+   */
+  pollInterval?: () => number | null;
+}
+
+interface Subscription {
+  paymentId: string;
+  listener: StatusListener;
+  pollInterval: () => number | null;
+}
+
+// Message pushed by the backend for every payment status change
+interface PaymentStatusEvent {
+  type: 'payment_status';
+  event_id: string;
+  payment: PaymentDetails;
+}
+
+const DEFAULT_POLL_INTERVAL = 5000;
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
+
+/**
+ * Push-based payment status updates
+ *
+ * Keeps a single WebSocket open while anything is subscribed and closes it when
+ * the last subscriber leaves. Reconnects with exponential backoff and resumes
+ * from the last event received, so no transition is missed. While the socket
+ * is down each subscription falls back to polling at the interval it asks for.
+ */
+class PaymentStatusService {
+  private subscriptions = new Map<string, Set<Subscription>>();
+  private pollTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private connectionListeners = new Set<ConnectionListener>();
+  private socket: WebSocket | null = null;
+  private connected = false;
+  private lastEventId: string | null = null;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Receive every status update for a payment
+   * The current status is fetched straight away
+   * @param paymentId - The payment to follow
+   * @param listener - Called with the latest payment details
+   * @returns A function that ends the subscription
+   */
+  subscribe(paymentId: string, listener: StatusListener, options: StatusSubscriptionOptions = {}): () => void {
+    const subscription: Subscription = {
+      paymentId,
+      listener,
+      pollInterval: options.pollInterval || (() => DEFAULT_POLL_INTERVAL),
+    };
+
+    const existing = this.subscriptions.get(paymentId);
+    this.subscriptions.set(paymentId, new Set([...(existing || []), subscription]));
+
+    if (!existing) {
+      this.send({ type: 'subscribe', payment_ids: [paymentId] });
+    }
+    this.connect();
+    this.poll(paymentId);
+
+    return () => this.unsubscribe(subscription);
+  }
+
+  /**
+   * Be told when the live connection opens or drops
+   * @returns A function that removes the listener
+   */
+  onConnectionChange(listener: ConnectionListener): () => void {
+    this.connectionListeners.add(listener);
+    return () => {
+      this.connectionListeners.delete(listener);
+    };
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  private unsubscribe(subscription: Subscription) {
+    const { paymentId } = subscription;
+    const subscribers = this.subscriptions.get(paymentId);
+    if (!subscribers) return;
+
+    subscribers.delete(subscription);
+    if (subscribers.size > 0) return;
+
+    this.subscriptions.delete(paymentId);
+    this.clearPoll(paymentId);
+    this.send({ type: 'unsubscribe', payment_ids: [paymentId] });
+
+    // Nothing left to follow, so don't keep the radio awake
+    if (this.subscriptions.size === 0) {
+      this.disconnect();
+    }
+  }
+
+  private dispatch(payment: PaymentDetails) {
+    const subscribers = this.subscriptions.get(payment.payment_id);
+    if (!subscribers) return;
+
+    for (const subscription of [...subscribers]) {
+      try {
+        subscription.listener(payment);
+      } catch (error) {
+        console.error('Payment status listener failed:', error);
+      }
+    }
+  }
+
+  // ——— Polling fallback ———
+
+  private async poll(paymentId: string) {
+    this.clearPoll(paymentId);
+
+    try {
+      const payment = await PaymentAPI.getPaymentStatus(paymentId);
+      if (payment) {
+        this.dispatch(payment);
+      }
+    } catch (error) {
+      console.error(`Failed to poll payment ${paymentId}:`, error);
+    }
+
+    if (!this.connected) {
+      this.schedulePoll(paymentId);
+    }
+  }
+
+  // Poll as often as the most eager subscriber asks
+  private schedulePoll(paymentId: string) {
+    const subscribers = this.subscriptions.get(paymentId);
+    if (!subscribers || this.pollTimers.has(paymentId)) return;
+
+    const intervals = [...subscribers]
+      .map(subscription => subscription.pollInterval())
+      .filter((interval): interval is number => interval !== null);
+    if (intervals.length === 0) return;
+
+    this.pollTimers.set(paymentId, setTimeout(() => {
+      this.pollTimers.delete(paymentId);
+      this.poll(paymentId);
+    }, Math.min(...intervals)));
+  }
+
+  private clearPoll(paymentId: string) {
+    const timer = this.pollTimers.get(paymentId);
+    if (timer) {
+      clearTimeout(timer);
+      this.pollTimers.delete(paymentId);
+    }
+  }
+
+  // ——— Socket ———
+
+  private getSocketUrl(): string {
+    // The session token is sent in the first message, never in the URL where proxies would log it
+    const params: string[] = [];
+    if (this.lastEventId) params.push(`last_event_id=${encodeURIComponent(this.lastEventId)}`);
+
+    const base = `${API_URL.replace(/^http/, 'ws')}/api/payments/events`;
+    return params.length > 0 ? `${base}?${params.join('&')}` : base;
+  }
+
+  private connect() {
+    // The in-process mock backend has no socket, it is served by polling
+    if (this.socket || this.reconnectTimer || BACKEND_MODE === 'mock' || typeof WebSocket === 'undefined') {
+      return;
+    }
+    if (this.subscriptions.size === 0) return;
+
+    const socket = new WebSocket(this.getSocketUrl());
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.setConnected(true);
+
+      // Authenticate before anything else is sent on the socket
+      const token = getAuthToken();
+      if (token) {
+        this.send({ type: 'auth', token });
+      }
+
+      // Pushes take over from polling
+      for (const paymentId of [...this.pollTimers.keys()]) {
+        this.clearPoll(paymentId);
+      }
+      this.send({ type: 'subscribe', payment_ids: [...this.subscriptions.keys()] });
+    };
+
+    socket.onmessage = (event) => {
+      try {
+        const message = JSON.parse(event.data) as PaymentStatusEvent;
+        if (message.type === 'payment_status' && message.payment) {
+          this.lastEventId = message.event_id || this.lastEventId;
+          this.dispatch(message.payment);
+        }
+      } catch (error) {
+        console.error('Unreadable payment status event:', error);
+      }
+    };
+
+    socket.onerror = () => {
+      socket.close();
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.setConnected(false);
+
+      // Keep subscribers up to date while we reconnect
+      for (const paymentId of this.subscriptions.keys()) {
+        this.schedulePoll(paymentId);
+      }
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect() {
+    if (this.reconnectTimer || this.subscriptions.size === 0) return;
+
+    const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** this.reconnectAttempts, RECONNECT_MAX_DELAY);
+    this.reconnectAttempts += 1;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private disconnect() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectAttempts = 0;
+
+    const socket = this.socket;
+    this.socket = null;
+    if (socket) {
+      socket.close();
+    }
+    this.setConnected(false);
+  }
+
+  private send(message: object) {
+    if (this.socket && this.connected) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private setConnected(connected: boolean) {
+    if (this.connected === connected) return;
+    this.connected = connected;
+    this.connectionListeners.forEach(listener => listener(connected));
+  }
+}
+
+// Export a singleton instance
+export const paymentStatusService = new PaymentStatusService();
+
+// Also export the class for testing
+export { PaymentStatusService };
@@ -0,0 +1,218 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PaymentAPI } from './api';
+import { isCompletedStatus } from './paymentStateMachine';
+import type { Activity } from '@/types/api';
+import { fromBaseUnits, getTokenDecimals, parseTokenAmountFor, tokenAmountToNumber } from '@/utils/tokenAmount';
+
+/**
+ * Portfolio value at one moment
+ * `balances` holds the amount of each token by symbol
+ */
+export interface PortfolioPoint {
+  at: number;  // ms
+  totalValueUSD: number;
+  balances: Record<string, number>;
+  // Rebuilt from history rather than observed
+  backfilled?: boolean;
+}
+
+// What the service needs to know about each held token
+export interface PortfolioToken {
+  symbol: string;
+  amount: number;
+  valueUSD: number;
+  decimals: number;
+}
+
+interface StoredHistory {
+  points: PortfolioPoint[];
+  backfilled: PortfolioPoint[];
+}
+
+const getStorageKey = (walletAddress: string) => `@portfolio/history/${walletAddress}`;
+
+// Keep a point at most this often when nothing has changed
+const MIN_POINT_INTERVAL = 60 * 60 * 1000;
+const MAX_POINTS = 1000;
+const BACKFILL_PAGE_SIZE = 100;
+// Stop replaying after this many pages, older activity is left out of the chart
+const BACKFILL_MAX_PAGES = 20;
+
+const EMPTY_HISTORY: StoredHistory = { points: [], backfilled: [] };
+
+/**
+ * Records a local time series of balances and total portfolio value
+ *
+ * A point is recorded each time balances refresh. The first time a wallet is
+ * seen its history is backfilled by replaying completed payments and deposits
+ * backwards from the current balances. Past values use today's market price,
+ * since historical prices aren't available.
+ */
+class PortfolioHistoryService {
+  // Wallets whose backfill is running or done in this session
+  private backfilling = new Set<string>();
+
+  /**
+   * The stored series for a wallet, oldest first
+   * Backfilled points only cover the time before the first recorded one
+   */
+  async getHistory(walletAddress: string): Promise<PortfolioPoint[]> {
+    const { points, backfilled } = await this.load(walletAddress);
+    const firstRecorded = points.length > 0 ? points[0].at : Infinity;
+    return [...backfilled.filter(point => point.at < firstRecorded), ...points];
+  }
+
+  /**
+   * Record the balances just fetched for a wallet
+   * @returns The updated series
+   */
+  async record(walletAddress: string, tokens: PortfolioToken[]): Promise<PortfolioPoint[]> {
+    const history = await this.load(walletAddress);
+    const point = toPoint(tokens, Date.now());
+
+    // Skip the point if nothing moved since the last one, unless it's been a while
+    const last = history.points[history.points.length - 1];
+    if (!last || !sameBalances(last, point) || point.at - last.at >= MIN_POINT_INTERVAL) {
+      history.points = [...history.points, point].slice(-MAX_POINTS);
+      await this.save(walletAddress, history);
+    }
+
+    if (history.backfilled.length === 0 && !this.backfilling.has(walletAddress)) {
+      await this.backfill(walletAddress, tokens);
+    }
+
+    return this.getHistory(walletAddress);
+  }
+
+  /**
+   * Rebuild past balances by undoing each completed activity, newest first
+   */
+  private async backfill(walletAddress: string, tokens: PortfolioToken[]) {
+    this.backfilling.add(walletAddress);
+
+    try {
+      const activities: Activity[] = [];
+      let cursor: string | null = null;
+      for (let page = 0; page < BACKFILL_MAX_PAGES; page++) {
+        const response = await PaymentAPI.getTransactionHistory({
+          wallet_address: walletAddress,
+          limit: BACKFILL_PAGE_SIZE,
+          cursor,
+        });
+        activities.push(...(response.activities || []));
+
+        cursor = response.cursor || null;
+        if (!cursor) break;
+      }
+      activities.sort((a, b) => b.created_at - a.created_at);
+      if (activities.length === 0) return;
+
+      const prices: Record<string, number> = {};
+      const balances: Record<string, number> = {};
+      const decimals: Record<string, number> = {};
+      for (const token of tokens) {
+        prices[token.symbol] = token.amount > 0 ? token.valueUSD / token.amount : 0;
+        balances[token.symbol] = token.amount;
+        decimals[token.symbol] = token.decimals;
+      }
+
+      const backfilled: PortfolioPoint[] = [];
+      for (const activity of activities) {
+        const changes = activityChanges(activity, decimals);
+        if (!changes) continue;
+
+        // Balances right after this activity
+        backfilled.push(valuePoint(balances, prices, activity.created_at * 1000));
+
+        for (const [symbol, change] of Object.entries(changes)) {
+          balances[symbol] = Math.max(0, (balances[symbol] || 0) - change);
+        }
+      }
+
+      // ...and before the oldest one
+      const oldest = activities[activities.length - 1];
+      backfilled.push(valuePoint(balances, prices, oldest.created_at * 1000 - 1));
+
+      const history = await this.load(walletAddress);
+      history.backfilled = backfilled.reverse();
+      await this.save(walletAddress, history);
+    } catch (error) {
+      // Try again on the next refresh
+      this.backfilling.delete(walletAddress);
+      console.error('Failed to backfill portfolio history:', error);
+    }
+  }
+
+  private async load(walletAddress: string): Promise<StoredHistory> {
+    try {
+      const stored = await AsyncStorage.getItem(getStorageKey(walletAddress));
+      return stored ? { ...EMPTY_HISTORY, ...JSON.parse(stored) } : { ...EMPTY_HISTORY };
+    } catch (error) {
+      console.error('Failed to load portfolio history:', error);
+      return { ...EMPTY_HISTORY };
+    }
+  }
+
+  private async save(walletAddress: string, history: StoredHistory) {
+    try {
+      await AsyncStorage.setItem(getStorageKey(walletAddress), JSON.stringify(history));
+    } catch (error) {
+      console.error('Failed to save portfolio history:', error);
+    }
+  }
+}
+
+const toPoint = (tokens: PortfolioToken[], at: number): PortfolioPoint => ({
+  at,
+  totalValueUSD: tokens.reduce((sum, token) => sum + token.valueUSD, 0),
+  balances: Object.fromEntries(tokens.map(token => [token.symbol, token.amount])),
+});
+
+const valuePoint = (balances: Record<string, number>, prices: Record<string, number>, at: number): PortfolioPoint => ({
+  at,
+  totalValueUSD: Object.entries(balances).reduce((sum, [symbol, amount]) => sum + amount * (prices[symbol] || 0), 0),
+  balances: { ...balances },
+  backfilled: true,
+});
+
+const sameBalances = (a: PortfolioPoint, b: PortfolioPoint) => {
+  const symbols = new Set([...Object.keys(a.balances), ...Object.keys(b.balances)]);
+  return [...symbols].every(symbol => (a.balances[symbol] || 0) === (b.balances[symbol] || 0));
+};
+
+/**
+ * How much of each token an activity added to the wallet, or null if it moved nothing
+ * @param decimals - Precision of each held token by symbol, for activity that doesn't carry its own
+ * @throws Error if a token's precision is unknown
+ */
+const activityChanges = (activity: Activity, decimals: Record<string, number>): Record<string, number> | null => {
+  if (activity.type === 'deposit') {
+    if (activity.status && !isCompletedStatus(activity.status)) {
+      return null;
+    }
+    const precision = getTokenDecimals({
+      symbol: activity.token_symbol,
+      decimals: activity.token_decimals ?? decimals[activity.token_symbol],
+    });
+    return { [activity.token_symbol]: tokenAmountToNumber(fromBaseUnits(activity.amount_tokens_received, precision)) };
+  }
+
+  if (!isCompletedStatus(activity.status) || !activity.computed_payment?.length) {
+    return null;
+  }
+
+  const sign = activity.direction === 'Received' ? 1 : -1;
+  const changes: Record<string, number> = {};
+  for (const payment of activity.computed_payment) {
+    const precision = { ...payment, decimals: payment.decimals ?? decimals[payment.symbol] };
+    const amount = tokenAmountToNumber(parseTokenAmountFor(payment.amount_to_pay, precision));
+    changes[payment.symbol] = (changes[payment.symbol] || 0) + sign * amount;
+  }
+  return changes;
+};
+
+// Export a singleton instance
+export const portfolioHistory = new PortfolioHistoryService();
+
+// Also export the class for testing
+export { PortfolioHistoryService };
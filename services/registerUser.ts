@@ -1,26 +1,12 @@
-import axios from 'axios';
-import { Platform } from 'react-native';
-import Constants from 'expo-constants';
-import { API_URL } from '../config';
-
-// Create axios instance with default config
-const api = axios.create({
-  baseURL: API_URL,
-  headers: {
-    'Content-Type': 'application/json',
-    'Accept': 'application/json',
-    'X-Client-Platform': Platform.OS,
-    'X-Client-Version': Constants.expoConfig?.version || '1.0.0',
-  },
-  timeout: 10000,
-});
+import { apiClient } from './apiClient';
+import type { RegisterUserRequest, RegisteredUser, RegisterWalletRequest, UserPreferences, WalletData } from '@/types/api';
 
 // User registration API
 export const registerUser = async (userData: {
   walletAddress: string;
   username: string;
   userType?: 'vendor' | 'customer';
-  preferences?: any;
+  preferences?: UserPreferences;
   isVerified?: boolean;
   vendorDescription?: string;
   vendorGoogleMapsLink?: string;
@@ -30,10 +16,10 @@ export const registerUser = async (userData: {
   username: '',
   userType: 'customer',
   isVerified: true,
-}) => {
+}): Promise<RegisteredUser> => {
   try {
     // Convert camelCase to snake_case for the Rust backend
-    const backendData: any = {
+    const backendData: RegisterUserRequest = {
       wallet_address: userData.walletAddress,
       username: userData.username,
       user_type: userData.userType || 'customer',
@@ -58,8 +44,7 @@ export const registerUser = async (userData: {
       }
     }
 
-    const response = await api.post('/api/users', backendData);
-    return response.data;
+    return await apiClient.post<RegisteredUser>('/api/users', backendData);
   } catch (error: any) {
     // console.error('Error registering user:', error.response?.data || error.message);
     throw error;
@@ -77,7 +62,7 @@ export const registerWallet = async (walletData: {
 }) => {
   try {
     // Convert camelCase to snake_case for the Rust backend
-    const backendData = {
+    const backendData: RegisterWalletRequest = {
       wallet_address: walletData.walletAddress,
       user_id: walletData.userId,
       wallet_type: walletData.walletType,
@@ -85,56 +70,9 @@ export const registerWallet = async (walletData: {
       has_biometrics: walletData.hasBiometrics
     };
     
-    const response = await api.post('/api/wallets', backendData);
-    return response.data;
+    return await apiClient.post<WalletData>('/api/wallets', backendData);
   } catch (error: any) {
     // console.error('Error registering wallet:', error.response?.data || error.message);
     throw error;
   }
 };
-
-// Transaction API functions
-export const createTransaction = async (transactionData: {
-  fromWallet: string;
-  toWallet: string;
-  amount: number;
-  currency: string;
-  signature: string;
-}) => {
-  try {
-    // Convert camelCase to snake_case for the Rust backend
-    const backendData = {
-      from_wallet: transactionData.fromWallet,
-      to_wallet: transactionData.toWallet,
-      amount: transactionData.amount,
-      currency: transactionData.currency,
-      signature: transactionData.signature
-    };
-    
-    // console.log('Sending transaction data:', backendData);
-    
-    // Try without the /api prefix
-    const response = await api.post('/transactions', backendData);
-    return response.data;
-  } catch (error: any) {
-    // console.error('Error creating transaction:', error.response?.data || error.message);
-    throw error;
-  }
-};
-
-// Error handling interceptor
-api.interceptors.response.use(
-  (response: any) => response,
-  (error: any) => {
-    if (error.response) {
-      // console.log('API Error:', error.response.status, error.response.data);
-    } else if (error.request) {
-      // console.log('Network Error:', error.request);
-    } else {
-      // console.log('Error:', error.message);
-    }
-    return Promise.reject(error);
-  }
-);
-
-export default api;
@@ -0,0 +1,134 @@
+import { storage } from './storageService';
+import { setAuthToken, setTokenRefreshHandler } from './apiClient';
+import { UserAPI } from './api';
+import { getPrivateKey } from './transactionSigningService';
+import { signMessage } from '@/utils/cryptoUtils';
+import { AUTH_KEYS, getWalletKey } from '@/constants/storageKeys';
+
+/**
+ * Backend session for the active wallet
+ *
+ * The wallet proves ownership by signing a one-time nonce from the backend and
+ * gets a bearer token back. The signed text is always built here, never taken
+ * from the backend, so the key can't be used to sign anything but a login.
+ * The token is stored per wallet along with the address it was issued to, and
+ * sent with every API request; when a request is rejected with a 401, or the
+ * wallet's active account changes address, the wallet signs in again.
+ */
+const SIGN_IN_DOMAIN = 'index-wallet-login';
+
+/**
+ * A token as stored, with the address it was issued to
+ */
+interface StoredSession {
+  token: string;
+  walletAddress: string;
+}
+
+const parseStoredSession = (stored: string | null): StoredSession | null => {
+  if (!stored) return null;
+  try {
+    const parsed = JSON.parse(stored);
+    return typeof parsed?.token === 'string' && typeof parsed?.walletAddress === 'string' ? parsed : null;
+  } catch {
+    // Tokens saved before the address was kept with them
+    return null;
+  }
+};
+
+/**
+ * The exact text a wallet signs to log in
+ */
+export const buildSignInMessage = (walletAddress: string, nonce: string) =>
+  `${SIGN_IN_DOMAIN}:${walletAddress}:${nonce}`;
+
+class SessionService {
+  private walletId: string | null = null;
+  private walletAddress: string | null = null;
+
+  /**
+   * Use the stored token for a wallet, or sign in if there isn't one for its current address
+   * @param walletId - The active wallet
+   * @param walletAddress - The wallet's address
+   */
+  async start(walletId: string, walletAddress: string): Promise<void> {
+    this.walletId = walletId;
+    this.walletAddress = walletAddress;
+
+    const stored = parseStoredSession(
+      await storage.getItem(getWalletKey(AUTH_KEYS.SESSION_TOKEN, walletId), 'secure')
+    );
+    if (!this.isActive(walletId, walletAddress)) {
+      return;
+    }
+
+    // A token issued to another account of this wallet would act as that account
+    if (stored && stored.walletAddress === walletAddress) {
+      setAuthToken(stored.token);
+      return;
+    }
+
+    setAuthToken(null);
+    await this.signIn();
+  }
+
+  /**
+   * Sign a fresh nonce with the active wallet's key and store the new token
+   * @returns The new token, or null if there is no wallet to sign in with
+   */
+  async signIn(): Promise<string | null> {
+    const { walletId, walletAddress } = this;
+    if (!walletId || !walletAddress) {
+      return null;
+    }
+
+    const privateKey = await getPrivateKey();
+    if (!privateKey) {
+      return null;
+    }
+
+    // A stale token would get the nonce request rejected
+    setAuthToken(null);
+
+    const { nonce } = await UserAPI.requestNonce(walletAddress);
+    const signature = await signMessage(buildSignInMessage(walletAddress, nonce), privateKey);
+    const { token } = await UserAPI.verifyWallet(walletAddress, signature, nonce);
+
+    // The user switched wallets or accounts while signing in
+    if (!this.isActive(walletId, walletAddress)) {
+      return null;
+    }
+
+    setAuthToken(token);
+    const stored: StoredSession = { token, walletAddress };
+    await storage.setItem(getWalletKey(AUTH_KEYS.SESSION_TOKEN, walletId), JSON.stringify(stored), 'secure');
+    return token;
+  }
+
+  private isActive(walletId: string, walletAddress: string): boolean {
+    return this.walletId === walletId && this.walletAddress === walletAddress;
+  }
+
+  /**
+   * Forget the active wallet's token
+   */
+  async end(): Promise<void> {
+    const { walletId } = this;
+    this.walletId = null;
+    this.walletAddress = null;
+    setAuthToken(null);
+
+    if (walletId) {
+      await storage.removeItem(getWalletKey(AUTH_KEYS.SESSION_TOKEN, walletId), 'secure');
+    }
+  }
+}
+
+// Export a singleton instance
+export const session = new SessionService();
+
+// Expired tokens are renewed by signing in again
+setTokenRefreshHandler(() => session.signIn());
+
+// Also export the class for testing
+export { SessionService };
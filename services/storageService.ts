@@ -25,6 +25,8 @@ class StorageService {
         // Try SecureStore for sensitive data on mobile
         try {
           await SecureStore.setItemAsync(key, value);
+          // Drop any stale copy left behind by an earlier AsyncStorage fallback
+          await AsyncStorage.removeItem(key);
           return;
         } catch (secureStoreError) {
           // console.warn(`SecureStore failed for key ${key}, falling back to AsyncStorage:`, secureStoreError);
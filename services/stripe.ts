@@ -1,31 +1,11 @@
-import axios from 'axios';
-import { Platform } from 'react-native';
-import Constants from 'expo-constants';
-import { API_URL } from '../config';
+import { apiClient, ApiError, setAuthToken } from './apiClient';
+import type {
+  StripePaymentLinkRequest,
+  StripePaymentLinkResponse,
+  StripePaymentStatusResponse,
+} from '@/types/api';
 
-// Create a dedicated Stripe API instance
-const stripeApi = axios.create({
-  baseURL: API_URL,
-  headers: {
-    'Content-Type': 'application/json',
-    'Accept': 'application/json',
-    'X-Client-Platform': Platform.OS,
-    'X-Client-Version': Constants.expoConfig?.version || '1.0.0',
-  },
-  timeout: 10000,
-});
-
-// Types for Stripe payment
-export interface StripePaymentLinkRequest {
-  amount: number;           // Amount in USD cents (e.g., 1000 for $10.00)
-  walletAddress: string;    // User's public wallet address
-  metadata?: Record<string, string>; // Any additional metadata
-}
-
-export interface StripePaymentLinkResponse {
-  url: string;              // The payment link URL
-  id: string;               // Stripe payment link ID
-}
+export type { StripePaymentLinkRequest, StripePaymentLinkResponse };
 
 // Stripe API functions
 export const StripeAPI = {
@@ -40,19 +20,16 @@ export const StripeAPI = {
       
       // Ensure amount is provided and is a number
       if (!paymentData.amount || typeof paymentData.amount !== 'number' || paymentData.amount <= 0) {
-        throw new Error('Valid amount is required for payment link');
+        throw new ApiError('VALIDATION_ERROR', 'Valid amount is required for payment link');
       }
       
       // Ensure wallet address is provided
       if (!paymentData.walletAddress) {
-        throw new Error('Wallet address is required for payment link');
+        throw new ApiError('VALIDATION_ERROR', 'Wallet address is required for payment link');
       }
       
       // Create the payment link
-      const response = await stripeApi.post('/api/stripe/payment-link', paymentData);
-      // console.log('Payment link created:', response.data);
-      
-      return response.data;
+      return await apiClient.post<StripePaymentLinkResponse>('/api/stripe/payment-link', paymentData);
     } catch (error) {
       // console.error('Error creating Stripe payment link:', error);
       throw error;
@@ -66,8 +43,7 @@ export const StripeAPI = {
    */
   getPaymentLink: async (linkId: string): Promise<StripePaymentLinkResponse> => {
     try {
-      const response = await stripeApi.get(`/api/stripe/payment-link/${linkId}`);
-      return response.data;
+      return await apiClient.get<StripePaymentLinkResponse>(`/api/stripe/payment-link/${linkId}`);
     } catch (error) {
       // console.error('Error retrieving payment link:', error);
       throw error;
@@ -79,10 +55,9 @@ export const StripeAPI = {
    * @param paymentId The Stripe payment ID
    * @returns Payment status information
    */
-  checkPaymentStatus: async (paymentId: string) => {
+  checkPaymentStatus: async (paymentId: string): Promise<StripePaymentStatusResponse> => {
     try {
-      const response = await stripeApi.get(`/api/stripe/payment-status/${paymentId}`);
-      return response.data;
+      return await apiClient.get<StripePaymentStatusResponse>(`/api/stripe/payment-status/${paymentId}`);
     } catch (error) {
       // console.error('Error checking payment status:', error);
       throw error;
@@ -90,49 +65,7 @@ export const StripeAPI = {
   }
 };
 
-// Set auth token for authenticated requests if needed
-export const setStripeAuthToken = (token: string | null) => {
-  if (token) {
-    stripeApi.defaults.headers.common['Authorization'] = `Bearer ${token}`;
-  } else {
-    delete stripeApi.defaults.headers.common['Authorization'];
-  }
-};
-
-// Error handling interceptor
-stripeApi.interceptors.response.use(
-  (response) => response,
-  (error) => {
-    // Handle Stripe-specific error codes
-    if (error.response) {
-      const { status, data } = error.response;
-      
-      // Format error message based on Stripe error response structure
-      const errorMessage = data?.error?.message || 
-                          data?.message || 
-                          'An error occurred with the payment service';
-      
-      // console.error(`Stripe API Error (${status}):`, errorMessage);
-      
-      // You can handle specific error codes here
-      if (status === 400) {
-        // Bad request - invalid parameters
-        // console.error('Invalid payment parameters');
-      } else if (status === 401) {
-        // Unauthorized - API key issues
-        // console.error('API authentication error');
-      } else if (status === 404) {
-        // Not found
-        // console.error('Payment resource not found');
-      }
-    } else if (error.request) {
-      // console.error('No response received from Stripe API');
-    } else {
-      // console.error('Error setting up Stripe request:', error.message);
-    }
-    
-    return Promise.reject(error);
-  }
-);
+// Stripe requests share the API client, so they use the same auth token
+export const setStripeAuthToken = setAuthToken;
 
 export default StripeAPI;
\ No newline at end of file
@@ -1,40 +1,32 @@
-import * as SecureStore from 'expo-secure-store';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import axios from 'axios';
 import bs58 from 'bs58';
 import { serialize, parse, sign } from '@repyh-labs/delta-signing';
-
-// Base URL for API requests - import from config for consistency
-import { API_URL } from '../config';
-const API_BASE_URL = API_URL;
-
-// Storage keys - must match the ones in AuthContext
-const PRIVATE_KEY_KEY = 'encrypted-private-key';
+import { storage } from './storageService';
+import { encryptionService } from './encryptionService';
+import { AUTH_KEYS, getWalletKey } from '@/constants/storageKeys';
+import { walletRegistry } from './walletRegistryService';
+import { verifyUnsignedTransaction } from './transactionVerificationService';
+import { PaymentAPI } from './api';
+import type { SignPaymentRequest } from '@/types/api';
 
 /**
- * Retrieves the private key from secure storage
+ * Retrieves the active wallet's private key from secure storage
  * Falls back to AsyncStorage if SecureStore is not available
  * @param providedPrivateKey Optional private key that can be passed directly
  */
 export const getPrivateKey = async (providedPrivateKey?: string): Promise<string | null> => {
   // If a private key is provided directly, use it
   if (providedPrivateKey) {
-    // Check if it needs decryption
-    if (providedPrivateKey.startsWith('encrypted:')) {
-      return await decryptPrivateKey(providedPrivateKey);
-    }
-    return providedPrivateKey;
+    return await decryptPrivateKey(providedPrivateKey);
   }
   
   try {
-    // Try to get the key from SecureStore first
-    let encryptedKey = await SecureStore.getItemAsync(PRIVATE_KEY_KEY);
-    
-    // If not found in SecureStore, try AsyncStorage as fallback
-    if (!encryptedKey) {
-      encryptedKey = await AsyncStorage.getItem(PRIVATE_KEY_KEY);
+    const walletId = await walletRegistry.getActiveWalletId();
+    if (!walletId) {
+      return null;
     }
     
+    const encryptedKey = await storage.getItem(getWalletKey(AUTH_KEYS.PRIVATE_KEY, walletId), 'secure');
+    
     if (!encryptedKey) {
       return null;
     }
@@ -47,21 +39,10 @@ export const getPrivateKey = async (providedPrivateKey?: string): Promise<string
 
 /**
  * Decrypts the encrypted private key
- * Matches the AuthContext's decryptData implementation
+ * Plain base58 keys and legacy `encrypted:` values are returned unwrapped
  */
 export const decryptPrivateKey = async (encryptedKey: string): Promise<string> => {
-  // Match the AuthContext's decryption implementation exactly
-  // Mock encryption mechanism for MVP: 
-  if (encryptedKey.startsWith('encrypted:')) {
-    return encryptedKey.substring(10);
-  }
-  
-  // Try other possible formats
-  if (encryptedKey.includes(':')) {
-    return encryptedKey.substring(encryptedKey.indexOf(':') + 1);
-  }
-  
-  return encryptedKey;
+  return encryptionService.decrypt(encryptedKey);
 };
 
 /**
@@ -132,6 +113,30 @@ export const signTransaction = async (transactionData: any, privateKey: string)
   }
 };
 
+/**
+ * Builds the request that submits a signed transaction
+ * @param paymentId The ID of the payment
+ * @param signedTransaction The signed transaction data
+ * @param transactionDetails The complete transaction details from the API
+ * @param payerAddress The address of the payer/customer
+ */
+export const buildSignPaymentRequest = (
+  paymentId: string, 
+  signedTransaction: any, 
+  transactionDetails: any,
+  payerAddress: string
+): SignPaymentRequest => ({
+  // Format the request according to the backend's ProcessSignedTransactionRequest struct
+  // The signed_transaction should be an array containing the signed transaction
+  payment_id: paymentId,
+  signed_transaction: JSON.stringify([signedTransaction]), // Wrap in array
+  vendor_address: transactionDetails.vendor_address,
+  vendor_name: transactionDetails.vendor_name,
+  price_usd: transactionDetails.price_usd,
+  payment_bundle: transactionDetails.payment_bundle || [],
+  payer_address: payerAddress
+});
+
 /**
  * Sends a signed transaction to the backend
  * @param paymentId The ID of the payment
@@ -146,31 +151,48 @@ export const sendSignedTransaction = async (
   transactionDetails: any,
   payerAddress: string
 ) => {
-  try {
-    // Format the request according to the backend's ProcessSignedTransactionRequest struct
-    // The signed_transaction should be an array containing the signed transaction
-    const requestBody = {
-      payment_id: paymentId,
-      signed_transaction: JSON.stringify([signedTransaction]), // Wrap in array
-      vendor_address: transactionDetails.vendor_address,
-      vendor_name: transactionDetails.vendor_name,
-      price_usd: transactionDetails.price_usd,
-      payment_bundle: transactionDetails.payment_bundle || [],
-      payer_address: payerAddress
-    };
-    
-    // Send to the correct backend endpoint: /payments/{payment_id}/sign
-    const apiUrl = `${API_BASE_URL}/api/payments/${paymentId}/sign`;
-    
-    const response = await axios.post(apiUrl, requestBody, {
-      headers: {
-        'Content-Type': 'application/json'
-      }
-    });
-    return response.data;
-  } catch (error) {
-    throw error;
+  const requestBody = buildSignPaymentRequest(paymentId, signedTransaction, transactionDetails, payerAddress);
+  
+  // Send to the backend endpoint: /payments/{payment_id}/sign
+  return await PaymentAPI.signPayment(paymentId, requestBody);
+};
+
+/**
+ * Verifies and signs a payment without sending it, so it can be stored and retried
+ * @param paymentId The ID of the payment
+ * @param transactionData The unsigned transaction data
+ * @param completeTransactionDetails The complete transaction details from the API
+ * @param payerAddress The address of the payer/customer
+ * @param privateKeyOverride Optional private key to use instead of retrieving from storage
+ * @returns The request to submit to the backend
+ */
+export const prepareSignedPayment = async (
+  paymentId: string, 
+  transactionData: any, 
+  completeTransactionDetails: any, 
+  payerAddress: string,
+  privateKeyOverride?: string
+): Promise<SignPaymentRequest> => {
+  const privateKey = privateKeyOverride || await getPrivateKey();
+  if (!privateKey) {
+    throw new Error('No private key available for signing');
+  }
+  
+  if (!transactionData) {
+    throw new Error('No transaction data provided for signing');
   }
+  if (typeof transactionData === 'string') {
+    transactionData = JSON.parse(transactionData);
+  }
+  if (Array.isArray(transactionData)) {
+    transactionData = transactionData[0];
+  }
+  
+  // Make sure it matches the payment the user confirmed
+  verifyUnsignedTransaction(transactionData, completeTransactionDetails, payerAddress);
+  
+  const signedTransaction = await signTransaction(transactionData, privateKey);
+  return buildSignPaymentRequest(paymentId, signedTransaction, completeTransactionDetails, payerAddress);
 };
 
 /**
@@ -189,47 +211,14 @@ export const signAndSendTransaction = async (
   payerAddress: string,
   privateKeyOverride?: string
 ) => {
-  try {
-    
-    // 1. Get the private key (either from override or storage)
-    let privateKey = privateKeyOverride;
-    
-    if (!privateKey) {
-      privateKey = await getPrivateKey();
-    }
-    
-    if (!privateKey) {
-      throw new Error('No private key available for signing');
-    }
-    
-    
-    
-    // 2. Validate transaction data
-    if (!transactionData) {
-      throw new Error('No transaction data provided for signing');
-    }
-    
-    if (typeof transactionData === 'string') {
-      transactionData = JSON.parse(transactionData);
-    }
-    
-    if (Array.isArray(transactionData)) {
-      transactionData = transactionData[0];
-    }
-    
-    // 3. Sign the transaction
-    const signedTransaction = await signTransaction(transactionData, privateKey);
-    
-    // 4. Send the signed transaction to the backend
-    const response = await sendSignedTransaction(
-      paymentId, 
-      signedTransaction, 
-      completeTransactionDetails, 
-      payerAddress
-    );
-    
-    return response;
-  } catch (error) {
-    throw error;
-  }
+  const requestBody = await prepareSignedPayment(
+    paymentId, 
+    transactionData, 
+    completeTransactionDetails, 
+    payerAddress,
+    privateKeyOverride
+  );
+  
+  // Send to the backend endpoint: /payments/{payment_id}/sign
+  return await PaymentAPI.signPayment(paymentId, requestBody);
 };
@@ -0,0 +1,140 @@
+import { parse, serialize } from '@repyh-labs/delta-signing';
+import type { TokenPayment } from '@/types/api';
+import { hasTokenDecimals, parseTokenAmountFor } from '@/utils/tokenAmount';
+
+/**
+ * The debit allowance a wallet is asked to sign
+ * Accounts and token keys are "address,shard"
+ */
+interface DebitAllowance {
+  debited: string;
+  credited: string;
+  allowances: Record<string, number | string | bigint>;
+  new_nonce?: number;
+}
+
+/**
+ * Details the user confirmed on the payment screen
+ */
+export interface DisplayedPayment {
+  vendor_address: string;
+  payment_bundle: TokenPayment[];
+}
+
+/**
+ * Thrown when an unsigned transaction doesn't match what the user was shown
+ */
+export class TransactionVerificationError extends Error {
+  mismatches: string[];
+
+  constructor(mismatches: string[]) {
+    super(`This payment doesn't match what you were shown and was not signed:\n- ${mismatches.join('\n- ')}`);
+    this.name = 'TransactionVerificationError';
+    this.mismatches = mismatches;
+  }
+}
+
+const accountAddress = (account: string) => account.split(',')[0].trim();
+
+const parseBaseUnits = (value: number | string | bigint): bigint | null => {
+  try {
+    return BigInt(value);
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Checks an unsigned debit allowance against the payment the user confirmed
+ *
+ * The payload is parsed exactly as it will be signed, then the debited account,
+ * credited vendor, token keys and amounts are compared with the displayed
+ * payment bundle. Any difference blocks signing, so a compromised backend
+ * can't get the wallet to authorize a different transfer.
+ *
+ * @param transactionData The unsigned transaction data, bare or as the one-element array the backend sends
+ * @param payment The payment details shown to the user
+ * @param payerAddress The address of the wallet that will sign
+ * @throws TransactionVerificationError listing every mismatch
+ */
+export const verifyUnsignedTransaction = (
+  transactionData: any,
+  payment: DisplayedPayment,
+  payerAddress: string
+): void => {
+  // The backend sends the allowance wrapped in a one-element array
+  if (Array.isArray(transactionData)) {
+    if (transactionData.length !== 1) {
+      throw new TransactionVerificationError(['The transaction could not be read']);
+    }
+    transactionData = transactionData[0];
+  }
+
+  let allowance: DebitAllowance;
+  try {
+    allowance = parse.debitAllowance(transactionData) as DebitAllowance;
+  } catch (error) {
+    throw new TransactionVerificationError(['The transaction could not be read']);
+  }
+
+  const mismatches: string[] = [];
+
+  // The payment must come out of this wallet
+  if (!allowance.debited || accountAddress(allowance.debited) !== payerAddress) {
+    mismatches.push('It debits a different account than this wallet');
+  }
+
+  // ...and go to the vendor on screen
+  if (!allowance.credited || !payment.vendor_address
+    || accountAddress(allowance.credited) !== accountAddress(payment.vendor_address)) {
+    mismatches.push('It pays a different recipient than the vendor shown');
+  }
+
+  // Total each displayed token in base units, at the token's precision
+  const expected = new Map<string, bigint>();
+  for (const item of payment.payment_bundle || []) {
+    if (!hasTokenDecimals(item)) {
+      mismatches.push(`The precision of ${item.symbol || item.token_key} is unknown, so its amount can't be checked`);
+      continue;
+    }
+    const amount = parseTokenAmountFor(item.amount_to_pay, item).units;
+    if (amount > BigInt(0)) {
+      expected.set(item.token_key, (expected.get(item.token_key) || BigInt(0)) + amount);
+    }
+  }
+
+  const allowances = allowance.allowances || {};
+
+  for (const [tokenKey, rawAmount] of Object.entries(allowances)) {
+    const amount = parseBaseUnits(rawAmount);
+    const expectedAmount = expected.get(tokenKey);
+
+    if (expectedAmount === undefined) {
+      if (amount === BigInt(0)) continue;
+      mismatches.push(`It spends a token that isn't in the payment breakdown (${accountAddress(tokenKey).slice(0, 8)}...)`);
+    } else if (amount === null || amount !== expectedAmount) {
+      const symbol = payment.payment_bundle.find(item => item.token_key === tokenKey)?.symbol || 'a token';
+      mismatches.push(`It spends a different amount of ${symbol} than shown`);
+    }
+  }
+
+  for (const tokenKey of expected.keys()) {
+    if (!(tokenKey in allowances)) {
+      const symbol = payment.payment_bundle.find(item => item.token_key === tokenKey)?.symbol || 'token';
+      mismatches.push(`It is missing the ${symbol} payment shown`);
+    }
+  }
+
+  if (mismatches.length > 0) {
+    throw new TransactionVerificationError(mismatches);
+  }
+};
+
+/**
+ * Parses a debit allowance as it will be signed, along with the bytes the signature covers
+ * The in-app mock backend checks signed payments with this
+ */
+export const readDebitAllowance = (payload: unknown) => {
+  const parsed = parse.debitAllowance(payload);
+  return { parsed, bytes: serialize(parsed) };
+};
@@ -1,17 +1,14 @@
-import axios from 'axios';
-import { API_BASE_URL } from '../constants/api';
+import { apiClient } from './apiClient';
+import type {
+  TokenValuation,
+  TokenValuationsPayload,
+  UpdateValuationRequest,
+  UpdateValuationResponse,
+  WalletBalancesResponse,
+  WalletData,
+} from '@/types/api';
 
-export interface TokenValuation {
-  token_name: string;
-  token_symbol: string | null;
-  current_valuation: number;
-  has_set: boolean;
-  token_image_url?: string;
-}
-
-export interface ValuationsResponse {
-  valuations: TokenValuation[];
-}
+export type { TokenValuation, ValuationsResponse } from '@/types/api';
 
 /**
  * Fetches token valuations for a specific wallet address
@@ -20,36 +17,37 @@ export interface ValuationsResponse {
  */
 export const fetchTokenValuations = async (walletAddress: string): Promise<TokenValuation[]> => {
   try {
-    // console.log(`Fetching valuations from: ${API_BASE_URL}/wallet/${walletAddress}/valuations`);
-    const response = await axios.get(`${API_BASE_URL}/wallet/${walletAddress}/valuations`);
+    // The backend has returned a bare array, a { valuations } object and a map keyed by token
+    const data = await apiClient.get<TokenValuationsPayload>(`/wallet/${walletAddress}/valuations`);
     
-    // Check if response.data is an array directly
-    if (Array.isArray(response.data)) {
-      return response.data as TokenValuation[];
+    // Check if data is an array directly
+    if (Array.isArray(data)) {
+      return data;
     }
     
-    // Check if response.data has a valuations property
-    if (response.data && response.data.valuations && Array.isArray(response.data.valuations)) {
-      // console.log('Response has valuations array with length:', response.data.valuations.length);
-      return response.data.valuations;
+    // Check if data has a valuations property
+    if (data && 'valuations' in data && Array.isArray(data.valuations)) {
+      // console.log('Response has valuations array with length:', data.valuations.length);
+      return data.valuations;
     }
     
     // If we get here, the response format is unexpected
     // console.error('Invalid response format. Expected valuations array or direct array.');
-    // console.error('Response structure:', Object.keys(response.data || {}));
+    // console.error('Response structure:', Object.keys(data || {}));
     
     // Try to adapt to whatever format we received
-    if (response.data && typeof response.data === 'object') {
+    if (data && typeof data === 'object') {
       // Maybe it's an object with token valuations as properties
-      const keys = Object.keys(response.data);
+      const balances = data as WalletBalancesResponse;
+      const keys = Object.keys(balances);
       if (keys.length > 0) {
         // console.log('Attempting to convert object to array...');
         const adaptedData = keys.map(key => {
-          const item = response.data[key];
+          const item = balances[key];
           return {
             token_name: key,
             token_symbol: item.symbol || null,
-            current_valuation: parseFloat(item.average_valuation || '0'),
+            current_valuation: parseFloat(String(item.average_valuation || '0')),
             has_set: true,
             token_image_url: item.token_image_url
           };
@@ -60,16 +58,8 @@ export const fetchTokenValuations = async (walletAddress: string): Promise<Token
     }
     
     return [];
-  } catch (error: any) {
-    // console.error('Error fetching token valuations:', error.message);
-    if (error.response) {
-      // console.error('Response status:', error.response.status);
-      // console.error('Response data:', JSON.stringify(error.response.data, null, 2));
-    } else if (error.request) {
-      // console.error('No response received:', error.request);
-    } else {
-      // console.error('Error details:', error);
-    }
+  } catch (error) {
+    // console.error('Error fetching token valuations:', error);
     throw error;
   }
 };
@@ -85,24 +75,16 @@ export const updateTokenValuation = async (
   walletAddress: string,
   tokenSymbol: string,
   valuation: number
-): Promise<any> => {
+): Promise<UpdateValuationResponse> => {
   try {
-    // console.log(`Updating valuation at: ${API_BASE_URL}/wallet/${walletAddress}/valuations`);
-    // console.log('Request payload:', { symbol: tokenSymbol, valuation });
-    
-    const response = await axios.post(`${API_BASE_URL}/wallet/${walletAddress}/valuations`, {
+    const body: UpdateValuationRequest = {
       symbol: tokenSymbol,
       valuation: valuation
-    });
+    };
     
-    // console.log('Update response:', JSON.stringify(response.data, null, 2));
-    return response.data;
-  } catch (error: any) {
-    // console.error('Error updating token valuation:', error.message);
-    if (error.response) {
-      // console.error('Response status:', error.response.status);
-      // console.error('Response data:', JSON.stringify(error.response.data, null, 2));
-    }
+    return await apiClient.post<UpdateValuationResponse>(`/wallet/${walletAddress}/valuations`, body);
+  } catch (error) {
+    // console.error('Error updating token valuation:', error);
     throw error;
   }
 };
@@ -112,10 +94,9 @@ export const updateTokenValuation = async (
  * @param walletAddress The wallet address to fetch balances for
  * @returns The wallet balances
  */
-export const fetchWalletBalances = async (walletAddress: string): Promise<any> => {
+export const fetchWalletBalances = async (walletAddress: string): Promise<WalletBalancesResponse> => {
   try {
-    const response = await axios.get(`${API_BASE_URL}/wallet/${walletAddress}/balances`);
-    return response.data;
+    return await apiClient.get<WalletBalancesResponse>(`/wallet/${walletAddress}/balances`);
   } catch (error) {
     // console.error('Error fetching wallet balances:', error);
     throw error;
@@ -127,10 +108,9 @@ export const fetchWalletBalances = async (walletAddress: string): Promise<any> =
  * @param walletAddress The wallet address to fetch details for
  * @returns The wallet details
  */
-export const fetchWalletDetails = async (walletAddress: string): Promise<any> => {
+export const fetchWalletDetails = async (walletAddress: string): Promise<WalletData> => {
   try {
-    const response = await axios.get(`${API_BASE_URL}/wallet/${walletAddress}`);
-    return response.data;
+    return await apiClient.get<WalletData>(`/wallet/${walletAddress}`);
   } catch (error) {
     // console.error('Error fetching wallet details:', error);
     throw error;
@@ -0,0 +1,57 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { fetchActivitiesInRange } from './exportService';
+import type { TransactionActivity } from '@/types/api';
+import { BUCKET_COUNTS, completedSales } from '@/utils/vendorAnalytics';
+
+export interface VendorSales {
+  sales: TransactionActivity[];
+  lastUpdated: number;  // ms
+}
+
+const getStorageKey = (walletAddress: string) => `@vendor/sales/${walletAddress}`;
+
+// Far enough back to fill every dashboard chart
+const salesWindowStart = (now: number) => {
+  const date = new Date(now);
+  return new Date(date.getFullYear(), date.getMonth() - (BUCKET_COUNTS.monthly - 1), 1).getTime();
+};
+
+/**
+ * Keeps a vendor's completed sales on the device so the dashboard opens
+ * instantly and still works offline
+ */
+class VendorSalesService {
+  async getCached(walletAddress: string): Promise<VendorSales | null> {
+    try {
+      const stored = await AsyncStorage.getItem(getStorageKey(walletAddress));
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error('Failed to load cached sales:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Fetch the sales window from history and replace the cached copy
+   * @throws Error if history can't be fetched
+   */
+  async refresh(walletAddress: string): Promise<VendorSales> {
+    const now = Date.now();
+    const activities = await fetchActivitiesInRange(walletAddress, { from: salesWindowStart(now), to: now });
+    const result: VendorSales = { sales: completedSales(activities), lastUpdated: now };
+
+    try {
+      await AsyncStorage.setItem(getStorageKey(walletAddress), JSON.stringify(result));
+    } catch (error) {
+      console.error('Failed to cache sales:', error);
+    }
+
+    return result;
+  }
+}
+
+// Export a singleton instance
+export const vendorSales = new VendorSalesService();
+
+// Also export the class for testing
+export { VendorSalesService };
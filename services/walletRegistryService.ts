@@ -0,0 +1,149 @@
+import * as Crypto from 'expo-crypto';
+import { storage } from './storageService';
+import {
+  AUTH_KEYS,
+  USER_KEYS,
+  WALLET_KEYS,
+  WALLET_SECURE_KEYS,
+  WALLET_STANDARD_KEYS,
+  getWalletKey,
+} from '@/constants/storageKeys';
+import type { StoredWallet } from '@/types/auth';
+
+/**
+ * Registry of the wallets stored on this device
+ *
+ * Every wallet keeps its secrets and profile under its own namespaced keys
+ * (see getWalletKey), so several wallets can live side by side and the
+ * active one can be switched without re-importing a seed phrase.
+ */
+class WalletRegistryService {
+  /**
+   * Get all wallets stored on this device, oldest first
+   */
+  async getWallets(): Promise<StoredWallet[]> {
+    const wallets = await storage.getJSON<StoredWallet[]>(WALLET_KEYS.WALLETS);
+    return wallets || [];
+  }
+
+  /**
+   * Add a wallet to the registry or update the stored entry
+   * @param wallet - The wallet entry to save
+   * @returns The updated list of wallets
+   */
+  async saveWallet(wallet: StoredWallet): Promise<StoredWallet[]> {
+    const wallets = await this.getWallets();
+    const index = wallets.findIndex(w => w.id === wallet.id);
+    const updated = index >= 0
+      ? wallets.map(w => (w.id === wallet.id ? wallet : w))
+      : [...wallets, wallet];
+
+    await storage.setJSON(WALLET_KEYS.WALLETS, updated);
+    return updated;
+  }
+
+  /**
+   * Remove a wallet and every key stored for it
+   * @param walletId - The wallet to remove
+   * @returns The remaining wallets
+   */
+  async removeWallet(walletId: string): Promise<StoredWallet[]> {
+    await storage.removeMultiple([
+      ...WALLET_SECURE_KEYS.map(key => getWalletKey(key, walletId)),
+      ...WALLET_STANDARD_KEYS.map(key => getWalletKey(key, walletId)),
+    ]);
+
+    const remaining = (await this.getWallets()).filter(w => w.id !== walletId);
+    await storage.setJSON(WALLET_KEYS.WALLETS, remaining);
+
+    if ((await this.getActiveWalletId()) === walletId) {
+      await storage.removeItem(WALLET_KEYS.ACTIVE_WALLET_ID);
+    }
+    return remaining;
+  }
+
+  /**
+   * Find a stored wallet by its address
+   * @param walletAddress - The wallet address to look up
+   */
+  async findByAddress(walletAddress: string): Promise<StoredWallet | null> {
+    const wallets = await this.getWallets();
+    return wallets.find(w => w.walletAddress === walletAddress) || null;
+  }
+
+  async getActiveWalletId(): Promise<string | null> {
+    return storage.getItem(WALLET_KEYS.ACTIVE_WALLET_ID);
+  }
+
+  async setActiveWalletId(walletId: string): Promise<void> {
+    await storage.setItem(WALLET_KEYS.ACTIVE_WALLET_ID, walletId);
+  }
+
+  createWalletId(): string {
+    return Crypto.randomUUID();
+  }
+
+  /**
+   * Move a wallet stored by an older, single-wallet app version into the registry
+   *
+   * Copies the un-namespaced keys to keys scoped to a new wallet ID and removes
+   * the originals. Safe to call on every launch.
+   *
+   * @returns The ID of the active wallet, or null if there is nothing stored
+   */
+  async migrateLegacyWallet(): Promise<string | null> {
+    const wallets = await this.getWallets();
+    if (wallets.length > 0) {
+      const activeId = await this.getActiveWalletId();
+      if (activeId && wallets.some(w => w.id === activeId)) {
+        return activeId;
+      }
+      await this.setActiveWalletId(wallets[0].id);
+      return wallets[0].id;
+    }
+
+    const legacySeedPhrase = await storage.getItem(AUTH_KEYS.SEED_PHRASE, 'secure');
+    if (!legacySeedPhrase) {
+      return null;
+    }
+
+    const walletId = this.createWalletId();
+
+    for (const key of WALLET_SECURE_KEYS) {
+      const value = await storage.getItem(key, 'secure');
+      if (value !== null) {
+        await storage.setItem(getWalletKey(key, walletId), value, 'secure');
+      }
+    }
+    for (const key of WALLET_STANDARD_KEYS) {
+      const value = await storage.getItem(key);
+      if (value !== null) {
+        await storage.setItem(getWalletKey(key, walletId), value);
+      }
+    }
+
+    const walletAddress = await storage.getItem(getWalletKey(AUTH_KEYS.WALLET_ADDRESS, walletId), 'secure');
+    const userName = await storage.getItem(getWalletKey(USER_KEYS.USER_NAME, walletId), 'secure');
+    const userType = await storage.getItem(getWalletKey(USER_KEYS.USER_TYPE, walletId));
+
+    await this.saveWallet({
+      id: walletId,
+      walletAddress: walletAddress || '',
+      userName,
+      userType: userType === 'vendor' || userType === 'customer' ? userType : null,
+      createdAt: Date.now(),
+    });
+    await this.setActiveWalletId(walletId);
+
+    // Only drop the originals once the copy is registered
+    await storage.removeMultiple([...WALLET_SECURE_KEYS, ...WALLET_STANDARD_KEYS]);
+
+    return walletId;
+  }
+}
+
+// Export a singleton instance
+export const walletRegistry = new WalletRegistryService();
+
+// Also export the class for testing
+export { WalletRegistryService };
@@ -1,41 +1,7 @@
-import axios from 'axios';
-import { Platform } from 'react-native';
-import Constants from 'expo-constants';
-import { createKeyPairFromSeedPhrase } from '@/utils/cryptoUtils';
-import { API_URL } from '../config';
-
-// Create axios instance with default config
-const api = axios.create({
-  baseURL: API_URL,
-  headers: {
-    'Content-Type': 'application/json',
-    'Accept': 'application/json',
-    'X-Client-Platform': Platform.OS,
-    'X-Client-Version': Constants.expoConfig?.version || '1.0.0',
-  },
-  timeout: 10000,
-});
-
-/**
- * Interface for wallet data returned from the backend
- */
-interface WalletData {
-  id: string;
-  wallet_address: string;
-  user_id: string;
-  wallet_type: string;
-  is_backed_up: boolean;
-  has_biometrics: boolean;
-  created_at: string;
-  updated_at: string;
-  // User info
-  username?: string;
-  name?: string;
-  email?: string;
-  user_type?: 'vendor' | 'customer';
-  valuations?: any;
-  is_verified?: boolean;
-}
+import { createKeyPairFromSeedPhrase, DEFAULT_DERIVATION_MODE } from '@/utils/cryptoUtils';
+import type { DerivationMode, DerivationOptions } from '@/utils/cryptoUtils';
+import { apiClient, isApiError } from './apiClient';
+import type { RegisterWalletRequest, WalletData } from '@/types/api';
 
 /**
  * Validates a seed phrase and fetches or creates a wallet
@@ -47,21 +13,24 @@ interface WalletData {
  * 4. If it doesn't exist, return null (wallet will be created later in the onboarding flow)
  * 
  * @param seedPhrase - The BIP39 mnemonic seed phrase
+ * @param options - Derivation mode and account index used to derive the address
  * @returns The wallet data if found, null otherwise
  */
-export const validateAndFetchWallet = async (seedPhrase: string): Promise<WalletData | null> => {
+export const validateAndFetchWallet = async (
+  seedPhrase: string,
+  options: DerivationOptions = {}
+): Promise<WalletData | null> => {
   try {
     // Generate wallet address from seed phrase
-    const keyPair = await createKeyPairFromSeedPhrase(seedPhrase);
+    const keyPair = await createKeyPairFromSeedPhrase(seedPhrase, options);
     const walletAddress = keyPair.publicKey;
     
     try {
       // Try to fetch the wallet by address
-      const response = await api.get(`/api/users/${walletAddress}`);
-      return response.data;
-    } catch (error: any) {
+      return await apiClient.get<WalletData>(`/api/users/${walletAddress}`);
+    } catch (error) {
       // If we get a 404, the wallet doesn't exist yet
-      if (error.response && error.response.status === 404) {
+      if (isApiError(error) && error.status === 404) {
         return null;
       }
       
@@ -73,6 +42,32 @@ export const validateAndFetchWallet = async (seedPhrase: string): Promise<Wallet
   }
 };
 
+/**
+ * Finds the wallet registered for a seed phrase, detecting how its key was derived
+ * 
+ * Wallets created by early app versions use the legacy raw seed slice, so if no
+ * wallet exists at the standard SLIP-0010 address the legacy address is checked too.
+ * 
+ * @param seedPhrase - The BIP39 mnemonic seed phrase
+ * @returns The wallet data (or null) and the derivation mode that should be used
+ */
+export const findWalletForSeedPhrase = async (
+  seedPhrase: string
+): Promise<{ wallet: WalletData | null; mode: DerivationMode }> => {
+  const wallet = await validateAndFetchWallet(seedPhrase, { mode: DEFAULT_DERIVATION_MODE });
+  if (wallet) {
+    return { wallet, mode: DEFAULT_DERIVATION_MODE };
+  }
+  
+  const legacyWallet = await validateAndFetchWallet(seedPhrase, { mode: 'legacy' });
+  if (legacyWallet) {
+    return { wallet: legacyWallet, mode: 'legacy' };
+  }
+  
+  // Not registered yet, new wallets always use the standard derivation
+  return { wallet: null, mode: DEFAULT_DERIVATION_MODE };
+};
+
 /**
  * Creates a new wallet in the backend
  * 
@@ -88,7 +83,7 @@ export const createWallet = async (walletData: {
 }): Promise<WalletData> => {
   try {
     // Convert camelCase to snake_case for the backend
-    const backendData = {
+    const backendData: RegisterWalletRequest = {
       wallet_address: walletData.walletAddress,
       user_id: walletData.userId,
       wallet_type: walletData.walletType,
@@ -97,8 +92,7 @@ export const createWallet = async (walletData: {
     };
     
     
-    const response = await api.post('/users', backendData);
-    return response.data;
+    return await apiClient.post<WalletData>('/users', backendData);
   } catch (error: any) {
     throw error;
   }
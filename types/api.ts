@@ -0,0 +1,367 @@
+// Request and response models for the backend API
+
+import type { Valuation } from './auth';
+
+/**
+ * Returned by routes that only acknowledge a change
+ */
+export interface SuccessResponse {
+  success: boolean;
+}
+
+// Users
+
+/**
+ * Free-form settings the backend keeps with the user
+ */
+export type UserPreferences = Record<string, string | number | boolean | null>;
+
+export interface RegisterUserRequest {
+  wallet_address: string;
+  username: string;
+  user_type: 'vendor' | 'customer';
+  is_verified: boolean;
+  preferences?: UserPreferences;
+  vendor_description?: string;
+  vendor_google_maps_link?: string;
+  vendor_website_link?: string;
+}
+
+export interface RegisteredUser {
+  userId?: string;
+  user_id?: string;
+  username?: string;
+  user_type?: 'vendor' | 'customer';
+  is_verified?: boolean;
+  isVerified?: boolean;
+}
+
+/**
+ * Profile fields a user can change after registering; anything left out is kept
+ */
+export interface UpdateProfileRequest {
+  username?: string;
+  preferences?: UserPreferences;
+  vendor_description?: string;
+  vendor_google_maps_link?: string;
+  vendor_website_link?: string;
+}
+
+// Sessions
+
+export interface NonceRequest {
+  walletAddress: string;
+}
+
+/**
+ * A one-time challenge to sign with the wallet's key
+ * Any `message` is ignored; the app builds the signed text itself
+ */
+export interface NonceResponse {
+  nonce: string;
+  message?: string;
+}
+
+export interface VerifyWalletRequest {
+  walletAddress: string;
+  signature: string;
+  nonce: string;
+}
+
+export interface SessionResponse {
+  token: string;
+  expires_at?: number;
+}
+
+// Wallets
+
+export interface RegisterWalletRequest {
+  wallet_address: string;
+  user_id: string;
+  wallet_type: string;
+  is_backed_up: boolean;
+  has_biometrics: boolean;
+}
+
+/**
+ * Wallet and owner details returned for a wallet address
+ */
+export interface WalletData {
+  id: string;
+  wallet_address: string;
+  user_id: string;
+  wallet_type: string;
+  is_backed_up: boolean;
+  has_biometrics: boolean;
+  created_at: string;
+  updated_at: string;
+  // User info
+  username?: string;
+  name?: string;
+  email?: string;
+  user_type?: 'vendor' | 'customer';
+  valuations?: any;
+  is_verified?: boolean;
+}
+
+/**
+ * A single token balance, keyed by "address,shard" in WalletBalancesResponse
+ * Balances are in base units, `decimals` of which make up one token
+ */
+export interface TokenBalanceData {
+  balance: number;
+  decimals?: number;
+  symbol?: string;
+  name?: string;
+  market_valuation?: string;
+  average_valuation?: string | number;
+  token_image_url?: string;
+  total_allocated?: number;
+}
+
+export type WalletBalancesResponse = Record<string, TokenBalanceData>;
+
+// Valuations
+
+export interface TokenValuation {
+  token_name: string;
+  token_symbol: string | null;
+  current_valuation: number;
+  has_set: boolean;
+  token_image_url?: string;
+}
+
+export interface ValuationsResponse {
+  valuations: TokenValuation[];
+}
+
+/**
+ * The shapes the valuations route has returned: a bare list, a { valuations }
+ * object, or balances keyed by token
+ */
+export type TokenValuationsPayload = TokenValuation[] | ValuationsResponse | WalletBalancesResponse;
+
+export interface UpdateValuationRequest {
+  symbol: string;
+  valuation: number;
+}
+
+export interface UpdateValuationResponse {
+  symbol: string;
+  valuation: number;
+}
+
+// Payments
+
+export interface TokenPayment {
+  token_key: string;
+  symbol: string;
+  amount_to_pay: number;
+  decimals?: number;     // The token's precision; amounts without it can't be checked
+}
+
+/**
+ * One line of an itemized payment request
+ */
+export interface PaymentLineItem {
+  name: string;
+  quantity: number;
+  unit_price_usd: number;
+}
+
+/**
+ * What an itemized request is for
+ * price_usd is the line totals plus the tip
+ */
+export interface PaymentInvoice {
+  line_items: PaymentLineItem[];
+  tip_usd?: number;
+}
+
+/**
+ * A payment settles a vendor's request; a transfer is sent straight to another wallet;
+ * a refund is a transfer back to a payment's payer
+ * For transfers and refunds vendor_address is the recipient and payer_address the sender
+ */
+export type PaymentKind = 'payment' | 'transfer' | 'refund';
+
+/**
+ * A payment request as stored by the backend
+ */
+export interface PaymentDetails extends Partial<PaymentInvoice> {
+  payment_id: string;
+  kind?: PaymentKind;    // Absent means 'payment'
+  vendor_address: string;
+  vendor_name: string;
+  status: string;
+  price_usd: number;
+  created_at: number;
+  payment_bundle: TokenPayment[];
+  unsigned_transaction?: string;
+  payer_address?: string;
+  payer_username?: string;
+  label?: string;        // The vendor's name for the request, e.g. who it's for
+  expires_at?: number;   // Seconds; unpaid requests expire after this
+  note?: string;         // Transfers only, the sender's message
+  refund_of?: string;    // Refunds only, the payment being refunded
+  refunded_usd?: number; // Payments only, total of completed refunds
+}
+
+export interface CreatePaymentRequest extends Partial<PaymentInvoice> {
+  vendor_address: string;
+  vendor_name: string;
+  price_usd: number;
+  vendor_valuations: Valuation[] | null;
+  is_verified?: boolean;
+  label?: string;
+}
+
+export interface CreatePaymentResponse {
+  payment_id: string;
+  status?: string;
+  expires_at?: number;
+}
+
+/**
+ * A direct transfer to another wallet
+ * Give amount_usd to have the backend pick the tokens, or tokens to send exactly those
+ */
+export interface CreateTransferRequest {
+  from_wallet: string;
+  to_wallet: string;
+  amount_usd?: number;
+  tokens?: Array<{ token_key: string; amount: number }>;
+  note?: string;
+}
+
+/**
+ * proportional: the payment's own tokens, scaled to the refund
+ * usd_equivalent: tokens worth the refund, picked like a payment bundle
+ */
+export type RefundMethod = 'proportional' | 'usd_equivalent';
+
+export interface CreateRefundRequest {
+  vendor_address: string;
+  amount_usd: number;
+  method: RefundMethod;
+}
+
+export interface PayerBalance {
+  token_key: string;     // "address,shard"
+  symbol: string;
+  name: string;
+  balance: number;
+  average_valuation: number;
+  token_image_url?: string | null;
+}
+
+export interface SupplementPaymentRequest {
+  payer_address: string;
+  payer_username?: string;
+  payer_balances: PayerBalance[];
+}
+
+export interface CompletePaymentRequest {
+  customer_address: string;
+}
+
+export interface SignPaymentRequest {
+  payment_id: string;
+  signed_transaction: string;
+  vendor_address: string;
+  vendor_name: string;
+  price_usd: number;
+  payment_bundle: TokenPayment[];
+  payer_address: string;
+}
+
+export interface BatchStatusResponse {
+  statuses: Array<{
+    payment_id: string;
+    status: string;
+  }>;
+}
+
+// Transaction history
+
+export interface TransactionHistoryQuery {
+  wallet_address: string;
+  limit?: number;
+  cursor?: string | null;
+}
+
+interface BaseActivity {
+  type: 'transaction' | 'deposit';
+  created_at: number; // Unix timestamp
+}
+
+export interface TransactionActivity extends BaseActivity, Partial<PaymentInvoice> {
+  type: 'transaction';
+  payment_id: string;
+  kind?: PaymentKind;
+  note?: string;
+  refund_of?: string;
+  refunded_usd?: number;
+  direction: 'Sent' | 'Received';
+  counterparty_address: string;
+  counterparty_username?: string;
+  vendor_name?: string;
+  status: string;
+  price_usd: number;
+  computed_payment?: Array<{
+    token_key: string;
+    symbol: string;
+    amount_to_pay: number;
+    decimals?: number;
+    token_image_url?: string;
+  }>;
+}
+
+export interface DepositActivity extends BaseActivity {
+  type: 'deposit';
+  id: null;
+  status?: string;  // Absent once the deposit has settled
+  wallet_address: string;
+  token_symbol: string;
+  token_image_url: string | null;
+  token_decimals?: number;  // Precision of amount_tokens_received
+  amount_deposited_usd: number;
+  amount_tokens_received: number;
+}
+
+export type Activity = TransactionActivity | DepositActivity;
+
+export interface TransactionHistoryResponse {
+  transactions?: PaymentDetails[];
+  activities?: Activity[];
+  cursor?: string | null;
+}
+
+// Vendors
+
+export interface PartneredVendor {
+  _id: string;
+  name: string;
+  description: string;
+  google_maps_link?: string;
+  website_link?: string;
+}
+
+// Stripe
+
+export interface StripePaymentLinkRequest {
+  amount: number;           // Amount in USD cents (e.g., 1000 for $10.00)
+  walletAddress: string;    // User's public wallet address
+  metadata?: Record<string, string>; // Any additional metadata
+}
+
+export interface StripePaymentLinkResponse {
+  url: string;              // The payment link URL
+  id: string;               // Stripe payment link ID
+}
+
+export interface StripePaymentStatusResponse {
+  id: string;
+  status: string;
+  [key: string]: any;
+}
@@ -50,6 +50,22 @@ export interface WalletStorageData {
     privateKey: string;
   } | null;
   walletAddress: string | null;
+  derivationMode: 'slip10' | 'legacy';
+  accountIndex: number;
+}
+
+export interface AccountInfo {
+  index: number;
+  derivationMode: 'slip10' | 'legacy';
+  publicKey: string;
+}
+
+export interface StoredWallet {
+  id: string;
+  walletAddress: string;
+  userName: string | null;
+  userType: 'vendor' | 'customer' | null;
+  createdAt: number;
 }
 
 export interface UserStorageData {
@@ -0,0 +1,59 @@
+// Payment related types shared by the transaction contexts
+import type { PaymentKind, PaymentLineItem, TokenPayment } from './api';
+
+/**
+ * Normalized payment status
+ * The backend and older caches report these in mixed case and with aliases
+ * ('success', 'confirmed', 'pending'), see normalizePaymentStatus
+ */
+export enum PaymentStatus {
+  Created = 'Created',       // Vendor created the request, nobody has scanned it yet
+  Assigned = 'Assigned',     // A payer scanned it and has a bundle to sign
+  Completed = 'Completed',
+  Failed = 'Failed',
+  Cancelled = 'Cancelled',   // Vendor deleted the request
+  Expired = 'Expired',
+}
+
+// When a payment entered a status
+export interface PaymentTransition {
+  status: PaymentStatus;
+  at: number;  // ms
+}
+
+export type Transaction = {
+  payment_id: string;
+  kind?: PaymentKind;  // Absent means 'payment'
+  vendor_address: string;
+  vendor_name: string;
+  status: string;
+  price_usd: number;
+  created_at: number;
+  payment_bundle: TokenPayment[];
+  unsigned_transaction?: string;
+  label?: string;
+  expires_at?: number;  // seconds
+
+  // Transfers only, the sender's message
+  note?: string;
+
+  // Itemized requests only
+  line_items?: PaymentLineItem[];
+  tip_usd?: number;
+
+  // Every status this payment has been seen in, oldest first
+  status_history?: PaymentTransition[];
+
+  // Legacy fields for compatibility
+  paymentId?: string;
+  merchantId?: string;
+  amount?: number;
+  calculatedBundle?: TokenBreakdown[] | null;
+  createdAt?: string;
+  updatedAt?: string;
+};
+
+export type TokenBreakdown = {
+  tokenSymbol: string;
+  amount: number;
+};
@@ -0,0 +1,94 @@
+import type { Activity, DepositActivity, TransactionActivity } from '@/types/api';
+import {
+  filterActivities,
+  groupActivities,
+  hasActiveFilters,
+  DEFAULT_HISTORY_FILTERS,
+} from '../activityFilters';
+
+const NOW = new Date(2025, 0, 31, 12).getTime();
+const secondsAgo = (days: number) => Math.floor((NOW - days * 24 * 60 * 60 * 1000) / 1000);
+
+const payment = (overrides: Partial<TransactionActivity> = {}): TransactionActivity => ({
+  type: 'transaction',
+  payment_id: 'PAY1',
+  direction: 'Sent',
+  counterparty_address: 'BakeryWallet1111',
+  counterparty_username: 'corner_bakery',
+  vendor_name: 'Corner Bakery',
+  status: 'Completed',
+  price_usd: 10,
+  created_at: secondsAgo(1),
+  computed_payment: [{ token_key: 'USD111,0', symbol: 'USD', amount_to_pay: 10 }],
+  ...overrides,
+});
+
+const deposit = (overrides: Partial<DepositActivity> = {}): DepositActivity => ({
+  type: 'deposit',
+  id: null,
+  wallet_address: 'me',
+  token_symbol: 'GRDN',
+  token_image_url: null,
+  amount_deposited_usd: 25,
+  amount_tokens_received: 2500,
+  created_at: secondsAgo(2),
+  ...overrides,
+});
+
+const activities: Activity[] = [
+  payment(),
+  payment({ payment_id: 'PAY2', direction: 'Received', vendor_name: undefined, counterparty_address: 'SamWallet1111', counterparty_username: 'sam', status: 'Assigned', created_at: secondsAgo(3) }),
+  payment({ payment_id: 'PAY3', status: 'Cancelled', created_at: secondsAgo(40) }),
+  deposit(),
+];
+
+const ids = (list: Activity[]) => list.map(activity => activity.type === 'deposit' ? 'deposit' : activity.payment_id);
+const filter = (overrides: Partial<typeof DEFAULT_HISTORY_FILTERS>) =>
+  ids(filterActivities(activities, { ...DEFAULT_HISTORY_FILTERS, ...overrides }, NOW));
+
+describe('filterActivities', () => {
+  it('keeps everything with the default filters', () => {
+    expect(filter({})).toEqual(['PAY1', 'PAY2', 'PAY3', 'deposit']);
+    expect(hasActiveFilters(DEFAULT_HISTORY_FILTERS)).toBe(false);
+  });
+
+  it('treats deposits as received and completed', () => {
+    expect(filter({ direction: 'Received' })).toEqual(['PAY2', 'deposit']);
+    expect(filter({ status: 'completed' })).toEqual(['PAY1', 'deposit']);
+  });
+
+  it('filters by status', () => {
+    expect(filter({ status: 'pending' })).toEqual(['PAY2']);
+    expect(filter({ status: 'failed' })).toEqual(['PAY3']);
+  });
+
+  it('searches names and token symbols', () => {
+    expect(filter({ query: ' BAKERY ' })).toEqual(['PAY1', 'PAY3']);
+    expect(filter({ query: 'grdn' })).toEqual(['deposit']);
+    expect(hasActiveFilters({ ...DEFAULT_HISTORY_FILTERS, query: 'sam' })).toBe(true);
+  });
+
+  it('filters by token, type and date range', () => {
+    expect(filter({ token: 'GRDN' })).toEqual(['deposit']);
+    expect(filter({ type: 'transaction', dateRange: '30d' })).toEqual(['PAY1', 'PAY2']);
+  });
+});
+
+describe('groupActivities', () => {
+  it('groups by day, newest first, counting only completed activity', () => {
+    const groups = groupActivities(activities, 'day');
+
+    expect(groups.map(group => ids(group.activities))).toEqual([['PAY1'], ['deposit'], ['PAY2'], ['PAY3']]);
+    expect(groups[0].sentUSD).toBe(10);
+    expect(groups[1].receivedUSD).toBe(25);
+    expect(groups[2].receivedUSD).toBe(0);
+    expect(groups[3].sentUSD).toBe(0);
+  });
+
+  it('groups by month', () => {
+    const groups = groupActivities(activities, 'month');
+
+    expect(groups.map(group => group.label)).toEqual(['January 2025', 'December 2024']);
+    expect(groups[0].activities).toHaveLength(3);
+  });
+});
@@ -0,0 +1,91 @@
+import bs58 from 'bs58';
+import {
+  buildPaymentLink,
+  buildRecipientLink,
+  isWalletAddress,
+  normalizePaymentId,
+  parsePaymentLink,
+  parseRecipient,
+  paymentLinkMismatch,
+} from '../paymentLink';
+
+const ADDRESS = bs58.encode(new Uint8Array(32).fill(9));
+
+describe('normalizePaymentId', () => {
+  it('trims and upper-cases codes', () => {
+    expect(normalizePaymentId(' ab12-cd ')).toBe('AB12-CD');
+  });
+
+  it('rejects anything that cannot be a payment code', () => {
+    expect(normalizePaymentId('')).toBeNull();
+    expect(normalizePaymentId('ab/12')).toBeNull();
+    expect(normalizePaymentId('A'.repeat(65))).toBeNull();
+  });
+});
+
+describe('parsePaymentLink', () => {
+  it('reads bare payment codes', () => {
+    expect(parsePaymentLink('abc123')).toEqual({ paymentId: 'ABC123' });
+    expect(parsePaymentLink('not a code')).toBeNull();
+  });
+
+  it('reads universal and app scheme links with their hints', () => {
+    expect(parsePaymentLink('https://indexwallets.com/pay/abc123?amount=4.50&vendor=Corner%20Bakery')).toEqual({
+      paymentId: 'ABC123',
+      amount: 4.5,
+      vendor: 'Corner Bakery',
+    });
+    expect(parsePaymentLink('https://www.indexwallets.com/pay/ABC123')).toEqual({ paymentId: 'ABC123' });
+    expect(parsePaymentLink('indexwallet://pay/abc123')).toEqual({ paymentId: 'ABC123' });
+  });
+
+  it('drops hints that are not usable', () => {
+    expect(parsePaymentLink('indexwallet://pay/ABC123?amount=-1&vendor=%20')).toEqual({ paymentId: 'ABC123' });
+  });
+
+  it('rejects links to other hosts, schemes and paths', () => {
+    expect(parsePaymentLink('https://evil.example/pay/ABC123')).toBeNull();
+    expect(parsePaymentLink('ftp://indexwallets.com/pay/ABC123')).toBeNull();
+    expect(parsePaymentLink('https://indexwallets.com/send/ABC123')).toBeNull();
+    expect(parsePaymentLink('https://indexwallets.com/pay/ABC123/extra')).toBeNull();
+    expect(parsePaymentLink('indexwallet://pay/abc%2F123')).toBeNull();
+  });
+
+  it('reads back the links it builds', () => {
+    const link = { paymentId: 'ABC123', amount: 12, vendor: 'Café & Co' };
+    expect(parsePaymentLink(buildPaymentLink(link))).toEqual(link);
+    expect(parsePaymentLink(buildPaymentLink(link, false))).toEqual(link);
+  });
+});
+
+describe('paymentLinkMismatch', () => {
+  it('accepts a request that matches the link', () => {
+    expect(paymentLinkMismatch({ paymentId: 'A', amount: 4.5, vendor: 'bakery' }, { price_usd: 4.5, vendor_name: 'Bakery ' })).toBeNull();
+  });
+
+  it('describes every difference', () => {
+    const warning = paymentLinkMismatch({ paymentId: 'A', amount: 4.5, vendor: 'Bakery' }, { price_usd: 45, vendor_name: 'Garden' });
+    expect(warning).toContain('$4.50');
+    expect(warning).toContain('"Bakery"');
+  });
+});
+
+describe('recipients', () => {
+  it('only accepts 32-byte base58 addresses', () => {
+    expect(isWalletAddress(ADDRESS)).toBe(true);
+    expect(isWalletAddress(bs58.encode(new Uint8Array(31).fill(9)))).toBe(false);
+    expect(isWalletAddress('0OIl')).toBe(false);
+  });
+
+  it('reads pasted addresses and recipient links', () => {
+    expect(parseRecipient(` ${ADDRESS} `)).toEqual({ address: ADDRESS });
+    expect(parseRecipient(buildRecipientLink({ address: ADDRESS, name: 'Sam' }))).toEqual({ address: ADDRESS, name: 'Sam' });
+    expect(parseRecipient(buildRecipientLink({ address: ADDRESS }))).toEqual({ address: ADDRESS });
+  });
+
+  it('rejects payment links and malformed recipients', () => {
+    expect(parseRecipient(`indexwallet://pay/${ADDRESS}`)).toBeNull();
+    expect(parseRecipient('indexwallet://send/not-an-address')).toBeNull();
+    expect(parseRecipient(`https://indexwallets.com/send/${ADDRESS}`)).toBeNull();
+  });
+});
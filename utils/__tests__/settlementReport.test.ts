@@ -0,0 +1,186 @@
+import type { Activity, TransactionActivity } from '@/types/api';
+import { buildSettlementReport, dayBounds, dayKey, formatSettlementAmount } from '../settlementReport';
+
+const DAY = new Date(2025, 2, 10);
+const at = (hour: number) => Math.floor(new Date(2025, 2, 10, hour).getTime() / 1000);
+
+const received = (overrides: Partial<TransactionActivity> = {}): TransactionActivity => ({
+  type: 'transaction',
+  payment_id: 'SALE1',
+  direction: 'Received',
+  counterparty_address: 'CustomerWallet1111',
+  counterparty_username: 'sam',
+  status: 'Completed',
+  price_usd: 6,
+  created_at: at(9),
+  computed_payment: [
+    { token_key: 'USD111,0', symbol: 'USD', amount_to_pay: 4, decimals: 2 },
+    { token_key: 'GRDN222,0', symbol: 'GRDN', amount_to_pay: 2.35, decimals: 2 },
+  ],
+  ...overrides,
+});
+
+const activities: Activity[] = [
+  received(),
+  received({ payment_id: 'SALE2', created_at: at(11), price_usd: 1.5, computed_payment: [{ token_key: 'USD111,0', symbol: 'USD', amount_to_pay: 1.5, decimals: 2 }] }),
+  received({ payment_id: 'VOID1', status: 'Expired', created_at: at(12) }),
+  received({ payment_id: 'FRIEND1', kind: 'transfer', created_at: at(13), computed_payment: [{ token_key: 'USD111,0', symbol: 'USD', amount_to_pay: 3, decimals: 2 }] }),
+  received({ payment_id: 'OUT1', direction: 'Sent', created_at: at(14), computed_payment: [{ token_key: 'GRDN222,0', symbol: 'GRDN', amount_to_pay: 1, decimals: 2 }] }),
+  received({ payment_id: 'YESTERDAY', created_at: at(-2) }),
+];
+
+describe('dayBounds', () => {
+  it('covers one local calendar day', () => {
+    const { start, end } = dayBounds(new Date(2025, 2, 10, 15, 30));
+    expect(start).toBe(new Date(2025, 2, 10).getTime());
+    expect(end).toBe(new Date(2025, 2, 11).getTime());
+    expect(dayKey(DAY)).toBe('2025-03-10');
+  });
+});
+
+describe('buildSettlementReport', () => {
+  const report = buildSettlementReport({
+    day: DAY,
+    activities,
+    valueHistory: [
+      { at: at(0) * 1000 - 1, totalValueUSD: 0, balances: { USD: 10, GRDN: 5 } },
+      { at: at(23) * 1000, totalValueUSD: 0, balances: { USD: 18.5, GRDN: 6.35 } },
+    ],
+    currentBalances: {},
+    now: new Date(2025, 2, 12).getTime(),
+  });
+
+  it('lists completed sales and voided requests from the day only', () => {
+    expect(report.sales.map(sale => sale.paymentId)).toEqual(['SALE1', 'SALE2']);
+    expect(report.voided).toEqual([expect.objectContaining({ paymentId: 'VOID1', status: 'Expired' })]);
+    expect(report.totalUSD).toBe(7.5);
+  });
+
+  it('totals the tokens received as sales', () => {
+    expect(report.tokenTotals).toEqual([
+      { symbol: 'USD', amount: 5.5, decimals: 2 },
+      { symbol: 'GRDN', amount: 2.35, decimals: 2 },
+    ]);
+  });
+
+  it('reconciles opening and closing balances with the activity', () => {
+    expect(report.reconciliation).toEqual([
+      { symbol: 'GRDN', decimals: 2, opening: 5, sales: 2.35, other: -1, closing: 6.35, difference: 0 },
+      { symbol: 'USD', decimals: 2, opening: 10, sales: 5.5, other: 3, closing: 18.5, difference: 0 },
+    ]);
+  });
+
+  it('leaves the difference open without an opening balance', () => {
+    const withoutHistory = buildSettlementReport({
+      day: DAY,
+      activities,
+      valueHistory: [],
+      currentBalances: { USD: 1 },
+      now: new Date(2025, 2, 10, 20).getTime(),
+    });
+    expect(withoutHistory.reconciliation.every(line => line.difference === null)).toBe(true);
+    expect(withoutHistory.reconciliation.find(line => line.symbol === 'USD')?.closing).toBe(1);
+  });
+});
+
+describe('refunds', () => {
+  const refundSent = received({
+    payment_id: 'REFUND1',
+    kind: 'refund',
+    refund_of: 'SALE1',
+    direction: 'Sent',
+    price_usd: 2,
+    created_at: at(15),
+    computed_payment: [{ token_key: 'USD111,0', symbol: 'USD', amount_to_pay: 2, decimals: 2 }],
+  });
+  const input = {
+    day: DAY,
+    activities: [received({ refunded_usd: 2 }), refundSent],
+    valueHistory: [
+      { at: at(0) * 1000 - 1, totalValueUSD: 0, balances: { USD: 10, GRDN: 5 } },
+      { at: at(23) * 1000, totalValueUSD: 0, balances: { USD: 12, GRDN: 7.35 } },
+    ],
+    currentBalances: {},
+    now: new Date(2025, 2, 12).getTime(),
+  };
+
+  it('keeps the refunded sale and takes the refund out of the balance', () => {
+    const report = buildSettlementReport(input);
+    expect(report.sales.map(sale => sale.paymentId)).toEqual(['SALE1']);
+    expect(report.totalUSD).toBe(6);
+    expect(report.reconciliation).toEqual([
+      { symbol: 'GRDN', decimals: 2, opening: 5, sales: 2.35, other: 0, closing: 7.35, difference: 0 },
+      { symbol: 'USD', decimals: 2, opening: 10, sales: 4, other: -2, closing: 12, difference: 0 },
+    ]);
+  });
+
+  it('counts a refund received as other activity, not a sale', () => {
+    const report = buildSettlementReport({
+      ...input,
+      activities: [{ ...refundSent, direction: 'Received' }],
+      valueHistory: [
+        { at: at(0) * 1000 - 1, totalValueUSD: 0, balances: { USD: 10 } },
+        { at: at(23) * 1000, totalValueUSD: 0, balances: { USD: 12 } },
+      ],
+    });
+    expect(report.sales).toEqual([]);
+    expect(report.reconciliation).toEqual([expect.objectContaining({ symbol: 'USD', sales: 0, other: 2, difference: 0 })]);
+  });
+
+  it('leaves out refunds that never completed', () => {
+    const report = buildSettlementReport({
+      ...input,
+      activities: [received(), { ...refundSent, status: 'Cancelled' }],
+      valueHistory: [input.valueHistory[0], { ...input.valueHistory[1], balances: { USD: 14, GRDN: 7.35 } }],
+    });
+    expect(report.voided).toEqual([]);
+    expect(report.reconciliation.find(line => line.symbol === 'USD')).toEqual(expect.objectContaining({ other: 0, difference: 0 }));
+  });
+});
+
+describe('token precision', () => {
+  const deposit: Activity = {
+    type: 'deposit',
+    id: null,
+    wallet_address: 'me',
+    token_symbol: 'GRDN',
+    token_image_url: null,
+    amount_deposited_usd: 5,
+    amount_tokens_received: 500,
+    created_at: at(10),
+  };
+  const input = {
+    day: DAY,
+    activities: [received({ computed_payment: [{ token_key: 'GRDN222,0', symbol: 'GRDN', amount_to_pay: 2.345 }] }), deposit],
+    valueHistory: [
+      { at: at(0) * 1000 - 1, totalValueUSD: 0, balances: { GRDN: 1 } },
+      { at: at(23) * 1000, totalValueUSD: 0, balances: { GRDN: 8.35 } },
+    ],
+    currentBalances: {},
+    now: new Date(2025, 2, 12).getTime(),
+  };
+
+  it('falls back to the precision of the held token', () => {
+    const report = buildSettlementReport({ ...input, tokenDecimals: { GRDN: 2 } });
+    expect(report.tokenTotals).toEqual([{ symbol: 'GRDN', amount: 2.35, decimals: 2 }]);
+    expect(report.reconciliation).toEqual([expect.objectContaining({ other: 5, difference: 0 })]);
+  });
+
+  it('does not guess a precision nobody sent', () => {
+    const report = buildSettlementReport(input);
+    expect(report.tokenTotals).toEqual([{ symbol: 'GRDN', amount: 2.345, decimals: null }]);
+    // The deposit is in base units, so it can't be counted without a precision
+    expect(report.reconciliation).toEqual([expect.objectContaining({ decimals: null, other: 0, difference: null })]);
+  });
+});
+
+describe('formatSettlementAmount', () => {
+  it('formats at the token precision', () => {
+    expect(formatSettlementAmount(2.345, 2)).toBe('2.35');
+    expect(formatSettlementAmount(1.5, 4)).toBe('1.50');
+  });
+
+  it('leaves amounts of unknown precision as they are', () => {
+    expect(formatSettlementAmount(2.345, null)).toBe('2.345');
+  });
+});
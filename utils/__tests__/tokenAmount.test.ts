@@ -0,0 +1,97 @@
+import {
+  addTokenAmounts,
+  compareTokenAmounts,
+  formatBaseUnits,
+  formatTokenAmount,
+  formatTokenValue,
+  fromBaseUnits,
+  getTokenDecimals,
+  parseTokenAmount,
+  parseTokenAmountFor,
+  subtractTokenAmounts,
+  tokenAmountToNumber,
+} from '../tokenAmount';
+
+describe('parseTokenAmount', () => {
+  it('parses decimal strings and numbers into base units', () => {
+    expect(parseTokenAmount('12.5', 2)).toEqual({ units: BigInt(1250), decimals: 2 });
+    expect(parseTokenAmount(0.1, 6)).toEqual({ units: BigInt(100000), decimals: 6 });
+    expect(parseTokenAmount('.75', 2)).toEqual({ units: BigInt(75), decimals: 2 });
+    expect(parseTokenAmount('-3', 2)).toEqual({ units: BigInt(-300), decimals: 2 });
+    expect(parseTokenAmount(' 7. ', 2)).toEqual({ units: BigInt(700), decimals: 2 });
+  });
+
+  it('rounds digits past the precision half up', () => {
+    expect(parseTokenAmount('1.005', 2).units).toBe(BigInt(101));
+    expect(parseTokenAmount('1.0049', 2).units).toBe(BigInt(100));
+    expect(parseTokenAmount('2.5', 0).units).toBe(BigInt(3));
+  });
+
+  it('handles numbers that stringify in exponent form', () => {
+    expect(parseTokenAmount(1e-7, 8).units).toBe(BigInt(10));
+  });
+
+  it('rejects values that are not numbers', () => {
+    expect(() => parseTokenAmount('abc', 2)).toThrow('Invalid token amount');
+    expect(() => parseTokenAmount('.', 2)).toThrow();
+    expect(() => parseTokenAmount('1,5', 2)).toThrow();
+  });
+});
+
+describe('formatTokenAmount', () => {
+  it('keeps two decimals and trims zeros beyond them', () => {
+    expect(formatTokenAmount(fromBaseUnits(1250, 2))).toBe('12.50');
+    expect(formatTokenAmount(fromBaseUnits(1234500, 6))).toBe('1.2345');
+    expect(formatTokenAmount(fromBaseUnits(5, 0))).toBe('5');
+  });
+
+  it('rounds half away from zero to the requested digits', () => {
+    expect(formatTokenAmount(fromBaseUnits(1005, 3), { maximumFractionDigits: 2 })).toBe('1.01');
+    expect(formatTokenAmount(fromBaseUnits(-1005, 3), { maximumFractionDigits: 2 })).toBe('-1.01');
+    expect(formatTokenAmount(fromBaseUnits(-4, 3), { maximumFractionDigits: 2 })).toBe('0.00');
+  });
+});
+
+describe('token decimals', () => {
+  it('reads the precision sent with the token', () => {
+    const token = { token_key: 'META111,0', symbol: 'META', decimals: 6 };
+    expect(getTokenDecimals(token)).toBe(6);
+    expect(parseTokenAmountFor('1.5', token).units).toBe(BigInt(1500000));
+    expect(formatTokenValue(1.5, token)).toBe('1.50');
+    expect(formatBaseUnits(1500000, token)).toBe('1.50');
+  });
+
+  it('does not read the shard as decimals', () => {
+    expect(() => getTokenDecimals({ token_key: 'SHARD111,7' })).toThrow('Unknown precision for token SHARD111,7');
+  });
+
+  it('refuses to guess a missing or invalid precision', () => {
+    expect(() => getTokenDecimals({ symbol: 'UNSEEN' })).toThrow('Unknown precision for token UNSEEN');
+    expect(() => getTokenDecimals({ symbol: 'BAD', decimals: 2.5 })).toThrow();
+    expect(() => parseTokenAmountFor('1', { symbol: 'BAD', decimals: -1 })).toThrow();
+  });
+
+  it('shows amounts of unknown precision as sent', () => {
+    expect(formatTokenValue(1.005, { symbol: 'UNSEEN' })).toBe('1.005');
+    expect(formatBaseUnits(1500, { symbol: 'UNSEEN' })).toBe('—');
+  });
+});
+
+describe('arithmetic', () => {
+  it('adds, subtracts and compares at the same precision', () => {
+    const a = parseTokenAmount('0.1', 2);
+    const b = parseTokenAmount('0.2', 2);
+    expect(formatTokenAmount(addTokenAmounts(a, b))).toBe('0.30');
+    expect(formatTokenAmount(subtractTokenAmounts(a, b))).toBe('-0.10');
+    expect(compareTokenAmounts(a, b)).toBeLessThan(0);
+    expect(compareTokenAmounts(b, b)).toBe(0);
+  });
+
+  it('refuses to mix precisions', () => {
+    expect(() => addTokenAmounts(parseTokenAmount('1', 2), parseTokenAmount('1', 6))).toThrow();
+  });
+
+  it('converts to a number for estimates', () => {
+    expect(tokenAmountToNumber(fromBaseUnits('1999', 2))).toBeCloseTo(19.99);
+  });
+});
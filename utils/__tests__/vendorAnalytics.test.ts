@@ -0,0 +1,98 @@
+import type { Activity, TransactionActivity } from '@/types/api';
+import { completedSales, revenueBuckets, tokenShares, topRepeatCustomers, BUCKET_COUNTS } from '../vendorAnalytics';
+
+// A Wednesday
+const NOW = new Date(2025, 4, 14, 12).getTime();
+const daysAgo = (days: number) => Math.floor(new Date(2025, 4, 14 - days, 10).getTime() / 1000);
+
+const sale = (overrides: Partial<TransactionActivity> = {}): TransactionActivity => ({
+  type: 'transaction',
+  payment_id: 'SALE1',
+  direction: 'Received',
+  counterparty_address: 'SamWallet1111',
+  counterparty_username: 'sam',
+  status: 'Completed',
+  price_usd: 10,
+  created_at: daysAgo(0),
+  computed_payment: [{ token_key: 'USD111,0', symbol: 'USD', amount_to_pay: 10 }],
+  ...overrides,
+});
+
+describe('completedSales', () => {
+  it('keeps completed received payments, newest first', () => {
+    const activities: Activity[] = [
+      sale({ payment_id: 'OLD', created_at: daysAgo(5) }),
+      sale({ payment_id: 'NEW' }),
+      sale({ payment_id: 'SENT', direction: 'Sent' }),
+      sale({ payment_id: 'OPEN', status: 'Assigned' }),
+    ];
+    expect(completedSales(activities).map(activity => activity.payment_id)).toEqual(['NEW', 'OLD']);
+  });
+});
+
+describe('revenueBuckets', () => {
+  const sales = [sale(), sale({ created_at: daysAgo(0), price_usd: 5 }), sale({ created_at: daysAgo(2) }), sale({ created_at: daysAgo(400) })];
+
+  it('sums each day, ending today', () => {
+    const buckets = revenueBuckets(sales, 'daily', NOW);
+
+    expect(buckets).toHaveLength(BUCKET_COUNTS.daily);
+    expect(buckets[buckets.length - 1]).toMatchObject({ revenueUSD: 15, sales: 2 });
+    expect(buckets[buckets.length - 3]).toMatchObject({ revenueUSD: 10, sales: 1 });
+  });
+
+  it('starts weeks on Monday', () => {
+    const buckets = revenueBuckets(sales, 'weekly', NOW);
+
+    expect(new Date(buckets[buckets.length - 1].start).getDay()).toBe(1);
+    expect(buckets[buckets.length - 1]).toMatchObject({ revenueUSD: 25, sales: 3 });
+  });
+
+  it('ignores sales older than the chart', () => {
+    const total = revenueBuckets(sales, 'monthly', NOW).reduce((sum, bucket) => sum + bucket.sales, 0);
+    expect(total).toBe(3);
+  });
+});
+
+describe('tokenShares', () => {
+  it('splits each sale by valuation and compares with it', () => {
+    const shares = tokenShares([
+      sale({
+        price_usd: 9,
+        computed_payment: [
+          { token_key: 'USD111,0', symbol: 'USD', amount_to_pay: 5 },
+          { token_key: 'GRDN222,0', symbol: 'GRDN', amount_to_pay: 5 },
+        ],
+      }),
+    ], { USD: 1, GRDN: 1 });
+
+    expect(shares.map(share => share.symbol).sort()).toEqual(['GRDN', 'USD']);
+    const usd = shares.find(share => share.symbol === 'USD')!;
+    expect(usd.chargedUSD).toBeCloseTo(4.5);
+    expect(usd.sharePercent).toBeCloseTo(50);
+    expect(usd.premiumPercent).toBeCloseTo(-10);
+  });
+
+  it('splits by amount when nothing has a valuation', () => {
+    const [share] = tokenShares([sale()], {});
+    expect(share).toMatchObject({ symbol: 'USD', chargedUSD: 10, sharePercent: 100, premiumPercent: null });
+  });
+});
+
+describe('topRepeatCustomers', () => {
+  it('only lists customers who came back', () => {
+    const customers = topRepeatCustomers([
+      sale(),
+      sale({ created_at: daysAgo(3), counterparty_username: undefined }),
+      sale({ counterparty_address: 'OnceWallet1111', counterparty_username: 'once' }),
+    ]);
+
+    expect(customers).toEqual([{
+      address: 'SamWallet1111',
+      name: 'sam',
+      purchases: 2,
+      spentUSD: 20,
+      lastPurchaseAt: daysAgo(0) * 1000,
+    }]);
+  });
+});
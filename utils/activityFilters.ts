@@ -0,0 +1,155 @@
+// Search, filtering and grouping for the transaction history explorer
+import type { Activity } from '@/types/api';
+import { isCompletedStatus, isTerminalStatus } from '@/services/paymentStateMachine';
+
+export type DirectionFilter = 'all' | 'Sent' | 'Received';
+export type ActivityTypeFilter = 'all' | 'transaction' | 'deposit';
+export type StatusFilter = 'all' | 'completed' | 'pending' | 'failed';
+export type DateRangeFilter = 'all' | '7d' | '30d' | '90d' | '365d';
+export type HistoryGrouping = 'day' | 'month';
+
+export interface HistoryFilters {
+  query: string;
+  direction: DirectionFilter;
+  type: ActivityTypeFilter;
+  status: StatusFilter;
+  token: string | null;  // Token symbol
+  dateRange: DateRangeFilter;
+  groupBy: HistoryGrouping;
+}
+
+export const DEFAULT_HISTORY_FILTERS: HistoryFilters = {
+  query: '',
+  direction: 'all',
+  type: 'all',
+  status: 'all',
+  token: null,
+  dateRange: 'all',
+  groupBy: 'day',
+};
+
+export const DATE_RANGE_DAYS: Record<Exclude<DateRangeFilter, 'all'>, number> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+  '365d': 365,
+};
+
+export interface ActivityGroup {
+  key: string;
+  label: string;
+  activities: Activity[];
+  receivedUSD: number;
+  sentUSD: number;
+}
+
+// Activity timestamps are in seconds
+const activityDate = (activity: Activity) => new Date(activity.created_at * 1000);
+
+const isIncoming = (activity: Activity) =>
+  activity.type === 'deposit' || activity.direction === 'Received';
+
+const activityUSD = (activity: Activity) =>
+  activity.type === 'deposit' ? activity.amount_deposited_usd : activity.price_usd;
+
+// Tokens an activity moved
+export const activityTokens = (activity: Activity): string[] =>
+  activity.type === 'deposit'
+    ? [activity.token_symbol]
+    : (activity.computed_payment || []).map(payment => payment.symbol);
+
+/**
+ * Whether any filter other than grouping differs from the defaults
+ */
+export const hasActiveFilters = (filters: HistoryFilters): boolean =>
+  filters.query.trim() !== ''
+  || filters.direction !== 'all'
+  || filters.type !== 'all'
+  || filters.status !== 'all'
+  || filters.token !== null
+  || filters.dateRange !== 'all';
+
+const matchesQuery = (activity: Activity, query: string) => {
+  if (!query) return true;
+  if (activity.type === 'deposit') {
+    return activity.token_symbol.toLowerCase().includes(query);
+  }
+  return [activity.vendor_name, activity.counterparty_username, activity.counterparty_address]
+    .some(name => name?.toLowerCase().includes(query));
+};
+
+const matchesStatus = (activity: Activity, status: StatusFilter) => {
+  if (status === 'all') return true;
+  // Deposits without a status have settled
+  const activityStatus = activity.type === 'deposit' ? activity.status || 'Completed' : activity.status;
+  if (status === 'completed') return isCompletedStatus(activityStatus);
+  if (status === 'pending') return !isTerminalStatus(activityStatus);
+  return isTerminalStatus(activityStatus) && !isCompletedStatus(activityStatus);
+};
+
+/**
+ * Apply every filter except grouping
+ * @param now - Reference time for the date range, in ms
+ */
+export const filterActivities = (
+  activities: Activity[],
+  filters: HistoryFilters,
+  now: number = Date.now()
+): Activity[] => {
+  const query = filters.query.trim().toLowerCase();
+  const since = filters.dateRange === 'all'
+    ? null
+    : now - DATE_RANGE_DAYS[filters.dateRange] * 24 * 60 * 60 * 1000;
+
+  return activities.filter(activity => {
+    if (filters.type !== 'all' && activity.type !== filters.type) return false;
+    if (filters.direction !== 'all') {
+      if ((filters.direction === 'Received') !== isIncoming(activity)) return false;
+    }
+    if (!matchesStatus(activity, filters.status)) return false;
+    if (filters.token && !activityTokens(activity).includes(filters.token)) return false;
+    if (since !== null && activityDate(activity).getTime() < since) return false;
+    return matchesQuery(activity, query);
+  });
+};
+
+/**
+ * Group activities by calendar day or month, newest first, with USD subtotals
+ * Subtotals only count completed activities
+ */
+export const groupActivities = (activities: Activity[], groupBy: HistoryGrouping): ActivityGroup[] => {
+  const groups = new Map<string, ActivityGroup>();
+  const sorted = [...activities].sort((a, b) => b.created_at - a.created_at);
+
+  for (const activity of sorted) {
+    const date = activityDate(activity);
+    const key = groupBy === 'day'
+      ? `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`
+      : `${date.getFullYear()}-${date.getMonth()}`;
+
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        key,
+        label: date.toLocaleDateString('en-US', groupBy === 'day'
+          ? { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' }
+          : { month: 'long', year: 'numeric' }),
+        activities: [],
+        receivedUSD: 0,
+        sentUSD: 0,
+      };
+      groups.set(key, group);
+    }
+
+    group.activities.push(activity);
+    if (matchesStatus(activity, 'completed')) {
+      if (isIncoming(activity)) {
+        group.receivedUSD += activityUSD(activity);
+      } else {
+        group.sentUSD += activityUSD(activity);
+      }
+    }
+  }
+
+  return [...groups.values()];
+};
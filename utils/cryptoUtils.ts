@@ -2,6 +2,7 @@ import 'react-native-get-random-values'; // must come first
 import * as bip39 from 'bip39';
 import * as ed from '@noble/ed25519';
 import { sha512 } from '@noble/hashes/sha512';
+import { hmac } from '@noble/hashes/hmac';
 import { concatBytes } from '@noble/hashes/utils';
 import bs58 from 'bs58';
 
@@ -26,12 +27,66 @@ export type KeyPair = {
   publicKey:  string;
 };
 
+/**
+ * How a key pair is derived from the BIP39 seed.
+ *  - slip10: SLIP-0010 ed25519 hardened derivation, one key per account index
+ *  - legacy: the first 32 bytes of the seed, as used by early app versions
+ */
+export type DerivationMode = 'slip10' | 'legacy';
+
+export type DerivationOptions = {
+  mode?:         DerivationMode;
+  accountIndex?: number;
+};
+
+export const DEFAULT_DERIVATION_MODE: DerivationMode = 'slip10';
+
+const HARDENED_OFFSET = 0x80000000;
+const ED25519_CURVE_SEED = new TextEncoder().encode('ed25519 seed');
+
+/**
+ * Hardened derivation path for an account, compatible with other ed25519 wallets
+ */
+export const getDerivationPath = (accountIndex: number = 0) =>
+  `m/44'/501'/${accountIndex}'/0'`;
+
+const parseDerivationPath = (path: string): number[] => {
+  if (!/^m(\/\d+')*$/.test(path)) {
+    throw new Error(`Invalid derivation path: ${path}`);
+  }
+  // ed25519 only supports hardened children
+  return path.split('/').slice(1).map(segment => parseInt(segment, 10) + HARDENED_OFFSET);
+};
+
+/**
+ * SLIP-0010 ed25519 derivation of a 32-byte private key from a BIP39 seed
+ */
+export const deriveSlip10PrivateKey = (seed: Uint8Array, path: string): Uint8Array => {
+  let I = hmac(sha512, ED25519_CURVE_SEED, seed);
+  let key = I.slice(0, 32);
+  let chainCode = I.slice(32);
+
+  for (const index of parseDerivationPath(path)) {
+    const data = new Uint8Array(37);
+    data.set(key, 1); // 0x00 || key
+    new DataView(data.buffer).setUint32(33, index);
+    I = hmac(sha512, chainCode, data);
+    key = I.slice(0, 32);
+    chainCode = I.slice(32);
+  }
+
+  return key;
+};
+
 export const createKeyPairFromSeedPhrase = async (
-  seedPhrase: string
+  seedPhrase: string,
+  { mode = DEFAULT_DERIVATION_MODE, accountIndex = 0 }: DerivationOptions = {}
 ): Promise<KeyPair> => {
-  const seed = await bip39.mnemonicToSeed(seedPhrase); // 64 bytes
-  const priv = seed.slice(0, 32);                      // 32-byte private key
-  const pub  = await ed.getPublicKey(priv);            // 32-byte public key
+  const seed = new Uint8Array(await bip39.mnemonicToSeed(seedPhrase)); // 64 bytes
+  const priv = mode === 'legacy'
+    ? seed.slice(0, 32)                                                // raw seed slice
+    : deriveSlip10PrivateKey(seed, getDerivationPath(accountIndex));
+  const pub  = await ed.getPublicKey(priv);                            // 32-byte public key
 
   return {
     privateKey: toBase58(priv),
@@ -0,0 +1,27 @@
+// Line item arithmetic for itemized payment requests, done in whole cents
+import type { PaymentLineItem } from '@/types/api';
+
+export const TIP_PERCENTAGES = [0, 10, 15, 20];
+
+export const toCents = (usd: number) => Math.round(usd * 100);
+
+export const fromCents = (cents: number) => cents / 100;
+
+export const lineTotalCents = (item: PaymentLineItem) => toCents(item.unit_price_usd) * item.quantity;
+
+export const subtotalCents = (items: PaymentLineItem[]) =>
+  items.reduce((sum, item) => sum + lineTotalCents(item), 0);
+
+/**
+ * Tip for a percentage of the subtotal, rounded to the nearest cent
+ */
+export const tipCents = (items: PaymentLineItem[], percent: number) =>
+  Math.round((subtotalCents(items) * percent) / 100);
+
+/**
+ * Whether a price is exactly the line totals plus the tip
+ */
+export const invoiceMatchesPrice = (items: PaymentLineItem[], tipUSD: number, priceUSD: number) =>
+  subtotalCents(items) + toCents(tipUSD) === toCents(priceUSD);
+
+export const formatUSD = (usd: number) => `$${usd.toFixed(2)}`;
@@ -0,0 +1,171 @@
+// Payment URIs, so a payment can start from a link as well as a QR or a typed code
+import * as Linking from 'expo-linking';
+import bs58 from 'bs58';
+import { PAYMENT_LINK_HOST, PAYMENT_LINK_SCHEME } from '@/config';
+
+/**
+ * What a payment link points at
+ * The amount and vendor are hints for the payer; the backend's request is what gets paid
+ */
+export interface PaymentLink {
+  paymentId: string;
+  amount?: number;
+  vendor?: string;
+}
+
+const PAYMENT_ID_PATTERN = /^[A-Z0-9-]{1,64}$/;
+
+const firstParam = (value: string | string[] | undefined) => Array.isArray(value) ? value[0] : value;
+
+/**
+ * Read the optional hints carried by a link's query or route params
+ */
+export const paymentLinkHints = (params: Record<string, string | string[] | undefined>): Omit<PaymentLink, 'paymentId'> => {
+  const amount = parseFloat(firstParam(params.amount) || '');
+  const vendor = firstParam(params.vendor)?.trim();
+  return {
+    ...(Number.isFinite(amount) && amount > 0 && { amount }),
+    ...(vendor && { vendor: vendor.slice(0, 60) }),
+  };
+};
+
+/**
+ * Normalize a payment ID as typed, scanned or taken from a link
+ * @returns null if it can't be a payment ID
+ */
+export const normalizePaymentId = (paymentId: string): string | null => {
+  const normalized = paymentId.trim().toUpperCase();
+  return PAYMENT_ID_PATTERN.test(normalized) ? normalized : null;
+};
+
+/**
+ * Build a link to pay a request
+ * @param universal - https link that also works without the app installed, otherwise the app scheme
+ */
+export const buildPaymentLink = ({ paymentId, amount, vendor }: PaymentLink, universal = true): string => {
+  const query = [
+    amount !== undefined && `amount=${amount.toFixed(2)}`,
+    vendor && `vendor=${encodeURIComponent(vendor)}`,
+  ].filter(Boolean).join('&');
+
+  const base = universal
+    ? `https://${PAYMENT_LINK_HOST}/pay/${paymentId}`
+    : `${PAYMENT_LINK_SCHEME}://pay/${paymentId}`;
+  return query ? `${base}?${query}` : base;
+};
+
+/**
+ * Read a payment from a link or a bare payment code
+ * Accepts indexwallet://pay/<id> and https://<host>/pay/<id>, with optional amount and vendor
+ * @returns null if the input isn't a payment link or code
+ */
+export const parsePaymentLink = (input: string): PaymentLink | null => {
+  const trimmed = input.trim();
+  if (!trimmed.includes('://')) {
+    const paymentId = normalizePaymentId(trimmed);
+    return paymentId ? { paymentId } : null;
+  }
+
+  let parsed: Linking.ParsedURL;
+  try {
+    parsed = Linking.parse(trimmed);
+  } catch {
+    return null;
+  }
+
+  const scheme = parsed.scheme?.toLowerCase();
+  const hostname = parsed.hostname?.toLowerCase();
+  const segments = (parsed.path || '').split('/').filter(Boolean);
+
+  // The app scheme puts "pay" in the host position
+  if (scheme === PAYMENT_LINK_SCHEME && hostname === 'pay') {
+    segments.unshift('pay');
+  } else if (
+    !(scheme === 'https' || scheme === 'http')
+    || (hostname !== PAYMENT_LINK_HOST && hostname !== `www.${PAYMENT_LINK_HOST}`)
+  ) {
+    return null;
+  }
+
+  if (segments.length !== 2 || segments[0] !== 'pay') return null;
+
+  const paymentId = normalizePaymentId(segments[1]);
+  if (!paymentId) return null;
+
+  return { paymentId, ...paymentLinkHints(parsed.queryParams || {}) };
+};
+
+/**
+ * Compare a link's hints with the request it points at
+ * @returns A warning for the payer if the link described a different payment, otherwise null
+ */
+export const paymentLinkMismatch = (
+  link: PaymentLink,
+  payment: { price_usd: number; vendor_name?: string }
+): string | null => {
+  const problems: string[] = [];
+  if (link.amount !== undefined && Math.round(link.amount * 100) !== Math.round(Number(payment.price_usd) * 100)) {
+    problems.push(`an amount of $${link.amount.toFixed(2)}`);
+  }
+  if (link.vendor && payment.vendor_name && link.vendor.toLowerCase() !== payment.vendor_name.trim().toLowerCase()) {
+    problems.push(`the vendor "${link.vendor}"`);
+  }
+  return problems.length > 0
+    ? `The link you opened showed ${problems.join(' and ')}, which doesn't match this request.`
+    : null;
+};
+
+/**
+ * A wallet to send to, as shared by its owner
+ */
+export interface RecipientLink {
+  address: string;
+  name?: string;
+}
+
+/**
+ * Wallet addresses are base58 ed25519 public keys
+ */
+export const isWalletAddress = (value: string): boolean => {
+  try {
+    return bs58.decode(value.trim()).length === 32;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Build a link a friend can scan to send to this wallet
+ */
+export const buildRecipientLink = ({ address, name }: RecipientLink): string => {
+  const base = `${PAYMENT_LINK_SCHEME}://send/${address}`;
+  return name ? `${base}?name=${encodeURIComponent(name)}` : base;
+};
+
+/**
+ * Read a recipient from a scanned link or a pasted address
+ * Accepts indexwallet://send/<address>, with an optional name
+ * @returns null if the input isn't a wallet address
+ */
+export const parseRecipient = (input: string): RecipientLink | null => {
+  const trimmed = input.trim();
+  if (!trimmed.includes('://')) {
+    return isWalletAddress(trimmed) ? { address: trimmed } : null;
+  }
+
+  let parsed: Linking.ParsedURL;
+  try {
+    parsed = Linking.parse(trimmed);
+  } catch {
+    return null;
+  }
+
+  const segments = (parsed.path || '').split('/').filter(Boolean);
+  if (parsed.scheme?.toLowerCase() !== PAYMENT_LINK_SCHEME || parsed.hostname?.toLowerCase() !== 'send' || segments.length !== 1) {
+    return null;
+  }
+  if (!isWalletAddress(segments[0])) return null;
+
+  const name = firstParam(parsed.queryParams?.name)?.trim();
+  return { address: segments[0], ...(name && { name: name.slice(0, 60) }) };
+};
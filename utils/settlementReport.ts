@@ -0,0 +1,377 @@
+// End-of-day settlement for vendors: what sold, what didn't, and whether balances agree
+import type { Activity, TransactionActivity } from '@/types/api';
+import type { PortfolioPoint } from '@/services/portfolioHistoryService';
+import { isCompletedStatus, isVoidedStatus, normalizePaymentStatus } from '@/services/paymentStateMachine';
+import {
+  formatTokenAmount,
+  fromBaseUnits,
+  getTokenDecimals,
+  hasTokenDecimals,
+  parseTokenAmount,
+  tokenAmountToNumber,
+} from '@/utils/tokenAmount';
+import type { TokenPrecision } from '@/utils/tokenAmount';
+
+export interface SettlementTokenLine {
+  symbol: string;
+  amount: number;
+}
+
+export interface SettlementSale {
+  paymentId: string;
+  at: number;  // ms
+  customer: string;
+  amountUSD: number;
+  tokens: SettlementTokenLine[];
+}
+
+export interface SettlementVoided {
+  paymentId: string;
+  at: number;  // ms
+  status: string;
+  customer: string;
+  amountUSD: number;
+}
+
+// `decimals` is null for a token whose precision never came with it; its amounts are left unrounded
+export interface SettlementTokenTotal {
+  symbol: string;
+  amount: number;
+  decimals: number | null;
+}
+
+/**
+ * Balance movement of one token over the day
+ * `expected` is what the day's activity should have changed the balance by;
+ * `difference` is what's left unexplained, null when a balance or a deposit's
+ * precision is unknown.
+ */
+export interface SettlementReconciliation {
+  symbol: string;
+  decimals: number | null;
+  opening: number | null;
+  sales: number;
+  other: number;
+  closing: number | null;
+  difference: number | null;
+}
+
+export interface SettlementReport {
+  day: string;  // YYYY-MM-DD, local time
+  start: number;  // ms
+  end: number;  // ms, exclusive
+  sales: SettlementSale[];
+  voided: SettlementVoided[];
+  tokenTotals: SettlementTokenTotal[];
+  totalUSD: number;
+  reconciliation: SettlementReconciliation[];
+  // Opening balances were rebuilt from history rather than observed
+  estimated: boolean;
+  generatedAt: number;  // ms
+}
+
+export interface SettlementInput {
+  day: Date;
+  activities: Activity[];
+  valueHistory: PortfolioPoint[];
+  // Balances now, used as the close for today
+  currentBalances: Record<string, number>;
+  // Precision of each held token by symbol, for activity that doesn't carry its own
+  tokenDecimals?: Record<string, number>;
+  now?: number;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const dayKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/**
+ * Local midnight at the start and end of the day containing `date`
+ */
+export const dayBounds = (date: Date) => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const end = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+  return { start: start.getTime(), end: end.getTime() };
+};
+
+const customerName = (activity: TransactionActivity) =>
+  activity.counterparty_username || `${activity.counterparty_address.slice(0, 8)}...`;
+
+const precisionOf = (token: TokenPrecision) => hasTokenDecimals(token) ? getTokenDecimals(token) : null;
+
+const paymentLines = (activity: TransactionActivity, tokenDecimals: Record<string, number>) =>
+  (activity.computed_payment || []).map(payment => {
+    const decimals = precisionOf({ ...payment, decimals: payment.decimals ?? tokenDecimals[payment.symbol] });
+    return {
+      symbol: payment.symbol,
+      amount: decimals === null ? payment.amount_to_pay : roundTo(payment.amount_to_pay, decimals),
+      decimals,
+    };
+  });
+
+// Balances from the last point recorded before `at`
+const balancesBefore = (points: PortfolioPoint[], at: number) => {
+  const point = points.filter(item => item.at < at).pop();
+  return point || null;
+};
+
+// Round away float noise at the token's precision, when it's known
+const roundTo = (value: number, decimals: number | null) =>
+  decimals === null ? value : tokenAmountToNumber(parseTokenAmount(value, decimals));
+
+export const buildSettlementReport = ({
+  day,
+  activities,
+  valueHistory,
+  currentBalances,
+  tokenDecimals = {},
+  now = Date.now(),
+}: SettlementInput): SettlementReport => {
+  const { start, end } = dayBounds(day);
+  const inDay = activities
+    .filter(activity => activity.created_at * 1000 >= start && activity.created_at * 1000 < end)
+    .sort((a, b) => a.created_at - b.created_at);
+
+  const sales: SettlementSale[] = [];
+  const voided: SettlementVoided[] = [];
+  const decimals: Record<string, number | null> = {};
+  // Tokens with a deposit that can't be read without its precision
+  const unreadable = new Set<string>();
+  const salesBySymbol: Record<string, number> = {};
+  const otherBySymbol: Record<string, number> = {};
+  const add = (totals: Record<string, number>, symbol: string, amount: number) => {
+    totals[symbol] = (totals[symbol] || 0) + amount;
+  };
+
+  for (const activity of inDay) {
+    if (activity.type === 'deposit') {
+      const symbol = activity.token_symbol;
+      const precision = precisionOf({ symbol, decimals: activity.token_decimals ?? tokenDecimals[symbol] });
+      decimals[symbol] = decimals[symbol] ?? precision;
+      if (precision === null) {
+        unreadable.add(symbol);
+        otherBySymbol[symbol] = otherBySymbol[symbol] || 0;
+      } else {
+        add(otherBySymbol, symbol, tokenAmountToNumber(fromBaseUnits(activity.amount_tokens_received, precision)));
+      }
+      continue;
+    }
+
+    const lines = paymentLines(activity, tokenDecimals);
+    lines.forEach(line => { decimals[line.symbol] = decimals[line.symbol] ?? line.decimals; });
+
+    if (activity.direction === 'Sent') {
+      if (isCompletedStatus(activity.status)) {
+        lines.forEach(line => add(otherBySymbol, line.symbol, -line.amount));
+      }
+      continue;
+    }
+
+    // Tokens a friend sent or a vendor refunded aren't sales, but they still change the balance
+    if (activity.kind === 'transfer' || activity.kind === 'refund') {
+      if (isCompletedStatus(activity.status)) {
+        lines.forEach(line => add(otherBySymbol, line.symbol, line.amount));
+      }
+      continue;
+    }
+
+    if (isCompletedStatus(activity.status)) {
+      sales.push({
+        paymentId: activity.payment_id,
+        at: activity.created_at * 1000,
+        customer: customerName(activity),
+        amountUSD: activity.price_usd,
+        tokens: lines.map(({ symbol, amount }) => ({ symbol, amount })),
+      });
+      lines.forEach(line => add(salesBySymbol, line.symbol, line.amount));
+    } else if (isVoidedStatus(activity.status)) {
+      voided.push({
+        paymentId: activity.payment_id,
+        at: activity.created_at * 1000,
+        status: normalizePaymentStatus(activity.status) || activity.status,
+        customer: activity.counterparty_username || '',
+        amountUSD: activity.price_usd,
+      });
+    }
+  }
+
+  const opening = balancesBefore(valueHistory, start);
+  const isToday = now >= start && now < end;
+  const closingBalances = isToday ? currentBalances : balancesBefore(valueHistory, end)?.balances || null;
+
+  const symbols = new Set([...Object.keys(salesBySymbol), ...Object.keys(otherBySymbol)]);
+  if (opening && closingBalances) {
+    // Tokens that moved without any activity we know about
+    for (const symbol of new Set([...Object.keys(opening.balances), ...Object.keys(closingBalances)])) {
+      if ((opening.balances[symbol] || 0) !== (closingBalances[symbol] || 0)) {
+        symbols.add(symbol);
+      }
+    }
+  }
+
+  const reconciliation = [...symbols].sort().map(symbol => {
+    const precision = decimals[symbol] ?? tokenDecimals[symbol] ?? null;
+    const openingAmount = opening ? opening.balances[symbol] || 0 : null;
+    const closingAmount = closingBalances ? closingBalances[symbol] || 0 : null;
+    const salesAmount = roundTo(salesBySymbol[symbol] || 0, precision);
+    const otherAmount = roundTo(otherBySymbol[symbol] || 0, precision);
+    return {
+      symbol,
+      decimals: precision,
+      opening: openingAmount,
+      sales: salesAmount,
+      other: otherAmount,
+      closing: closingAmount,
+      difference: openingAmount !== null && closingAmount !== null && !unreadable.has(symbol)
+        ? roundTo(closingAmount - openingAmount - salesAmount - otherAmount, precision)
+        : null,
+    };
+  });
+
+  return {
+    day: dayKey(day),
+    start,
+    end,
+    sales,
+    voided,
+    tokenTotals: Object.entries(salesBySymbol)
+      .map(([symbol, amount]) => ({ symbol, amount: roundTo(amount, decimals[symbol]), decimals: decimals[symbol] }))
+      .sort((a, b) => b.amount - a.amount),
+    totalUSD: sales.reduce((sum, sale) => sum + sale.amountUSD, 0),
+    reconciliation,
+    estimated: !!opening?.backfilled,
+    generatedAt: now,
+  };
+};
+
+/**
+ * Format a token amount from the report at its precision, or as is when that's unknown
+ */
+export const formatSettlementAmount = (amount: number, decimals?: number | null) =>
+  decimals === null || decimals === undefined ? String(amount) : formatTokenAmount(parseTokenAmount(amount, decimals));
+
+const formatUSD = (value: number) => Intl.NumberFormat('en-US', {
+  style: 'currency',
+  currency: 'USD',
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+}).format(value);
+
+const formatTime = (at: number) =>
+  new Date(at).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+const escapeHTML = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * A standalone HTML document for sharing or printing to PDF
+ */
+export const renderSettlementHTML = (report: SettlementReport, vendorName: string): string => {
+  const decimalsOf = (symbol: string) =>
+    report.tokenTotals.find(total => total.symbol === symbol)?.decimals
+    ?? report.reconciliation.find(line => line.symbol === symbol)?.decimals;
+  const amount = (value: number | null, symbol: string) =>
+    value === null ? '—' : formatSettlementAmount(value, decimalsOf(symbol));
+  const title = new Date(report.start).toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+  const salesRows = report.sales.map(sale => `
+    <tr>
+      <td>${formatTime(sale.at)}</td>
+      <td>${escapeHTML(sale.customer)}</td>
+      <td>${sale.tokens.map(token => `${amount(token.amount, token.symbol)} ${escapeHTML(token.symbol)}`).join('<br>')}</td>
+      <td class="num">${formatUSD(sale.amountUSD)}</td>
+    </tr>`).join('');
+
+  const voidedRows = report.voided.map(request => `
+    <tr>
+      <td>${formatTime(request.at)}</td>
+      <td>${escapeHTML(request.customer || '—')}</td>
+      <td>${escapeHTML(request.status)}</td>
+      <td class="num">${formatUSD(request.amountUSD)}</td>
+    </tr>`).join('');
+
+  const totalRows = report.tokenTotals.map(total => `
+    <tr>
+      <td>${escapeHTML(total.symbol)}</td>
+      <td class="num">${amount(total.amount, total.symbol)}</td>
+    </tr>`).join('');
+
+  const reconciliationRows = report.reconciliation.map(line => `
+    <tr${line.difference ? ' class="mismatch"' : ''}>
+      <td>${escapeHTML(line.symbol)}</td>
+      <td class="num">${amount(line.opening, line.symbol)}</td>
+      <td class="num">${amount(line.sales, line.symbol)}</td>
+      <td class="num">${amount(line.other, line.symbol)}</td>
+      <td class="num">${amount(line.closing, line.symbol)}</td>
+      <td class="num">${amount(line.difference, line.symbol)}</td>
+    </tr>`).join('');
+
+  const empty = (columns: number, text: string) => `<tr><td colspan="${columns}" class="empty">${text}</td></tr>`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Settlement ${report.day}</title>
+<style>
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #111827; margin: 32px; }
+  h1 { font-size: 22px; margin: 0; }
+  h2 { font-size: 16px; margin: 28px 0 8px; }
+  .muted { color: #6B7280; font-size: 13px; }
+  .summary { display: flex; gap: 32px; margin-top: 20px; }
+  .summary div { font-size: 13px; color: #6B7280; }
+  .summary strong { display: block; font-size: 20px; color: #111827; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #E5E7EB; vertical-align: top; }
+  th { color: #6B7280; font-weight: 600; }
+  .num { text-align: right; }
+  .empty { color: #9CA3AF; text-align: center; }
+  .mismatch td { color: #B91C1C; }
+</style>
+</head>
+<body>
+  <h1>${escapeHTML(vendorName)} — Settlement</h1>
+  <div class="muted">${title}</div>
+
+  <div class="summary">
+    <div>Sales<strong>${report.sales.length}</strong></div>
+    <div>Revenue<strong>${formatUSD(report.totalUSD)}</strong></div>
+    <div>Cancelled / expired<strong>${report.voided.length}</strong></div>
+  </div>
+
+  <h2>Completed sales</h2>
+  <table>
+    <tr><th>Time</th><th>Customer</th><th>Tokens</th><th class="num">USD</th></tr>
+    ${salesRows || empty(4, 'No sales')}
+  </table>
+
+  <h2>Totals per token</h2>
+  <table>
+    <tr><th>Token</th><th class="num">Received</th></tr>
+    ${totalRows || empty(2, 'No tokens received')}
+    <tr><th>Total USD</th><th class="num">${formatUSD(report.totalUSD)}</th></tr>
+  </table>
+
+  <h2>Cancelled and expired requests</h2>
+  <table>
+    <tr><th>Time</th><th>Customer</th><th>Status</th><th class="num">USD</th></tr>
+    ${voidedRows || empty(4, 'None')}
+  </table>
+
+  <h2>Balance reconciliation</h2>
+  <table>
+    <tr><th>Token</th><th class="num">Opening</th><th class="num">Sales</th><th class="num">Other</th><th class="num">Closing</th><th class="num">Difference</th></tr>
+    ${reconciliationRows || empty(6, 'No balance changes')}
+  </table>
+  ${report.estimated ? '<p class="muted">Opening balances were rebuilt from transaction history.</p>' : ''}
+
+  <p class="muted">Generated ${new Date(report.generatedAt).toLocaleString('en-US')}</p>
+</body>
+</html>`;
+};
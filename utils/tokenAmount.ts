@@ -0,0 +1,182 @@
+// Token amounts held as integer base units, so balances and bundles never drift
+
+/**
+ * An exact token amount
+ * `units` is the amount in the token's smallest unit, `decimals` how many of
+ * those make up one token as a power of ten
+ */
+export interface TokenAmount {
+  units: bigint;
+  decimals: number;
+}
+
+export interface FormatTokenAmountOptions {
+  // Always show at least this many decimal places (default 2, capped at the token's decimals)
+  minimumFractionDigits?: number;
+  // Round to at most this many decimal places (default the token's decimals)
+  maximumFractionDigits?: number;
+}
+
+/**
+ * Anything that says which token it is and, when the backend sent it, the token's precision
+ * Balances, payment bundle lines and history entries all carry `decimals`
+ */
+export interface TokenPrecision {
+  decimals?: number | null;
+  symbol?: string | null;
+  token_key?: string | null;
+}
+
+// Amounts are shown with at least this many decimal places, like cents
+const MIN_DISPLAY_DECIMALS = 2;
+const MAX_DECIMALS = 18;
+
+const ZERO = BigInt(0);
+const TEN = BigInt(10);
+
+const scale = (decimals: number) => TEN ** BigInt(decimals);
+
+const isValidDecimals = (decimals: unknown): decimals is number =>
+  Number.isInteger(decimals) && (decimals as number) >= 0 && (decimals as number) <= MAX_DECIMALS;
+
+/**
+ * Whether the token's precision is known
+ */
+export const hasTokenDecimals = (token: TokenPrecision): boolean => isValidDecimals(token.decimals);
+
+/**
+ * The number of decimal places of a token, as sent alongside it
+ * Token keys are "address,shard", so the precision can't be read from the key itself
+ * @throws Error if the token came without a usable precision
+ */
+export const getTokenDecimals = (token: TokenPrecision): number => {
+  if (!isValidDecimals(token.decimals)) {
+    throw new Error(`Unknown precision for token ${token.symbol || token.token_key || ''}`.trim());
+  }
+  return token.decimals;
+};
+
+/**
+ * Wrap an amount already in base units, as the backend reports balances
+ */
+export const fromBaseUnits = (units: number | string | bigint, decimals: number): TokenAmount => ({
+  units: typeof units === 'number' ? BigInt(Math.round(units)) : BigInt(units),
+  decimals,
+});
+
+/**
+ * Parse a decimal token amount ("12.5" or 12.5) into base units
+ * Digits past the token's precision are rounded half up
+ * @throws Error if the value isn't a number
+ */
+export const parseTokenAmount = (value: string | number, decimals: number): TokenAmount => {
+  // Numbers like 1e-7 stringify in exponent form
+  let text = typeof value === 'number'
+    ? (/e/i.test(String(value)) ? value.toFixed(MAX_DECIMALS + 2) : String(value))
+    : value.trim();
+
+  const negative = text.startsWith('-');
+  if (negative || text.startsWith('+')) {
+    text = text.slice(1);
+  }
+
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(text);
+  if (!match || (!match[1] && !match[2])) {
+    throw new Error(`Invalid token amount: ${value}`);
+  }
+
+  const whole = match[1] || '0';
+  const fraction = match[2] || '';
+  let units = BigInt(whole) * scale(decimals) + BigInt(fraction.slice(0, decimals).padEnd(decimals, '0') || '0');
+  if (fraction.length > decimals && Number(fraction[decimals]) >= 5) {
+    units += BigInt(1);
+  }
+
+  return { units: negative ? -units : units, decimals };
+};
+
+/**
+ * Parse a decimal amount of the given token, such as a bundle line's amount_to_pay
+ * @throws Error if the token's precision is unknown
+ */
+export const parseTokenAmountFor = (value: string | number, token: TokenPrecision): TokenAmount =>
+  parseTokenAmount(value, getTokenDecimals(token));
+
+/**
+ * Format an amount for display, without thousands separators
+ * Trailing zeros past minimumFractionDigits are trimmed
+ */
+export const formatTokenAmount = (amount: TokenAmount, options: FormatTokenAmountOptions = {}): string => {
+  const maximumFractionDigits = Math.min(options.maximumFractionDigits ?? amount.decimals, amount.decimals);
+  const minimumFractionDigits = Math.min(options.minimumFractionDigits ?? MIN_DISPLAY_DECIMALS, maximumFractionDigits);
+
+  // Round to the digits we'll show, half away from zero
+  const negative = amount.units < ZERO;
+  let units = negative ? -amount.units : amount.units;
+  const dropped = amount.decimals - maximumFractionDigits;
+  if (dropped > 0) {
+    const divisor = scale(dropped);
+    units = (units + divisor / BigInt(2)) / divisor;
+  }
+
+  const divisor = scale(maximumFractionDigits);
+  const whole = (units / divisor).toString();
+  let fraction = (units % divisor).toString().padStart(maximumFractionDigits, '0');
+  while (fraction.length > minimumFractionDigits && fraction.endsWith('0')) {
+    fraction = fraction.slice(0, -1);
+  }
+
+  const sign = negative && units !== ZERO ? '-' : '';
+  return fraction ? `${sign}${whole}.${fraction}` : `${sign}${whole}`;
+};
+
+/**
+ * Format a decimal amount of the given token, as sent in payment bundles
+ * Without a known precision the amount is shown as sent rather than rounded at a guess
+ */
+export const formatTokenValue = (
+  value: string | number,
+  token: TokenPrecision,
+  options?: FormatTokenAmountOptions
+): string => hasTokenDecimals(token)
+  ? formatTokenAmount(parseTokenAmountFor(value, token), options)
+  : String(value);
+
+/**
+ * Format an amount already in base units, such as a deposit's tokens received
+ * Without a known precision there's no telling where the decimal point goes, so a dash is shown
+ */
+export const formatBaseUnits = (units: number | string | bigint, token: TokenPrecision): string =>
+  hasTokenDecimals(token) ? formatTokenAmount(fromBaseUnits(units, getTokenDecimals(token))) : '—';
+
+/**
+ * Convert to a JavaScript number, only for estimates such as USD values
+ */
+export const tokenAmountToNumber = (amount: TokenAmount): number =>
+  Number(amount.units) / Number(scale(amount.decimals));
+
+const assertSamePrecision = (a: TokenAmount, b: TokenAmount) => {
+  if (a.decimals !== b.decimals) {
+    throw new Error(`Cannot combine token amounts with ${a.decimals} and ${b.decimals} decimals`);
+  }
+};
+
+export const addTokenAmounts = (a: TokenAmount, b: TokenAmount): TokenAmount => {
+  assertSamePrecision(a, b);
+  return { units: a.units + b.units, decimals: a.decimals };
+};
+
+export const subtractTokenAmounts = (a: TokenAmount, b: TokenAmount): TokenAmount => {
+  assertSamePrecision(a, b);
+  return { units: a.units - b.units, decimals: a.decimals };
+};
+
+/**
+ * @returns A negative number if a < b, zero if equal, positive if a > b
+ */
+export const compareTokenAmounts = (a: TokenAmount, b: TokenAmount): number => {
+  assertSamePrecision(a, b);
+  return a.units < b.units ? -1 : a.units > b.units ? 1 : 0;
+};
+
+export const isZeroTokenAmount = (amount: TokenAmount): boolean => amount.units === ZERO;
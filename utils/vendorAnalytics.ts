@@ -0,0 +1,207 @@
+// Sales figures for the vendor dashboard, computed from received payments
+import type { Activity, TransactionActivity } from '@/types/api';
+import { isCompletedStatus } from '@/services/paymentStateMachine';
+
+export type RevenuePeriod = 'daily' | 'weekly' | 'monthly';
+
+export interface RevenueBucket {
+  key: string;
+  label: string;
+  start: number;  // ms
+  revenueUSD: number;
+  sales: number;
+}
+
+/**
+ * What customers paid with one token
+ * `chargedUSD` is the part of each sale price settled in this token, split by
+ * the vendor's valuation of every token in the sale. `premiumPercent` compares
+ * it with what the vendor values the tokens at: negative means customers paid
+ * less than the vendor thinks the tokens are worth (a discount).
+ */
+export interface TokenShare {
+  symbol: string;
+  amount: number;
+  sales: number;
+  chargedUSD: number;
+  valuedUSD: number;
+  sharePercent: number;
+  premiumPercent: number | null;
+}
+
+export interface CustomerSummary {
+  address: string;
+  name: string | null;
+  purchases: number;
+  spentUSD: number;
+  lastPurchaseAt: number;  // ms
+}
+
+export interface VendorAnalytics {
+  revenue: Record<RevenuePeriod, RevenueBucket[]>;
+  tokens: TokenShare[];
+  topCustomers: CustomerSummary[];
+}
+
+// How many buckets each chart shows
+export const BUCKET_COUNTS: Record<RevenuePeriod, number> = {
+  daily: 14,
+  weekly: 12,
+  monthly: 6,
+};
+
+const TOP_CUSTOMER_COUNT = 5;
+
+/**
+ * Completed payments the vendor received, newest first
+ */
+export const completedSales = (activities: Activity[]): TransactionActivity[] =>
+  activities
+    .filter((activity): activity is TransactionActivity =>
+      activity.type === 'transaction'
+      && activity.direction === 'Received'
+      && isCompletedStatus(activity.status))
+    .sort((a, b) => b.created_at - a.created_at);
+
+// Start of the day, week (Monday) or month containing `at`, in local time
+const periodStart = (at: number, period: RevenuePeriod): Date => {
+  const date = new Date(at);
+  if (period === 'monthly') {
+    return new Date(date.getFullYear(), date.getMonth(), 1);
+  }
+  const day = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  if (period === 'weekly') {
+    day.setDate(day.getDate() - ((day.getDay() + 6) % 7));
+  }
+  return day;
+};
+
+const previousPeriod = (start: Date, period: RevenuePeriod): Date => {
+  const previous = new Date(start);
+  if (period === 'monthly') {
+    previous.setMonth(previous.getMonth() - 1);
+  } else {
+    previous.setDate(previous.getDate() - (period === 'weekly' ? 7 : 1));
+  }
+  return previous;
+};
+
+const bucketLabel = (start: Date, period: RevenuePeriod) =>
+  start.toLocaleDateString('en-US', period === 'monthly'
+    ? { month: 'short' }
+    : { month: 'numeric', day: 'numeric' });
+
+/**
+ * Revenue per day, week or month, oldest first, ending with the current one
+ */
+export const revenueBuckets = (
+  sales: TransactionActivity[],
+  period: RevenuePeriod,
+  now: number = Date.now()
+): RevenueBucket[] => {
+  const buckets: RevenueBucket[] = [];
+  let start = periodStart(now, period);
+  for (let i = 0; i < BUCKET_COUNTS[period]; i++) {
+    buckets.unshift({
+      key: start.toISOString(),
+      label: bucketLabel(start, period),
+      start: start.getTime(),
+      revenueUSD: 0,
+      sales: 0,
+    });
+    start = previousPeriod(start, period);
+  }
+
+  const byStart = new Map(buckets.map(bucket => [bucket.start, bucket]));
+  for (const sale of sales) {
+    const bucket = byStart.get(periodStart(sale.created_at * 1000, period).getTime());
+    if (bucket) {
+      bucket.revenueUSD += sale.price_usd;
+      bucket.sales += 1;
+    }
+  }
+
+  return buckets;
+};
+
+/**
+ * Which tokens customers paid with
+ * @param valuations - The vendor's USD valuation of one of each token, by symbol
+ */
+export const tokenShares = (
+  sales: TransactionActivity[],
+  valuations: Record<string, number>
+): TokenShare[] => {
+  const shares = new Map<string, Omit<TokenShare, 'sharePercent' | 'premiumPercent'>>();
+
+  for (const sale of sales) {
+    const lines = (sale.computed_payment || []).map(({ symbol, amount_to_pay: amount }) =>
+      ({ symbol, amount, valuedUSD: amount * (valuations[symbol] || 0) }));
+    const saleValuedUSD = lines.reduce((sum, line) => sum + line.valuedUSD, 0);
+    const totalAmount = lines.reduce((sum, line) => sum + line.amount, 0);
+
+    for (const line of lines) {
+      // Fall back to splitting by amount when nothing in the sale has a valuation
+      const weight = saleValuedUSD > 0
+        ? line.valuedUSD / saleValuedUSD
+        : totalAmount > 0 ? line.amount / totalAmount : 0;
+
+      const share = shares.get(line.symbol) || { symbol: line.symbol, amount: 0, sales: 0, chargedUSD: 0, valuedUSD: 0 };
+      share.amount += line.amount;
+      share.sales += 1;
+      share.chargedUSD += sale.price_usd * weight;
+      share.valuedUSD += line.valuedUSD;
+      shares.set(line.symbol, share);
+    }
+  }
+
+  const totalCharged = [...shares.values()].reduce((sum, share) => sum + share.chargedUSD, 0);
+  return [...shares.values()]
+    .map(share => ({
+      ...share,
+      sharePercent: totalCharged > 0 ? (share.chargedUSD / totalCharged) * 100 : 0,
+      premiumPercent: share.valuedUSD > 0 ? ((share.chargedUSD - share.valuedUSD) / share.valuedUSD) * 100 : null,
+    }))
+    .sort((a, b) => b.chargedUSD - a.chargedUSD);
+};
+
+/**
+ * Customers who bought more than once, most frequent first
+ */
+export const topRepeatCustomers = (sales: TransactionActivity[], count: number = TOP_CUSTOMER_COUNT): CustomerSummary[] => {
+  const customers = new Map<string, CustomerSummary>();
+
+  for (const sale of sales) {
+    const customer = customers.get(sale.counterparty_address) || {
+      address: sale.counterparty_address,
+      name: null,
+      purchases: 0,
+      spentUSD: 0,
+      lastPurchaseAt: 0,
+    };
+    customer.purchases += 1;
+    customer.spentUSD += sale.price_usd;
+    customer.name = customer.name || sale.counterparty_username || null;
+    customer.lastPurchaseAt = Math.max(customer.lastPurchaseAt, sale.created_at * 1000);
+    customers.set(sale.counterparty_address, customer);
+  }
+
+  return [...customers.values()]
+    .filter(customer => customer.purchases > 1)
+    .sort((a, b) => b.purchases - a.purchases || b.spentUSD - a.spentUSD)
+    .slice(0, count);
+};
+
+export const computeVendorAnalytics = (
+  sales: TransactionActivity[],
+  valuations: Record<string, number>,
+  now: number = Date.now()
+): VendorAnalytics => ({
+  revenue: {
+    daily: revenueBuckets(sales, 'daily', now),
+    weekly: revenueBuckets(sales, 'weekly', now),
+    monthly: revenueBuckets(sales, 'monthly', now),
+  },
+  tokens: tokenShares(sales, valuations),
+  topCustomers: topRepeatCustomers(sales),
+});